@@ -0,0 +1,67 @@
+// public/sw.js
+// Keeps the app shell (pages, scripts, styles, fonts, icons) available offline. API requests are never
+// handled here: consultations, attachments and replies always go to the network and are never cached.
+const CACHE_NAME = 'my-docta-shell-v2';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg', '/bot.jpg'];
+const BUILD_ASSET_PATTERN = /\/_next\/static\/[^"'\s)\\&<>]+/g;
+
+const isBuildAsset = (url) => url.origin === self.location.origin && url.pathname.startsWith('/_next/static/');
+
+// Scripts loaded on the first visit are fetched before this worker controls the page, so the fetch handler
+// never sees them: the shell page is read for the build assets it references and those are cached up front
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(SHELL_URLS);
+  const html = await (await cache.match('/')).text();
+  await cache.addAll([...new Set(Array.from(html.matchAll(BUILD_ASSET_PATTERN), (match) => match[0]))]);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+// The page that registered the worker sends the build assets it has loaded, which covers chunks loaded on demand
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-assets' || !Array.isArray(event.data.urls)) return;
+  const urls = event.data.urls.filter((url) => typeof url === 'string' && isBuildAsset(new URL(url, self.location.origin)));
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) =>
+    Promise.all(urls.map((url) => cache.match(url).then((cached) => cached || cache.add(url)).catch(() => undefined)))
+  ));
+});
+
+// Drops the caches of earlier versions
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheResponse = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Pages: network first so a new deploy shows at once, the cached copy (or the chat page) when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => cacheResponse(request, response))
+        .catch(() => caches.match(request).then((cached) => cached || caches.match('/')))
+    );
+    return;
+  }
+  // Build assets are content-hashed, so a cached copy is never stale
+  if (isBuildAsset(url) || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request).then((response) => cacheResponse(request, response))));
+  }
+});
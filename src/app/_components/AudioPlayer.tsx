@@ -8,7 +8,8 @@ import { PlayIcon, PauseIcon, Loader2 } from "lucide-react";
 // Removed unused 'cn' import
 
 interface AudioPlayerProps {
-    audioSrc: string; // data: URL
+    audioSrc: string; // data:, blob: or /api/attachments URL
+    autoPlay?: boolean; // Start playing once metadata has loaded (used for read-aloud replies)
 }
 
 // Helper to format time (MM:SS)
@@ -19,8 +20,9 @@ const formatTime = (time: number): string => {
     return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
 };
 
-export function AudioPlayer({ audioSrc }: AudioPlayerProps) {
+export function AudioPlayer({ audioSrc, autoPlay }: AudioPlayerProps) {
     const audioRef = useRef<HTMLAudioElement>(null);
+    const autoPlayPendingRef = useRef(!!autoPlay);
     const [isPlaying, setIsPlaying] = useState(false);
     const [currentTime, setCurrentTime] = useState(0);
     const [duration, setDuration] = useState(0);
@@ -36,6 +38,10 @@ export function AudioPlayer({ audioSrc }: AudioPlayerProps) {
                 if (isFinite(audioDuration) && audioDuration > 0) {
                     setDuration(audioDuration);
                     setIsLoadingMetadata(false);
+                    if (autoPlayPendingRef.current) {
+                        autoPlayPendingRef.current = false;
+                        audioRef.current.play().catch(error => console.warn("AudioPlayer: Auto-play was blocked:", error));
+                    }
                 } else {
                     console.warn("AudioPlayer: Metadata duration is invalid after event, setting duration to 0.");
                     setDuration(0);
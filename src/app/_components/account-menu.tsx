@@ -0,0 +1,65 @@
+// src/app/_components/account-menu.tsx
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { ClipboardList, Lock, LogOut, MessageSquare, ShieldCheck, Trash2, UserRound } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { userInitials } from "@/lib/auth/client";
+import { useAuth } from "@/contexts/auth-provider";
+import { useVault } from "@/contexts/vault-provider";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface AccountMenuProps {
+    onOpenProfile?: () => void; // Shows the patient profile panel; left out on the review queue
+    onOpenVault?: () => void; // Shows the device encryption settings
+    onSignedOut: () => void; // Clears the chat left on this device
+}
+
+export function AccountMenu({ onOpenProfile, onOpenVault, onSignedOut }: AccountMenuProps) {
+    const { t } = useI18n();
+    const { user, signOut, deleteAccount } = useAuth();
+    const vault = useVault();
+    const isOnReviewQueue = usePathname().startsWith("/review");
+    if (!user) return null;
+
+    const handleSignOut = async () => {
+        try { await signOut(); onSignedOut(); }
+        catch (error) { console.error("Sign-out failed:", error); alert(t('account.signOutFailed')); }
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(t('account.confirmDelete'))) return;
+        try { await deleteAccount(); onSignedOut(); }
+        catch (error) { console.error("Account deletion failed:", error); alert(t('account.deleteFailed')); }
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="rounded-full" aria-label={t('account.menu')}>
+                    <Avatar className="h-8 w-8"> <AvatarFallback className="text-xs font-semibold">{userInitials(user)}</AvatarFallback> </Avatar>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel className="font-normal">
+                    {user.name && <p className="text-sm font-medium truncate">{user.name}</p>}
+                    <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {onOpenProfile && <DropdownMenuItem onSelect={onOpenProfile}> <UserRound className="h-4 w-4 mr-2" /> {t('header.profile')} </DropdownMenuItem>}
+                {onOpenVault && <DropdownMenuItem onSelect={onOpenVault}> <ShieldCheck className="h-4 w-4 mr-2" /> {t('vault.menu')} </DropdownMenuItem>}
+                {vault.status === "unlocked" && <DropdownMenuItem onSelect={vault.lock}> <Lock className="h-4 w-4 mr-2" /> {t('vault.lockNow')} </DropdownMenuItem>}
+                {user.role === 'clinician' && (!isOnReviewQueue
+                    ? <DropdownMenuItem asChild><Link href="/review"> <ClipboardList className="h-4 w-4 mr-2" /> {t('queue.title')} </Link></DropdownMenuItem>
+                    : <DropdownMenuItem asChild><Link href="/"> <MessageSquare className="h-4 w-4 mr-2" /> {t('queue.openChat')} </Link></DropdownMenuItem>)}
+                <DropdownMenuItem onSelect={handleSignOut}> <LogOut className="h-4 w-4 mr-2" /> {t('account.signOut')} </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-destructive focus:text-destructive" onSelect={handleDelete}> <Trash2 className="h-4 w-4 mr-2" /> {t('account.delete')} </DropdownMenuItem>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -4,25 +4,83 @@
 import React, { useState, useRef, ChangeEvent, KeyboardEvent, useEffect, useCallback } from "react";
 import TextareaAutosize from 'react-textarea-autosize';
 import { Button } from "@/components/ui/button";
-import { FiMic, FiSend, FiPaperclip, FiCamera } from "react-icons/fi";
+import Image from "next/image";
+import { FiMic, FiSend, FiPaperclip, FiCamera, FiX, FiFileText, FiCrop } from "react-icons/fi";
+import { Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { AudioPlayer } from "./AudioPlayer";
+import { useI18n } from "@/contexts/i18n-provider";
+import { MAX_PROMPT_CHARS, MAX_TRANSCRIPT_CHARS } from "@/lib/chat-limits";
+import { attachmentKindOf, DOCUMENT_TYPES, formatBytes, IMAGE_TYPES, MAX_ATTACHMENT_BYTES, MAX_MESSAGE_ATTACHMENT_BYTES, MAX_MESSAGE_ATTACHMENTS } from "@/lib/attachments/media";
+import { ImageEdits, NO_EDITS, prepareImage } from "@/lib/images";
+import { ImageEditor } from "./image-editor";
+
+// What the paperclip offers: photos, and PDFs such as lab results and prescriptions
+const ATTACHMENT_ACCEPT = [...IMAGE_TYPES, ...DOCUMENT_TYPES].join(",");
+const IMAGE_ACCEPT = IMAGE_TYPES.join(",");
+
+// A recorded voice message, with its upload id and the transcript as edited by the patient
+export interface VoiceMessage {
+    audioBlob: Blob;
+    mimeType: string;
+    attachmentId?: string;
+    transcript?: string;
+}
+
+export interface TranscriptionResult {
+    attachmentId?: string; // Set once the upload succeeded, even if transcription then failed
+    transcript?: string;
+    error?: string;
+}
+
+interface PendingVoice extends VoiceMessage {
+    previewUrl: string;
+    status: 'transcribing' | 'ready';
+    error?: string;
+}
+
+// A photo or document in the tray, sent with the next message
+interface PendingAttachment {
+    file: File; // Photos: scaled down, re-encoded and without metadata
+    previewUrl: string;
+    original?: File; // Photos as picked, so crop and rotation can be changed again
+    edits?: ImageEdits;
+}
+
+// Null when the browser cannot decode the photo (e.g. HEIC outside Safari). Such photos are never sent as picked,
+// since that would upload their EXIF metadata, GPS position included.
+async function preparePhoto(file: File, edits: ImageEdits = NO_EDITS): Promise<File | null> {
+    try {
+        return await prepareImage(file, edits);
+    } catch (error) {
+        console.warn(`ChatInput: Could not prepare ${file.name}:`, error);
+        return null;
+    }
+}
 
 interface ChatInputProps {
-    onSendMessage: (text: string) => void;
-    onImageSelect?: (file: File) => void;
-    onSendAudio?: (audioDataUrl: string, mimeType: string) => void;
+    onSendMessage: (text: string, attachments: File[]) => void; // The text is the attachments' caption, and may be empty when there are some
+    onSendAudio?: (voice: VoiceMessage) => void;
+    // When set, recordings are transcribed and held for review instead of being sent straight away
+    onTranscribeAudio?: (audioBlob: Blob, mimeType: string) => Promise<TranscriptionResult>;
     isLoading?: boolean;
 }
 
 export function ChatInput({
     onSendMessage,
-    onImageSelect,
     onSendAudio,
+    onTranscribeAudio,
     isLoading
 }: ChatInputProps) {
+    const { t } = useI18n();
     const [inputValue, setInputValue] = useState("");
     const [isRecording, setIsRecording] = useState(false);
+    const [pendingVoice, setPendingVoice] = useState<PendingVoice | null>(null);
+    const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+    const [isPreparing, setIsPreparing] = useState(false);
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
     const imageInputRef = useRef<HTMLInputElement>(null);
+    const attachmentInputRef = useRef<HTMLInputElement>(null);
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
     const streamRef = useRef<MediaStream | null>(null);
@@ -51,22 +109,35 @@ export function ChatInput({
         const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
         audioChunksRef.current = [];
         console.log(`ChatInput: Recorded Blob MIME type: ${audioBlob.type}, Size: ${audioBlob.size}`);
-        const reader = new FileReader();
-        reader.readAsDataURL(audioBlob);
-        reader.onloadend = () => {
-            const base64data = reader.result as string;
-            if (base64data && onSendAudio) {
-                console.log(`ChatInput: Sending audio (${mimeType}), size: ${audioBlob.size} bytes`);
-                onSendAudio(base64data, mimeType);
-            } else { console.error("Failed to convert audio blob."); }
-            cleanupStream();
-        };
-        reader.onerror = (error) => { console.error("FileReader error:", error); cleanupStream(); }
-    }, [onSendAudio, cleanupStream]);
+        cleanupStream();
+        // The blob is uploaded as an attachment by the page, no data URL conversion needed
+        if (!onTranscribeAudio) { onSendAudio?.({ audioBlob, mimeType }); return; }
+
+        const previewUrl = URL.createObjectURL(audioBlob);
+        setPendingVoice({ audioBlob, mimeType, previewUrl, transcript: "", status: 'transcribing' });
+        onTranscribeAudio(audioBlob, mimeType).then(({ attachmentId, transcript, error }) => {
+            // Ignore the result if this recording was discarded in the meantime
+            setPendingVoice(prev => prev?.previewUrl === previewUrl
+                ? { ...prev, attachmentId, transcript: prev.transcript || transcript || "", status: 'ready', error }
+                : prev);
+        });
+    }, [onSendAudio, onTranscribeAudio, cleanupStream]);
+
+    // Pending voice message handlers
+    const discardPendingVoice = () => {
+        if (pendingVoice) URL.revokeObjectURL(pendingVoice.previewUrl);
+        setPendingVoice(null);
+    };
+    const handleSendPendingVoice = () => {
+        if (!pendingVoice || pendingVoice.status !== 'ready' || isLoading) return;
+        const { audioBlob, mimeType, attachmentId, transcript } = pendingVoice;
+        onSendAudio?.({ audioBlob, mimeType, attachmentId, transcript: transcript?.trim() || undefined });
+        discardPendingVoice();
+    };
 
     // Audio Recording Start Logic
     const startRecording = useCallback(async () => {
-        if (isLoading || isRecording) return;
+        if (isLoading || isRecording || pendingVoice) return;
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
             streamRef.current = stream;
@@ -89,11 +160,11 @@ export function ChatInput({
         } catch (err) {
             console.error("Error accessing microphone/starting recording:", err);
             setIsRecording(false); cleanupStream();
-            if (err instanceof Error && err.name === 'NotAllowedError') { alert('Microphone permission denied...'); }
-            else { alert('Could not start recording...'); }
+            if (err instanceof Error && err.name === 'NotAllowedError') { alert(t('input.micDenied')); }
+            else { alert(t('input.micError')); }
         }
         // No longer need eslint-disable here as dependencies are correct
-    }, [isLoading, isRecording, cleanupStream, handleRecordingStop]);
+    }, [isLoading, isRecording, pendingVoice, cleanupStream, handleRecordingStop, t]);
 
     // Audio Recording Stop Logic
     const stopRecording = useCallback(() => {
@@ -111,55 +182,163 @@ export function ChatInput({
     const handleMicTouchStart = (e: React.TouchEvent) => { e.preventDefault(); startRecording(); };
     const handleMicTouchEnd = (e: React.TouchEvent) => { e.preventDefault(); stopRecording(); };
 
+    // Attachment tray: photos are prepared first, then every file is checked against the upload limits
+    // and problems are reported together
+    const addAttachments = async (files: File[]) => {
+        const accepted: PendingAttachment[] = [];
+        const problems: string[] = [];
+        let totalBytes = pendingAttachments.reduce((total, pending) => total + pending.file.size, 0);
+        setIsPreparing(true);
+        for (const picked of files) {
+            const kind = attachmentKindOf(picked.type);
+            if (!kind) { problems.push(t('input.unsupportedFile', { name: picked.name })); continue; }
+            const file = kind === 'image' ? await preparePhoto(picked) : picked;
+            if (!file) { problems.push(t('input.photoUnreadable', { name: picked.name })); continue; }
+            if (file.size > MAX_ATTACHMENT_BYTES[kind]) {
+                problems.push(t('input.fileTooLarge', { name: file.name, size: formatBytes(file.size), limit: formatBytes(MAX_ATTACHMENT_BYTES[kind]) }));
+                continue;
+            }
+            if (pendingAttachments.length + accepted.length >= MAX_MESSAGE_ATTACHMENTS) { problems.push(t('input.tooManyFiles', { count: MAX_MESSAGE_ATTACHMENTS })); break; }
+            if (totalBytes + file.size > MAX_MESSAGE_ATTACHMENT_BYTES) { problems.push(t('input.filesTooLarge', { limit: formatBytes(MAX_MESSAGE_ATTACHMENT_BYTES) })); continue; }
+            totalBytes += file.size;
+            accepted.push({ file, previewUrl: URL.createObjectURL(file), ...(kind === 'image' && { original: picked, edits: NO_EDITS }) });
+        }
+        setIsPreparing(false);
+        if (accepted.length > 0) setPendingAttachments(prev => [...prev, ...accepted]);
+        if (problems.length > 0) alert(problems.join("\n"));
+    };
+    const removeAttachment = (index: number) => {
+        URL.revokeObjectURL(pendingAttachments[index].previewUrl);
+        setPendingAttachments(prev => prev.filter((_, i) => i !== index));
+    };
+    const applyImageEdits = async (index: number, edits: ImageEdits) => {
+        const pending = pendingAttachments[index];
+        setEditingIndex(null);
+        if (!pending?.original) return;
+        setIsPreparing(true);
+        const file = await preparePhoto(pending.original, edits);
+        setIsPreparing(false);
+        if (!file) { alert(t('imageEditor.failed')); return; } // The photo as prepared before stays in the tray
+        URL.revokeObjectURL(pending.previewUrl);
+        const previewUrl = URL.createObjectURL(file);
+        setPendingAttachments(prev => prev.map(item => (item === pending ? { ...item, file, previewUrl, edits } : item)));
+    };
+    const clearAttachments = () => {
+        pendingAttachments.forEach(pending => URL.revokeObjectURL(pending.previewUrl));
+        setPendingAttachments([]);
+    };
+
     // Text & Image Handlers
-    const handleSend = () => { if (inputValue.trim() && !isLoading) { onSendMessage(inputValue.trim()); setInputValue(""); } };
+    const canSend = inputValue.trim().length > 0 || pendingAttachments.length > 0;
+    const handleSend = () => {
+        if (!canSend || isLoading || isPreparing) return;
+        onSendMessage(inputValue.trim(), pendingAttachments.map(pending => pending.file));
+        setInputValue("");
+        clearAttachments();
+    };
     const handleInputChange = (e: ChangeEvent<HTMLTextAreaElement>) => { setInputValue(e.target.value); };
     const handleKeyPress = (e: KeyboardEvent<HTMLTextAreaElement>) => { if (e.key === "Enter" && !e.shiftKey && !isLoading) { e.preventDefault(); handleSend(); } };
     const handleCameraButtonClick = () => { if (!isLoading) imageInputRef.current?.click(); };
+    const handleAttachButtonClick = () => { if (!isLoading) attachmentInputRef.current?.click(); };
     const handleImageFileChange = (event: ChangeEvent<HTMLInputElement>) => {
-        const files = event.target.files;
-        if (files && files.length > 0) {
-            const file = files[0];
-            if (file.type.startsWith("image/")) { onImageSelect?.(file); }
-            else { alert("Please select an image file."); }
+        const files = Array.from(event.target.files ?? []);
+        if (files.length > 0) {
+            if (files.every(file => IMAGE_TYPES.includes(file.type))) { addAttachments(files); }
+            else { alert(t('input.selectImage')); }
             event.target.value = "";
         }
     };
+    const handleAttachmentFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+        addAttachments(Array.from(event.target.files ?? []));
+        event.target.value = "";
+    };
 
-    const showSendIcon = inputValue.trim().length > 0;
 
     // Component Render
     return (
         <footer className="border-t p-4 bg-background">
-            <input type="file" ref={imageInputRef} onChange={handleImageFileChange} accept="image/*" hidden disabled={isLoading} />
+            <input type="file" ref={imageInputRef} onChange={handleImageFileChange} accept={IMAGE_ACCEPT} multiple hidden disabled={isLoading} />
+            <input type="file" ref={attachmentInputRef} onChange={handleAttachmentFileChange} accept={ATTACHMENT_ACCEPT} multiple hidden disabled={isLoading} />
             <div className="container">
+                {/* Photos and documents waiting to be sent, with the text box as their caption */}
+                {(pendingAttachments.length > 0 || isPreparing) && (
+                    <div className="mb-3 flex flex-wrap gap-2">
+                        {pendingAttachments.map((pending, index) => (
+                            <div key={pending.previewUrl} className="relative h-16 w-16 overflow-hidden rounded-md border bg-muted/30" title={pending.file.name}>
+                                {pending.original ? (
+                                    <button type="button" className="h-full w-full" onClick={() => setEditingIndex(index)} disabled={isLoading || isPreparing}>
+                                        <Image src={pending.previewUrl} alt={pending.file.name} width={64} height={64} className="h-full w-full object-cover" unoptimized />
+                                        <span className="absolute bottom-0.5 left-0.5 rounded-full bg-background/80 p-0.5 text-foreground"> <FiCrop className="h-3 w-3" /> </span>
+                                        <span className="sr-only">{t('input.editImage', { name: pending.file.name })}</span>
+                                    </button>
+                                ) : (
+                                    <div className="flex h-full w-full flex-col items-center justify-center space-y-1 p-1 text-muted-foreground">
+                                        <FiFileText className="h-5 w-5 flex-shrink-0" /> <span className="w-full truncate text-center text-[10px]">{pending.file.name}</span>
+                                    </div>
+                                )}
+                                <button type="button" className="absolute right-0.5 top-0.5 rounded-full bg-background/80 p-0.5 text-foreground hover:bg-background" onClick={() => removeAttachment(index)} disabled={isLoading}>
+                                    <FiX className="h-3 w-3" /> <span className="sr-only">{t('input.removeAttachment', { name: pending.file.name })}</span>
+                                </button>
+                            </div>
+                        ))}
+                        {isPreparing && <div className="flex h-16 w-16 items-center justify-center rounded-md border bg-muted/30"> <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> </div>}
+                    </div>
+                )}
+                {editingIndex !== null && pendingAttachments[editingIndex]?.original && (
+                    <ImageEditor
+                        file={pendingAttachments[editingIndex].original!} edits={pendingAttachments[editingIndex].edits ?? NO_EDITS}
+                        onApply={(edits) => applyImageEdits(editingIndex, edits)} onCancel={() => setEditingIndex(null)}
+                    />
+                )}
+                {/* Recorded voice message, held back until the patient has checked the transcript */}
+                {pendingVoice && (
+                    <div className="mb-3 rounded-md border bg-muted/30 p-2 space-y-2">
+                        <AudioPlayer audioSrc={pendingVoice.previewUrl} />
+                        {pendingVoice.status === 'transcribing' ? (
+                            <div className="flex items-center space-x-2 text-xs text-muted-foreground px-1"> <Loader2 className="h-3 w-3 animate-spin" /> <span>{t('input.transcribing')}</span> </div>
+                        ) : (
+                            <TextareaAutosize
+                                aria-label={t('input.transcriptLabel')}
+                                placeholder={t('input.transcriptPlaceholder')}
+                                className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring resize-none"
+                                value={pendingVoice.transcript} maxRows={6} minRows={1} maxLength={MAX_TRANSCRIPT_CHARS}
+                                onChange={(e) => { const transcript = e.target.value; setPendingVoice(prev => prev && { ...prev, transcript }); }}
+                            />
+                        )}
+                        {pendingVoice.error && <p className="text-xs text-destructive px-1">{pendingVoice.error}</p>}
+                        <div className="flex justify-end space-x-2">
+                            <Button variant="ghost" size="sm" onClick={discardPendingVoice}> <FiX className="h-4 w-4 mr-1" /> {t('input.discard')} </Button>
+                            <Button size="sm" onClick={handleSendPendingVoice} disabled={isLoading || pendingVoice.status !== 'ready'}> <FiSend className="h-4 w-4 mr-1" /> {t('input.sendVoice')} </Button>
+                        </div>
+                    </div>
+                )}
                 <div className="flex items-end space-x-2">
-                    <Button variant="ghost" size="icon" className="text-muted-foreground flex-shrink-0" disabled={isLoading}>
-                        <FiPaperclip className="h-5 w-5" /> <span className="sr-only">Attach</span>
+                    <Button variant="ghost" size="icon" className="text-muted-foreground flex-shrink-0" onClick={handleAttachButtonClick} disabled={isLoading || isPreparing}>
+                        <FiPaperclip className="h-5 w-5" /> <span className="sr-only">{t('input.attach')}</span>
                     </Button>
                     <TextareaAutosize
-                        placeholder={isLoading ? "Processing..." : "Type your message..."}
+                        placeholder={isLoading ? t('input.processing') : (pendingAttachments.length > 0 ? t('input.captionPlaceholder') : t('input.placeholder'))}
                         className={cn("flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50", "flex-1 resize-none overflow-y-auto max-h-40", "min-w-0")}
-                        value={inputValue} onChange={handleInputChange} onKeyDown={handleKeyPress} disabled={isLoading} maxRows={6} minRows={1}
+                        value={inputValue} onChange={handleInputChange} onKeyDown={handleKeyPress} disabled={isLoading} maxRows={6} minRows={1} maxLength={MAX_PROMPT_CHARS}
                     />
-                    {!showSendIcon && (
-                        <Button variant="ghost" size="icon" className="text-muted-foreground flex-shrink-0" onClick={handleCameraButtonClick} disabled={isLoading}>
-                            <FiCamera className="h-5 w-5" /> <span className="sr-only">Upload Image</span>
+                    {!inputValue.trim() && (
+                        <Button variant="ghost" size="icon" className="text-muted-foreground flex-shrink-0" onClick={handleCameraButtonClick} disabled={isLoading || isPreparing}>
+                            <FiCamera className="h-5 w-5" /> <span className="sr-only">{t('input.uploadImage')}</span>
                         </Button>
                     )}
                     <Button
                         variant={isRecording ? "destructive" : "ghost"} size="icon"
-                        className={cn("touch-action-none flex-shrink-0 self-end mb-[1px]", "transform transition-all duration-150 ease-in-out", isRecording ? "scale-110" : "scale-100", !isRecording && (showSendIcon ? "text-primary hover:text-primary" : "text-muted-foreground"), isLoading && "opacity-50 cursor-not-allowed")}
-                        onClick={showSendIcon ? handleSend : undefined}
-                        onMouseDown={!showSendIcon ? handleMicMouseDown : undefined}
-                        onMouseUp={!showSendIcon ? handleMicMouseUp : undefined}
-                        onMouseLeave={!showSendIcon ? handleMicMouseUp : undefined}
-                        onTouchStart={!showSendIcon ? handleMicTouchStart : undefined}
-                        onTouchEnd={!showSendIcon ? handleMicTouchEnd : undefined}
-                        disabled={isLoading}
+                        className={cn("touch-action-none flex-shrink-0 self-end mb-[1px]", "transform transition-all duration-150 ease-in-out", isRecording ? "scale-110" : "scale-100", !isRecording && (canSend ? "text-primary hover:text-primary" : "text-muted-foreground"), isLoading && "opacity-50 cursor-not-allowed")}
+                        onClick={canSend ? handleSend : undefined}
+                        onMouseDown={!canSend ? handleMicMouseDown : undefined}
+                        onMouseUp={!canSend ? handleMicMouseUp : undefined}
+                        onMouseLeave={!canSend ? handleMicMouseUp : undefined}
+                        onTouchStart={!canSend ? handleMicTouchStart : undefined}
+                        onTouchEnd={!canSend ? handleMicTouchEnd : undefined}
+                        disabled={isLoading || (!canSend && !!pendingVoice) || (canSend && isPreparing)}
                     >
-                        {showSendIcon ? <FiSend className="h-5 w-5" /> : <FiMic className={cn("h-5 w-5", isRecording && "text-destructive-foreground")} />}
-                        <span className="sr-only">{showSendIcon ? "Send" : (isRecording ? "Stop Recording" : "Record audio")}</span>
+                        {canSend ? <FiSend className="h-5 w-5" /> : <FiMic className={cn("h-5 w-5", isRecording && "text-destructive-foreground")} />}
+                        <span className="sr-only">{canSend ? t('input.send') : (isRecording ? t('input.stopRecording') : t('input.recordAudio'))}</span>
                     </Button>
                 </div>
             </div>
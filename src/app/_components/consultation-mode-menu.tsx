@@ -0,0 +1,62 @@
+// src/app/_components/consultation-mode-menu.tsx
+"use client";
+
+import React from "react";
+import { Stethoscope } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useI18n } from "@/contexts/i18n-provider";
+import { UiMessageKey } from "@/lib/i18n";
+import { CONSULTATION_MODES, ConsultationMode } from "@/lib/prompts/modes";
+
+export const MODE_LABEL_KEYS: Record<ConsultationMode, UiMessageKey> = {
+    'general': 'mode.general',
+    'pediatric': 'mode.pediatric',
+    'mental-health': 'mode.mentalHealth',
+    'dermatology': 'mode.dermatology',
+};
+
+export const MODE_HINT_KEYS: Record<ConsultationMode, UiMessageKey> = {
+    'general': 'mode.generalHint',
+    'pediatric': 'mode.pediatricHint',
+    'mental-health': 'mode.mentalHealthHint',
+    'dermatology': 'mode.dermatologyHint',
+};
+
+interface ConsultationModeMenuProps {
+    mode: ConsultationMode;
+    onModeChange: (mode: ConsultationMode) => void;
+}
+
+// Picks the kind of consultation; sent with every /api/chat request
+export function ConsultationModeMenu({ mode, onModeChange }: ConsultationModeMenuProps) {
+    const { t } = useI18n();
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" aria-label={t('header.mode')}>
+                    <Stethoscope className="h-5 w-5" />
+                    <span className="sr-only">{t('header.mode')}</span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuLabel>{t('header.mode')}</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup value={mode} onValueChange={(value) => onModeChange(value as ConsultationMode)}>
+                    {CONSULTATION_MODES.map((option) => (
+                        <DropdownMenuRadioItem key={option} value={option}> {t(MODE_LABEL_KEYS[option])} </DropdownMenuRadioItem>
+                    ))}
+                </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
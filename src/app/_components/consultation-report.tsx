@@ -0,0 +1,71 @@
+// src/app/_components/consultation-report.tsx
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ParsedReport, REPORT_SECTIONS } from "@/lib/report";
+import { consultationText } from "@/lib/i18n";
+import { useI18n } from "@/contexts/i18n-provider";
+import { DrugWarningList } from "./drug-warning-list";
+import { MODE_LABEL_KEYS } from "./consultation-mode-menu";
+
+interface ConsultationReportProps {
+    parsedReport: ParsedReport;
+}
+
+export function ConsultationReport({ parsedReport }: ConsultationReportProps) {
+    const { report, complete, issues, raw } = parsedReport;
+    const { t } = useI18n();
+    // Headings follow the language the report was written in, not the current UI language
+    const sectionTitles = consultationText(parsedReport.locale).reportSections;
+    const sections = REPORT_SECTIONS.filter(({ key }) => {
+        const value = report[key];
+        return Array.isArray(value) ? value.length > 0 : !!value;
+    });
+
+    return (
+        <div className="space-y-3">
+            {parsedReport.mode && parsedReport.mode !== 'general' && (
+                <p className="text-xs text-muted-foreground">{t('report.mode', { mode: t(MODE_LABEL_KEYS[parsedReport.mode]) })}</p>
+            )}
+            {/* Partial/malformed report notice */}
+            {!complete && (
+                <div className="flex items-start space-x-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5 text-yellow-600" />
+                    <div>
+                        <p className="font-medium">{t('report.partial')}</p>
+                        <ul className="list-disc pl-4 text-muted-foreground"> {issues.map((issue) => <li key={issue}>{issue}</li>)} </ul>
+                    </div>
+                </div>
+            )}
+
+            {/* Section cards */}
+            <div className="grid gap-3 sm:grid-cols-2">
+                {sections.map(({ key }) => {
+                    const value = report[key]!;
+                    const isRedFlags = key === 'redFlags';
+                    return (
+                        <section key={key} className={cn("rounded-md border bg-muted/50 p-3", isRedFlags && "border-destructive/50 bg-destructive/10 sm:col-span-2")}>
+                            <h4 className={cn("text-sm font-semibold mb-1", isRedFlags && "text-destructive")}>{sectionTitles[key]}</h4>
+                            {Array.isArray(value) ? (
+                                <ul className="list-disc pl-4 text-sm space-y-0.5"> {value.map((item, index) => <li key={index}>{item}</li>)} </ul>
+                            ) : (
+                                <p className="text-sm whitespace-pre-wrap">{value}</p>
+                            )}
+                        </section>
+                    );
+                })}
+            </div>
+
+            {/* Problems with medicines in the treatment plan */}
+            {parsedReport.drugWarnings && parsedReport.drugWarnings.length > 0 && (<DrugWarningList warnings={parsedReport.drugWarnings} className="text-sm" />)}
+
+            {/* Raw fallback so nothing is lost when the report could not be parsed */}
+            {!complete && raw && (
+                <details className="rounded-md border p-3">
+                    <summary className="text-sm cursor-pointer text-muted-foreground">{t('report.original')}</summary>
+                    <pre className="text-sm whitespace-pre-wrap font-sans mt-2">{raw}</pre>
+                </details>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,41 @@
+// src/app/_components/drug-warning-list.tsx
+import React from "react";
+import { Pill } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DrugWarning } from "@/lib/drugs/types";
+import { UiMessageKey } from "@/lib/i18n";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface DrugWarningListProps {
+    warnings: DrugWarning[];
+    className?: string;
+}
+
+const KIND_KEYS: Record<DrugWarning['kind'], UiMessageKey> = {
+    allergy: 'drugs.allergy',
+    interaction: 'drugs.interaction',
+    duplicate: 'drugs.duplicate',
+    contraindication: 'drugs.contraindication',
+};
+
+export function DrugWarningList({ warnings, className }: DrugWarningListProps) {
+    const { t } = useI18n();
+    return (
+        <div role="note" className={cn("rounded-md border border-yellow-500/50 bg-yellow-500/10 p-2 text-xs text-foreground space-y-1", className)}>
+            <p className="flex items-center space-x-1 font-semibold"> <Pill className="h-4 w-4 flex-shrink-0 text-yellow-600" /> <span>{t('drugs.title')}</span> </p>
+            <ul className="space-y-1">
+                {warnings.map((warning) => (
+                    <li key={`${warning.drugId}:${warning.kind}:${warning.conflictsWith}`}>
+                        <span className={cn("font-medium", warning.severity === 'avoid' && "text-destructive")}>
+                            {warning.drug}: {warning.severity === 'avoid' ? t('drugs.avoid') : t('drugs.caution')}
+                        </span>{" "}
+                        <span className="text-muted-foreground">({t(KIND_KEYS[warning.kind], { name: warning.conflictsWith })})</span>{" "}
+                        {warning.advice}
+                        {warning.maxDailyDose && <span className="block text-muted-foreground">{t('drugs.maxDose', { dose: warning.maxDailyDose })}</span>}
+                    </li>
+                ))}
+            </ul>
+            <p className="text-muted-foreground">{t('drugs.footer')}</p>
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+// src/app/_components/emergency-banner.tsx
+import React from "react";
+import { Phone, Siren } from "lucide-react";
+import { EmergencySignal } from "@/lib/triage";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface EmergencyBannerProps {
+    emergency: EmergencySignal;
+}
+
+// Deliberately has no close button: it stays up for the rest of the consultation
+export function EmergencyBanner({ emergency }: EmergencyBannerProps) {
+    const { t } = useI18n();
+    return (
+        <div role="alert" aria-live="assertive" className="border-b border-destructive bg-destructive text-white">
+            <div className="container max-w-6xl px-4 py-3 space-y-2">
+                <div className="flex items-center space-x-2 font-semibold">
+                    <Siren className="h-5 w-5 flex-shrink-0" />
+                    <span>{t('emergency.title')}</span>
+                </div>
+                <ul className="text-sm space-y-1 pl-7">
+                    {emergency.matches.map((match) => (
+                        <li key={match.id}><span className="font-medium">{match.label}:</span> {match.advice}</li>
+                    ))}
+                </ul>
+                <div className="flex flex-wrap gap-2 pl-7">
+                    {emergency.contacts.map((contact) => (
+                        <a key={contact.number} href={`tel:${contact.number}`} className="inline-flex items-center space-x-1 rounded-md bg-white/15 px-3 py-1 text-sm font-semibold hover:bg-white/25">
+                            <Phone className="h-4 w-4" /> <span>{contact.label}: {contact.number}</span>
+                        </a>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
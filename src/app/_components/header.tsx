@@ -1,22 +1,43 @@
 // src/app/_components/header.tsx
 import React from 'react';
 // Import the Plus icon
-import { Plus } from 'lucide-react';
+import { Plus, History } from 'lucide-react';
 import { ThemeToggle } from './theme-toggle';
 import { Button } from '@/components/ui/button'; // Import Button
+import { SpeechSettingsMenu } from './speech-settings-menu';
+import { LanguageMenu } from './language-menu';
+import { ConsultationModeMenu } from './consultation-mode-menu';
+import { AccountMenu } from './account-menu';
+import { useI18n } from '@/contexts/i18n-provider';
+import { SpeechSettings } from '@/lib/speech/settings';
+import { ConsultationMode } from '@/lib/prompts/modes';
 
 // Define props for the Header, including the new session handler
 interface HeaderProps {
     onNewSession: () => void; // Function to call when the new session button is clicked
+    onToggleHistory: () => void; // Shows/hides the past consultations sidebar
+    onToggleProfile: () => void; // Shows/hides the patient profile panel
+    onToggleVault: () => void; // Shows/hides the device encryption settings
+    onSignedOut: () => void; // Called after signing out or deleting the account
+    mode: ConsultationMode;
+    onModeChange: (mode: ConsultationMode) => void;
+    speechSettings: SpeechSettings;
+    onSpeechSettingsChange: (settings: SpeechSettings) => void;
 }
 
 // Update component to accept props
-export function Header({ onNewSession }: HeaderProps) {
+export function Header({ onNewSession, onToggleHistory, onToggleProfile, onToggleVault, onSignedOut, mode, onModeChange, speechSettings, onSpeechSettingsChange }: HeaderProps) {
+    const { t } = useI18n();
     return (
         <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60"> {/* Optional: Added backdrop blur */}
             <div className="container flex h-14 items-center"> {/* Adjusted height slightly */}
                 {/* Left Side: Title/Logo */}
-                <div className="mr-4 flex">
+                <div className="mr-4 flex items-center space-x-1">
+                    {/* History Sidebar Toggle */}
+                    <Button variant="ghost" size="icon" onClick={onToggleHistory} aria-label={t('header.history')}>
+                        <History className="h-5 w-5" />
+                        <span className="sr-only">{t('header.history')}</span>
+                    </Button>
                     <span className="font-bold text-lg">MyDocta</span> {/* Adjusted size slightly */}
                 </div>
 
@@ -27,14 +48,26 @@ export function Header({ onNewSession }: HeaderProps) {
                         variant="ghost"
                         size="icon"
                         onClick={onNewSession} // Call the handler on click
-                        aria-label="New Chat Session" // Accessibility label
+                        aria-label={t('header.newSession')} // Accessibility label
                     >
                         <Plus className="h-5 w-5" /> {/* Use Plus icon */}
-                        <span className="sr-only">New Chat Session</span>
+                        <span className="sr-only">{t('header.newSession')}</span>
                     </Button>
 
+                    {/* Consultation Mode Picker */}
+                    <ConsultationModeMenu mode={mode} onModeChange={onModeChange} />
+
+                    {/* Language Picker */}
+                    <LanguageMenu />
+
+                    {/* Read-aloud Settings */}
+                    <SpeechSettingsMenu settings={speechSettings} onChange={onSpeechSettingsChange} />
+
                     {/* Theme Toggle Button */}
                     <ThemeToggle />
+
+                    {/* Account: patient profile, device encryption, sign-out and account deletion */}
+                    <AccountMenu onOpenProfile={onToggleProfile} onOpenVault={onToggleVault} onSignedOut={onSignedOut} />
                 </div>
             </div>
         </header>
@@ -0,0 +1,116 @@
+// src/app/_components/image-editor.tsx
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { Loader2, RotateCcw, RotateCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ImageCrop, ImageEdits, NO_EDITS, prepareImage, rotateBy } from "@/lib/images";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface ImageEditorProps {
+    file: File; // The photo as picked; edits always start from it, not from an earlier result
+    edits: ImageEdits;
+    onApply: (edits: ImageEdits) => void;
+    onCancel: () => void;
+}
+
+// The preview only needs to fill the dialog
+const PREVIEW_MAX_DIMENSION = 1024;
+// A drag smaller than this (as a share of the photo) is a click, which clears the crop
+const MIN_CROP = 0.03;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Rotate the photo and drag over it to crop it to the affected area
+export function ImageEditor({ file, edits, onApply, onCancel }: ImageEditorProps) {
+    const { t } = useI18n();
+    const [rotation, setRotation] = useState(edits.rotation);
+    const [crop, setCrop] = useState<ImageCrop | null>(edits.crop);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const frameRef = useRef<HTMLDivElement>(null);
+    const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+    // The preview is drawn the same way as the upload, so what is cropped here is what gets sent
+    useEffect(() => {
+        let url: string | null = null;
+        let cancelled = false;
+        setPreviewUrl(null);
+        prepareImage(file, { rotation, crop: null }, PREVIEW_MAX_DIMENSION)
+            .then(preview => { if (!cancelled) { url = URL.createObjectURL(preview); setPreviewUrl(url); } })
+            .catch(err => { console.error("Photo preview failed:", err); if (!cancelled) setError(t('imageEditor.failed')); });
+        return () => { cancelled = true; if (url) URL.revokeObjectURL(url); };
+    }, [file, rotation, t]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => { if (event.key === "Escape") onCancel(); };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [onCancel]);
+
+    const pointAt = (event: React.PointerEvent) => {
+        const bounds = frameRef.current!.getBoundingClientRect();
+        return { x: clamp((event.clientX - bounds.left) / bounds.width), y: clamp((event.clientY - bounds.top) / bounds.height) };
+    };
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragStartRef.current = pointAt(event);
+        setCrop(null);
+    };
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStartRef.current;
+        if (!start) return;
+        const point = pointAt(event);
+        setCrop({ x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width: Math.abs(point.x - start.x), height: Math.abs(point.y - start.y) });
+    };
+    const handlePointerUp = () => {
+        dragStartRef.current = null;
+        setCrop(prev => (prev && prev.width >= MIN_CROP && prev.height >= MIN_CROP ? prev : null));
+    };
+
+    // A crop is a share of the rotated photo, so turning the photo starts the crop again
+    const rotate = (degrees: 90 | -90) => { setRotation(prev => rotateBy(prev, degrees)); setCrop(null); };
+    const reset = () => { setRotation(NO_EDITS.rotation); setCrop(NO_EDITS.crop); };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" role="dialog" aria-modal="true" aria-label={t('imageEditor.title')}>
+            <div className="flex max-h-full w-full max-w-lg flex-col space-y-3 rounded-lg bg-background p-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-sm font-semibold">{t('imageEditor.title')}</h2>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onCancel}> <X className="h-4 w-4" /> <span className="sr-only">{t('imageEditor.cancel')}</span> </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">{t('imageEditor.hint')}</p>
+                <div className="flex min-h-0 flex-1 items-center justify-center">
+                    {error ? <p className="text-sm text-destructive">{error}</p>
+                        : !previewUrl ? <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                            : (
+                                <div
+                                    ref={frameRef} className="relative cursor-crosshair touch-none select-none overflow-hidden"
+                                    onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp}
+                                >
+                                    <Image src={previewUrl} alt={file.name} width={PREVIEW_MAX_DIMENSION} height={PREVIEW_MAX_DIMENSION} className="block h-auto max-h-[60vh] w-auto max-w-full" draggable={false} unoptimized />
+                                    {crop && (
+                                        <div
+                                            className="pointer-events-none absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                                            style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+                                        />
+                                    )}
+                                </div>
+                            )}
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center space-x-1">
+                        <Button variant="ghost" size="icon" onClick={() => rotate(-90)} title={t('imageEditor.rotateLeft')}> <RotateCcw className="h-4 w-4" /> <span className="sr-only">{t('imageEditor.rotateLeft')}</span> </Button>
+                        <Button variant="ghost" size="icon" onClick={() => rotate(90)} title={t('imageEditor.rotateRight')}> <RotateCw className="h-4 w-4" /> <span className="sr-only">{t('imageEditor.rotateRight')}</span> </Button>
+                        <Button variant="ghost" size="sm" onClick={reset} disabled={rotation === 0 && !crop}>{t('imageEditor.reset')}</Button>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                        <Button variant="ghost" size="sm" onClick={onCancel}>{t('imageEditor.cancel')}</Button>
+                        <Button size="sm" onClick={() => onApply({ rotation, crop })} disabled={!!error}>{t('imageEditor.apply')}</Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
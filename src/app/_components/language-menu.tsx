@@ -0,0 +1,38 @@
+// src/app/_components/language-menu.tsx
+"use client";
+
+import React from "react";
+import { Languages } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useI18n } from "@/contexts/i18n-provider";
+import { Locale, LOCALES } from "@/lib/i18n";
+
+// Switches the UI language and the language of the next consultation turns
+export function LanguageMenu() {
+    const { locale, setLocale, t } = useI18n();
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" aria-label={t('header.language')}>
+                    <Languages className="h-5 w-5" />
+                    <span className="sr-only">{t('header.language')}</span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuRadioGroup value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+                    {LOCALES.map(({ code, label }) => (
+                        <DropdownMenuRadioItem key={code} value={code} lang={code}> {label} </DropdownMenuRadioItem>
+                    ))}
+                </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
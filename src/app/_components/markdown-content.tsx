@@ -0,0 +1,121 @@
+// src/app/_components/markdown-content.tsx
+import React, { useMemo, useState } from "react";
+import { ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { MarkdownBlock, MarkdownInline, parseMarkdown, splitSections } from "@/lib/markdown";
+import { useI18n } from "@/contexts/i18n-provider";
+
+// Replies at least this long with this many titled sections are shown as collapsible sections
+const COLLAPSIBLE_MIN_CHARS = 600;
+const COLLAPSIBLE_MIN_SECTIONS = 2;
+
+interface MarkdownContentProps {
+    text: string;
+    collapsible?: boolean; // Off while a reply is still streaming, so sections don't fold as they arrive
+    className?: string;
+}
+
+const ALIGN_CLASSES = { left: "text-left", center: "text-center", right: "text-right" };
+
+// Rendered from the parsed tree, never as HTML; links were already limited to safe protocols by the parser
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+    return nodes.map((node, index) => {
+        switch (node.type) {
+            case 'text': return <React.Fragment key={index}>{node.text}</React.Fragment>;
+            case 'strong': return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+            case 'emphasis': return <em key={index}>{renderInline(node.children)}</em>;
+            case 'code': return <code key={index} className="rounded bg-background/60 px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+            case 'link': return <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="underline underline-offset-2 break-words">{renderInline(node.children)}</a>;
+            case 'break': return <br key={index} />;
+        }
+    });
+}
+
+function renderBlock(block: MarkdownBlock, index: number): React.ReactNode {
+    switch (block.type) {
+        case 'heading':
+            return <p key={index} role="heading" aria-level={block.level} className={cn("font-semibold", block.level <= 2 && "text-base")}>{renderInline(block.content)}</p>;
+        case 'paragraph':
+            return <p key={index}>{renderInline(block.content)}</p>;
+        case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                    {renderInline(item.content)}
+                    {item.children.length > 0 && <div className="mt-1 space-y-1">{item.children.map(renderBlock)}</div>}
+                </li>
+            ));
+            return block.ordered
+                ? <ol key={index} start={block.start} className="list-decimal space-y-1 pl-5">{items}</ol>
+                : <ul key={index} className="list-disc space-y-1 pl-5">{items}</ul>;
+        }
+        case 'blockquote':
+            return <blockquote key={index} className="space-y-2 border-l-2 border-border pl-3">{block.children.map(renderBlock)}</blockquote>;
+        case 'table':
+            return (
+                <div key={index} className="overflow-x-auto">
+                    <table className="w-full border-collapse text-xs">
+                        <thead>
+                            <tr>{block.header.map((cell, column) => <th key={column} className={cn("border border-border px-2 py-1 font-semibold", block.align[column] && ALIGN_CLASSES[block.align[column]!])}>{renderInline(cell)}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                            {block.rows.map((row, rowIndex) => (
+                                <tr key={rowIndex}>{row.map((cell, column) => <td key={column} className={cn("border border-border px-2 py-1 align-top", block.align[column] && ALIGN_CLASSES[block.align[column]!])}>{renderInline(cell)}</td>)}</tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        case 'code':
+            return <pre key={index} className="overflow-x-auto rounded bg-background/60 p-2 font-mono text-xs"><code>{block.text}</code></pre>;
+        case 'rule':
+            return <hr key={index} className="border-border" />;
+    }
+}
+
+// Sanitized Markdown for the assistant's replies. Long replies with several headings (diagnosis,
+// treatment plan, ...) are shown as sections that fold; the first one starts open.
+export function MarkdownContent({ text, collapsible, className }: MarkdownContentProps) {
+    const { t } = useI18n();
+    const blocks = useMemo(() => parseMarkdown(text), [text]);
+    const sections = useMemo(() => {
+        if (!collapsible || text.length < COLLAPSIBLE_MIN_CHARS) return null;
+        const split = splitSections(blocks);
+        return split.filter(section => section.title).length >= COLLAPSIBLE_MIN_SECTIONS ? split : null;
+    }, [blocks, collapsible, text.length]);
+    const titledIndexes = useMemo(() => sections?.flatMap((section, index) => (section.title ? [index] : [])) ?? [], [sections]);
+    // null until the patient folds or unfolds something: the first section is open
+    const [toggledSections, setToggledSections] = useState<Set<number> | null>(null);
+
+    if (!sections) return <div className={cn("space-y-2 break-words", className)}>{blocks.map(renderBlock)}</div>;
+
+    const openSections = toggledSections ?? new Set(titledIndexes.slice(0, 1));
+    const allOpen = titledIndexes.every(index => openSections.has(index));
+    const toggleSection = (index: number, open: boolean) => {
+        if (openSections.has(index) === open) return;
+        const next = new Set(openSections);
+        if (open) next.add(index); else next.delete(index);
+        setToggledSections(next);
+    };
+
+    return (
+        <div className={cn("space-y-2 break-words", className)}>
+            {sections.map((section, index) => section.title ? (
+                <details key={index} open={openSections.has(index)} onToggle={(event) => toggleSection(index, event.currentTarget.open)} className="group rounded-md border border-border/60">
+                    <summary className="flex cursor-pointer list-none items-center space-x-1 px-2 py-1.5 font-semibold [&::-webkit-details-marker]:hidden">
+                        <ChevronRight className="h-4 w-4 flex-shrink-0 transition-transform group-open:rotate-90" />
+                        <span>{renderInline(section.title)}</span>
+                    </summary>
+                    <div className="space-y-2 px-2 pb-2">{section.blocks.map(renderBlock)}</div>
+                </details>
+            ) : (
+                <div key={index} className="space-y-2">{section.blocks.map(renderBlock)}</div>
+            ))}
+            <div className="flex justify-end">
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setToggledSections(new Set(allOpen ? [] : titledIndexes))}>
+                    {allOpen ? t('messages.collapseAll') : t('messages.expandAll')}
+                </Button>
+            </div>
+        </div>
+    );
+}
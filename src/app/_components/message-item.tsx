@@ -1,32 +1,137 @@
 // src/app/_components/message-item.tsx
-import React from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
-import { Loader2 } from "lucide-react";
+import { Check, Clock, Copy, FileText, Loader2, Pencil, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import TextareaAutosize from "react-textarea-autosize";
 import { AudioPlayer } from "./AudioPlayer";
 import Image from "next/image"; // Import next/image
+import { attachmentUrl } from "@/lib/attachments/client";
+import { MessageAttachment } from "@/lib/attachments/types";
+import { SpeechSettings } from "@/lib/speech/settings";
+import { SpeechPlayer } from "./speech-player";
+import { useI18n } from "@/contexts/i18n-provider";
+import { useAuth } from "@/contexts/auth-provider";
+import { userInitials } from "@/lib/auth/client";
+import { DrugWarning } from "@/lib/drugs/types";
+import { DrugWarningList } from "./drug-warning-list";
+import { MarkdownContent } from "./markdown-content";
+import { markdownToPlainText } from "@/lib/markdown";
+import { Button } from "@/components/ui/button";
+import { MAX_PROMPT_CHARS } from "@/lib/chat-limits";
 
 export interface Message {
     id: string;
     text?: string;
-    imageUrl?: string;
+    imageUrl?: string; // data:/blob: URL (legacy messages and local previews while uploading)
     audioDataUrl?: string;
+    imageAttachmentId?: string; // Uploaded media, served by /api/attachments
+    audioAttachmentId?: string;
+    attachments?: MessageAttachment[]; // Photos and documents, with the text as their caption
+    transcript?: string; // Speech-to-text of the voice message, as reviewed by the patient
+    drugWarnings?: DrugWarning[]; // Suggested medicines that clash with the patient's medicines, allergies or conditions
     sender: "user" | "ai";
     timestamp?: Date;
-    status?: 'loading' | 'received' | 'error' | 'sent' | 'uploading' | 'uploaded' | 'failed';
+    status?: 'loading' | 'received' | 'error' | 'sent' | 'uploading' | 'uploaded' | 'failed' | 'queued'; // 'queued': written offline, waiting in the outbox
 }
 
 interface MessageItemProps {
     message: Message;
+    speechSettings?: SpeechSettings;
+    autoPlay?: boolean;
+    authorInitials?: string; // Initials on the patient's messages; defaults to the signed-in user's
+    // Message actions, each shown only when its handler is passed
+    onRetry?: () => void;
+    onRegenerate?: () => void;
+    onEdit?: (text: string) => void; // Resends the edited text in place of this message
+    onDelete?: () => void;
 }
 
-export function MessageItem({ message }: MessageItemProps) {
+// Small icon button for the row under a message
+function ActionButton({ label, onClick, children }: { label: string; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground" onClick={onClick} title={label}>
+            {children} <span className="sr-only">{label}</span>
+        </Button>
+    );
+}
+
+// A document attached to a message, opened in a new tab once it can be served
+function DocumentLink({ name, href }: { name: string; href?: string }) {
+    const content = <> <FileText className="h-4 w-4 flex-shrink-0" /> <span className="truncate">{name}</span> </>;
+    const className = "flex items-center space-x-2 rounded border border-border/40 bg-background/10 px-2 py-1.5";
+    return href
+        ? <a href={href} target="_blank" rel="noopener noreferrer" className={cn(className, "hover:underline")}>{content}</a>
+        : <div className={className}>{content}</div>;
+}
+
+export function MessageItem({ message, speechSettings, autoPlay, authorInitials, onRetry, onRegenerate, onEdit, onDelete }: MessageItemProps) {
+    const { t } = useI18n();
+    const { user } = useAuth();
     const isUser = message.sender === "user";
     const isLoading = message.status === 'loading';
     const isError = message.status === 'error';
     const hasText = !!message.text;
-    const hasImage = !!message.imageUrl;
-    const hasAudio = !!message.audioDataUrl;
+    const imageSrc = message.imageAttachmentId ? attachmentUrl(message.imageAttachmentId) : message.imageUrl;
+    const audioSrc = message.audioAttachmentId ? attachmentUrl(message.audioAttachmentId) : message.audioDataUrl;
+    const hasImage = !!imageSrc;
+    const attachments = (message.attachments ?? []).map(attachment => ({ ...attachment, src: attachment.attachmentId ? attachmentUrl(attachment.attachmentId) : attachment.previewUrl }));
+    const imageAttachments = attachments.filter(attachment => attachment.kind === 'image' && attachment.src);
+    const hasAttachments = attachments.length > 0;
+    const hasAudio = !!audioSrc;
+    const isUploading = message.status === 'uploading';
+    const isFailed = message.status === 'failed';
+    const isQueued = message.status === 'queued';
+    const isReceived = message.status === 'received';
+    const canReadAloud = !!speechSettings?.enabled && !isUser && hasText && isReceived;
+    const showsMarkdown = !isUser && !isError; // The assistant writes Markdown; patients' own text is shown as typed
+    const canCopy = !isUser && hasText && isReceived;
+    const spokenText = useMemo(() => (canReadAloud ? markdownToPlainText(message.text!) : ""), [canReadAloud, message.text]);
+    const [isCopied, setIsCopied] = useState(false);
+    const canEdit = !!onEdit && hasText && !hasAudio;
+    const [draft, setDraft] = useState<string | null>(null); // Text being edited, null when not editing
+    const hasActions = canCopy || !!onRetry || !!onRegenerate || canEdit || !!onDelete;
+
+    useEffect(() => {
+        if (!isCopied) return;
+        const timer = setTimeout(() => setIsCopied(false), 2000);
+        return () => clearTimeout(timer);
+    }, [isCopied]);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(message.text!);
+            setIsCopied(true);
+        } catch (error) {
+            console.error("MessageItem: Copy failed:", error);
+        }
+    };
+
+    const handleSaveEdit = () => {
+        if (!draft?.trim()) return;
+        onEdit!(draft);
+        setDraft(null);
+    };
+
+    if (draft !== null) {
+        return (
+            <div className="flex justify-end">
+                <div className="w-full max-w-[85%] sm:max-w-[75%] space-y-2 rounded-lg border bg-muted/30 p-2">
+                    <TextareaAutosize
+                        aria-label={t('messages.edit')} autoFocus
+                        className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring resize-none"
+                        value={draft} maxRows={8} minRows={2} maxLength={MAX_PROMPT_CHARS}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Escape') setDraft(null); }}
+                    />
+                    <div className="flex justify-end space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>{t('messages.cancelEdit')}</Button>
+                        <Button size="sm" onClick={handleSaveEdit} disabled={!draft.trim()}>{t('messages.saveAndResend')}</Button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
 
     return (
         <div
@@ -34,45 +139,95 @@ export function MessageItem({ message }: MessageItemProps) {
             {/* AI Avatar */}
             {!isUser && (<Avatar className="h-8 w-8 flex-shrink-0 self-end"> <AvatarImage src="/bot.jpg" alt="AI Avatar" /> <AvatarFallback>AI</AvatarFallback> </Avatar>)}
 
-            {/* Message Bubble */}
-            <div
-                className={cn(
-                    "max-w-[85%] sm:max-w-[75%]", "rounded-lg text-sm",
-                    hasAudio ? "bg-transparent p-0" : (isUser ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"),
-                    (hasText || hasImage) && !hasAudio ? "p-2 sm:p-3" : "",
-                    isLoading && !hasAudio ? "opacity-70" : "",
-                    isError ? "bg-destructive/20 border border-destructive text-destructive-foreground p-2 sm:p-3" : ""
-                )} >
-                {/* Conditional Rendering */}
-                {hasAudio && (<AudioPlayer audioSrc={message.audioDataUrl!} />)}
+            <div className={cn("flex flex-col min-w-0 max-w-[85%] sm:max-w-[75%]", isUser ? "items-end" : "items-start")}>
+                {/* Message Bubble */}
+                <div
+                    className={cn(
+                        "max-w-full", "rounded-lg text-sm",
+                        hasAudio ? "bg-transparent p-0" : (isUser ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"),
+                        (hasText || hasImage || hasAttachments) && !hasAudio ? "p-2 sm:p-3" : "",
+                        isLoading && !hasAudio ? "opacity-70" : "",
+                        isError ? "bg-destructive/20 border border-destructive text-destructive-foreground p-2 sm:p-3" : ""
+                    )} >
+                    {/* Conditional Rendering */}
+                    {hasAudio && (<AudioPlayer audioSrc={audioSrc!} />)}
+                    {hasAudio && message.transcript && (
+                        <p className="px-2 pt-1 text-xs italic text-muted-foreground whitespace-pre-wrap max-w-[280px] sm:max-w-[320px]">&ldquo;{message.transcript}&rdquo;</p>
+                    )}
 
-                {/* Use next/image */}
-                {hasImage && !hasAudio && (
-                    <div className={cn("relative w-full overflow-hidden rounded", hasText && "mb-2")}>
-                        <Image
-                            src={message.imageUrl!}
-                            alt="User upload"
-                            width={300} // Example: Provide appropriate layout width
-                            height={288} // Example: Provide appropriate layout height (based on max-h-72)
-                            className="object-contain" // Maintain aspect ratio
-                        // unoptimized={true} // Add this if optimization issues arise with data URLs
-                        />
-                    </div>
-                )}
+                    {/* Use next/image */}
+                    {hasImage && !hasAudio && (
+                        <div className={cn("relative w-full overflow-hidden rounded", hasText && "mb-2")}>
+                            <Image
+                                src={imageSrc!}
+                                alt={t('messages.userUpload')}
+                                width={300} // Example: Provide appropriate layout width
+                                height={288} // Example: Provide appropriate layout height (based on max-h-72)
+                                className="object-contain" // Maintain aspect ratio
+                                unoptimized // Health photos must not end up in the shared image optimizer cache
+                            />
+                        </div>
+                    )}
 
-                {hasText && !hasAudio && (
-                    <div className={cn("flex items-center space-x-2", isError && "text-destructive-foreground")}>
-                        <span>{message.text}</span>
-                        {isLoading && message.sender === 'ai' && <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />}
+                    {hasAttachments && (
+                        <div className={cn("space-y-1", hasText && "mb-2")}>
+                            {imageAttachments.length > 0 && (
+                                <div className={cn("grid gap-1", imageAttachments.length > 1 && "grid-cols-2")}>
+                                    {imageAttachments.map((attachment, index) => (
+                                        <Image
+                                            key={index} src={attachment.src!} alt={attachment.fileName || t('messages.userUpload')}
+                                            width={300} height={288}
+                                            className={cn("rounded", imageAttachments.length > 1 ? "aspect-square h-full w-full object-cover" : "object-contain")}
+                                            unoptimized // Health photos must not end up in the shared image optimizer cache
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                            {attachments.filter(attachment => attachment.kind === 'document').map((attachment, index) => (
+                                <DocumentLink key={index} name={attachment.fileName || t('messages.document')} href={attachment.src} />
+                            ))}
+                        </div>
+                    )}
+
+                    {hasText && !hasAudio && (
+                        <div className={cn("flex space-x-2", showsMarkdown ? "items-end" : "items-center", isError && "text-destructive-foreground")}>
+                            {showsMarkdown ? <MarkdownContent text={message.text!} collapsible={isReceived} className="min-w-0 flex-1" /> : <span>{message.text}</span>}
+                            {isLoading && message.sender === 'ai' && <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />}
+                        </div>
+                    )}
+                    {!isUser && message.drugWarnings && message.drugWarnings.length > 0 && (<DrugWarningList warnings={message.drugWarnings} className="mt-2" />)}
+                    {/* Keyed on the settings so a new voice/speed starts a fresh player; reads the reply without Markdown syntax */}
+                    {canReadAloud && (
+                        <SpeechPlayer key={`${speechSettings!.engine}:${speechSettings!.voice}:${speechSettings!.rate}`} text={spokenText} settings={speechSettings!} autoPlay={autoPlay} />
+                    )}
+                    {(isUploading || isFailed) && (
+                        <div className={cn("flex items-center space-x-1 text-xs pt-1", isFailed ? "text-destructive" : "opacity-80")}>
+                            {isUploading && <Loader2 className="h-3 w-3 animate-spin" />}
+                            <span>{isUploading ? t('messages.uploading') : t('messages.uploadFailed')}</span>
+                        </div>
+                    )}
+                    {isQueued && (
+                        <div className="flex items-center space-x-1 text-xs pt-1 opacity-80">
+                            <Clock className="h-3 w-3" /> <span>{t('messages.queued')}</span>
+                        </div>
+                    )}
+                    {!hasAudio && !hasImage && !hasText && isLoading && !isError && message.sender === 'ai' && (
+                        <div className="flex justify-center items-center p-3"> <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" /> </div>
+                    )}
+                </div>
+                {hasActions && (
+                    <div className="flex items-center pt-0.5">
+                        {onRetry && <ActionButton label={t('messages.retry')} onClick={onRetry}><RotateCcw className="h-4 w-4" /></ActionButton>}
+                        {canCopy && <ActionButton label={isCopied ? t('messages.copied') : t('messages.copy')} onClick={handleCopy}>{isCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}</ActionButton>}
+                        {onRegenerate && <ActionButton label={t('messages.regenerate')} onClick={onRegenerate}><RefreshCw className="h-4 w-4" /></ActionButton>}
+                        {canEdit && <ActionButton label={t('messages.edit')} onClick={() => setDraft(message.text!)}><Pencil className="h-4 w-4" /></ActionButton>}
+                        {onDelete && <ActionButton label={t('messages.delete')} onClick={onDelete}><Trash2 className="h-4 w-4" /></ActionButton>}
                     </div>
                 )}
-                {!hasAudio && !hasImage && !hasText && isLoading && !isError && message.sender === 'ai' && (
-                    <div className="flex justify-center items-center p-3"> <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" /> </div>
-                )}
             </div>
 
             {/* User Avatar */}
-            {isUser && (<Avatar className="h-8 w-8 flex-shrink-0 self-end"> <AvatarImage src="/user.jpeg" alt="User Avatar" /> <AvatarFallback>U</AvatarFallback> </Avatar>)}
+            {isUser && (<Avatar className="h-8 w-8 flex-shrink-0 self-end"> <AvatarFallback className="text-xs font-semibold">{authorInitials ?? (user ? userInitials(user) : "U")}</AvatarFallback> </Avatar>)}
         </div>
     );
 }
\ No newline at end of file
@@ -4,13 +4,26 @@
 import React, { useEffect, useRef } from "react";
 import { Message, MessageItem } from "./message-item";
 import { cn } from "@/lib/utils";
+import { SpeechSettings } from "@/lib/speech/settings";
+import { useI18n } from "@/contexts/i18n-provider";
+import { ConsultationMode } from "@/lib/prompts/modes";
+import { MODE_HINT_KEYS } from "./consultation-mode-menu";
 
 interface MessageListProps {
     messages: Message[];
+    speechSettings?: SpeechSettings;
+    autoPlayMessageId?: string | null; // Reply to read aloud as soon as it is shown
+    mode?: ConsultationMode; // Shapes the hint on the empty screen
+    isBusy?: boolean; // A reply is on its way: message actions are hidden until it is done
+    onRetry?: (messageId: string) => void;
+    onRegenerate?: (messageId: string) => void;
+    onEdit?: (messageId: string, text: string) => void;
+    onDelete?: (messageId: string) => void;
 }
 
-export function MessageList({ messages }: MessageListProps) {
+export function MessageList({ messages, speechSettings, autoPlayMessageId, mode, isBusy, onRetry, onRegenerate, onEdit, onDelete }: MessageListProps) {
     const scrollAreaRef = useRef<HTMLDivElement>(null);
+    const { t } = useI18n();
 
     // Scroll to bottom effect
     useEffect(() => {
@@ -36,13 +49,28 @@ export function MessageList({ messages }: MessageListProps) {
         >
             {messages.length === 0 ? (
                 // Placeholder text
-                <p className="text-center text-muted-foreground text-xl font-semibold">
-                    How are you feeling today?
-                </p>
+                <>
+                    <p className="text-center text-muted-foreground text-xl font-semibold">
+                        {t('messages.empty')}
+                    </p>
+                    {mode && <p className="mt-2 text-center text-sm text-muted-foreground">{t(MODE_HINT_KEYS[mode])}</p>}
+                </>
             ) : (
                 // Render messages with spacing
                 <div className="space-y-4">
-                    {messages.map((msg) => <MessageItem key={msg.id} message={msg} />)}
+                    {messages.map((msg, index) => {
+                        // Retry and regenerate only apply to the end of the conversation
+                        const isLast = index === messages.length - 1;
+                        return (
+                            <MessageItem
+                                key={msg.id} message={msg} speechSettings={speechSettings} autoPlay={msg.id === autoPlayMessageId}
+                                onRetry={!isBusy && isLast && msg.status === 'error' && onRetry ? () => onRetry(msg.id) : undefined}
+                                onRegenerate={!isBusy && isLast && msg.sender === 'ai' && msg.status === 'received' && onRegenerate ? () => onRegenerate(msg.id) : undefined}
+                                onEdit={!isBusy && msg.sender === 'user' && msg.status !== 'uploading' && msg.status !== 'queued' && onEdit ? (text) => onEdit(msg.id, text) : undefined}
+                                onDelete={!isBusy && onDelete ? () => onDelete(msg.id) : undefined}
+                            />
+                        );
+                    })}
                 </div>
             )}
         </div>
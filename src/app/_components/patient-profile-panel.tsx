@@ -0,0 +1,140 @@
+// src/app/_components/patient-profile-panel.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { PatientProfile, PregnancyStatus, Sex } from "@/lib/profile/types";
+import { deleteProfile, fetchProfile, saveProfile } from "@/lib/profile/client";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface PatientProfilePanelProps {
+    onClose: () => void;
+}
+
+// Form state: lists are edited as one item per line
+interface ProfileForm {
+    dateOfBirth: string;
+    sex: Sex | "";
+    pregnancy: PregnancyStatus | "";
+    conditions: string;
+    medications: string;
+    allergies: string;
+}
+
+const EMPTY_FORM: ProfileForm = { dateOfBirth: "", sex: "", pregnancy: "", conditions: "", medications: "", allergies: "" };
+
+const toForm = (profile: PatientProfile | null): ProfileForm => profile ? {
+    dateOfBirth: profile.dateOfBirth ?? "",
+    sex: profile.sex ?? "",
+    pregnancy: profile.pregnancy ?? "",
+    conditions: profile.conditions.join("\n"),
+    medications: profile.medications.join("\n"),
+    allergies: profile.allergies.join("\n"),
+} : EMPTY_FORM;
+
+const toLines = (text: string): string[] => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+const SELECT_CLASS = "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+export function PatientProfilePanel({ onClose }: PatientProfilePanelProps) {
+    const { t } = useI18n();
+    const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+    const [hasProfile, setHasProfile] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [status, setStatus] = useState<{ kind: "saved" | "error"; text: string } | null>(null);
+
+    useEffect(() => {
+        fetchProfile()
+            .then(profile => { setForm(toForm(profile)); setHasProfile(!!profile); })
+            .catch(error => { console.error("Failed to load profile:", error); setStatus({ kind: "error", text: t('profile.loadFailed') }); })
+            .finally(() => setIsLoading(false));
+    }, [t]);
+
+    const update = (changes: Partial<ProfileForm>) => { setForm(current => ({ ...current, ...changes })); setStatus(null); };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            const saved = await saveProfile({
+                dateOfBirth: form.dateOfBirth || null,
+                sex: form.sex || null,
+                pregnancy: form.sex === "male" ? null : form.pregnancy || null,
+                conditions: toLines(form.conditions),
+                medications: toLines(form.medications),
+                allergies: toLines(form.allergies),
+            });
+            setForm(toForm(saved));
+            setHasProfile(true);
+            setStatus({ kind: "saved", text: t('profile.saved') });
+        } catch (error) {
+            console.error("Failed to save profile:", error);
+            setStatus({ kind: "error", text: error instanceof Error ? error.message : t('profile.saveFailed') });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(t('profile.confirmDelete'))) return;
+        try { await deleteProfile(); setForm(EMPTY_FORM); setHasProfile(false); setStatus(null); }
+        catch (error) { console.error("Failed to delete profile:", error); alert(t('profile.deleteFailed')); }
+    };
+
+    return (
+        <aside className="absolute inset-y-0 right-0 z-40 w-80 max-w-full border-l bg-background flex flex-col min-h-0">
+            <div className="flex items-center justify-between px-4 py-3">
+                <h2 className="text-sm font-semibold text-muted-foreground">{t('profile.title')}</h2>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}> <X className="h-4 w-4" /> <span className="sr-only">{t('profile.close')}</span> </Button>
+            </div>
+            {isLoading ? (
+                <div className="flex justify-center p-4"> <Loader2 className="h-4 w-4 animate-spin" /> </div>
+            ) : (
+                <form className="flex-1 overflow-y-auto px-4 pb-4 space-y-3 text-sm" onSubmit={handleSave}>
+                    <p className="text-xs text-muted-foreground">{t('profile.description')}</p>
+                    <label className="block space-y-1">
+                        <span className="font-medium">{t('profile.dateOfBirth')}</span>
+                        <Input type="date" value={form.dateOfBirth} max={new Date().toISOString().slice(0, 10)} onChange={(e) => update({ dateOfBirth: e.target.value })} />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="font-medium">{t('profile.sex')}</span>
+                        <select className={SELECT_CLASS} value={form.sex} onChange={(e) => update({ sex: e.target.value as ProfileForm['sex'] })}>
+                            <option value="">{t('profile.notSpecified')}</option>
+                            <option value="female">{t('profile.female')}</option>
+                            <option value="male">{t('profile.male')}</option>
+                            <option value="other">{t('profile.other')}</option>
+                        </select>
+                    </label>
+                    {form.sex !== "male" && (
+                        <label className="block space-y-1">
+                            <span className="font-medium">{t('profile.pregnancy')}</span>
+                            <select className={SELECT_CLASS} value={form.pregnancy} onChange={(e) => update({ pregnancy: e.target.value as ProfileForm['pregnancy'] })}>
+                                <option value="">{t('profile.notSpecified')}</option>
+                                <option value="pregnant">{t('profile.pregnant')}</option>
+                                <option value="not-pregnant">{t('profile.notPregnant')}</option>
+                                <option value="unknown">{t('profile.pregnancyUnknown')}</option>
+                            </select>
+                        </label>
+                    )}
+                    {(["conditions", "medications", "allergies"] as const).map(field => (
+                        <label key={field} className="block space-y-1">
+                            <span className="font-medium">{t(`profile.${field}`)}</span>
+                            <Textarea value={form[field]} rows={3} placeholder={t('profile.onePerLine')} onChange={(e) => update({ [field]: e.target.value })} />
+                        </label>
+                    ))}
+                    {status && (<p className={status.kind === "error" ? "text-destructive" : "text-muted-foreground"}>{status.text}</p>)}
+                    <div className="flex items-center justify-between pt-1">
+                        <Button type="submit" size="sm" disabled={isSaving}> {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} {t('profile.save')} </Button>
+                        {hasProfile && (
+                            <Button type="button" variant="ghost" size="sm" className="text-destructive" onClick={handleDelete}> <Trash2 className="h-4 w-4 mr-1" /> {t('profile.delete')} </Button>
+                        )}
+                    </div>
+                </form>
+            )}
+        </aside>
+    );
+}
@@ -0,0 +1,58 @@
+// src/app/_components/report-export-menu.tsx
+"use client";
+
+import React from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ParsedReport } from "@/lib/report";
+import { useI18n } from "@/contexts/i18n-provider";
+import { TranscriptEntry, downloadFile, exportFileName, reportToFhirBundle, reportToMarkdown } from "@/lib/export";
+
+interface ReportExportMenuProps {
+    parsedReport: ParsedReport;
+    messages: TranscriptEntry[];
+}
+
+export function ReportExportMenu({ parsedReport, messages }: ReportExportMenuProps) {
+    const { t } = useI18n();
+    const exportMarkdown = () => {
+        const generatedAt = new Date();
+        downloadFile(reportToMarkdown({ parsedReport, messages, generatedAt }), exportFileName('md', generatedAt), 'text/markdown');
+    };
+
+    const exportPdf = async () => {
+        try {
+            const { reportToPdf } = await import("@/lib/export/pdf"); // Loaded on demand
+            const generatedAt = new Date();
+            downloadFile(reportToPdf({ parsedReport, messages, generatedAt }), exportFileName('pdf', generatedAt), 'application/pdf');
+        } catch (error) {
+            console.error("PDF export failed:", error);
+            alert(t('report.pdfFailed'));
+        }
+    };
+
+    const exportFhir = () => {
+        const generatedAt = new Date();
+        const bundle = reportToFhirBundle({ parsedReport, messages, generatedAt });
+        downloadFile(JSON.stringify(bundle, null, 2), exportFileName('fhir.json', generatedAt), 'application/fhir+json');
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm"> <Download className="h-4 w-4 mr-1" /> {t('report.export')} </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={exportPdf}> {t('report.exportPdf')} </DropdownMenuItem>
+                <DropdownMenuItem onClick={exportMarkdown}> {t('report.exportMarkdown')} </DropdownMenuItem>
+                <DropdownMenuItem onClick={exportFhir}> {t('report.exportFhir')} </DropdownMenuItem>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
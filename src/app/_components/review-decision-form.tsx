@@ -0,0 +1,120 @@
+// src/app/_components/review-decision-form.tsx
+"use client";
+
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { ConsultationReport } from "@/lib/report";
+import { ReportReview, ReviewDecisionStatus } from "@/lib/reviews/types";
+import { saveReviewDecision } from "@/lib/reviews/client";
+import { MAX_REVIEW_NOTES_LENGTH } from "@/lib/reviews/validation";
+import { UiMessageKey } from "@/lib/i18n";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface ReviewDecisionFormProps {
+    sessionId: string;
+    review: ReportReview;
+    onSaved: (review: ReportReview) => void;
+}
+
+// Form state: lists are edited as one item per line
+interface DecisionForm {
+    status: ReviewDecisionStatus;
+    notes: string;
+    mostLikelyDiagnosis: string;
+    differentialDiagnoses: string;
+    treatmentPlan: string;
+}
+
+const DECISION_KEYS: Record<ReviewDecisionStatus, UiMessageKey> = {
+    approved: 'queue.approve',
+    amended: 'queue.amend',
+    rejected: 'queue.reject',
+};
+
+// Starts from the earlier decision, or from the report itself so amending means editing what is there
+const toForm = (review: ReportReview): DecisionForm => {
+    const report: Partial<ConsultationReport> = { ...review.report.report, ...review.amendments };
+    return {
+        status: review.status === 'pending' ? 'approved' : review.status,
+        notes: review.notes ?? "",
+        mostLikelyDiagnosis: report.mostLikelyDiagnosis ?? "",
+        differentialDiagnoses: (report.differentialDiagnoses ?? []).join("\n"),
+        treatmentPlan: (report.treatmentPlan ?? []).join("\n"),
+    };
+};
+
+const toLines = (text: string): string[] => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+export function ReviewDecisionForm({ sessionId, review, onSaved }: ReviewDecisionFormProps) {
+    const { t } = useI18n();
+    const [form, setForm] = useState<DecisionForm>(() => toForm(review));
+    const [isSaving, setIsSaving] = useState(false);
+    const [status, setStatus] = useState<{ kind: "saved" | "error"; text: string } | null>(null);
+
+    const update = (changes: Partial<DecisionForm>) => { setForm(current => ({ ...current, ...changes })); setStatus(null); };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            const saved = await saveReviewDecision(sessionId, {
+                status: form.status,
+                notes: form.notes.trim() || null,
+                amendments: form.status === 'amended' ? {
+                    mostLikelyDiagnosis: form.mostLikelyDiagnosis,
+                    differentialDiagnoses: toLines(form.differentialDiagnoses),
+                    treatmentPlan: toLines(form.treatmentPlan),
+                } : null,
+            });
+            setStatus({ kind: "saved", text: t('queue.saved') });
+            onSaved(saved);
+        } catch (error) {
+            console.error("Failed to save review:", error);
+            setStatus({ kind: "error", text: t('queue.saveFailed', { message: error instanceof Error ? error.message : "Unknown error" }) });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form className="space-y-3 text-sm" onSubmit={handleSave}>
+            <div className="flex space-x-2" role="radiogroup" aria-label={t('queue.decision')}>
+                {(Object.keys(DECISION_KEYS) as ReviewDecisionStatus[]).map(decision => (
+                    <Button key={decision} type="button" size="sm" role="radio" aria-checked={form.status === decision}
+                        variant={form.status === decision ? "default" : "outline"}
+                        className={cn(form.status === decision && decision === 'rejected' && "bg-destructive hover:bg-destructive/90")}
+                        onClick={() => update({ status: decision })}>
+                        {t(DECISION_KEYS[decision])}
+                    </Button>
+                ))}
+            </div>
+            {form.status === 'amended' && (
+                <>
+                    <label className="block space-y-1">
+                        <span className="font-medium">{t('review.amendedDiagnosis')}</span>
+                        <Input value={form.mostLikelyDiagnosis} onChange={(e) => update({ mostLikelyDiagnosis: e.target.value })} />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="font-medium">{t('review.amendedDifferentials')}</span>
+                        <Textarea value={form.differentialDiagnoses} rows={3} placeholder={t('profile.onePerLine')} onChange={(e) => update({ differentialDiagnoses: e.target.value })} />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="font-medium">{t('review.amendedPlan')}</span>
+                        <Textarea value={form.treatmentPlan} rows={4} placeholder={t('profile.onePerLine')} onChange={(e) => update({ treatmentPlan: e.target.value })} />
+                    </label>
+                </>
+            )}
+            <label className="block space-y-1">
+                <span className="font-medium">{t('queue.notes')}</span>
+                {form.status === 'rejected' && <span className="text-xs text-muted-foreground"> {t('queue.notesRequired')}</span>}
+                <Textarea value={form.notes} rows={4} maxLength={MAX_REVIEW_NOTES_LENGTH} onChange={(e) => update({ notes: e.target.value })} />
+            </label>
+            {status && (<p className={status.kind === "error" ? "text-destructive" : "text-muted-foreground"}>{status.text}</p>)}
+            <Button type="submit" size="sm" disabled={isSaving}> {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} {t('queue.save')} </Button>
+        </form>
+    );
+}
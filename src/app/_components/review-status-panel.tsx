@@ -0,0 +1,94 @@
+// src/app/_components/review-status-panel.tsx
+import React, { useState } from "react";
+import { CheckCircle2, Clock, Loader2, PencilLine, Stethoscope, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ReportReview, ReviewDecisionStatus } from "@/lib/reviews/types";
+import { UiMessageKey } from "@/lib/i18n";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface ReviewStatusPanelProps {
+    review: ReportReview | null;
+    isOutdated: boolean; // The report changed after it was sent for review
+    onRequestReview: () => Promise<void>;
+}
+
+const STATUS_KEYS: Record<ReviewDecisionStatus, UiMessageKey> = {
+    approved: 'review.approved',
+    amended: 'review.amended',
+    rejected: 'review.rejected',
+};
+
+const STATUS_ICONS = { approved: CheckCircle2, amended: PencilLine, rejected: XCircle };
+
+const formatDate = (iso: string): string => new Date(iso).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+
+export function ReviewStatusPanel({ review, isOutdated, onRequestReview }: ReviewStatusPanelProps) {
+    const { t } = useI18n();
+    const [isSending, setIsSending] = useState(false);
+
+    const handleRequest = async () => {
+        setIsSending(true);
+        try { await onRequestReview(); }
+        catch (error) { console.error("Review request failed:", error); alert(t('review.requestFailed', { message: error instanceof Error ? error.message : "Unknown error" })); }
+        finally { setIsSending(false); }
+    };
+
+    const requestButton = (
+        <Button variant="outline" size="sm" onClick={handleRequest} disabled={isSending}>
+            {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Stethoscope className="h-4 w-4 mr-2" />}
+            {review ? t('review.resubmit') : t('review.request')}
+        </Button>
+    );
+
+    if (!review) {
+        return (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                <p className="text-muted-foreground">{t('review.requestHint')}</p>
+                {requestButton}
+            </div>
+        );
+    }
+
+    const { amendments } = review;
+    const StatusIcon = review.status === 'pending' ? Clock : STATUS_ICONS[review.status];
+    return (
+        <div className={cn("rounded-md border p-3 text-sm space-y-2", review.status === 'rejected' && "border-destructive/50 bg-destructive/10")}>
+            <p className="flex items-center space-x-2 font-medium">
+                <StatusIcon className={cn("h-4 w-4 flex-shrink-0", review.status === 'approved' && "text-green-600", review.status === 'rejected' && "text-destructive")} />
+                <span>{review.status === 'pending' ? t('review.pending') : t(STATUS_KEYS[review.status], { name: review.reviewerName ?? "" })}</span>
+                {review.reviewedAt && <span className="text-xs font-normal text-muted-foreground">{t('review.reviewedAt', { date: formatDate(review.reviewedAt) })}</span>}
+            </p>
+            {review.notes && (
+                <div>
+                    <h4 className="text-xs font-semibold">{t('review.notes')}</h4>
+                    <p className="whitespace-pre-wrap">{review.notes}</p>
+                </div>
+            )}
+            {amendments?.mostLikelyDiagnosis && (
+                <div>
+                    <h4 className="text-xs font-semibold">{t('review.amendedDiagnosis')}</h4>
+                    <p>{amendments.mostLikelyDiagnosis}</p>
+                </div>
+            )}
+            {amendments?.differentialDiagnoses && amendments.differentialDiagnoses.length > 0 && (
+                <div>
+                    <h4 className="text-xs font-semibold">{t('review.amendedDifferentials')}</h4>
+                    <ul className="list-disc pl-4"> {amendments.differentialDiagnoses.map((item, index) => <li key={index}>{item}</li>)} </ul>
+                </div>
+            )}
+            {amendments?.treatmentPlan && amendments.treatmentPlan.length > 0 && (
+                <div>
+                    <h4 className="text-xs font-semibold">{t('review.amendedPlan')}</h4>
+                    <ul className="list-disc pl-4"> {amendments.treatmentPlan.map((item, index) => <li key={index}>{item}</li>)} </ul>
+                </div>
+            )}
+            {isOutdated && (
+                <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-2">
+                    <p className="text-muted-foreground">{t('review.outdated')}</p>
+                    {requestButton}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,21 @@
+// src/app/_components/service-worker-registration.tsx
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js so the app opens offline. Production only: in development it would keep
+// serving bundles that have since been rebuilt.
+// Once the worker is active it is sent the build assets this page loaded, which it could not see being fetched.
+export function ServiceWorkerRegistration() {
+    useEffect(() => {
+        if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+        navigator.serviceWorker.register("/sw.js")
+            .then(() => navigator.serviceWorker.ready)
+            .then(registration => {
+                const urls = performance.getEntriesByType("resource").map(entry => entry.name).filter(url => new URL(url).pathname.startsWith("/_next/static/"));
+                registration.active?.postMessage({ type: "cache-assets", urls });
+            })
+            .catch(error => console.error("Service worker registration failed:", error));
+    }, []);
+    return null;
+}
@@ -0,0 +1,97 @@
+// src/app/_components/session-sidebar.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Check, Loader2, Pencil, Siren, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { SessionSummary } from "@/lib/sessions/types";
+import { deleteSession, fetchSessions, renameSession } from "@/lib/sessions/client";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface SessionSidebarProps {
+    currentSessionId: string | null;
+    refreshKey: number; // Bump to reload the list after the current session was saved
+    onOpenSession: (id: string) => void;
+    onSessionDeleted: (id: string) => void;
+}
+
+const formatSessionDate = (iso: string): string => {
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? "" : date.toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+};
+
+export function SessionSidebar({ currentSessionId, refreshKey, onOpenSession, onSessionDeleted }: SessionSidebarProps) {
+    const { t } = useI18n();
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editTitle, setEditTitle] = useState("");
+
+    const loadSessions = useCallback(async () => {
+        try {
+            setSessions(await fetchSessions());
+            setLoadError(null);
+        } catch (error) {
+            console.error("Failed to load sessions:", error);
+            setLoadError(error instanceof Error ? error.message : t('history.loadFailed'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [t]);
+
+    useEffect(() => { loadSessions(); }, [loadSessions, refreshKey]);
+
+    // Rename Handlers
+    const startRename = (session: SessionSummary) => { setEditingId(session.id); setEditTitle(session.title ?? session.chiefComplaint ?? ""); };
+    const cancelRename = () => { setEditingId(null); setEditTitle(""); };
+    const commitRename = async (id: string) => {
+        try { await renameSession(id, editTitle); cancelRename(); await loadSessions(); }
+        catch (error) { console.error("Rename failed:", error); alert(t('history.renameFailed')); }
+    };
+
+    const handleDelete = async (session: SessionSummary) => {
+        if (!confirm(t('history.confirmDelete', { title: session.title ?? session.chiefComplaint ?? t('history.thisConsultation') }))) return;
+        try { await deleteSession(session.id); onSessionDeleted(session.id); await loadSessions(); }
+        catch (error) { console.error("Delete failed:", error); alert(t('history.deleteFailed')); }
+    };
+
+    return (
+        <aside className="absolute inset-y-0 left-0 z-40 w-64 flex-shrink-0 border-r bg-background flex flex-col min-h-0 md:static md:bg-muted/20">
+            <h2 className="px-4 py-3 text-sm font-semibold text-muted-foreground">{t('history.title')}</h2>
+            <div className="flex-1 overflow-y-auto px-2 pb-4 space-y-1">
+                {isLoading && (<div className="flex justify-center p-4"> <Loader2 className="h-4 w-4 animate-spin" /> </div>)}
+                {!isLoading && loadError && (<p className="px-2 text-sm text-destructive">{loadError}</p>)}
+                {!isLoading && !loadError && sessions.length === 0 && (<p className="px-2 text-sm text-muted-foreground">{t('history.empty')}</p>)}
+
+                {sessions.map((session) => (
+                    <div key={session.id} className={cn("group rounded-md px-2 py-2 text-sm hover:bg-muted", session.id === currentSessionId && "bg-muted")}>
+                        {editingId === session.id ? (
+                            <form className="flex items-center space-x-1" onSubmit={(e) => { e.preventDefault(); commitRename(session.id); }}>
+                                <Input value={editTitle} onChange={(e) => setEditTitle(e.target.value)} className="h-7 text-sm" autoFocus aria-label={t('history.nameLabel')} />
+                                <Button type="submit" variant="ghost" size="icon" className="h-7 w-7"> <Check className="h-4 w-4" /> <span className="sr-only">{t('history.saveName')}</span> </Button>
+                                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={cancelRename}> <X className="h-4 w-4" /> <span className="sr-only">{t('history.cancel')}</span> </Button>
+                            </form>
+                        ) : (
+                            <div className="flex items-start">
+                                <button type="button" className="flex-1 min-w-0 text-left" onClick={() => onOpenSession(session.id)}>
+                                    <span className="flex items-center font-medium">
+                                        {session.hasEmergency && (<Siren className="h-3.5 w-3.5 mr-1 flex-shrink-0 text-destructive" aria-label={t('history.emergency')} />)}
+                                        <span className="truncate">{session.title ?? session.chiefComplaint ?? t('history.untitled')}</span>
+                                    </span>
+                                    <span className="block text-xs text-muted-foreground">{formatSessionDate(session.updatedAt)}</span>
+                                </button>
+                                <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(session)}> <Pencil className="h-3.5 w-3.5" /> <span className="sr-only">{t('history.rename')}</span> </Button>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleDelete(session)}> <Trash2 className="h-3.5 w-3.5" /> <span className="sr-only">{t('history.delete')}</span> </Button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </aside>
+    );
+}
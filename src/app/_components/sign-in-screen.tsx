@@ -0,0 +1,110 @@
+// src/app/_components/sign-in-screen.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2, MailCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { checkEmail, checkPassword, MIN_PASSWORD_LENGTH, requestMagicLink, signIn, signUp } from "@/lib/auth/client";
+import { useAuth } from "@/contexts/auth-provider";
+import { useI18n } from "@/contexts/i18n-provider";
+import { UiMessageKey } from "@/lib/i18n";
+
+type AuthMode = "signIn" | "signUp" | "magicLink";
+
+const MODE_KEYS: Record<AuthMode, UiMessageKey> = { signIn: 'auth.signIn', signUp: 'auth.signUp', magicLink: 'auth.magicLink' };
+const SUBMIT_KEYS: Record<AuthMode, UiMessageKey> = { signIn: 'auth.submitSignIn', signUp: 'auth.submitSignUp', magicLink: 'auth.submitMagicLink' };
+
+// Shown instead of the chat while signed out
+export function SignInScreen() {
+    const { t } = useI18n();
+    const { setUser } = useAuth();
+    const [mode, setMode] = useState<AuthMode>("signIn");
+    const [name, setName] = useState("");
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [sentTo, setSentTo] = useState<string | null>(null);
+
+    // The emailed link comes back with ?auth=invalid-link when it could not be used
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        if (params.get("auth") === "invalid-link") {
+            setMode("magicLink");
+            setError(t('auth.invalidLink'));
+            window.history.replaceState(null, "", window.location.pathname);
+        }
+    }, [t]);
+
+    const switchMode = (next: AuthMode) => { setMode(next); setError(null); setSentTo(null); };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const fieldError = checkEmail(email) ?? (mode === "signUp" ? checkPassword(password) : null);
+        if (fieldError) { setError(fieldError); return; }
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            if (mode === "magicLink") {
+                await requestMagicLink(email);
+                setSentTo(email.trim());
+            } else {
+                setUser(mode === "signUp" ? await signUp({ email, password, name: name.trim() || undefined }) : await signIn({ email, password }));
+            }
+        } catch (err) {
+            console.error("Sign-in failed:", err);
+            setError(err instanceof Error ? err.message : t('auth.failed'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <main className="flex flex-1 items-center justify-center p-4">
+            <div className="w-full max-w-sm space-y-4 rounded-lg border bg-background p-6 shadow-sm">
+                <div className="space-y-1 text-center">
+                    <h1 className="text-xl font-bold">{t('auth.title')}</h1>
+                    <p className="text-sm text-muted-foreground">{t('auth.subtitle')}</p>
+                </div>
+                <div className="grid grid-cols-3 gap-1 rounded-md bg-muted p-1 text-xs" role="tablist">
+                    {(Object.keys(MODE_KEYS) as AuthMode[]).map(option => (
+                        <button key={option} type="button" role="tab" aria-selected={mode === option} onClick={() => switchMode(option)}
+                            className={cn("rounded px-2 py-1.5 font-medium", mode === option ? "bg-background shadow-sm" : "text-muted-foreground hover:text-foreground")}>
+                            {t(MODE_KEYS[option])}
+                        </button>
+                    ))}
+                </div>
+                {sentTo ? (
+                    <div className="flex items-start space-x-2 rounded-md border p-3 text-sm" role="status">
+                        <MailCheck className="h-5 w-5 flex-shrink-0 text-primary" />
+                        <p>{t('auth.linkSent', { email: sentTo })}</p>
+                    </div>
+                ) : (
+                    <form className="space-y-3 text-sm" onSubmit={handleSubmit} noValidate>
+                        {mode === "signUp" && (
+                            <label className="block space-y-1">
+                                <span className="font-medium">{t('auth.name')}</span>
+                                <Input value={name} autoComplete="name" onChange={(e) => setName(e.target.value)} />
+                            </label>
+                        )}
+                        <label className="block space-y-1">
+                            <span className="font-medium">{t('auth.email')}</span>
+                            <Input type="email" value={email} autoComplete="email" required onChange={(e) => setEmail(e.target.value)} />
+                        </label>
+                        {mode !== "magicLink" && (
+                            <label className="block space-y-1">
+                                <span className="font-medium">{t('auth.password')}</span>
+                                <Input type="password" value={password} required autoComplete={mode === "signUp" ? "new-password" : "current-password"} onChange={(e) => setPassword(e.target.value)} />
+                                {mode === "signUp" && <span className="block text-xs text-muted-foreground">{t('auth.passwordHint', { count: MIN_PASSWORD_LENGTH })}</span>}
+                            </label>
+                        )}
+                        {error && <p className="text-destructive" role="alert">{error}</p>}
+                        <Button type="submit" className="w-full" disabled={isSubmitting}> {isSubmitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} {t(SUBMIT_KEYS[mode])} </Button>
+                    </form>
+                )}
+            </div>
+        </main>
+    );
+}
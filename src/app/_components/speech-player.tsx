@@ -0,0 +1,133 @@
+// src/app/_components/speech-player.tsx
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { PlayIcon, PauseIcon, Loader2, Volume2 } from "lucide-react";
+import { AudioPlayer } from "./AudioPlayer";
+import { SpeechSettings } from "@/lib/speech/settings";
+import { BrowserSpeechHandle, estimateSpeechSeconds, isBrowserSpeechSupported, speakInBrowser } from "@/lib/speech/browser";
+import { synthesizeSpeech } from "@/lib/speech/client";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface SpeechPlayerProps {
+    text: string;
+    settings: SpeechSettings;
+    autoPlay?: boolean;
+}
+
+// Same MM:SS format as AudioPlayer
+const formatTime = (time: number): string => {
+    if (isNaN(time) || !isFinite(time) || time < 0) { return "00:00"; }
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+};
+
+// Reads an AI reply aloud with the engine chosen in the speech settings
+export function SpeechPlayer({ text, settings, autoPlay }: SpeechPlayerProps) {
+    return settings.engine === 'server'
+        ? <ServerSpeechPlayer text={text} settings={settings} autoPlay={autoPlay} />
+        : <BrowserSpeechPlayer text={text} settings={settings} autoPlay={autoPlay} />;
+}
+
+// speechSynthesis has no audio file, so progress is tracked by character and the time is estimated
+function BrowserSpeechPlayer({ text, settings, autoPlay }: SpeechPlayerProps) {
+    const { t } = useI18n();
+    const [position, setPosition] = useState(0); // Character index
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [isSupported, setIsSupported] = useState(true);
+    const handleRef = useRef<BrowserSpeechHandle | null>(null);
+
+    const play = useCallback((fromChar: number) => {
+        handleRef.current?.stop();
+        setIsPlaying(true);
+        handleRef.current = speakInBrowser(text, {
+            voice: settings.voice, rate: settings.rate, fromChar,
+            onProgress: setPosition,
+            onStop: (reason, error) => {
+                handleRef.current = null;
+                setIsPlaying(false);
+                if (reason === 'ended') setPosition(0);
+                if (error) console.error("SpeechPlayer: Speech synthesis failed:", error);
+            },
+        });
+    }, [text, settings.voice, settings.rate]);
+
+    const pause = useCallback(() => {
+        handleRef.current?.stop();
+        handleRef.current = null;
+        setIsPlaying(false);
+    }, []);
+
+    // Stop reading when the reply leaves the screen; auto-play once on mount
+    useEffect(() => {
+        const supported = isBrowserSpeechSupported();
+        setIsSupported(supported);
+        if (supported && autoPlay) play(0);
+        return () => handleRef.current?.stop();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Restart from the start of the word that was dragged to
+    const handleSeekCommit = (value: number[]) => {
+        const wordStart = text.lastIndexOf(' ', value[0]) + 1;
+        setPosition(wordStart);
+        if (isPlaying) play(wordStart);
+    };
+
+    if (!isSupported) {
+        return <p className="text-xs text-muted-foreground pt-1">{t('speech.unsupported')}</p>;
+    }
+    const duration = estimateSpeechSeconds(text.length, settings.rate);
+    return (
+        <div className="flex items-center space-x-2 p-2 rounded bg-muted/30 w-full max-w-[280px] sm:max-w-[320px] mt-2">
+            <Button variant="ghost" size="icon" className="h-9 w-9 flex-shrink-0" onClick={() => (isPlaying ? pause() : play(position))}>
+                {isPlaying ? (<PauseIcon className="h-5 w-5" />) : (<PlayIcon className="h-5 w-5" />)}
+                <span className="sr-only">{isPlaying ? t('speech.pause') : t('speech.play')}</span>
+            </Button>
+            <div className="flex flex-col flex-grow justify-center min-w-0 pr-1">
+                <Slider value={[position]} max={text.length || 1} step={1} onValueChange={(value) => setPosition(value[0])} onValueCommit={handleSeekCommit} className="w-full h-2 cursor-pointer" aria-label="Reading progress" />
+                <div className="flex justify-end text-xs text-muted-foreground pt-1">
+                    <span>{formatTime(duration * position / (text.length || 1))}</span> / <span>~{formatTime(duration)}</span>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// Fetches audio from /api/speech on first play, then hands it to the regular AudioPlayer
+function ServerSpeechPlayer({ text, settings, autoPlay }: SpeechPlayerProps) {
+    const { t } = useI18n();
+    const [audioSrc, setAudioSrc] = useState<string | null>(null);
+    const [isSynthesizing, setIsSynthesizing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        setIsSynthesizing(true); setError(null);
+        try { setAudioSrc(URL.createObjectURL(await synthesizeSpeech(text, settings))); }
+        catch (loadError) {
+            console.error("SpeechPlayer: Server synthesis failed:", loadError);
+            setError(loadError instanceof Error ? loadError.message : t('speech.failed'));
+        } finally {
+            setIsSynthesizing(false);
+        }
+    }, [text, settings, t]);
+
+    useEffect(() => {
+        if (autoPlay) load();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+    useEffect(() => () => { if (audioSrc) URL.revokeObjectURL(audioSrc); }, [audioSrc]);
+
+    if (audioSrc) return <div className="mt-2"><AudioPlayer audioSrc={audioSrc} autoPlay /></div>;
+    return (
+        <div className="flex items-center space-x-2 pt-2">
+            <Button variant="ghost" size="sm" onClick={load} disabled={isSynthesizing}>
+                {isSynthesizing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Volume2 className="h-4 w-4 mr-1" />} {t('speech.listen')}
+            </Button>
+            {error && <span className="text-xs text-destructive">{error}</span>}
+        </div>
+    );
+}
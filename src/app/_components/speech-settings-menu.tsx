@@ -0,0 +1,93 @@
+// src/app/_components/speech-settings-menu.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Volume2, VolumeX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SPEECH_RATES, SpeechEngineId, SpeechSettings } from "@/lib/speech/settings";
+import { isBrowserSpeechSupported, listBrowserVoices } from "@/lib/speech/browser";
+import { fetchServerSpeechInfo, ServerSpeechInfo } from "@/lib/speech/client";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface SpeechSettingsMenuProps {
+    settings: SpeechSettings;
+    onChange: (settings: SpeechSettings) => void;
+}
+
+const DEFAULT_VOICE = "__default__"; // Radio items need a string value for "no preference"
+
+export function SpeechSettingsMenu({ settings, onChange }: SpeechSettingsMenuProps) {
+    const { t } = useI18n();
+    const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>([]);
+    const [serverInfo, setServerInfo] = useState<ServerSpeechInfo | null>(null);
+    const update = (changes: Partial<SpeechSettings>) => onChange({ ...settings, ...changes });
+
+    // Browsers load their voice list asynchronously
+    useEffect(() => {
+        if (!isBrowserSpeechSupported()) return;
+        const loadVoices = () => setBrowserVoices(listBrowserVoices());
+        loadVoices();
+        window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+        return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+    }, []);
+    useEffect(() => {
+        fetchServerSpeechInfo().then(setServerInfo).catch(error => console.warn("Could not check the server speech engine:", error));
+    }, []);
+
+    const voices = settings.engine === 'server'
+        ? (serverInfo?.voices ?? []).map(name => ({ value: name, label: name }))
+        : browserVoices.map(voice => ({ value: voice.voiceURI, label: `${voice.name} (${voice.lang})` }));
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" aria-label={t('speech.settings')}>
+                    {settings.enabled ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+                    <span className="sr-only">{t('speech.settings')}</span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64">
+                <DropdownMenuLabel>{t('speech.voiceMode')}</DropdownMenuLabel>
+                <DropdownMenuCheckboxItem checked={settings.enabled} onCheckedChange={(checked) => update({ enabled: checked })}> {t('speech.readAloud')} </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem checked={settings.autoPlay} disabled={!settings.enabled} onCheckedChange={(checked) => update({ autoPlay: checked })}> {t('speech.autoPlay')} </DropdownMenuCheckboxItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>{t('speech.engine')}</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={settings.engine} onValueChange={(engine) => update({ engine: engine as SpeechEngineId, voice: null })}>
+                    <DropdownMenuRadioItem value="browser"> {t('speech.device')} </DropdownMenuRadioItem>
+                    <DropdownMenuRadioItem value="server" disabled={!serverInfo?.available}> {t('speech.server')}{serverInfo?.name ? ` (${serverInfo.name})` : ""} </DropdownMenuRadioItem>
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuSub>
+                    <DropdownMenuSubTrigger disabled={voices.length === 0}> {t('speech.voice')} </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                        <DropdownMenuRadioGroup value={settings.voice ?? DEFAULT_VOICE} onValueChange={(voice) => update({ voice: voice === DEFAULT_VOICE ? null : voice })}>
+                            <DropdownMenuRadioItem value={DEFAULT_VOICE}> {t('speech.defaultVoice')} </DropdownMenuRadioItem>
+                            {voices.map(voice => <DropdownMenuRadioItem key={voice.value} value={voice.value}> {voice.label} </DropdownMenuRadioItem>)}
+                        </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuSub>
+                    <DropdownMenuSubTrigger> {t('speech.speed', { rate: settings.rate })} </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                        <DropdownMenuRadioGroup value={String(settings.rate)} onValueChange={(rate) => update({ rate: Number(rate) })}>
+                            {SPEECH_RATES.map(rate => <DropdownMenuRadioItem key={rate} value={String(rate)}> {rate}x </DropdownMenuRadioItem>)}
+                        </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                </DropdownMenuSub>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -12,9 +12,11 @@ import {
     DropdownMenuItem,
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"; // This import should now work
+import { useI18n } from "@/contexts/i18n-provider";
 
 export function ThemeToggle() {
     const { setTheme } = useTheme(); // Correctly destructuring only setTheme
+    const { t } = useI18n();
 
     return (
         <DropdownMenu>
@@ -22,18 +24,18 @@ export function ThemeToggle() {
                 <Button variant="ghost" size="icon">
                     <SunIcon className="h-[1.2rem] w-[1.2rem] rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
                     <MoonIcon className="absolute h-[1.2rem] w-[1.2rem] rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
-                    <span className="sr-only">Toggle theme</span>
+                    <span className="sr-only">{t('header.toggleTheme')}</span>
                 </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
                 <DropdownMenuItem onClick={() => setTheme("light")}>
-                    Light
+                    {t('theme.light')}
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setTheme("dark")}>
-                    Dark
+                    {t('theme.dark')}
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setTheme("system")}>
-                    System
+                    {t('theme.system')}
                 </DropdownMenuItem>
             </DropdownMenuContent>
         </DropdownMenu>
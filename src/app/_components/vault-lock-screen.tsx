@@ -0,0 +1,53 @@
+// src/app/_components/vault-lock-screen.tsx
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, LockKeyhole } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useVault } from "@/contexts/vault-provider";
+import { useI18n } from "@/contexts/i18n-provider";
+
+// Shown instead of the chat while the consultation kept on this device is locked
+export function VaultLockScreen() {
+    const { t } = useI18n();
+    const { unlock, erase } = useVault();
+    const [passphrase, setPassphrase] = useState("");
+    const [isUnlocking, setIsUnlocking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsUnlocking(true);
+        setError(null);
+        try {
+            if (!await unlock(passphrase)) setError(t('vault.wrongPassphrase'));
+        } catch (err) {
+            console.error("Unlock failed:", err);
+            setError(t('vault.failed', { message: err instanceof Error ? err.message : "Unknown error" }));
+        } finally {
+            setIsUnlocking(false);
+        }
+    };
+
+    const handleErase = () => { if (confirm(t('vault.confirmErase'))) erase(); };
+
+    return (
+        <main className="flex flex-1 items-center justify-center p-4">
+            <form className="w-full max-w-sm space-y-4 rounded-lg border bg-background p-6 shadow-sm text-sm" onSubmit={handleSubmit}>
+                <div className="space-y-1 text-center">
+                    <LockKeyhole className="mx-auto h-6 w-6 text-muted-foreground" />
+                    <h1 className="text-xl font-bold">{t('vault.lockedTitle')}</h1>
+                    <p className="text-muted-foreground">{t('vault.lockedSubtitle')}</p>
+                </div>
+                <label className="block space-y-1">
+                    <span className="font-medium">{t('vault.passphrase')}</span>
+                    <Input type="password" value={passphrase} autoComplete="current-password" autoFocus required onChange={(e) => setPassphrase(e.target.value)} />
+                </label>
+                {error && <p className="text-destructive" role="alert">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}> {isUnlocking && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} {t('vault.unlock')} </Button>
+                <button type="button" className="w-full text-xs text-muted-foreground underline-offset-4 hover:underline" onClick={handleErase}>{t('vault.forgot')}</button>
+            </form>
+        </main>
+    );
+}
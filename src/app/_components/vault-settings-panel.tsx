@@ -0,0 +1,93 @@
+// src/app/_components/vault-settings-panel.tsx
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Lock, ShieldCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AUTO_LOCK_MINUTES, isVaultSupported, MIN_PASSPHRASE_LENGTH } from "@/lib/vault";
+import { useVault } from "@/contexts/vault-provider";
+import { useI18n } from "@/contexts/i18n-provider";
+
+interface VaultSettingsPanelProps {
+    onClose: () => void;
+}
+
+const SELECT_CLASS = "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+export function VaultSettingsPanel({ onClose }: VaultSettingsPanelProps) {
+    const { t } = useI18n();
+    const vault = useVault();
+    const [passphrase, setPassphrase] = useState("");
+    const [confirmation, setConfirmation] = useState("");
+    const [autoLockMinutes, setAutoLockMinutes] = useState(vault.autoLockMinutes);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const isOn = vault.status === "unlocked";
+
+    const run = async (action: () => Promise<void>) => {
+        setIsWorking(true);
+        setError(null);
+        try { await action(); }
+        catch (err) { console.error("Device encryption change failed:", err); setError(t('vault.failed', { message: err instanceof Error ? err.message : "Unknown error" })); }
+        finally { setIsWorking(false); }
+    };
+
+    const handleEnable = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) { setError(t('vault.tooShort', { count: MIN_PASSPHRASE_LENGTH })); return; }
+        if (passphrase !== confirmation) { setError(t('vault.mismatch')); return; }
+        run(async () => { await vault.enable(passphrase, autoLockMinutes); setPassphrase(""); setConfirmation(""); });
+    };
+
+    const handleDisable = () => { if (confirm(t('vault.confirmDisable'))) run(vault.disable); };
+
+    const handleAutoLockChange = (minutes: number) => { setAutoLockMinutes(minutes); if (isOn) vault.setAutoLockMinutes(minutes); };
+
+    return (
+        <aside className="absolute inset-y-0 right-0 z-40 w-80 max-w-full border-l bg-background flex flex-col min-h-0">
+            <div className="flex items-center justify-between px-4 py-3">
+                <h2 className="text-sm font-semibold text-muted-foreground">{t('vault.title')}</h2>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}> <X className="h-4 w-4" /> <span className="sr-only">{t('vault.close')}</span> </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3 text-sm">
+                <p className="text-xs text-muted-foreground">{t('vault.description')}</p>
+                {!isVaultSupported() ? (
+                    <p className="text-destructive">{t('vault.unsupported')}</p>
+                ) : (
+                    <form className="space-y-3" onSubmit={handleEnable}>
+                        {isOn && <p className="flex items-center space-x-2 font-medium"> <ShieldCheck className="h-4 w-4 text-green-600" /> <span>{t('vault.on')}</span> </p>}
+                        {!isOn && (
+                            <>
+                                <label className="block space-y-1">
+                                    <span className="font-medium">{t('vault.passphrase')}</span>
+                                    <Input type="password" value={passphrase} autoComplete="new-password" onChange={(e) => { setPassphrase(e.target.value); setError(null); }} />
+                                    <span className="block text-xs text-muted-foreground">{t('vault.passphraseHint', { count: MIN_PASSPHRASE_LENGTH })}</span>
+                                </label>
+                                <label className="block space-y-1">
+                                    <span className="font-medium">{t('vault.confirmPassphrase')}</span>
+                                    <Input type="password" value={confirmation} autoComplete="new-password" onChange={(e) => { setConfirmation(e.target.value); setError(null); }} />
+                                </label>
+                            </>
+                        )}
+                        <label className="block space-y-1">
+                            <span className="font-medium">{t('vault.autoLock')}</span>
+                            <select className={SELECT_CLASS} value={autoLockMinutes} onChange={(e) => handleAutoLockChange(Number(e.target.value))}>
+                                {AUTO_LOCK_MINUTES.map(minutes => <option key={minutes} value={minutes}>{t('vault.minutes', { count: minutes })}</option>)}
+                            </select>
+                        </label>
+                        {error && <p className="text-destructive" role="alert">{error}</p>}
+                        {isOn ? (
+                            <div className="flex items-center justify-between pt-1">
+                                <Button type="button" size="sm" onClick={vault.lock}> <Lock className="h-4 w-4 mr-1" /> {t('vault.lockNow')} </Button>
+                                <Button type="button" variant="ghost" size="sm" className="text-destructive" disabled={isWorking} onClick={handleDisable}> {t('vault.disable')} </Button>
+                            </div>
+                        ) : (
+                            <Button type="submit" size="sm" disabled={isWorking}> {isWorking && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} {t('vault.enable')} </Button>
+                        )}
+                    </form>
+                )}
+            </div>
+        </aside>
+    );
+}
@@ -0,0 +1,63 @@
+// src/app/api/attachments/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { AttachmentMeta, getAttachmentStore, IMAGE_TYPES } from '@/lib/attachments';
+import { getRequestUser, isClinician, unauthorized, User } from '@/lib/auth';
+import { getSessionRepository } from '@/lib/sessions';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// The uploader can always see an attachment; clinicians can while its consultation is sent for review
+async function canView(user: User, meta: AttachmentMeta): Promise<boolean> {
+    if (meta.ownerId === user.id) return true;
+    if (!meta.sessionId || !isClinician(user)) return false;
+    return !!(await getSessionRepository().getSession(meta.sessionId))?.review;
+}
+
+// Photos are shown in place; anything else (PDFs, audio, types stored before the raster-only rule) is downloaded
+function contentDisposition(meta: AttachmentMeta): string {
+    const fileName = (meta.fileName ?? meta.id).replace(/[^\w.-]+/g, '_');
+    const disposition = meta.kind === 'image' && IMAGE_TYPES.includes(meta.mimeType) ? 'inline' : 'attachment';
+    return `${disposition}; filename="${fileName}"`;
+}
+
+// Serves the stored bytes for <img>/<audio> elements
+export async function GET(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const attachment = await getAttachmentStore().read(id);
+        if (!attachment || !await canView(user, attachment.meta)) { return NextResponse.json({ error: 'Attachment not found.' }, { status: 404 }); }
+        return new NextResponse(new Uint8Array(attachment.data), {
+            status: 200,
+            headers: {
+                'Content-Type': attachment.meta.mimeType,
+                'Content-Length': String(attachment.data.length),
+                'Cache-Control': 'private, max-age=31536000, immutable', // Attachments never change
+                'X-Content-Type-Options': 'nosniff',
+                'Content-Security-Policy': 'sandbox', // No script runs even if a file is opened directly
+                'Content-Disposition': contentDisposition(attachment.meta),
+            },
+        });
+    } catch (error) {
+        console.error(`Error reading attachment ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to read attachment.' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const meta = await getAttachmentStore().readMeta(id);
+        if (!meta || meta.ownerId !== user.id) { return NextResponse.json({ error: 'Attachment not found.' }, { status: 404 }); }
+        const deleted = await getAttachmentStore().remove(id);
+        return deleted ? new NextResponse(null, { status: 204 }) : NextResponse.json({ error: 'Attachment not found.' }, { status: 404 });
+    } catch (error) {
+        console.error(`Error deleting attachment ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to delete attachment.' }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+// src/app/api/attachments/[id]/transcript/route.ts
+import { NextResponse } from 'next/server';
+import { getAttachmentStore } from '@/lib/attachments';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { ProviderError } from '@/lib/llm';
+import { addressKeys, chatRateLimitRules, checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+import { getTranscriber } from '@/lib/transcription';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// Transcribes an uploaded voice message. The transcript is returned, not stored: the patient
+// reviews and edits it before sending, and the final text is saved on the chat message.
+export async function POST(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        // Transcription reaches the model too, so it counts against the same limits as /api/chat
+        const rateLimit = await checkRateLimit([...addressKeys(request), `user:${user.id}`], chatRateLimitRules());
+        if (!rateLimit.allowed) return tooManyRequests(rateLimit);
+        const attachment = await getAttachmentStore().read(id);
+        if (!attachment || attachment.meta.ownerId !== user.id) { return NextResponse.json({ error: 'Attachment not found.' }, { status: 404 }); }
+        if (attachment.meta.kind !== 'audio') { return NextResponse.json({ error: 'Only voice messages can be transcribed.' }, { status: 400 }); }
+
+        const transcriber = getTranscriber();
+        const transcript = await transcriber.transcribe({ data: attachment.data, mimeType: attachment.meta.mimeType });
+        console.log(`Transcribed attachment ${id} with ${transcriber.name} (${transcript.length} characters).`);
+        return NextResponse.json({ transcript }, { status: 200 });
+    } catch (error) {
+        if (error instanceof ProviderError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error(`Error transcribing attachment ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to transcribe the voice message.' }, { status: 500 });
+    }
+}
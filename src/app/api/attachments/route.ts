@@ -0,0 +1,57 @@
+// src/app/api/attachments/route.ts
+import { NextResponse } from 'next/server';
+import { checkMediaSize, checkMediaType, getAttachmentStore, isMediaKind, MAX_ATTACHMENT_BYTES } from '@/lib/attachments';
+import { getOwnedSession, isValidSessionId } from '@/lib/sessions';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+
+// Multipart framing adds a little on top of the file itself
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// Upload one image, audio or PDF file: form fields `file`, `kind` ('image' | 'audio' | 'document') and optional `sessionId`
+export async function POST(request: Request): Promise<NextResponse> {
+    // Reject oversized bodies before buffering them
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    const largestAllowed = Math.max(...Object.values(MAX_ATTACHMENT_BYTES)) + MULTIPART_OVERHEAD_BYTES;
+    if (contentLength > largestAllowed) {
+        return NextResponse.json({ error: 'Attachment is too large.' }, { status: 413 });
+    }
+
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        let formData: FormData;
+        try { formData = await request.formData(); }
+        catch { return NextResponse.json({ error: 'Expected multipart form data.' }, { status: 400 }); }
+
+        const file = formData.get('file');
+        const kind = formData.get('kind');
+        const sessionId = formData.get('sessionId');
+        if (!(file instanceof Blob)) { return NextResponse.json({ error: 'No file provided.' }, { status: 400 }); }
+        if (!isMediaKind(kind)) { return NextResponse.json({ error: "Kind must be 'image', 'audio' or 'document'." }, { status: 400 }); }
+        if (sessionId !== null && (typeof sessionId !== 'string' || !isValidSessionId(sessionId))) {
+            return NextResponse.json({ error: 'Invalid session id.' }, { status: 400 });
+        }
+        if (sessionId !== null && !await getOwnedSession(sessionId, user.id)) {
+            return NextResponse.json({ error: 'Consultation not found.' }, { status: 404 });
+        }
+
+        const mimeType = file.type || 'application/octet-stream';
+        const typeError = checkMediaType(mimeType, kind);
+        if (typeError) { return NextResponse.json({ error: typeError }, { status: 415 }); }
+        const sizeError = checkMediaSize(file.size, kind);
+        if (sizeError) { return NextResponse.json({ error: sizeError }, { status: file.size > 0 ? 413 : 400 }); }
+
+        const attachment = await getAttachmentStore().save(Buffer.from(await file.arrayBuffer()), {
+            kind,
+            mimeType,
+            fileName: file instanceof File && file.name ? file.name.slice(0, 200) : null,
+            sessionId: sessionId ?? null,
+            ownerId: user.id,
+        });
+        console.log(`Stored ${kind} attachment ${attachment.id} (${mimeType}, ${attachment.size} bytes).`);
+        return NextResponse.json({ attachment }, { status: 201 });
+    } catch (error) {
+        console.error("Error storing attachment:", error);
+        return NextResponse.json({ error: 'Failed to store attachment.' }, { status: 500 });
+    }
+}
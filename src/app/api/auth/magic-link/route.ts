@@ -0,0 +1,33 @@
+// src/app/api/auth/magic-link/route.ts
+import { NextResponse } from 'next/server';
+import { appUrl, checkEmail, getAuthRepository, getMailer, MAGIC_LINK_TTL_MS, normalizeEmail } from '@/lib/auth';
+import { addressKeys, authRateLimitRules, checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+
+// Emails a single-use sign-in link: JSON body { email }. Following it creates the account if needed.
+export async function POST(request: Request): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => null);
+        const emailError = checkEmail(body?.email);
+        if (emailError) { return NextResponse.json({ error: emailError }, { status: 400 }); }
+        const email = normalizeEmail(body.email);
+        const baseUrl = appUrl();
+        if (!baseUrl) {
+            console.error("APP_URL is not set, so sign-in links cannot be sent.");
+            return NextResponse.json({ error: 'Sign-in links are not available. Please sign in with your password.' }, { status: 503 });
+        }
+        const rateLimit = await checkRateLimit([...addressKeys(request), `email:${email}`], authRateLimitRules());
+        if (!rateLimit.allowed) return tooManyRequests(rateLimit);
+
+        const token = await getAuthRepository().createMagicLink(email);
+        const link = `${baseUrl}/api/auth/magic-link/verify?token=${encodeURIComponent(token)}`;
+        await getMailer().send({
+            to: email,
+            subject: 'Your MyDocta sign-in link',
+            text: `Follow this link to sign in to MyDocta:\n\n${link}\n\nThe link works once and expires in ${MAGIC_LINK_TTL_MS / 60000} minutes. If you did not ask for it, you can ignore this email.`,
+        });
+        return NextResponse.json({ sent: true }, { status: 200 });
+    } catch (error) {
+        console.error("Error sending sign-in link:", error);
+        return NextResponse.json({ error: 'Failed to send the sign-in link.' }, { status: 500 });
+    }
+}
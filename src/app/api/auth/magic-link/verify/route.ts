@@ -0,0 +1,23 @@
+// src/app/api/auth/magic-link/verify/route.ts
+import { NextResponse } from 'next/server';
+import { appUrl, getAuthRepository, startSession } from '@/lib/auth';
+
+// Target of the emailed link: signs the browser in and returns to the chat.
+// Unknown, used or expired links go back with ?auth=invalid-link so the sign-in screen can say so.
+export async function GET(request: Request): Promise<NextResponse> {
+    const home = `${appUrl() ?? new URL(request.url).origin}/`; // Only sends this browser back to the app
+    try {
+        const token = new URL(request.url).searchParams.get('token');
+        const repository = getAuthRepository();
+        const email = token ? await repository.consumeMagicLink(token) : null;
+        if (!email) { return NextResponse.redirect(`${home}?auth=invalid-link`, 303); }
+
+        const found = await repository.findUserByEmail(email) ?? await repository.createUser({ email, name: null, passwordHash: null });
+        const user = found && await repository.markEmailVerified(found.id);
+        if (!user) { return NextResponse.redirect(`${home}?auth=invalid-link`, 303); }
+        return startSession(NextResponse.redirect(home, 303), user);
+    } catch (error) {
+        console.error("Error verifying sign-in link:", error);
+        return NextResponse.redirect(`${home}?auth=invalid-link`, 303);
+    }
+}
@@ -0,0 +1,36 @@
+// src/app/api/auth/me/route.ts
+import { NextResponse } from 'next/server';
+import { endSession, getAuthRepository, getRequestUser, toPublicUser, unauthorized } from '@/lib/auth';
+import { getSessionRepository } from '@/lib/sessions';
+import { getAttachmentStore } from '@/lib/attachments';
+import { getProfileStore } from '@/lib/profile';
+
+// The signed-in user; 401 when signed out
+export async function GET(request: Request): Promise<NextResponse> {
+    try {
+        const user = await getRequestUser(request);
+        return user ? NextResponse.json({ user: toPublicUser(user) }, { status: 200 }) : unauthorized();
+    } catch (error) {
+        console.error("Error reading current user:", error);
+        return NextResponse.json({ error: 'Failed to load your account.' }, { status: 500 });
+    }
+}
+
+// Deletes the account and everything saved for it: consultations, photos and recordings, patient profile
+export async function DELETE(request: Request): Promise<NextResponse> {
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const sessionIds = await getSessionRepository().deleteSessionsOf(user.id);
+        const attachments = getAttachmentStore();
+        for (const sessionId of sessionIds) { await attachments.removeBySession(sessionId); }
+        await attachments.removeByOwner(user.id);
+        await getProfileStore().remove(user.id);
+        await getAuthRepository().deleteUser(user.id);
+        console.log(`Deleted account ${user.id} with ${sessionIds.length} consultation(s).`);
+        return endSession(request, new NextResponse(null, { status: 204 }));
+    } catch (error) {
+        console.error("Error deleting account:", error);
+        return NextResponse.json({ error: 'Failed to delete the account.' }, { status: 500 });
+    }
+}
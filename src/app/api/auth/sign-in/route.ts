@@ -0,0 +1,29 @@
+// src/app/api/auth/sign-in/route.ts
+import { NextResponse } from 'next/server';
+import { checkEmail, dummyPasswordHash, getAuthRepository, normalizeEmail, startSession, toPublicUser, verifyPassword } from '@/lib/auth';
+import { addressKeys, authRateLimitRules, checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+
+// Signs in with email and password: JSON body { email, password }
+export async function POST(request: Request): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => null);
+        const emailError = checkEmail(body?.email);
+        if (emailError || typeof body.password !== 'string') {
+            return NextResponse.json({ error: emailError ?? 'Enter your password.' }, { status: 400 });
+        }
+        const email = normalizeEmail(body.email);
+        const rateLimit = await checkRateLimit([...addressKeys(request), `email:${email}`], authRateLimitRules());
+        if (!rateLimit.allowed) return tooManyRequests(rateLimit);
+
+        // Unknown addresses still pay for a hash check, so timing does not reveal which emails have accounts
+        const user = await getAuthRepository().findUserByEmail(email);
+        const valid = await verifyPassword(body.password, user?.passwordHash ?? await dummyPasswordHash());
+        if (!user || !user.passwordHash || !valid) {
+            return NextResponse.json({ error: 'Incorrect email or password.' }, { status: 401 });
+        }
+        return startSession(NextResponse.json({ user: toPublicUser(user) }, { status: 200 }), user);
+    } catch (error) {
+        console.error("Error signing in:", error);
+        return NextResponse.json({ error: 'Failed to sign in.' }, { status: 500 });
+    }
+}
@@ -0,0 +1,12 @@
+// src/app/api/auth/sign-out/route.ts
+import { NextResponse } from 'next/server';
+import { endSession } from '@/lib/auth';
+
+export async function POST(request: Request): Promise<NextResponse> {
+    try {
+        return endSession(request, new NextResponse(null, { status: 204 }));
+    } catch (error) {
+        console.error("Error signing out:", error);
+        return NextResponse.json({ error: 'Failed to sign out.' }, { status: 500 });
+    }
+}
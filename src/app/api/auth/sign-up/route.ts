@@ -0,0 +1,32 @@
+// src/app/api/auth/sign-up/route.ts
+import { NextResponse } from 'next/server';
+import { checkEmail, checkName, checkPassword, getAuthRepository, hashPassword, isClinicianEmail, normalizeEmail, startSession, toPublicUser } from '@/lib/auth';
+import { addressKeys, authRateLimitRules, checkRateLimit, signUpRateLimitRules, tooManyRequests } from '@/lib/rate-limit';
+
+// Creates an email+password account and signs it in: JSON body { email, password, name? }
+export async function POST(request: Request): Promise<NextResponse> {
+    try {
+        const rateLimit = await checkRateLimit(addressKeys(request), authRateLimitRules());
+        if (!rateLimit.allowed) return tooManyRequests(rateLimit);
+
+        const body = await request.json().catch(() => null);
+        const fieldError = checkEmail(body?.email) ?? checkPassword(body?.password) ?? checkName(body?.name);
+        if (fieldError) { return NextResponse.json({ error: fieldError }, { status: 400 }); }
+        // Clinician accounts must prove they own the address, so they are only made by following an emailed link
+        if (isClinicianEmail(normalizeEmail(body.email))) { return NextResponse.json({ error: 'This email signs in with an emailed link. Ask for a sign-in link instead.' }, { status: 403 }); }
+        const creationLimit = await checkRateLimit(['sign-up:all'], signUpRateLimitRules());
+        if (!creationLimit.allowed) return tooManyRequests(creationLimit);
+
+        const user = await getAuthRepository().createUser({
+            email: normalizeEmail(body.email),
+            name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : null,
+            passwordHash: await hashPassword(body.password),
+        });
+        if (!user) { return NextResponse.json({ error: 'An account with this email already exists. Sign in instead.' }, { status: 409 }); }
+        console.log(`Created account ${user.id}.`);
+        return startSession(NextResponse.json({ user: toPublicUser(user) }, { status: 201 }), user);
+    } catch (error) {
+        console.error("Error creating account:", error);
+        return NextResponse.json({ error: 'Failed to create the account.' }, { status: 500 });
+    }
+}
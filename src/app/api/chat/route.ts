@@ -1,88 +1,29 @@
 // src/app/api/chat/route.ts
 import { NextResponse } from 'next/server';
-import {
-    GoogleGenerativeAI,
-    HarmCategory,
-    HarmBlockThreshold,
-    Content,
-    Part,
-    SafetySetting
-} from '@google/generative-ai';
-
-// Ensure this model name supports vision and audio (like 1.5 Flash/Pro)
-const MODEL_NAME = "gemini-1.5-flash-latest";
-
-// --- System Prompt Text ---
-const systemPromptText = `
-You are **MyDocta**, a highly advanced AI doctor designed to simulate a professional medical consultation. Your role is to act exactly like a real physician—gathering symptoms, making an informed diagnosis, and suggesting appropriate treatment plans.
-
----
-
-**🩺 PRIMARY OBJECTIVE:**
-Perform a **thorough medical consultation** by asking one structured question at a time, making a reasoned diagnosis, and providing a realistic treatment plan.
-
----
-
-**💡 CORE BEHAVIOR RULES:**
-
-1. **ONE QUESTION PER TURN (MOST IMPORTANT RULE):**  
-   - Always ask **only one clear, relevant medical question per response**.  
-   - Do not stack multiple questions. Wait for the user's complete answer before continuing.  
-
-2. **TONE & APPROACH:**  
-   - Speak **like a professional doctor**—calm, knowledgeable, and reassuring.  
-   - Always be **empathetic** and adapt your tone based on user concerns.  
-   - Start with a warm greeting, end with a supportive closing message.  
-
-3. **CONSULTATION FLOW:**  
-   - **Identify the main complaint.**  
-   - Ask follow-up questions to assess:  
-     • **Onset** (When did it start?)  
-     • **Duration** (How long has it lasted?)  
-     • **Severity** (Mild, moderate, severe?)  
-     • **Location** (If relevant)  
-     • **Triggers & Relieving Factors**  
-     • **Associated Symptoms** (e.g., fever, nausea, pain elsewhere)  
-     • **Past Medical History, Medications, Allergies** (if relevant)  
-
-4. **DIAGNOSIS & TREATMENT PLAN:**  
-   - Based on the information gathered, provide a **differential diagnosis** (a list of possible causes).  
-   - Identify the **most likely diagnosis** based on symptoms.  
-   - Provide a **treatment plan**, including:  
-     • **Lifestyle recommendations** (diet, rest, exercise, etc.)  
-     • **Over-the-counter medications** (if appropriate)  
-     • **When to see a doctor or seek urgent care**  
-   - If symptoms are severe or life-threatening, strongly advise seeking **emergency medical attention**.
-
----
-
-**📝 MEDICAL REPORT FORMAT:**
-At the end of the consultation, generate a structured report using this format:
-
-- Start: \`--- REPORT START ---\`  
-- Content:  
-    • **Chief Complaint**  
-    • **History of Present Illness**  
-    • **Medical History** (if relevant)  
-    • **Most Likely Diagnosis**  
-    • **Possible Other Diagnoses**  
-    • **Treatment Plan & Next Steps**  
-- End: \`--- REPORT END ---\`
-
-After the report, include this message:
-> "Here is a summary of our consultation. Please remember, while I provide medically informed advice, I am still an AI. Always confirm diagnoses and treatment plans with a licensed healthcare provider."
-
----
-
-**⚠️ SAFETY REMINDER:**  
-- If the user describes symptoms that could be **life-threatening** (e.g., chest pain, stroke symptoms, severe allergic reactions), strongly recommend seeking **immediate emergency care**.  
-- Always encourage users to consult a real doctor for confirmation of any diagnosis or treatment.  
-
----
-
-**✅ REMEMBER:**  
-Act as a **real doctor**, but **always include the disclaimer** after the report. Ask **only one question at a time**, be professional, and give medically accurate information.
-`;
+import { ReportStreamSplitter, encodeStreamEvent, ChatStreamEvent, REPORT_START_MARKER, REPORT_END_MARKER } from '@/lib/chat-stream';
+import { parseConsultationReport, ParsedReport, REPORT_JSON_TEMPLATE } from '@/lib/report';
+import { detectEmergency, EmergencySignal } from '@/lib/triage';
+import { checkMediaSize, checkMediaType, formatBytes, getAttachmentStore, HISTORY_MEDIA_BUDGET, MAX_MESSAGE_ATTACHMENT_BYTES, MediaKind, MessageAttachment } from '@/lib/attachments';
+import { getChatProvider, ChatChunk, ChatContent, ChatPart, estimateTokens, historyTokenBudget, ProviderError, windowHistory } from '@/lib/llm';
+import { consultationText, ConsultationText, toLocale } from '@/lib/i18n';
+import { ageInYears, getProfileStore, isProfileEmpty, PatientProfile, prefillMedicalHistory, profileToPromptContext } from '@/lib/profile';
+import { checkDrugSafety, DrugWarning, PatientDrugContext } from '@/lib/drugs';
+import { ConsultationMode, consultationPromptFor, RenderedPrompt, toConsultationMode } from '@/lib/prompts';
+import { checkChatPayload, MAX_CHAT_BODY_BYTES } from '@/lib/chat-limits';
+import { addressKeys, chatRateLimitRules, checkRateLimit, tooManyRequests } from '@/lib/rate-limit';
+import { getOwnedSession, getSessionRepository, isValidSessionId } from '@/lib/sessions';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { createRedactor, isRedactionEnabled, REDACTION_INSTRUCTION, Redactor, StreamRestorer } from '@/lib/redaction';
+import { createLogger, logger, Logger } from '@/lib/logger';
+
+// System prompt for the chosen mode, in the consultation language
+const buildSystemPrompt = (mode: ConsultationMode, text: ConsultationText): RenderedPrompt => consultationPromptFor(mode, {
+    languageName: text.languageName,
+    disclaimer: text.disclaimer,
+    reportStartMarker: REPORT_START_MARKER,
+    reportEndMarker: REPORT_END_MARKER,
+    reportJsonTemplate: REPORT_JSON_TEMPLATE,
+});
 
 // Helper to map sender role
 const mapSenderToRole = (sender: 'user' | 'ai'): 'user' | 'model' => {
@@ -90,166 +31,432 @@ const mapSenderToRole = (sender: 'user' | 'ai'): 'user' | 'model' => {
 };
 
 // Helper function to convert base64 data URL to Part (handles image/audio)
-function dataUrlToGenerativePart(dataUrl: string, expectedType: 'image' | 'audio'): Part | null {
+function dataUrlToGenerativePart(dataUrl: string, expectedType: MediaKind): ChatPart | null {
     const match = dataUrl.match(/^data:(.+);base64,(.+)$/);
     if (!match) {
-        console.error("Invalid data URL format");
+        logger.warn('chat.invalidDataUrl', { kind: expectedType });
         return null;
     }
     const mimeType = match[1];
     const base64Data = match[2];
 
-    if (expectedType === 'image' && !mimeType.startsWith('image/')) {
-        console.error("Invalid image MIME type:", mimeType);
-        return null;
-    }
-    if (expectedType === 'audio') {
-        // Looser check for audio, accept common types from browser recording
-        const commonAudioTypes = ['audio/webm', 'audio/ogg', 'audio/wav', 'audio/mp4', 'audio/aac', 'audio/mpeg', 'audio/mp3']; // Added mp3 just in case
-        if (!commonAudioTypes.some(type => mimeType.startsWith(type))) {
-            console.error(`Unsupported audio MIME type: ${mimeType}. Check Gemini documentation for supported audio formats.`);
-            // Consider allowing it anyway and letting Gemini handle/reject it
-            // return null;
+    if (checkMediaType(mimeType, expectedType)) { return null; }
+    logger.debug('chat.inlineMedia', { kind: expectedType, mimeType });
+
+    return { inlineData: { mimeType, data: base64Data } };
+}
+
+// Loads one of the user's uploaded attachments as an inline Part; returns an error message when it can't be used
+async function attachmentToGenerativePart(attachmentId: string, expectedType: MediaKind, ownerId: string): Promise<{ part: ChatPart } | { error: string }> {
+    const attachment = await getAttachmentStore().read(attachmentId);
+    if (!attachment || attachment.meta.ownerId !== ownerId) { return { error: `The ${expectedType} attachment could not be found. Please upload it again.` }; }
+    if (attachment.meta.kind !== expectedType) { return { error: `Attachment ${attachmentId} is not an ${expectedType}.` }; }
+    const validationError = checkMediaType(attachment.meta.mimeType, expectedType) ?? checkMediaSize(attachment.meta.size, expectedType);
+    if (validationError) { return { error: validationError }; }
+    return { part: { inlineData: { mimeType: attachment.meta.mimeType, data: attachment.data.toString('base64') } } };
+}
+
+// A photo or document of a message, as sent by the browser
+type AttachmentRef = Required<Pick<MessageAttachment, 'attachmentId' | 'kind'>>;
+
+interface HistoryMessage {
+    id: string;
+    text?: string;
+    sender: 'user' | 'ai';
+    status?: string;
+    attachments?: AttachmentRef[];
+    imageAttachmentId?: string;
+    audioAttachmentId?: string;
+    transcript?: string; // Reviewed speech-to-text of the voice message
+}
+
+const isAttachmentRefList = (value: unknown): value is AttachmentRef[] => Array.isArray(value)
+    && value.every(item => !!item && typeof item.attachmentId === 'string' && (item.kind === 'image' || item.kind === 'document'));
+
+// A message's uploaded media in the order it is sent: photos and documents, the single image of older messages, then audio
+const mediaOf = (msg: Pick<HistoryMessage, 'attachments' | 'imageAttachmentId' | 'audioAttachmentId'>): [string, MediaKind][] => [
+    ...(isAttachmentRefList(msg.attachments) ? msg.attachments.map((ref): [string, MediaKind] => [ref.attachmentId, ref.kind]) : []),
+    ...(msg.imageAttachmentId ? [[msg.imageAttachmentId, 'image'] as [string, MediaKind]] : []),
+    ...(msg.audioAttachmentId ? [[msg.audioAttachmentId, 'audio'] as [string, MediaKind]] : []),
+];
+
+// A voice message's transcript, written so the model knows it came from speech-to-text
+const transcriptText = (transcript: string): string => `Transcript of my voice message: "${transcript}"`;
+
+// Stand-in for earlier media that is over budget or no longer stored, so the model still knows it was shared
+const OMITTED_MEDIA_NOTES: Record<MediaKind, string> = {
+    image: "[The patient shared a photo here; it is not included again in this request.]",
+    audio: "[The patient sent a voice message here; it is not included again in this request.]",
+    document: "[The patient shared a document here; it is not included again in this request.]",
+};
+
+// Builds the history contents, re-attaching earlier images/audio newest first while they fit HISTORY_MEDIA_BUDGET.
+// `reservedBytes` is the size of the media already attached to the current turn.
+async function formatHistory(history: HistoryMessage[], reservedBytes: number, ownerId: string, log: Logger): Promise<ChatContent[]> {
+    const store = getAttachmentStore();
+    const usable = history.filter(msg => (msg.text || msg.transcript || mediaOf(msg).length > 0) && (msg.status === undefined || ['sent', 'received'].includes(msg.status)));
+
+    const includedIds = new Set<string>();
+    let remainingBytes = HISTORY_MEDIA_BUDGET.bytes - reservedBytes;
+    for (const msg of [...usable].reverse()) {
+        for (const [attachmentId] of mediaOf(msg)) {
+            if (includedIds.size >= HISTORY_MEDIA_BUDGET.items) continue;
+            const meta = await store.readMeta(attachmentId);
+            if (!meta || meta.ownerId !== ownerId || meta.size > remainingBytes) continue;
+            includedIds.add(attachmentId);
+            remainingBytes -= meta.size;
         }
-        console.log(`Processing audio MIME type: ${mimeType}`);
     }
 
-    return { inlineData: { mimeType, data: base64Data } };
+    const contents: ChatContent[] = [];
+    for (const msg of usable) {
+        const parts: ChatPart[] = [];
+        for (const [attachmentId, kind] of mediaOf(msg)) {
+            const loaded = includedIds.has(attachmentId) ? await attachmentToGenerativePart(attachmentId, kind, ownerId) : null;
+            parts.push(loaded && 'part' in loaded ? loaded.part : { text: OMITTED_MEDIA_NOTES[kind] });
+        }
+        if (msg.transcript) { parts.push({ text: transcriptText(msg.transcript) }); }
+        if (msg.text) { parts.push({ text: msg.text }); }
+        contents.push({ role: mapSenderToRole(msg.sender), parts });
+    }
+    if (includedIds.size > 0) { log.debug('chat.historyMedia', { reattached: includedIds.size }); }
+    return contents;
 }
 
 // Define the expected type for the request body
 interface ChatRequestBody {
     prompt?: string;
-    history?: { id: string, text?: string, sender: 'user' | 'ai', status?: string }[];
-    imageDataUrl?: string;
+    history?: HistoryMessage[];
+    attachments?: AttachmentRef[]; // Photos and documents uploaded through /api/attachments, the prompt being their caption
+    imageDataUrl?: string; // Legacy inline media, prefer the attachment ids below
     audioDataUrl?: string; // Field for audio data URL
+    imageAttachmentId?: string; // Uploaded through /api/attachments; single image of older clients
+    audioAttachmentId?: string;
+    transcript?: string; // Transcript of the audio, reviewed by the patient before sending
+    locale?: string; // Consultation language; English when missing or unsupported
+    mode?: string; // Consultation mode (general, pediatric, ...); general when missing or unknown
+    sessionId?: string; // Consultation session, rate limited alongside the client's address; the report is saved to it
+    messageId?: string; // The patient message being answered, so the saved report goes if that message is deleted
+    stream?: boolean; // Stream the reply as NDJSON events instead of one JSON body
 }
 
-export async function POST(request: Request): Promise<NextResponse> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        console.error("Gemini API Key not found.");
-        return NextResponse.json({ error: 'API Key not configured.' }, { status: 500 });
+// Fields of ChatRequestBody that are read as strings; anything else in them is a 400, not a TypeError later
+const TEXT_FIELDS = ['prompt', 'transcript', 'imageDataUrl', 'audioDataUrl', 'imageAttachmentId', 'audioAttachmentId', 'locale', 'mode', 'sessionId', 'messageId'] as const;
+
+// Reads and parses the body, refusing anything over MAX_CHAT_BODY_BYTES before and while buffering it
+async function readChatBody(request: Request): Promise<{ body: ChatRequestBody } | { error: string; status: number }> {
+    const tooLarge = { error: 'The request is too large.', status: 413 };
+    if (Number(request.headers.get('content-length') || 0) > MAX_CHAT_BODY_BYTES) return tooLarge;
+    if (!request.body) return { error: 'Expected a JSON body.', status: 400 };
+
+    // Content-Length can be missing or wrong, so count what actually arrives
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    for (let next = await reader.read(); !next.done; next = await reader.read()) {
+        received += next.value.byteLength;
+        if (received > MAX_CHAT_BODY_BYTES) { await reader.cancel(); return tooLarge; }
+        chunks.push(next.value);
+    }
+    try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        if (!body || typeof body !== 'object' || Array.isArray(body)) return { error: 'Expected a JSON object.', status: 400 };
+        const nonText = TEXT_FIELDS.find(field => body[field] !== undefined && body[field] !== null && typeof body[field] !== 'string');
+        if (nonText) return { error: `${nonText} must be text.`, status: 400 };
+        if (body.history !== undefined && !Array.isArray(body.history)) return { error: 'History must be an array.', status: 400 };
+        if (body.attachments !== undefined && !isAttachmentRefList(body.attachments)) return { error: 'Invalid attachments.', status: 400 };
+        return { body };
+    } catch {
+        return { error: 'Invalid JSON body.', status: 400 };
     }
+}
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
+// System instruction sent with every request: the mode's prompt, the saved profile and, for long
+// consultations, a summary of the turns that no longer fit
+const buildSystemInstruction = (systemPrompt: RenderedPrompt, profile: PatientProfile | null, historySummary: string | null, redacted: boolean): string =>
+    [systemPrompt.text.trim(), profile && profileToPromptContext(profile), historySummary, redacted && REDACTION_INSTRUCTION].filter(Boolean).join('\n\n---\n\n');
 
-    const generationConfig = { temperature: 0.7, maxOutputTokens: 2048 };
-    const safetySettings: SafetySetting[] = [
-        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-    ];
+// Replaces personal details in every text part. Images, documents and audio are sent as they are: they cannot be redacted.
+function redactContents(contents: ChatContent[], redactor: Redactor): ChatContent[] {
+    // Learn from everything first, so a name introduced late in the chat is also replaced in earlier turns
+    for (const content of contents) { for (const part of content.parts) { if ('text' in part) redactor.learn(part.text); } }
+    return contents.map(content => ({ ...content, parts: content.parts.map(part => ('text' in part ? { text: redactor.redact(part.text) } : part)) }));
+}
+
+// Human readable reason for a non-STOP finish (safety blocks, token limits, ...)
+const describeFinishReason = (finishReason: string): string => {
+    return finishReason === 'SAFETY' ? 'Safety concerns' : finishReason;
+};
+
+// Turns a provider stream into NDJSON events, keeping the report out of the visible deltas.
+// A triage emergency is sent first so the client can raise its banner before any model text;
+// drug warnings are sent once the whole reply (and report) is known.
+function toChatEventStream(
+    chunks: AsyncIterable<ChatChunk>,
+    emergency: EmergencySignal | null,
+    toReport: (raw: string, terminated: boolean) => ParsedReport,
+    checkDrugs: (texts: string[]) => DrugWarning[],
+    saveReport: (report: ParsedReport | null) => Promise<void>,
+    restorer: StreamRestorer,
+    log: Logger,
+): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+            if (emergency) { send({ type: 'emergency', emergency }); }
+            const splitter = new ReportStreamSplitter();
+            let receivedText = false;
+            let replyText = "";
+            // Placeholders are restored before the splitter, so deltas and the report carry the real values
+            const pushText = (text: string) => {
+                const visibleText = splitter.push(restorer.push(text));
+                if (visibleText) { replyText += visibleText; send({ type: 'delta', text: visibleText }); }
+            };
+            try {
+                for await (const chunk of chunks) {
+                    if (chunk.text) {
+                        receivedText = true;
+                        pushText(chunk.text);
+                    }
+                    if (chunk.finishReason && chunk.finishReason !== 'STOP') {
+                        log.warn('chat.stopped', { finishReason: chunk.finishReason });
+                        send({ type: 'error', error: `Response was stopped or blocked due to: ${describeFinishReason(chunk.finishReason)}.` });
+                        return;
+                    }
+                    if (chunk.blockReason) {
+                        log.warn('chat.blocked', { blockReason: chunk.blockReason });
+                        send({ type: 'error', error: `Response was stopped or blocked due to: ${chunk.blockReason}.` });
+                        return;
+                    }
+                }
+                if (!receivedText) {
+                    log.warn('chat.emptyResponse');
+                    send({ type: 'error', error: 'AI returned an empty response content.' });
+                    return;
+                }
+                pushText(restorer.flush());
+                const { trailingText, report, reportTerminated, postReportText } = splitter.finish();
+                if (trailingText) { replyText += trailingText; send({ type: 'delta', text: trailingText }); }
+                const parsedReport = report !== null ? toReport(report, reportTerminated) : null;
+                const drugWarnings = checkDrugs([replyText, postReportText, ...(parsedReport?.report.treatmentPlan ?? [])]);
+                if (drugWarnings.length > 0) { send({ type: 'drugWarnings', warnings: drugWarnings }); }
+                await saveReport(parsedReport);
+                if (parsedReport) { send({ type: 'report', report: parsedReport, postReportText }); }
+                log.debug('chat.response', { chars: replyText.length, text: replyText });
+                send({ type: 'done' });
+            } catch (error) {
+                log.error('chat.streamFailed', { error });
+                send({ type: 'error', error: 'The AI response was interrupted. Please try again.' });
+            } finally {
+                controller.close();
+            }
+        },
+    });
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+    // Red-flag triage result, attached to every response below (including errors)
+    let emergency: EmergencySignal | null = null;
+    const respond = (body: Record<string, unknown>, status: number) => NextResponse.json(emergency ? { ...body, emergency } : body, { status });
+    let log: Logger = logger;
 
     try {
-        const reqBody: ChatRequestBody = await request.json();
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        // One redactor per request: the same detail gets the same placeholder in the prompt, history and logs
+        const redactor = createRedactor([user.name]);
+        log = createLogger({ route: 'chat', userId: user.id }, redactor.redact);
+        const parsedBody = await readChatBody(request);
+        if ('error' in parsedBody) { return respond({ error: parsedBody.error }, parsedBody.status); }
+        const reqBody = parsedBody.body;
+
+        // Deterministic triage runs first, so even a message turned away below for its rate or size raises the alarm
         const userPromptText: string | undefined = reqBody.prompt?.trim();
+        const transcript: string | undefined = reqBody.transcript?.trim() || undefined;
         const chatHistory = reqBody.history || [];
+        const userHistory = chatHistory.filter(msg => msg?.sender === 'user');
+        const patientTexts = [userPromptText, transcript, ...userHistory.map(msg => msg.text), ...userHistory.map(msg => msg.transcript)];
+        emergency = detectEmergency(patientTexts);
+
+        // Throttle by address, account and consultation before any work that reaches the model
+        const sessionId = typeof reqBody.sessionId === 'string' && isValidSessionId(reqBody.sessionId) ? reqBody.sessionId : null;
+        const rateLimitKeys = [...addressKeys(request), `user:${user.id}`, ...(sessionId ? [`session:${sessionId}`] : [])];
+        const rateLimit = await checkRateLimit(rateLimitKeys, chatRateLimitRules());
+        if (!rateLimit.allowed) return tooManyRequests(rateLimit, emergency ? { emergency } : {});
+        const payloadError = checkChatPayload(reqBody);
+        if (payloadError) { return respond({ error: payloadError }, 413); }
+
         const imageDataUrl: string | undefined = reqBody.imageDataUrl;
         const audioDataUrl: string | undefined = reqBody.audioDataUrl; // Get audio data
-
-        // Validation: Need text, image, OR audio
-        if (!userPromptText && !imageDataUrl && !audioDataUrl) {
-            return NextResponse.json({ error: 'No prompt text, image, or audio data provided.' }, { status: 400 });
+        const imageAttachmentId: string | undefined = reqBody.imageAttachmentId;
+        const audioAttachmentId: string | undefined = reqBody.audioAttachmentId;
+        const attachments = reqBody.attachments ?? [];
+        const locale = toLocale(reqBody.locale);
+        const localeText = consultationText(locale);
+        const mode = toConsultationMode(reqBody.mode);
+        const systemPrompt = buildSystemPrompt(mode, localeText);
+        const hasImage = !!(imageDataUrl || imageAttachmentId) || attachments.some(ref => ref.kind === 'image');
+        const hasAudio = !!(audioDataUrl || audioAttachmentId);
+        const hasDocument = attachments.some(ref => ref.kind === 'document');
+        const mediaCount = attachments.length + (imageDataUrl || imageAttachmentId ? 1 : 0) + (hasAudio ? 1 : 0);
+
+        const provider = getChatProvider();
+
+        const storedProfile = await getProfileStore().read(user.id);
+        const profile = storedProfile && !isProfileEmpty(storedProfile) ? storedProfile : null;
+        // Medicines the model suggests are checked against what the patient said and their saved profile
+        const drugContext: PatientDrugContext = {
+            texts: patientTexts,
+            ...(profile && {
+                medications: profile.medications, allergies: profile.allergies, conditions: profile.conditions,
+                pregnant: profile.pregnancy === 'pregnant', age: profile.dateOfBirth ? ageInYears(profile.dateOfBirth) : null,
+            }),
+        };
+        const checkDrugs = (texts: string[]) => checkDrugSafety(texts, drugContext);
+        // Validated report in the consultation language and mode, with Medical History pre-filled from the profile
+        const toReport = (raw: string, terminated: boolean): ParsedReport => {
+            const parsed: ParsedReport = { ...parseConsultationReport(raw, terminated), locale, mode, prompt: systemPrompt.ref };
+            const drugWarnings = checkDrugs(parsed.report.treatmentPlan ?? []);
+            const checked = drugWarnings.length > 0 ? { ...parsed, drugWarnings } : parsed;
+            return profile ? prefillMedicalHistory(checked, profile, localeText) : checked;
+        };
+        // Each answer replaces the consultation's report, as on the page: clinicians only ever see what was parsed here
+        const reportSessionId = sessionId && await getOwnedSession(sessionId, user.id) ? sessionId : null;
+        const messageId = typeof reqBody.messageId === 'string' ? reqBody.messageId.slice(0, 100) : null;
+        const saveReport = async (report: ParsedReport | null) => {
+            if (!reportSessionId) return;
+            try { await getSessionRepository().updateSession(reportSessionId, { report, reportMessageId: report ? messageId : null }); }
+            catch (error) { log.error('chat.reportSaveFailed', { error }); }
+        };
+
+        // Validation: Need text, image, audio OR a document
+        if (!userPromptText && mediaCount === 0) {
+            return respond({ error: 'No prompt text, image, audio or document provided.' }, 400);
+        }
+        // Checked on stored sizes before any file is read: the model takes about 20MB of inline data per request
+        const attachmentMetas = await Promise.all(attachments.map(ref => getAttachmentStore().readMeta(ref.attachmentId)));
+        const attachmentBytes = attachmentMetas.reduce((total, meta) => total + (meta?.size ?? 0), 0);
+        if (attachmentBytes > MAX_MESSAGE_ATTACHMENT_BYTES) {
+            return respond({ error: `The attachments are too large together (${formatBytes(attachmentBytes)}). The limit is ${formatBytes(MAX_MESSAGE_ATTACHMENT_BYTES)} per message.` }, 413);
         }
 
-        // Format TEXT History
-        const formattedHistory: Content[] = chatHistory
-            .filter(msg => msg.text && (msg.status === undefined || ['sent', 'received'].includes(msg.status)))
-            .map((msg): Content => ({
-                role: mapSenderToRole(msg.sender),
-                parts: [{ text: msg.text! }]
-            }));
-
-        // Prepare CURRENT Content Parts (Text + Image + Audio)
-        const currentParts: Part[] = [];
+        // Prepare CURRENT Content Parts (Attachments + Image + Audio + Text)
+        const currentParts: ChatPart[] = [];
         let dataValidationError: string | null = null;
 
+        // Add photo and document parts
+        for (const ref of attachments) {
+            const loaded = await attachmentToGenerativePart(ref.attachmentId, ref.kind, user.id);
+            if ('part' in loaded) { currentParts.push(loaded.part); }
+            else { dataValidationError = loaded.error; break; }
+        }
+
         // Add image part
-        if (imageDataUrl) {
+        if (imageAttachmentId && !dataValidationError) {
+            const loaded = await attachmentToGenerativePart(imageAttachmentId, 'image', user.id);
+            if ('part' in loaded) { currentParts.push(loaded.part); }
+            else { dataValidationError = loaded.error; }
+        } else if (imageDataUrl && !dataValidationError) {
             const imagePart = dataUrlToGenerativePart(imageDataUrl, 'image');
             if (imagePart) { currentParts.push(imagePart); }
             else { dataValidationError = "Invalid image data format."; }
         }
         // Add audio part
-        if (audioDataUrl && !dataValidationError) {
+        if (audioAttachmentId && !dataValidationError) {
+            const loaded = await attachmentToGenerativePart(audioAttachmentId, 'audio', user.id);
+            if ('part' in loaded) { currentParts.push(loaded.part); }
+            else { dataValidationError = loaded.error; }
+        } else if (audioDataUrl && !dataValidationError) {
             const audioPart = dataUrlToGenerativePart(audioDataUrl, 'audio');
             if (audioPart) { currentParts.push(audioPart); }
             else { dataValidationError = "Invalid or unsupported audio data format."; }
         }
 
         // Add text part (handle default prompts)
+        if (transcript && hasAudio) { currentParts.push({ text: transcriptText(transcript) }); }
         if (userPromptText) {
             currentParts.push({ text: userPromptText });
-        } else if ((imageDataUrl || audioDataUrl) && !dataValidationError) {
-            const mediaType = imageDataUrl ? "image" : "audio";
-            currentParts.push({ text: `Process this ${mediaType} considering our ongoing health consultation context.` });
+        } else if (hasImage && mediaCount === 1 && systemPrompt.imagePrompt && !dataValidationError) {
+            currentParts.push({ text: systemPrompt.imagePrompt });
+        } else if (mediaCount > 0 && !transcript && !dataValidationError) {
+            const media = mediaCount > 1 ? "these attachments" : `this ${hasDocument ? "document" : hasImage ? "image" : "audio"}`;
+            currentParts.push({ text: `Process ${media} considering our ongoing health consultation context.` });
         }
 
         // Handle validation errors
-        if (dataValidationError) { return NextResponse.json({ error: dataValidationError }, { status: 400 }); }
-        if (currentParts.length === 0) { return NextResponse.json({ error: 'Failed to construct valid content parts.' }, { status: 500 }); }
-
-        const currentContent: Content = { role: 'user', parts: currentParts };
-
-        // Prepare finalContents array (handle first turn)
-        let finalContents: Content[];
-        if (formattedHistory.length === 0) {
-            console.log("First message turn: Including system prompt and initial greeting.");
-            finalContents = [
-                { role: 'user', parts: [{ text: systemPromptText }] },
-                { role: 'model', parts: [{ text: "Hello! I'm MyDocta... what health concern brought you here?" }] },
-                currentContent
-            ];
-        } else {
-            finalContents = [...formattedHistory, currentContent];
-        }
-
-        console.log(`Calling Gemini (${MODEL_NAME}) with contents including ${imageDataUrl ? 'image,' : ''} ${audioDataUrl ? 'audio' : 'no media'}.`);
-
-        // Call the Gemini API
-        const result = await model.generateContent({
-            contents: finalContents,
-            generationConfig,
-            safetySettings,
+        if (dataValidationError) { return respond({ error: dataValidationError }, 400); }
+        if (currentParts.length === 0) { return respond({ error: 'Failed to construct valid content parts.' }, 500); }
+
+        // History with earlier media, within what is left of the media budget after this turn's media
+        const currentMediaBytes = currentParts.reduce((total, part) => total + ('inlineData' in part ? Math.floor(part.inlineData.data.length * 3 / 4) : 0), 0);
+        const unredactedHistory = await formatHistory(chatHistory, currentMediaBytes, user.id, log);
+
+        // Personal details never reach the provider; the reply is mapped back below
+        const redact = isRedactionEnabled();
+        const [currentContent, ...formattedHistory] = redact
+            ? redactContents([{ role: 'user', parts: currentParts }, ...unredactedHistory], redactor)
+            : [{ role: 'user', parts: currentParts } as ChatContent, ...unredactedHistory];
+        const redacted = redact && Object.keys(redactor.summary()).length > 0;
+
+        // Older turns are condensed into the system instruction once the history outgrows its token budget
+        const baseInstruction = buildSystemInstruction(systemPrompt, profile, null, redacted);
+        const historyBudget = historyTokenBudget() - estimateTokens([{ role: 'user', parts: [{ text: baseInstruction }] }, currentContent]);
+        const history = windowHistory(formattedHistory, historyBudget);
+        const systemInstruction = history.summary ? buildSystemInstruction(systemPrompt, profile, history.summary, redacted) : baseInstruction;
+        const finalContents: ChatContent[] = [...history.contents, currentContent];
+
+        log.info('chat.request', {
+            provider: provider.name, model: provider.modelName, prompt: systemPrompt.ref, stream: !!reqBody.stream,
+            historyTurns: history.contents.length, condensedTurns: history.condensedTurns, hasImage, hasAudio, attachments: attachments.length,
+            redacted: redact ? redactor.summary() : 'off',
         });
 
-        console.log("Gemini API Raw Result:", JSON.stringify(result, null, 2));
+        // Streaming mode: the initial request is awaited here so setup errors still reach the catch below
+        if (reqBody.stream) {
+            const chunks = await provider.generateStream({ systemInstruction, contents: finalContents });
+            return new NextResponse(toChatEventStream(chunks, emergency, toReport, checkDrugs, saveReport, redactor.createStreamRestorer(), log), {
+                status: 200,
+                headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' },
+            });
+        }
+
+        const result = await provider.generate({ systemInstruction, contents: finalContents });
 
         // Process Response
-        if (result.response) {
-            const candidate = result.response.candidates?.[0];
-            if (candidate?.finishReason && candidate.finishReason !== 'STOP') {
-                const blockReason = candidate.finishReason === 'SAFETY' ? 'Safety concerns' : candidate.finishReason;
-                console.warn(`Gemini response finished due to ${candidate.finishReason}.`);
-                return NextResponse.json({ error: `Response was stopped or blocked due to: ${blockReason}.` }, { status: 400 });
-            }
-            if (candidate?.content?.parts?.[0]?.text) {
-                const aiResponseText = candidate.content.parts[0].text;
-                console.log("Extracted AI Response Text:", aiResponseText);
-                return NextResponse.json({ response: aiResponseText }, { status: 200 });
-            } else {
-                console.warn("Gemini API response candidate exists but has no text content.");
-                return NextResponse.json({ error: 'AI returned an empty response content.' }, { status: 500 });
-            }
-        } else {
-            console.error("Gemini API call did not return a valid response structure.");
-            return NextResponse.json({ error: 'Failed to get valid response structure from AI.' }, { status: 500 });
+        if (result.finishReason && result.finishReason !== 'STOP') {
+            const blockReason = describeFinishReason(result.finishReason);
+            log.warn('chat.stopped', { finishReason: result.finishReason });
+            return respond({ error: `Response was stopped or blocked due to: ${blockReason}.` }, 400);
+        }
+        if (result.blockReason) {
+            log.warn('chat.blocked', { blockReason: result.blockReason });
+            return respond({ error: `Response was stopped or blocked due to: ${result.blockReason}.` }, 400);
+        }
+        if (result.text) {
+            log.debug('chat.response', { chars: result.text.length, text: result.text });
+            // Same split as the stream: reply text, validated report, and the text after the report
+            const splitter = new ReportStreamSplitter();
+            const visibleText = splitter.push(redactor.restore(result.text));
+            const { trailingText, report, reportTerminated, postReportText } = splitter.finish();
+            const parsedReport = report !== null ? toReport(report, reportTerminated) : null;
+            await saveReport(parsedReport);
+            return respond({
+                response: (visibleText + trailingText).trim(),
+                report: parsedReport,
+                postReportText,
+                drugWarnings: checkDrugs([visibleText + trailingText, postReportText, ...(parsedReport?.report.treatmentPlan ?? [])]),
+            }, 200);
         }
+        log.warn('chat.emptyResponse');
+        return respond({ error: 'AI returned an empty response content.' }, 500);
 
     } catch (error) {
-        // Catch-all Error Handling
-        console.error("Error in /api/chat route:", error);
-        const errorMessage = (error instanceof Error && error.message) ? error.message : 'An unknown error occurred.';
-        // Add more specific error checks if needed
-        if (errorMessage.includes('404 Not Found') || errorMessage.includes('models/')) {
-            return NextResponse.json({ error: `Model '${MODEL_NAME}' not found/inaccessible... (${errorMessage})` }, { status: 404 });
+        // Provider errors carry a client-safe message and status (missing key, 404 model, 403 permission, ...)
+        if (error instanceof ProviderError) {
+            return respond({ error: error.message }, error.status);
         }
-        if (errorMessage.includes('API Key not valid') || errorMessage.includes('permission')) {
-            return NextResponse.json({ error: `API Key invalid/lacks permission... (${errorMessage})` }, { status: 403 });
-        }
-        return NextResponse.json({ error: 'An error occurred while processing your request.' }, { status: 500 });
+        log.error('chat.failed', { error });
+        return respond({ error: 'An error occurred while processing your request.' }, 500);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,44 @@
+// src/app/api/profile/route.ts
+import { NextResponse } from 'next/server';
+import { getProfileStore, toPatientProfile } from '@/lib/profile';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+
+// The saved profile, or null when none was entered yet
+export async function GET(request: Request): Promise<NextResponse> {
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        return NextResponse.json({ profile: await getProfileStore().read(user.id) }, { status: 200 });
+    } catch (error) {
+        console.error("Error reading patient profile:", error);
+        return NextResponse.json({ error: 'Failed to load the patient profile.' }, { status: 500 });
+    }
+}
+
+// Replaces the whole profile
+export async function PUT(request: Request): Promise<NextResponse> {
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const body = await request.json().catch(() => null);
+        const result = toPatientProfile(body);
+        if ('errors' in result) { return NextResponse.json({ error: result.errors.join(' ') }, { status: 400 }); }
+        await getProfileStore().write(user.id, result.profile);
+        return NextResponse.json({ profile: result.profile }, { status: 200 });
+    } catch (error) {
+        console.error("Error saving patient profile:", error);
+        return NextResponse.json({ error: 'Failed to save the patient profile.' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: Request): Promise<NextResponse> {
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const deleted = await getProfileStore().remove(user.id);
+        return deleted ? new NextResponse(null, { status: 204 }) : NextResponse.json({ error: 'No patient profile saved.' }, { status: 404 });
+    } catch (error) {
+        console.error("Error deleting patient profile:", error);
+        return NextResponse.json({ error: 'Failed to delete the patient profile.' }, { status: 500 });
+    }
+}
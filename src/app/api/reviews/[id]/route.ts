@@ -0,0 +1,49 @@
+// src/app/api/reviews/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { forbidden, getRequestUser, isClinician, unauthorized } from '@/lib/auth';
+import { getSessionRepository } from '@/lib/sessions';
+import { getProfileStore } from '@/lib/profile';
+import { recordReviewDecision, ReviewCase, toReviewDecision } from '@/lib/reviews';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Review not found.' }, { status: 404 });
+
+// Clinicians: the consultation sent for review, with its transcript, media ids and the patient's profile
+export async function GET(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!isClinician(user)) return forbidden();
+        const session = await getSessionRepository().getSession(id);
+        if (!session?.review) return notFound();
+        const reviewCase: ReviewCase = { session, profile: await getProfileStore().read(session.ownerId) };
+        return NextResponse.json(reviewCase, { status: 200 });
+    } catch (error) {
+        console.error(`Error loading review ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to load the review.' }, { status: 500 });
+    }
+}
+
+// Clinicians: approve, amend or reject the report. JSON body { status, notes?, amendments? }
+export async function PUT(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!isClinician(user)) return forbidden();
+        const result = toReviewDecision(await request.json().catch(() => null));
+        if ('error' in result) { return NextResponse.json({ error: result.error }, { status: 400 }); }
+
+        const review = await recordReviewDecision(id, result.decision, user.name ?? user.email);
+        if (!review) return notFound();
+        console.log(`Review of consultation ${id}: ${review.status} by ${user.id}.`);
+        return NextResponse.json({ review }, { status: 200 });
+    } catch (error) {
+        console.error(`Error saving review ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to save the review.' }, { status: 500 });
+    }
+}
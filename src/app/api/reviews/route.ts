@@ -0,0 +1,18 @@
+// src/app/api/reviews/route.ts
+import { NextResponse } from 'next/server';
+import { forbidden, getRequestUser, isClinician, unauthorized } from '@/lib/auth';
+import { listReviews } from '@/lib/reviews';
+
+// Clinicians: the review queue, `?status=pending` (default) or `?status=reviewed`
+export async function GET(request: Request): Promise<NextResponse> {
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!isClinician(user)) return forbidden();
+        const status = new URL(request.url).searchParams.get('status') === 'reviewed' ? 'reviewed' : 'pending';
+        return NextResponse.json({ reviews: await listReviews(status) }, { status: 200 });
+    } catch (error) {
+        console.error("Error listing reviews:", error);
+        return NextResponse.json({ error: 'Failed to load the review queue.' }, { status: 500 });
+    }
+}
@@ -0,0 +1,41 @@
+// src/app/api/sessions/[id]/messages/[messageId]/route.ts
+import { NextResponse } from 'next/server';
+import { getOwnedSession, getSessionRepository, toMessageChanges } from '@/lib/sessions';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+
+interface RouteContext {
+    params: Promise<{ id: string; messageId: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Message not found.' }, { status: 404 });
+
+export async function PATCH(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id, messageId } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!await getOwnedSession(id, user.id)) return notFound();
+        const body = await request.json().catch(() => null);
+        const changes = toMessageChanges(body);
+        if (!changes) { return NextResponse.json({ error: 'Invalid message changes.' }, { status: 400 }); }
+        const message = await getSessionRepository().updateMessage(id, messageId, changes);
+        return message ? NextResponse.json({ message }, { status: 200 }) : notFound();
+    } catch (error) {
+        console.error(`Error updating message ${messageId} of session ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to update message.' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id, messageId } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!await getOwnedSession(id, user.id)) return notFound();
+        const deleted = await getSessionRepository().deleteMessage(id, messageId);
+        return deleted ? new NextResponse(null, { status: 204 }) : notFound();
+    } catch (error) {
+        console.error(`Error deleting message ${messageId} of session ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to delete message.' }, { status: 500 });
+    }
+}
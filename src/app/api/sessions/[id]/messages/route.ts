@@ -0,0 +1,61 @@
+// src/app/api/sessions/[id]/messages/route.ts
+import { NextResponse } from 'next/server';
+import { getOwnedSession, getSessionRepository, toStoredMessages } from '@/lib/sessions';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Consultation not found.' }, { status: 404 });
+const invalidMessages = () => NextResponse.json({ error: 'Expected { messages: Message[] }.' }, { status: 400 });
+
+export async function GET(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!await getOwnedSession(id, user.id)) return notFound();
+        const messages = await getSessionRepository().listMessages(id);
+        return messages ? NextResponse.json({ messages }, { status: 200 }) : notFound();
+    } catch (error) {
+        console.error(`Error loading messages of session ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to load messages.' }, { status: 500 });
+    }
+}
+
+// Append messages (ids already stored are ignored)
+export async function POST(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!await getOwnedSession(id, user.id)) return notFound();
+        const body = await request.json().catch(() => null);
+        const incoming = toStoredMessages(body?.messages);
+        if (!incoming) return invalidMessages();
+        const messages = await getSessionRepository().appendMessages(id, incoming);
+        return messages ? NextResponse.json({ messages }, { status: 200 }) : notFound();
+    } catch (error) {
+        console.error(`Error appending messages to session ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to save messages.' }, { status: 500 });
+    }
+}
+
+// Replace the whole transcript (used by the chat page to sync its local state)
+export async function PUT(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!await getOwnedSession(id, user.id)) return notFound();
+        const body = await request.json().catch(() => null);
+        const incoming = toStoredMessages(body?.messages);
+        if (!incoming) return invalidMessages();
+        const messages = await getSessionRepository().replaceMessages(id, incoming);
+        return messages ? NextResponse.json({ messages }, { status: 200 }) : notFound();
+    } catch (error) {
+        console.error(`Error replacing messages of session ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to save messages.' }, { status: 500 });
+    }
+}
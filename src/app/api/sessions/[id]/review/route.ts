@@ -0,0 +1,29 @@
+// src/app/api/sessions/[id]/review/route.ts
+import { NextResponse } from 'next/server';
+import { getOwnedSession } from '@/lib/sessions';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { submitForReview } from '@/lib/reviews';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// The patient sends the consultation's saved report to the clinician review queue
+export async function POST(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const session = await getOwnedSession(id, user.id);
+        if (!session) { return NextResponse.json({ error: 'Consultation not found.' }, { status: 404 }); }
+        if (!session.report) { return NextResponse.json({ error: 'This consultation has no report to review yet.' }, { status: 400 }); }
+
+        const review = await submitForReview(id);
+        if (!review) { return NextResponse.json({ error: 'This consultation has no report to review yet.' }, { status: 400 }); }
+        console.log(`Consultation ${id} sent for clinician review.`);
+        return NextResponse.json({ review }, { status: 201 });
+    } catch (error) {
+        console.error(`Error sending session ${id} for review:`, error);
+        return NextResponse.json({ error: 'Failed to send the report for review.' }, { status: 500 });
+    }
+}
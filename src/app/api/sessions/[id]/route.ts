@@ -0,0 +1,68 @@
+// src/app/api/sessions/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { getOwnedSession, getSessionRepository, isEmergencySignal, SessionChanges } from '@/lib/sessions';
+import { getAttachmentStore } from '@/lib/attachments';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+const notFound = () => NextResponse.json({ error: 'Consultation not found.' }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const session = await getOwnedSession(id, user.id);
+        return session ? NextResponse.json({ session }, { status: 200 }) : notFound();
+    } catch (error) {
+        console.error(`Error loading session ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to load consultation.' }, { status: 500 });
+    }
+}
+
+// Rename and/or store the latest emergency signal. The report is not taken from the browser: /api/chat saves it.
+export async function PATCH(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!await getOwnedSession(id, user.id)) return notFound();
+        const body = await request.json().catch(() => null);
+        if (!body || typeof body !== 'object') { return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 }); }
+
+        const changes: SessionChanges = {};
+        if ('title' in body) {
+            if (body.title !== null && typeof body.title !== 'string') { return NextResponse.json({ error: 'Title must be text.' }, { status: 400 }); }
+            changes.title = body.title;
+        }
+        if ('emergency' in body) {
+            if (body.emergency !== null && !isEmergencySignal(body.emergency)) { return NextResponse.json({ error: 'Invalid emergency signal.' }, { status: 400 }); }
+            changes.emergency = body.emergency;
+        }
+
+        const session = await getSessionRepository().updateSession(id, changes);
+        return session ? NextResponse.json({ session }, { status: 200 }) : notFound();
+    } catch (error) {
+        console.error(`Error updating session ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to update consultation.' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext): Promise<NextResponse> {
+    const { id } = await params;
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        if (!await getOwnedSession(id, user.id)) return notFound();
+        const deleted = await getSessionRepository().deleteSession(id);
+        // Photos and recordings go with the consultation
+        if (deleted) { await getAttachmentStore().removeBySession(id); }
+        return deleted ? new NextResponse(null, { status: 204 }) : notFound();
+    } catch (error) {
+        console.error(`Error deleting session ${id}:`, error);
+        return NextResponse.json({ error: 'Failed to delete consultation.' }, { status: 500 });
+    }
+}
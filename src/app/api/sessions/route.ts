@@ -0,0 +1,32 @@
+// src/app/api/sessions/route.ts
+import { NextResponse } from 'next/server';
+import { getSessionRepository } from '@/lib/sessions';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+
+// List past consultations, most recently updated first
+export async function GET(request: Request): Promise<NextResponse> {
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const sessions = await getSessionRepository().listSessions(user.id);
+        return NextResponse.json({ sessions }, { status: 200 });
+    } catch (error) {
+        console.error("Error listing sessions:", error);
+        return NextResponse.json({ error: 'Failed to load consultation history.' }, { status: 500 });
+    }
+}
+
+// Start a new consultation
+export async function POST(request: Request): Promise<NextResponse> {
+    try {
+        const user = await getRequestUser(request);
+        if (!user) return unauthorized();
+        const body = await request.json().catch(() => ({}));
+        const title = typeof body?.title === 'string' ? body.title : undefined;
+        const session = await getSessionRepository().createSession(user.id, { title });
+        return NextResponse.json({ session }, { status: 201 });
+    } catch (error) {
+        console.error("Error creating session:", error);
+        return NextResponse.json({ error: 'Failed to create consultation.' }, { status: 500 });
+    }
+}
@@ -0,0 +1,55 @@
+// src/app/api/speech/route.ts
+import { NextResponse } from 'next/server';
+import { ProviderError } from '@/lib/llm';
+import { getRequestUser, unauthorized } from '@/lib/auth';
+import { getSpeechBackend, MAX_SPEECH_RATE, MAX_SPEECH_TEXT_LENGTH, MIN_SPEECH_RATE } from '@/lib/speech';
+
+interface SpeechRequestBody {
+    text?: unknown;
+    voice?: unknown;
+    rate?: unknown;
+}
+
+// Which server engine (if any) is configured, so the client can offer it
+export async function GET(): Promise<NextResponse> {
+    try {
+        const backend = getSpeechBackend();
+        return NextResponse.json({ available: !!backend, name: backend?.name ?? null, voices: backend?.voices ?? [] }, { status: 200 });
+    } catch (error) {
+        console.error("Error reading speech backend:", error);
+        return NextResponse.json({ available: false, name: null, voices: [] }, { status: 200 });
+    }
+}
+
+// Synthesizes one AI reply: JSON body { text, voice?, rate? }, responds with the audio file
+export async function POST(request: Request): Promise<NextResponse> {
+    try {
+        if (!await getRequestUser(request)) return unauthorized();
+        const backend = getSpeechBackend();
+        if (!backend) { return NextResponse.json({ error: 'No server speech engine is configured.' }, { status: 501 }); }
+
+        let body: SpeechRequestBody;
+        try { body = await request.json(); }
+        catch { return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 }); }
+
+        const text = typeof body.text === 'string' ? body.text.trim() : '';
+        if (!text) { return NextResponse.json({ error: 'No text provided.' }, { status: 400 }); }
+        if (text.length > MAX_SPEECH_TEXT_LENGTH) { return NextResponse.json({ error: 'Text is too long to read aloud.' }, { status: 413 }); }
+        if (body.voice !== undefined && (typeof body.voice !== 'string' || !backend.voices.includes(body.voice))) {
+            return NextResponse.json({ error: 'Unknown voice.' }, { status: 400 });
+        }
+        const rate = typeof body.rate === 'number' && isFinite(body.rate) ? Math.min(Math.max(body.rate, MIN_SPEECH_RATE), MAX_SPEECH_RATE) : 1;
+
+        const { audio, mimeType } = await backend.synthesize({ text, voice: body.voice as string | undefined, rate });
+        return new NextResponse(new Uint8Array(audio), {
+            status: 200,
+            headers: { 'Content-Type': mimeType, 'Content-Length': String(audio.length), 'Cache-Control': 'no-store' },
+        });
+    } catch (error) {
+        if (error instanceof ProviderError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error in /api/speech route:", error);
+        return NextResponse.json({ error: 'Failed to synthesize speech.' }, { status: 500 });
+    }
+}
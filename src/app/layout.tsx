@@ -3,6 +3,10 @@ import { Inter, Poppins } from "next/font/google";
 import type { Metadata } from "next";
 import "./globals.css";
 import { ThemeProvider } from "@/contexts/theme-provider"; // Our wrapper file
+import { I18nProvider } from "@/contexts/i18n-provider";
+import { AuthProvider } from "@/contexts/auth-provider";
+import { VaultProvider } from "@/contexts/vault-provider";
+import { ServiceWorkerRegistration } from "./_components/service-worker-registration";
 import { cn } from "@/lib/utils";
 
 const inter = Inter({ subsets: ["latin"], variable: "--font-sans" }); // Use variable for better Tailwind integration
@@ -37,8 +41,9 @@ export default function RootLayout({
           enableSystem // Enable system theme detection
           disableTransitionOnChange // Optional: avoids flashes during theme switch
         >
-          {children}
+          <I18nProvider><AuthProvider><VaultProvider>{children}</VaultProvider></AuthProvider></I18nProvider>
         </ThemeProvider>
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
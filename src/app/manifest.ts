@@ -0,0 +1,16 @@
+// src/app/manifest.ts
+import type { MetadataRoute } from "next";
+
+// Lets patients install the app; the service worker in public/sw.js keeps its shell available offline
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "MyDocta",
+    short_name: "MyDocta",
+    description: "Your AI Health Assistant",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#171717",
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" }],
+  };
+}
@@ -1,143 +1,534 @@
 // src/app/page.tsx
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Header } from "./_components/header";
 import { MessageList } from "./_components/message-list";
-import { ChatInput } from "./_components/chat-input";
+import { ChatInput, TranscriptionResult, VoiceMessage } from "./_components/chat-input";
 import { Message } from "./_components/message-item";
 import { useLocalStorage } from "usehooks-ts";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { readChatStream } from "@/lib/chat-stream";
+import { ChatLimitError, MAX_TRANSCRIPT_CHARS, toChatLimitError } from "@/lib/chat-limits";
+import { ParsedReport } from "@/lib/report";
+import { DrugWarning } from "@/lib/drugs/types";
+import { ConsultationReport } from "./_components/consultation-report";
+import { ReportExportMenu } from "./_components/report-export-menu";
+import { ReviewStatusPanel } from "./_components/review-status-panel";
+import { SessionSidebar } from "./_components/session-sidebar";
+import { PatientProfilePanel } from "./_components/patient-profile-panel";
+import { EmergencyBanner } from "./_components/emergency-banner";
+import { detectEmergency, EmergencySignal, mergeEmergencySignals } from "@/lib/triage";
+import { createSession, fetchSession, saveSessionState } from "@/lib/sessions/client";
+import { ReportReview } from "@/lib/reviews/types";
+import { requestReview } from "@/lib/reviews/client";
+import { uploadAttachment } from "@/lib/attachments/client";
+import { attachmentKindOf } from "@/lib/attachments/media";
+import { MessageAttachment } from "@/lib/attachments/types";
+import { transcribeAttachment } from "@/lib/transcription/client";
+import { isNetworkError, pruneQueuedMedia, QueuedMedia, readQueuedMedia, saveQueuedMedia } from "@/lib/outbox";
+import { useI18n } from "@/contexts/i18n-provider";
+import { useAuth } from "@/contexts/auth-provider";
+import { useSecureStorage, useVault } from "@/contexts/vault-provider";
+import { VaultLockScreen } from "./_components/vault-lock-screen";
+import { VaultSettingsPanel } from "./_components/vault-settings-panel";
+import { SignInScreen } from "./_components/sign-in-screen";
+import { LanguageMenu } from "./_components/language-menu";
+import { ThemeToggle } from "./_components/theme-toggle";
+import { Loader2 } from "lucide-react";
+import { DEFAULT_MODE, MODE_STORAGE_KEY, ConsultationMode, toConsultationMode } from "@/lib/prompts/modes";
+import { DEFAULT_SPEECH_SETTINGS, SPEECH_SETTINGS_KEY, SpeechSettings, withSpeechDefaults } from "@/lib/speech/settings";
 
-const REPORT_START_MARKER = "--- REPORT START ---";
-const REPORT_END_MARKER = "--- REPORT END ---";
+// After a queued message failed to go out although the device said it was online, wait this long before trying again
+const OUTBOX_RETRY_MS = 30_000;
+
+// Adds AI messages after the answered part of the chat, keeping messages still waiting in the outbox last
+function withReply(messages: Message[], ...replies: Message[]): Message[] {
+  const queuedIndex = messages.findIndex(msg => msg.status === 'queued');
+  if (queuedIndex === -1) return [...messages, ...replies];
+  return [...messages.slice(0, queuedIndex), ...replies, ...messages.slice(queuedIndex)];
+}
+
+// Queued messages come after everything answered, so a retry or edit keeps them when it replaces the rest
+const queuedAfter = (messages: Message[], index: number) => messages.slice(index + 1).filter(msg => msg.status === 'queued');
+
+// The report comes from the latest answered turn (an answer without one clears it), so it goes when that answer is removed
+function keepsReport(before: Message[], after: Message[]): boolean {
+  const lastAnswer = before.findLast(msg => msg.sender === 'ai' && msg.status === 'received');
+  return !lastAnswer || after.some(msg => msg.id === lastAnswer.id);
+}
+
+// What /api/chat needs of a message's photos and documents: the uploaded ones, by id
+const attachmentRefs = (attachments?: MessageAttachment[]) =>
+  attachments?.filter(attachment => attachment.attachmentId).map(({ attachmentId, kind }) => ({ attachmentId, kind }));
 
 export default function ChatPage() {
-  const [messages, setMessages] = useLocalStorage<Message[]>(
-    "my-docta-chat-session",
-    []
-  );
+  const { locale, t } = useI18n();
+  const { user, status: authStatus, refresh: refreshUser } = useAuth();
+  const vault = useVault();
+  const [messages, setMessages, messagesReady] = useSecureStorage<Message[]>("my-docta-chat-session", []);
   const [isLoading, setIsLoading] = useState(false);
-  const [reportContent, setReportContent] = useState<string | null>(null);
+  const [reportContent, setReportContent] = useState<ParsedReport | null>(null);
   const [isReportVisible, setIsReportVisible] = useState(false);
+  const [review, setReview] = useState<ReportReview | null>(null);
+  const [currentSessionId, setCurrentSessionId] = useLocalStorage<string | null>("my-docta-current-session", null);
+  const [emergency, setEmergency, emergencyReady] = useSecureStorage<EmergencySignal | null>("my-docta-emergency", null);
+  const isChatReady = messagesReady && emergencyReady;
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [isVaultOpen, setIsVaultOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const lastSavedStateRef = useRef("");
+  const [storedSpeechSettings, setSpeechSettings] = useLocalStorage<SpeechSettings>(SPEECH_SETTINGS_KEY, DEFAULT_SPEECH_SETTINGS);
+  const speechSettings = withSpeechDefaults(storedSpeechSettings);
+  const [autoPlayMessageId, setAutoPlayMessageId] = useState<string | null>(null);
+  const [storedMode, setMode] = useLocalStorage<ConsultationMode>(MODE_STORAGE_KEY, DEFAULT_MODE);
+  const mode = toConsultationMode(storedMode);
+  const [chatOwnerId, setChatOwnerId] = useLocalStorage<string | null>("my-docta-chat-owner", null);
+  const [isOnline, setIsOnline] = useState(true);
+  const [outboxCheck, setOutboxCheck] = useState(0); // Bumped to look at the outbox again
+  const isSendingQueuedRef = useRef(false);
+  const outboxRetryAtRef = useRef(0);
+  const restoredPreviewsRef = useRef(false);
+  const queuedIds = messages.filter(msg => msg.status === 'queued').map(msg => msg.id).join(",");
 
-  // Handler for image selection
-  const handleImageSelect = (file: File) => {
-    console.log(`>>> handleImageSelect triggered at ${Date.now()} for file: ${file.name}`);
-    if (isLoading) return;
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (event) => {
-      const imageDataUrl = event.target?.result as string;
-      if (!imageDataUrl) { alert("Failed to read image data."); return; }
-      sendMultimodalMessage({ imageDataUrl });
-    };
-    reader.onerror = (error) => { console.error("Error reading file:", error); alert("Error reading image file."); };
+  // The chat kept on this device belongs to one account; another account signing in starts clean
+  useEffect(() => {
+    if (!user || !isChatReady || user.id === chatOwnerId) return;
+    setMessages([]); setReportContent(null); setReview(null); setEmergency(null); setCurrentSessionId(null);
+    setChatOwnerId(user.id);
+  }, [user, isChatReady, chatOwnerId, setChatOwnerId, setMessages, setEmergency, setCurrentSessionId]);
+
+  // Locking drops the consultation from the screen; the report is not kept on the device, so it goes too
+  useEffect(() => {
+    if (vault.status !== "locked") return;
+    setReportContent(null); setReview(null); setIsReportVisible(false); setIsVaultOpen(false);
+  }, [vault.status]);
+
+  // Sync the current consultation to the server once a turn has finished
+  useEffect(() => {
+    if (!currentSessionId || isLoading || messages.length === 0 || authStatus !== "signedIn") return;
+    const serializedState = JSON.stringify({ messages, emergency });
+    if (serializedState === lastSavedStateRef.current) return;
+    const timer = setTimeout(() => {
+      saveSessionState(currentSessionId, messages, emergency)
+        .then(() => { lastSavedStateRef.current = serializedState; setHistoryRefreshKey(key => key + 1); })
+        .catch(error => console.error("Failed to save consultation:", error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [currentSessionId, messages, emergency, isLoading, authStatus]);
+
+  // Pick up a clinician's decision when the report is opened
+  useEffect(() => {
+    if (!isReportVisible || !currentSessionId || authStatus !== "signedIn") return;
+    fetchSession(currentSessionId)
+      .then(session => setReview(session.review ?? null))
+      .catch(error => console.error("Failed to load review status:", error));
+  }, [isReportVisible, currentSessionId, authStatus]);
+
+  useEffect(() => {
+    const updateOnline = () => { setIsOnline(navigator.onLine); if (navigator.onLine) { outboxRetryAtRef.current = 0; } };
+    updateOnline();
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    return () => { window.removeEventListener("online", updateOnline); window.removeEventListener("offline", updateOnline); };
+  }, []);
+
+  // Send what was written offline, oldest first, one message at a time
+  useEffect(() => {
+    if (!isOnline || isLoading || !isChatReady || authStatus !== "signedIn" || isSendingQueuedRef.current) return;
+    const next = messages.find(msg => msg.status === 'queued');
+    if (!next) return;
+    const waitMs = outboxRetryAtRef.current - Date.now();
+    if (waitMs > 0) {
+      const timer = setTimeout(() => setOutboxCheck(check => check + 1), waitMs);
+      return () => clearTimeout(timer);
+    }
+    isSendingQueuedRef.current = true;
+    sendQueuedMessage(next).finally(() => { isSendingQueuedRef.current = false; setOutboxCheck(check => check + 1); });
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- sendQueuedMessage reads the current messages
+  }, [messages, isOnline, isLoading, isChatReady, authStatus, outboxCheck]);
+
+  // Queued photos and recordings are only kept until their message is sent, deleted or cleared
+  useEffect(() => {
+    if (!isChatReady) return;
+    pruneQueuedMedia(queuedIds ? queuedIds.split(",") : []).catch(error => console.error("Could not clean up queued media:", error));
+  }, [queuedIds, isChatReady]);
+
+  // Preview URLs of queued media do not survive a reload; recreate them from the outbox
+  useEffect(() => {
+    if (!isChatReady || restoredPreviewsRef.current) return;
+    restoredPreviewsRef.current = true;
+    messages.filter(msg => msg.status === 'queued' && (msg.attachments?.length || msg.audioDataUrl)).forEach(async (queued) => {
+      const media = await readQueuedMedia(queued.id, vault.key);
+      const attachments = queued.attachments?.map((attachment, index) => {
+        const file = media.attachments?.[index];
+        return { ...attachment, previewUrl: file && !attachment.attachmentId ? URL.createObjectURL(file) : undefined };
+      });
+      const audioDataUrl = media.audio ? URL.createObjectURL(media.audio) : undefined;
+      setMessages(prev => prev.map(msg => msg.id === queued.id ? { ...msg, attachments, audioDataUrl } : msg));
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- once, with the chat as it was stored
+  }, [isChatReady]);
+
+  // First message of a consultation: create its server-side session (chat still works if this fails)
+  const ensureSession = async (): Promise<string | null> => {
+    if (currentSessionId) return currentSessionId;
+    try {
+      const sessionId = (await createSession()).id;
+      setCurrentSessionId(sessionId);
+      return sessionId;
+    } catch (error) {
+      console.error("Could not create consultation session:", error);
+      return null;
+    }
   };
 
-  // Handler for audio data
-  const handleSendAudio = (audioDataUrl: string, mimeType: string) => {
+  // Uploads a recording and transcribes it so the patient can review the text before sending
+  const handleTranscribeAudio = async (audioBlob: Blob): Promise<TranscriptionResult> => {
+    let attachmentId: string | undefined;
+    if (!navigator.onLine) { return { error: t('chat.offlineTranscript') }; }
+    try {
+      attachmentId = (await uploadAttachment(audioBlob, 'audio', await ensureSession())).id;
+      return { attachmentId, transcript: (await transcribeAttachment(attachmentId)).slice(0, MAX_TRANSCRIPT_CHARS) };
+    } catch (error) {
+      console.error("Voice message transcription failed:", error);
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      return { attachmentId, error: t('chat.noTranscript', { reason }) };
+    }
+  };
+
+  // Handler for a reviewed voice message
+  const handleSendAudio = ({ audioBlob, mimeType, attachmentId, transcript }: VoiceMessage) => {
     console.log(`>>> handleSendAudio triggered at ${Date.now()} with type: ${mimeType}`);
     if (isLoading) return;
-    sendMultimodalMessage({ audioDataUrl: audioDataUrl });
+    sendMultimodalMessage({ audio: audioBlob, audioAttachmentId: attachmentId, transcript });
+  };
+
+  // Over-limit responses get their own wording, with how long to wait when the server said
+  const limitErrorText = (error: ChatLimitError): string => {
+    if (error.kind === 'tooLarge') return t('chat.tooLarge');
+    if (error.retryAfterSeconds === null) return t('chat.rateLimited');
+    return error.retryAfterSeconds < 120
+      ? t('chat.rateLimitedSeconds', { seconds: error.retryAfterSeconds })
+      : t('chat.rateLimitedMinutes', { minutes: Math.ceil(error.retryAfterSeconds / 60) });
   };
 
   // Consolidated function to send message
   const sendMultimodalMessage = async (
-    payload: { text?: string; imageDataUrl?: string; audioDataUrl?: string }
+    payload: { text?: string; files?: File[]; audio?: Blob; audioAttachmentId?: string; transcript?: string }
   ) => {
-    const { text, imageDataUrl, audioDataUrl } = payload;
-    console.log(`>>> sendMultimodalMessage triggered with image: ${!!imageDataUrl}, audio: ${!!audioDataUrl}`);
+    const { text, files = [], audio, transcript } = payload;
+    console.log(`>>> sendMultimodalMessage triggered with ${files.length} attachment(s), audio: ${!!audio}`);
 
-    if (!text?.trim() && !imageDataUrl && !audioDataUrl || isLoading) return;
-    setIsLoading(true);
+    if (!text?.trim() && files.length === 0 && !audio || isLoading) return;
 
-    const messageId = crypto.randomUUID();
+    // Media is shown from a local object URL while it uploads, then referenced by attachment id
+    const hasMedia = files.length > 0 || !!audio;
+    const attachments: MessageAttachment[] = files.map(file => ({
+      kind: attachmentKindOf(file.type)!, mimeType: file.type, fileName: file.name, size: file.size, previewUrl: URL.createObjectURL(file)
+    }));
     const newUserMessage: Message = {
-      id: messageId, text: text || "", imageUrl: imageDataUrl, audioDataUrl: audioDataUrl,
-      sender: 'user', timestamp: new Date(), status: 'sent'
+      id: crypto.randomUUID(), text: text || "", attachments: attachments.length > 0 ? attachments : undefined, audioDataUrl: audio ? URL.createObjectURL(audio) : undefined,
+      audioAttachmentId: payload.audioAttachmentId, // Voice messages are uploaded while being transcribed
+      transcript, sender: 'user', timestamp: new Date(), status: hasMedia ? 'uploading' : 'sent'
+    };
+    // Offline, or with older messages still waiting, the message joins the outbox so the order is kept
+    if (!navigator.onLine || messages.some(msg => msg.status === 'queued')) {
+      await queueMessage({ ...newUserMessage, status: 'queued' }, { attachments: files, audio });
+      return;
+    }
+    await runTurn(newUserMessage, messages, { attachments: files, audio });
+  };
+
+  // Puts a message in the outbox, or back into it when sending failed for lack of a connection.
+  // The server triages each message, but it won't see this one for a while, so triage it here too.
+  const queueMessage = async (message: Message, media: QueuedMedia) => {
+    setEmergency(prev => mergeEmergencySignals(prev, detectEmergency([message.text, message.transcript])));
+    try {
+      await saveQueuedMedia(message.id, media, vault.key);
+    } catch (error) {
+      console.error("Could not keep the message's media in the outbox:", error);
+    }
+    setMessages(prev => prev.some(msg => msg.id === message.id) ? prev.map(msg => msg.id === message.id ? message : msg) : [...prev, message]);
+  };
+
+  // A send that failed on the network goes back to the outbox; when the device claims to be online, wait before retrying
+  const requeueMessage = async (message: Message, media: QueuedMedia) => {
+    outboxRetryAtRef.current = Date.now() + OUTBOX_RETRY_MS;
+    await queueMessage({ ...message, status: 'queued' }, media);
+  };
+
+  const sendQueuedMessage = async (message: Message) => {
+    const index = messages.findIndex(msg => msg.id === message.id);
+    if (index === -1) return;
+    setIsLoading(true);
+    const media = await readQueuedMedia(message.id, vault.key);
+    await runTurn(message, messages.slice(0, index), media, messages.slice(index + 1));
+  };
+
+  // Shows `userMessage` after `earlierMessages`, dropping anything that came after them, and asks for a reply.
+  // New messages, retries, regenerated answers and edits all go through here, so the history sent to the
+  // server is always exactly what is on screen.
+  // Messages still waiting in the outbox are passed as `queuedMessages` and stay after it.
+  const runTurn = async (userMessage: Message, earlierMessages: Message[], media: QueuedMedia = {}, queuedMessages: Message[] = []) => {
+    setIsLoading(true);
+    setAutoPlayMessageId(null);
+    if (!keepsReport(messages, earlierMessages)) { clearReport(); }
+    setMessages([...earlierMessages, userMessage, ...queuedMessages]);
+    try {
+      const sessionId = await ensureSession();
+      const sentMessage = await uploadMessageMedia(userMessage, media, sessionId);
+      if (sentMessage) { await requestReply(sentMessage, earlierMessages, sessionId); }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Uploads media that has no attachment id yet; on a retry the files are read back from their local preview URLs.
+  // Returns the message as sent, or null when the upload failed (with an error bubble) or went back to the outbox.
+  const uploadMessageMedia = async (userMessage: Message, media: QueuedMedia, sessionId: string | null): Promise<Message | null> => {
+    if (userMessage.status !== 'uploading' && userMessage.status !== 'failed' && userMessage.status !== 'queued') return userMessage;
+    const messageId = userMessage.id;
+    setMessages(prev => prev.map((msg) => msg.id === messageId ? { ...msg, status: 'uploading' } : msg));
+    const readPreview = async (url?: string) => {
+      if (!url) return undefined;
+      try { return await (await fetch(url)).blob(); } catch { throw new Error(t('chat.mediaUnavailable')); } // Not a network error: retrying won't help
     };
+
+    let { imageAttachmentId, audioAttachmentId } = userMessage;
+    const attachments = [...(userMessage.attachments ?? [])];
+    let files: (Blob | undefined)[] = media.attachments ?? [];
+    try {
+      const image = imageAttachmentId ? undefined : await readPreview(userMessage.imageUrl); // Single image of older messages
+      const audio = audioAttachmentId ? undefined : media.audio ?? await readPreview(userMessage.audioDataUrl);
+      if (!media.attachments) { files = await Promise.all(attachments.map(attachment => (attachment.attachmentId ? undefined : readPreview(attachment.previewUrl)))); }
+      for (const [index, attachment] of attachments.entries()) {
+        if (attachment.attachmentId) continue;
+        const file = files[index];
+        if (!file) { throw new Error(t('chat.mediaUnavailable')); }
+        attachments[index] = { ...attachment, attachmentId: (await uploadAttachment(file, attachment.kind, sessionId)).id };
+      }
+      if (image) { imageAttachmentId = (await uploadAttachment(image, 'image', sessionId)).id; }
+      if (audio) { audioAttachmentId = (await uploadAttachment(audio, 'audio', sessionId)).id; }
+    } catch (error) {
+      const uploadedAttachments = attachments.length > 0 ? attachments : undefined;
+      if (isNetworkError(error)) {
+        const queuedFiles = files.every(Boolean) ? files as Blob[] : undefined;
+        await requeueMessage({ ...userMessage, attachments: uploadedAttachments, imageAttachmentId, audioAttachmentId }, { attachments: queuedFiles, audio: audioAttachmentId ? undefined : media.audio });
+        return null;
+      }
+      console.error("Attachment upload failed:", error);
+      setMessages(prev => prev.map((msg) => msg.id === messageId ? { ...msg, attachments: uploadedAttachments, imageAttachmentId, audioAttachmentId, status: 'failed' } : msg));
+      const errorMessage: Message = { id: crypto.randomUUID(), text: t('chat.error', { message: error instanceof Error ? error.message : t('messages.uploadFailed') }), sender: "ai", timestamp: new Date(), status: 'error' };
+      setMessages(prev => withReply(prev, errorMessage));
+      return null;
+    }
+    // Object URLs do not survive a reload, so the stored message only keeps the attachment ids
+    const sentMessage: Message = {
+      ...userMessage, imageUrl: undefined, audioDataUrl: undefined, imageAttachmentId, audioAttachmentId, status: 'sent',
+      attachments: attachments.length > 0 ? attachments.map(attachment => ({ ...attachment, previewUrl: undefined })) : undefined,
+    };
+    setMessages(prev => prev.map((msg) => msg.id === messageId ? sentMessage : msg));
+    const previewUrls = [userMessage.imageUrl, userMessage.audioDataUrl, ...attachments.map(attachment => attachment.previewUrl)];
+    previewUrls.forEach(url => { if (url?.startsWith('blob:')) URL.revokeObjectURL(url); });
+    return sentMessage;
+  };
+
+  // Streams the model's answer to `userMessage` into a new AI message; failures become an error bubble
+  const requestReply = async (userMessage: Message, earlierMessages: Message[], sessionId: string | null) => {
+    const { text, attachments, imageAttachmentId, audioAttachmentId, transcript } = userMessage;
     const thinkingMessageId = crypto.randomUUID();
+    const thinkingText = attachments?.length
+      ? (attachments.every(attachment => attachment.kind === 'image') ? t('chat.processingImage') : t('chat.processingAttachments'))
+      : imageAttachmentId ? t('chat.processingImage') : (audioAttachmentId ? t('chat.processingAudio') : t('chat.thinking'));
     const thinkingMessage: Message = {
-      id: thinkingMessageId, text: imageDataUrl ? "Processing image..." : (audioDataUrl ? "Processing audio..." : "Thinking..."),
+      id: thinkingMessageId, text: thinkingText,
       sender: "ai", timestamp: new Date(), status: 'loading'
     };
+    setMessages(prev => withReply(prev, thinkingMessage));
 
-    setMessages(prev => [...prev, newUserMessage]);
-    setMessages(prev => [...prev, thinkingMessage]);
-
-    const historyToSend = messages
-      .filter(msg => msg.text && (msg.status === undefined || ['sent', 'received'].includes(msg.status)))
-      .map(({ id, text, sender }) => ({ id, text, sender }));
+    // Earlier media goes by attachment id; the server decides how much of it still fits in the request
+    const historyToSend = earlierMessages
+      .filter(msg => (msg.text || msg.transcript || msg.attachments?.length || msg.imageAttachmentId || msg.audioAttachmentId) && (msg.status === undefined || ['sent', 'received'].includes(msg.status)))
+      .map(({ id, text, sender, attachments, imageAttachmentId, audioAttachmentId, transcript }) => ({ id, text, sender, attachments: attachmentRefs(attachments), imageAttachmentId, audioAttachmentId, transcript }));
 
     try {
       const response = await fetch('/api/chat', {
         method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt: newUserMessage.text, imageDataUrl, audioDataUrl, history: historyToSend }),
-      });
-
-      setMessages(prev => prev.filter((msg) => msg.id !== thinkingMessageId));
+        body: JSON.stringify({ prompt: text, attachments: attachmentRefs(attachments), imageAttachmentId, audioAttachmentId, transcript, history: historyToSend, locale, mode, sessionId, messageId: userMessage.id, stream: true }),
+      }).catch((error) => { if (isNetworkError(error)) { return null; } throw error; });
+      // The connection dropped before the server got the message: back to the outbox
+      if (!response) {
+        setMessages(prev => prev.filter((msg) => msg.id !== thinkingMessageId));
+        await requeueMessage(userMessage, {});
+        return;
+      }
 
+      const limitError = await toChatLimitError(response);
+      if (limitError) { throw limitError; }
+      // Signed out elsewhere or the sign-in expired: go back to the sign-in screen
+      if (response.status === 401) { refreshUser(); }
       if (!response.ok) {
         let errorMsg = `API request failed: ${response.statusText} (${response.status})`;
         try {
           const errorData = await response.json();
           errorMsg = errorData.error || errorMsg;
-          // --- Removed unused parseError variable ---
+          if (errorData.emergency) { setEmergency(prev => mergeEmergencySignals(prev, errorData.emergency)); }
         } catch {
           console.warn("Could not parse error JSON response body");
         }
-        // --- End Change ---
         throw new Error(errorMsg);
       }
+      if (!response.body) { throw new Error("Received an empty response from the AI."); }
 
-      const result = await response.json();
-      const aiResponseText = result.response;
-
-      if (aiResponseText) {
-        const reportStartIndex = aiResponseText.indexOf(REPORT_START_MARKER);
-        const reportEndIndex = aiResponseText.indexOf(REPORT_END_MARKER);
-        if (reportStartIndex !== -1 && reportEndIndex !== -1 && reportEndIndex > reportStartIndex) {
-          const regularResponse = aiResponseText.substring(0, reportStartIndex).trim();
-          const extractedReport = aiResponseText.substring(reportStartIndex + REPORT_START_MARKER.length, reportEndIndex).trim();
-          const postReportText = aiResponseText.substring(reportEndIndex + REPORT_END_MARKER.length).trim();
-          setReportContent(extractedReport);
+      // The thinking placeholder becomes the AI reply and is filled in as text arrives
+      let streamedText = "";
+      let receivedReport = false;
+      let drugWarnings: DrugWarning[] | undefined;
+      await readChatStream(response.body, (event) => {
+        if (event.type === 'delta') {
+          streamedText += event.text;
+          const replyText = streamedText;
+          setMessages(prev => prev.map((msg) => msg.id === thinkingMessageId ? { ...msg, text: replyText } : msg));
+        } else if (event.type === 'emergency') {
+          setEmergency(prev => mergeEmergencySignals(prev, event.emergency));
+        } else if (event.type === 'drugWarnings') {
+          drugWarnings = event.warnings;
+        } else if (event.type === 'report') {
+          receivedReport = true;
+          setReportContent(event.report);
           setIsReportVisible(false);
-          if (regularResponse) { const preMsg: Message = { id: crypto.randomUUID(), text: regularResponse, sender: "ai", timestamp: new Date(), status: 'received' }; setMessages(prev => [...prev, preMsg]); }
-          if (postReportText) { const postMsg: Message = { id: crypto.randomUUID(), text: postReportText, sender: "ai", timestamp: new Date(), status: 'received' }; setMessages(prev => [...prev, postMsg]); }
-        } else {
-          setReportContent(null);
-          const aiResponseMessage: Message = { id: crypto.randomUUID(), text: aiResponseText, sender: "ai", timestamp: new Date(), status: 'received' };
-          setMessages(prev => [...prev, aiResponseMessage]);
+          // Warnings go on the reply; when the reply was only a report, on the text after it
+          if (event.postReportText) { const postMsg: Message = { id: crypto.randomUUID(), text: event.postReportText, sender: "ai", timestamp: new Date(), status: 'received', drugWarnings: streamedText.trim() ? undefined : drugWarnings }; setMessages(prev => withReply(prev, postMsg)); }
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
         }
-      } else { throw new Error("Received an empty response from the AI."); }
+      });
+
+      if (!streamedText.trim() && !receivedReport) { throw new Error("Received an empty response from the AI."); }
+      if (!receivedReport) { setReportContent(null); }
+      setMessages(prev => streamedText.trim()
+        ? prev.map((msg) => msg.id === thinkingMessageId ? { ...msg, text: streamedText.trim(), timestamp: new Date(), status: 'received', drugWarnings } : msg)
+        : prev.filter((msg) => msg.id !== thinkingMessageId));
+      // The patient spoke their question, so answer out loud too
+      if (audioAttachmentId && streamedText.trim() && speechSettings.enabled && speechSettings.autoPlay) { setAutoPlayMessageId(thinkingMessageId); }
 
     } catch (error) {
       console.error("Error sending/getting AI response:", error);
+      // The server triages before calling the model, but if the request never got there, triage locally
+      setEmergency(prev => mergeEmergencySignals(prev, detectEmergency([text, transcript])));
+      // A message turned away for its rate or size was still triaged by the server, history included
+      const serverEmergency = error instanceof ChatLimitError ? error.emergency : null;
+      if (serverEmergency) { setEmergency(prev => mergeEmergencySignals(prev, serverEmergency)); }
       setMessages(prev => prev.filter((msg) => msg.id !== thinkingMessageId));
-      const errorMessage: Message = { id: crypto.randomUUID(), text: `Sorry, error: ${error instanceof Error ? error.message : "Unknown error"}`, sender: "ai", timestamp: new Date(), status: 'error' };
-      setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
+      const errorText = error instanceof ChatLimitError ? limitErrorText(error) : t('chat.error', { message: error instanceof Error ? error.message : "Unknown error" });
+      const errorMessage: Message = { id: crypto.randomUUID(), text: errorText, sender: "ai", timestamp: new Date(), status: 'error' };
+      setMessages(prev => withReply(prev, errorMessage));
     }
   };
 
-  const handleSendMessage = (text: string) => { sendMultimodalMessage({ text }); };
-  const handleNewSession = () => { if (confirm("Are you sure? This clears chat and report.")) { setMessages([]); setReportContent(null); setIsReportVisible(false); } };
+  const handleSendMessage = (text: string, files: File[]) => { sendMultimodalMessage({ text, files }); };
+
+  // Retry and regenerate run the patient message before `messageId` again, replacing everything after it
+  const handleRunAgain = (messageId: string) => {
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    const userIndex = messages.findLastIndex((msg, i) => i <= index && msg.sender === 'user');
+    if (isLoading || index === -1 || userIndex === -1) return;
+    runTurn(messages[userIndex], messages.slice(0, userIndex), {}, queuedAfter(messages, userIndex));
+  };
+  const handleEditMessage = (messageId: string, text: string) => {
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    if (isLoading || index === -1 || !text.trim()) return;
+    if (index < messages.length - 1 && !confirm(t('messages.confirmEdit'))) return;
+    runTurn({ ...messages[index], id: crypto.randomUUID(), text: text.trim(), timestamp: new Date() }, messages.slice(0, index), {}, queuedAfter(messages, index));
+  };
+  // Deleting a patient message also deletes the replies to it, so no answer is left to a question that is gone
+  const handleDeleteMessage = (messageId: string) => {
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    if (isLoading || index === -1) return;
+    let end = index + 1;
+    if (messages[index].sender === 'user') { while (end < messages.length && messages[end].sender === 'ai') end++; }
+    if (!confirm(t(end - index > 1 ? 'messages.confirmDeleteTurn' : 'messages.confirmDelete'))) return;
+    const remaining = [...messages.slice(0, index), ...messages.slice(end)];
+    if (!keepsReport(messages, remaining)) { clearReport(); }
+    setMessages(remaining);
+  };
+  const clearReport = () => { setReportContent(null); setIsReportVisible(false); };
+  const resetConsultation = () => { setMessages([]); setReportContent(null); setIsReportVisible(false); setReview(null); setEmergency(null); setCurrentSessionId(null); };
+  // Saved consultations stay in the history sidebar; only unsaved chats need a confirmation
+  const handleNewSession = () => { if (currentSessionId || messages.length === 0 || confirm(t('chat.confirmNewSession'))) { resetConsultation(); } };
+
+  const handleOpenSession = async (id: string) => {
+    if (isLoading || id === currentSessionId) return;
+    try {
+      const session = await fetchSession(id);
+      const loadedMessages: Message[] = session.messages.map((msg) => ({
+        ...msg, timestamp: msg.timestamp ? new Date(msg.timestamp) : undefined, status: msg.status as Message['status']
+      }));
+      lastSavedStateRef.current = JSON.stringify({ messages: loadedMessages, emergency: session.emergency ?? null });
+      setMessages(loadedMessages);
+      setReportContent(session.report);
+      setReview(session.review ?? null);
+      if (session.report?.mode) { setMode(session.report.mode); }
+      setEmergency(session.emergency ?? null);
+      setIsReportVisible(false);
+      setCurrentSessionId(session.id);
+    } catch (error) {
+      console.error("Failed to open consultation:", error);
+      alert(t('chat.openFailed'));
+    }
+  };
+  // The server reviews the report it saved from the chat; the transcript is saved first so the clinician sees all of it
+  const handleRequestReview = async () => {
+    if (!currentSessionId) return;
+    await saveSessionState(currentSessionId, messages, emergency);
+    lastSavedStateRef.current = JSON.stringify({ messages, emergency });
+    setReview(await requestReview(currentSessionId));
+  };
+  const handleSessionDeleted = (id: string) => { if (id === currentSessionId) { resetConsultation(); } };
+  const handleSignedOut = () => { resetConsultation(); setIsHistoryOpen(false); setIsProfileOpen(false); setIsVaultOpen(false); };
+
+  if (authStatus !== "signedIn" || vault.status === "locked" || !isChatReady) {
+    return (
+      <div className="flex flex-col h-screen bg-background">
+        <div className="flex justify-end space-x-2 p-2"> <LanguageMenu /> <ThemeToggle /> </div>
+        {authStatus === "signedOut" ? <SignInScreen />
+          : authStatus === "signedIn" && vault.status === "locked" ? <VaultLockScreen />
+            : <div className="flex flex-1 items-center justify-center"> <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /> </div>}
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col h-screen bg-background">
-      <Header onNewSession={handleNewSession} />
-      <MessageList messages={messages} />
-      {reportContent && (
-        <div className="container max-w-6xl p-4 border-t">
-          <div className="flex justify-between items-center mb-2"> <h3 className="text-lg font-semibold">Consultation Summary</h3> <Button variant="ghost" size="sm" onClick={() => setIsReportVisible(!isReportVisible)}> {isReportVisible ? "Hide" : "Show"} Report </Button> </div>
-          {isReportVisible && (<div className="p-4 bg-muted/50 rounded-md border"> <pre className="text-sm whitespace-pre-wrap font-sans"> {reportContent} </pre> </div>)}
-          <Separator className="my-4" />
+      <Header onNewSession={handleNewSession} onToggleHistory={() => setIsHistoryOpen(!isHistoryOpen)} onToggleProfile={() => { setIsProfileOpen(!isProfileOpen); setIsVaultOpen(false); }} onToggleVault={() => { setIsVaultOpen(!isVaultOpen); setIsProfileOpen(false); }} onSignedOut={handleSignedOut} mode={mode} onModeChange={setMode} speechSettings={speechSettings} onSpeechSettingsChange={setSpeechSettings} />
+      {emergency && <EmergencyBanner emergency={emergency} />}
+      <div className="relative flex flex-1 min-h-0">
+        {isHistoryOpen && (
+          <SessionSidebar currentSessionId={currentSessionId} refreshKey={historyRefreshKey} onOpenSession={handleOpenSession} onSessionDeleted={handleSessionDeleted} />
+        )}
+        <div className="flex flex-col flex-1 min-w-0">
+          <MessageList messages={messages} speechSettings={speechSettings} autoPlayMessageId={autoPlayMessageId} mode={mode} isBusy={isLoading} onRetry={handleRunAgain} onRegenerate={handleRunAgain} onEdit={handleEditMessage} onDelete={handleDeleteMessage} />
+          {reportContent && (
+            <div className="container max-w-6xl p-4 border-t">
+              <div className="flex justify-between items-center mb-2"> <h3 className="text-lg font-semibold">{t('report.heading')}</h3> <div className="flex items-center space-x-1"> <ReportExportMenu parsedReport={reportContent} messages={messages} /> <Button variant="ghost" size="sm" onClick={() => setIsReportVisible(!isReportVisible)}> {isReportVisible ? t('report.hide') : t('report.show')} </Button> </div> </div>
+              {isReportVisible && (
+                <div className="max-h-[50vh] overflow-y-auto space-y-3">
+                  {currentSessionId && <ReviewStatusPanel review={review} isOutdated={!!review && review.report.raw !== reportContent.raw} onRequestReview={handleRequestReview} />}
+                  <ConsultationReport parsedReport={reportContent} />
+                </div>
+              )}
+              <Separator className="my-4" />
+            </div>
+          )}
+          {!isOnline && <p className="px-4 pt-2 text-center text-xs text-muted-foreground">{t('chat.offline')}</p>}
+          <ChatInput onSendMessage={handleSendMessage} onSendAudio={handleSendAudio} onTranscribeAudio={handleTranscribeAudio} isLoading={isLoading} />
         </div>
-      )}
-      <ChatInput onSendMessage={handleSendMessage} onImageSelect={handleImageSelect} onSendAudio={handleSendAudio} isLoading={isLoading} />
+        {isProfileOpen && <PatientProfilePanel onClose={() => setIsProfileOpen(false)} />}
+        {isVaultOpen && <VaultSettingsPanel onClose={() => setIsVaultOpen(false)} />}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
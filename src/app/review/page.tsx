@@ -0,0 +1,199 @@
+// src/app/review/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2, Siren } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { cn } from "@/lib/utils";
+import { ReportReview, ReviewCase, ReviewSummary } from "@/lib/reviews/types";
+import { fetchReviewCase, fetchReviewQueue } from "@/lib/reviews/client";
+import { PatientProfile } from "@/lib/profile/types";
+import { ageInYears, isProfileEmpty } from "@/lib/profile/context";
+import { UiMessageKey } from "@/lib/i18n";
+import { useI18n } from "@/contexts/i18n-provider";
+import { useAuth } from "@/contexts/auth-provider";
+import { AccountMenu } from "../_components/account-menu";
+import { ConsultationReport } from "../_components/consultation-report";
+import { LanguageMenu } from "../_components/language-menu";
+import { Message, MessageItem } from "../_components/message-item";
+import { ReviewDecisionForm } from "../_components/review-decision-form";
+import { SignInScreen } from "../_components/sign-in-screen";
+import { ThemeToggle } from "../_components/theme-toggle";
+
+type QueueFilter = "pending" | "reviewed";
+
+const FILTER_KEYS: Record<QueueFilter, UiMessageKey> = { pending: 'queue.pending', reviewed: 'queue.reviewed' };
+
+const formatDate = (iso: string): string => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? "" : date.toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+};
+
+// The clinician sees what the patient entered, in the same words the profile panel uses
+function ProfileSummary({ profile }: { profile: PatientProfile | null }) {
+  const { t } = useI18n();
+  if (!profile || isProfileEmpty(profile)) return <p className="text-sm text-muted-foreground">{t('queue.noProfile')}</p>;
+  const sexKeys: Record<NonNullable<PatientProfile["sex"]>, UiMessageKey> = { female: 'profile.female', male: 'profile.male', other: 'profile.other' };
+  const pregnancyKeys: Record<NonNullable<PatientProfile["pregnancy"]>, UiMessageKey> = { "pregnant": 'profile.pregnant', "not-pregnant": 'profile.notPregnant', "unknown": 'profile.pregnancyUnknown' };
+  const rows: [string, string | null][] = [
+    [t('profile.dateOfBirth'), profile.dateOfBirth && t('queue.age', { date: profile.dateOfBirth, years: ageInYears(profile.dateOfBirth) })],
+    [t('profile.sex'), profile.sex && t(sexKeys[profile.sex])],
+    [t('profile.pregnancy'), profile.pregnancy && t(pregnancyKeys[profile.pregnancy])],
+    [t('profile.conditions'), profile.conditions.join("; ") || null],
+    [t('profile.medications'), profile.medications.join("; ") || null],
+    [t('profile.allergies'), profile.allergies.join("; ") || null],
+  ];
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      {rows.filter(([, value]) => value).map(([label, value]) => (
+        <React.Fragment key={label}> <dt className="text-muted-foreground">{label}</dt> <dd>{value}</dd> </React.Fragment>
+      ))}
+    </dl>
+  );
+}
+
+export default function ReviewPage() {
+  const { t } = useI18n();
+  const { user, status: authStatus } = useAuth();
+  const [filter, setFilter] = useState<QueueFilter>("pending");
+  const [queue, setQueue] = useState<ReviewSummary[]>([]);
+  const [isQueueLoading, setIsQueueLoading] = useState(true);
+  const [queueError, setQueueError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reviewCase, setReviewCase] = useState<ReviewCase | null>(null);
+  const [caseError, setCaseError] = useState<string | null>(null);
+  const isClinician = user?.role === "clinician";
+
+  const loadQueue = useCallback(async () => {
+    setIsQueueLoading(true);
+    try {
+      setQueue(await fetchReviewQueue(filter));
+      setQueueError(null);
+    } catch (error) {
+      console.error("Failed to load review queue:", error);
+      setQueueError(t('queue.loadFailed', { message: error instanceof Error ? error.message : "Unknown error" }));
+    } finally {
+      setIsQueueLoading(false);
+    }
+  }, [filter, t]);
+
+  useEffect(() => { if (isClinician) loadQueue(); }, [isClinician, loadQueue]);
+
+  useEffect(() => {
+    if (!selectedId) { setReviewCase(null); return; }
+    setReviewCase(null); setCaseError(null);
+    fetchReviewCase(selectedId)
+      .then(setReviewCase)
+      .catch(error => { console.error("Failed to load review:", error); setCaseError(t('queue.loadFailed', { message: error instanceof Error ? error.message : "Unknown error" })); });
+  }, [selectedId, t]);
+
+  // The decision moves the case from "waiting" to "reviewed"
+  const handleSaved = (review: ReportReview) => {
+    setReviewCase(current => current && { ...current, session: { ...current.session, review } });
+    loadQueue();
+  };
+
+  const toolbar = <div className="flex items-center space-x-2"> <LanguageMenu /> <ThemeToggle /> {user && <AccountMenu onSignedOut={() => setSelectedId(null)} />} </div>;
+
+  if (authStatus !== "signedIn" || !isClinician) {
+    return (
+      <div className="flex flex-col h-screen bg-background">
+        <div className="flex justify-end p-2"> {toolbar} </div>
+        {authStatus === "loading" && <div className="flex flex-1 items-center justify-center"> <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /> </div>}
+        {authStatus === "signedOut" && <SignInScreen />}
+        {authStatus === "signedIn" && (
+          <div className="flex flex-1 flex-col items-center justify-center space-y-3 text-sm">
+            <p className="text-muted-foreground">{t('queue.forbidden')}</p>
+            <Button variant="outline" size="sm" asChild><Link href="/">{t('queue.openChat')}</Link></Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const session = reviewCase?.session;
+  const transcript: Message[] = (session?.messages ?? []).map(msg => ({
+    ...msg, timestamp: msg.timestamp ? new Date(msg.timestamp) : undefined, status: msg.status as Message['status']
+  }));
+
+  return (
+    <div className="flex flex-col h-screen bg-background">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container flex h-14 items-center justify-between">
+          <span className="font-bold text-lg">MyDocta · {t('queue.title')}</span>
+          {toolbar}
+        </div>
+      </header>
+      <div className="flex flex-1 min-h-0">
+        {/* Queue */}
+        <aside className={cn("w-full sm:w-80 border-r flex-col min-h-0", selectedId ? "hidden sm:flex" : "flex")}>
+          <div className="flex space-x-1 p-2">
+            {(Object.keys(FILTER_KEYS) as QueueFilter[]).map(key => (
+              <Button key={key} size="sm" variant={filter === key ? "secondary" : "ghost"} onClick={() => setFilter(key)}>{t(FILTER_KEYS[key])}</Button>
+            ))}
+          </div>
+          <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+            {isQueueLoading && <div className="flex justify-center p-4"> <Loader2 className="h-4 w-4 animate-spin" /> </div>}
+            {!isQueueLoading && queueError && <p className="p-2 text-sm text-destructive">{queueError}</p>}
+            {!isQueueLoading && !queueError && queue.length === 0 && <p className="p-2 text-sm text-muted-foreground">{t('queue.empty')}</p>}
+            {!isQueueLoading && queue.map(item => (
+              <button key={item.sessionId} onClick={() => setSelectedId(item.sessionId)}
+                className={cn("w-full rounded-md p-2 text-left text-sm hover:bg-muted", item.sessionId === selectedId && "bg-muted")}>
+                <p className="flex items-center space-x-1 font-medium">
+                  {item.hasEmergency && <Siren className="h-4 w-4 flex-shrink-0 text-destructive" aria-label={t('queue.emergency')} />}
+                  <span className="truncate">{item.chiefComplaint || t('queue.noComplaint')}</span>
+                </p>
+                {item.mostLikelyDiagnosis && <p className="truncate text-muted-foreground">{item.mostLikelyDiagnosis}</p>}
+                <p className="text-xs text-muted-foreground">{t('queue.submitted', { date: formatDate(item.submittedAt) })}</p>
+              </button>
+            ))}
+          </div>
+        </aside>
+
+        {/* Case */}
+        <main className={cn("flex-1 min-w-0 overflow-y-auto", !selectedId && "hidden sm:block")}>
+          {!selectedId && <p className="p-6 text-sm text-muted-foreground">{t('queue.select')}</p>}
+          {selectedId && !session && !caseError && <div className="flex justify-center p-6"> <Loader2 className="h-5 w-5 animate-spin" /> </div>}
+          {caseError && <p className="p-6 text-sm text-destructive">{caseError}</p>}
+          {session?.review && (
+            <div className="container max-w-4xl p-4 space-y-4">
+              <Button variant="ghost" size="sm" className="sm:hidden" onClick={() => setSelectedId(null)}> <ArrowLeft className="h-4 w-4 mr-1" /> {t('queue.back')} </Button>
+              {session.emergency && (
+                <div role="alert" className="flex items-start space-x-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm">
+                  <Siren className="h-4 w-4 flex-shrink-0 mt-0.5 text-destructive" />
+                  <p><span className="font-semibold">{t('queue.emergency')}:</span> {session.emergency.matches.map(match => match.label).join(", ")}</p>
+                </div>
+              )}
+              <section className="space-y-2">
+                <h3 className="text-lg font-semibold">{t('queue.profile')}</h3>
+                <ProfileSummary profile={reviewCase!.profile} />
+              </section>
+              <Separator />
+              <section className="space-y-2">
+                <h3 className="text-lg font-semibold">{t('report.heading')}</h3>
+                <ConsultationReport parsedReport={session.review.report} />
+              </section>
+              <Separator />
+              <section className="space-y-2">
+                <h3 className="text-lg font-semibold">{t('queue.decision')}</h3>
+                {session.review.reviewedAt && (
+                  <p className="text-xs text-muted-foreground">{t('queue.lastReviewed', { name: session.review.reviewerName ?? "", date: formatDate(session.review.reviewedAt) })}</p>
+                )}
+                <ReviewDecisionForm key={session.id} sessionId={session.id} review={session.review} onSaved={handleSaved} />
+              </section>
+              <Separator />
+              <details className="rounded-md border p-3">
+                <summary className="text-sm cursor-pointer font-semibold">{t('queue.transcript', { count: transcript.length })}</summary>
+                <div className="space-y-4 mt-3">
+                  {transcript.map(message => <MessageItem key={message.id} message={message} authorInitials={t('queue.patientInitials')} />)}
+                </div>
+              </details>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
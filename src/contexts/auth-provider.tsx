@@ -0,0 +1,74 @@
+// src/contexts/auth-provider.tsx
+"use client";
+
+import * as React from "react";
+import { PublicUser } from "@/lib/auth/types";
+import { deleteAccount as deleteAccountRequest, fetchCurrentUser, signOut as signOutRequest } from "@/lib/auth/client";
+import { isNetworkError } from "@/lib/outbox";
+
+type AuthStatus = "loading" | "signedIn" | "signedOut";
+
+// The last signed-in user, so the app still opens signed in when it is loaded offline
+const LAST_USER_KEY = "my-docta-last-user";
+
+function readLastUser(): PublicUser | null {
+    try { return JSON.parse(localStorage.getItem(LAST_USER_KEY) ?? "null") as PublicUser | null; } catch { return null; }
+}
+
+function writeLastUser(user: PublicUser | null) {
+    try {
+        if (user) localStorage.setItem(LAST_USER_KEY, JSON.stringify(user));
+        else localStorage.removeItem(LAST_USER_KEY);
+    } catch { /* storage unavailable */ }
+}
+
+interface AuthContextValue {
+    user: PublicUser | null;
+    status: AuthStatus;
+    setUser: (user: PublicUser | null) => void; // After signing in or up
+    refresh: () => Promise<void>; // Re-checks the cookie, e.g. after an API call answered 401
+    signOut: () => Promise<void>;
+    deleteAccount: () => Promise<void>;
+}
+
+const AuthContext = React.createContext<AuthContextValue>({
+    user: null,
+    status: "loading",
+    setUser: () => { },
+    refresh: async () => { },
+    signOut: async () => { },
+    deleteAccount: async () => { },
+});
+
+// The signed-in user comes from the session cookie, checked once on load
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+    const [user, setUser] = React.useState<PublicUser | null>(null);
+    const [status, setStatus] = React.useState<AuthStatus>("loading");
+
+    const applyUser = React.useCallback((next: PublicUser | null) => { setUser(next); setStatus(next ? "signedIn" : "signedOut"); writeLastUser(next); }, []);
+
+    const refresh = React.useCallback(async () => {
+        try { applyUser(await fetchCurrentUser()); }
+        catch (error) {
+            // Offline, the session cannot be checked: keep the last user so messages can still be queued
+            const lastUser = isNetworkError(error) ? readLastUser() : null;
+            if (lastUser) { setUser(lastUser); setStatus("signedIn"); return; }
+            console.error("Failed to load the signed-in user:", error);
+            applyUser(null);
+        }
+    }, [applyUser]);
+
+    React.useEffect(() => { refresh(); }, [refresh]);
+
+    const value = React.useMemo<AuthContextValue>(() => ({
+        user,
+        status,
+        setUser: applyUser,
+        refresh,
+        signOut: async () => { await signOutRequest(); applyUser(null); },
+        deleteAccount: async () => { await deleteAccountRequest(); applyUser(null); },
+    }), [user, status, applyUser, refresh]);
+    return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export const useAuth = () => React.useContext(AuthContext);
@@ -0,0 +1,35 @@
+// src/contexts/i18n-provider.tsx
+"use client";
+
+import * as React from "react";
+import { useLocalStorage } from "usehooks-ts";
+import { DEFAULT_LOCALE, LOCALE_STORAGE_KEY, Locale, toLocale, translate, TranslationVars, UiMessageKey } from "@/lib/i18n";
+
+interface I18nContextValue {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: (key: UiMessageKey, vars?: TranslationVars) => string;
+}
+
+const I18nContext = React.createContext<I18nContextValue>({
+    locale: DEFAULT_LOCALE,
+    setLocale: () => { },
+    t: (key, vars) => translate(DEFAULT_LOCALE, key, vars),
+});
+
+// The chosen language is remembered in localStorage, like the rest of the chat state
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+    const [storedLocale, setLocale] = useLocalStorage<Locale>(LOCALE_STORAGE_KEY, DEFAULT_LOCALE);
+    const locale = toLocale(storedLocale);
+
+    React.useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+
+    const value = React.useMemo<I18nContextValue>(() => ({
+        locale,
+        setLocale,
+        t: (key, vars) => translate(locale, key, vars),
+    }), [locale, setLocale]);
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => React.useContext(I18nContext);
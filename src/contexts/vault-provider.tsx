@@ -0,0 +1,146 @@
+// src/contexts/vault-provider.tsx
+"use client";
+
+import * as React from "react";
+import {
+    createVault, DEFAULT_AUTO_LOCK_MINUTES, encryptValue, openVault, readStoredValue, readVaultRecord, SECURE_STORAGE_KEYS, writeStoredValue, writeVaultRecord,
+} from "@/lib/vault";
+
+type VaultStatus = "loading" | "off" | "locked" | "unlocked";
+
+interface VaultContextValue {
+    status: VaultStatus;
+    key: CryptoKey | null; // Only while unlocked
+    autoLockMinutes: number;
+    enable: (passphrase: string, autoLockMinutes: number) => Promise<void>; // Encrypts what is already stored
+    unlock: (passphrase: string) => Promise<boolean>; // False when the passphrase is wrong
+    lock: () => void;
+    disable: () => Promise<void>; // Decrypts everything back to plain localStorage
+    erase: () => void; // Forgotten passphrase: removes the encrypted items
+    setAutoLockMinutes: (minutes: number) => void;
+}
+
+const VaultContext = React.createContext<VaultContextValue>({
+    status: "loading",
+    key: null,
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+    enable: async () => { },
+    unlock: async () => false,
+    lock: () => { },
+    disable: async () => { },
+    erase: () => { },
+    setAutoLockMinutes: () => { },
+});
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+// Holds the vault key in memory and locks it again after a period without any interaction
+export function VaultProvider({ children }: { children: React.ReactNode }) {
+    const [status, setStatus] = React.useState<VaultStatus>("loading");
+    const [key, setKey] = React.useState<CryptoKey | null>(null);
+    const [autoLockMinutes, setAutoLock] = React.useState(DEFAULT_AUTO_LOCK_MINUTES);
+
+    React.useEffect(() => {
+        const record = readVaultRecord();
+        setStatus(record ? "locked" : "off");
+        if (record) setAutoLock(record.autoLockMinutes);
+    }, []);
+
+    const lock = React.useCallback(() => { setKey(null); setStatus(current => (current === "unlocked" ? "locked" : current)); }, []);
+
+    // Background tabs throttle timers, so activity is compared against the clock rather than counted down
+    React.useEffect(() => {
+        if (status !== "unlocked") return;
+        let lastActivity = Date.now();
+        const markActive = () => { lastActivity = Date.now(); };
+        const checkIdle = () => { if (Date.now() - lastActivity > autoLockMinutes * 60000) lock(); };
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+        document.addEventListener("visibilitychange", checkIdle);
+        const timer = setInterval(checkIdle, 15000);
+        return () => {
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+            document.removeEventListener("visibilitychange", checkIdle);
+            clearInterval(timer);
+        };
+    }, [status, autoLockMinutes, lock]);
+
+    const value = React.useMemo<VaultContextValue>(() => ({
+        status,
+        key,
+        autoLockMinutes,
+        enable: async (passphrase, minutes) => {
+            const vault = await createVault(passphrase, minutes);
+            for (const storageKey of SECURE_STORAGE_KEYS) {
+                const stored = await readStoredValue(storageKey, null);
+                if (stored !== undefined) await writeStoredValue(storageKey, stored, vault.key);
+            }
+            writeVaultRecord(vault.record);
+            setAutoLock(minutes); setKey(vault.key); setStatus("unlocked");
+        },
+        unlock: async (passphrase) => {
+            const record = readVaultRecord();
+            const unlocked = record ? await openVault(record, passphrase) : null;
+            if (unlocked) { setKey(unlocked); setStatus("unlocked"); }
+            return !!unlocked;
+        },
+        lock,
+        disable: async () => {
+            if (!key) return;
+            for (const storageKey of SECURE_STORAGE_KEYS) {
+                const stored = await readStoredValue(storageKey, key);
+                if (stored !== undefined) await writeStoredValue(storageKey, stored, null);
+                else localStorage.removeItem(storageKey);
+            }
+            writeVaultRecord(null);
+            setKey(null); setStatus("off");
+        },
+        erase: () => {
+            SECURE_STORAGE_KEYS.forEach(storageKey => localStorage.removeItem(storageKey));
+            writeVaultRecord(null);
+            setKey(null); setStatus("off");
+        },
+        setAutoLockMinutes: (minutes) => {
+            const record = readVaultRecord();
+            if (record) writeVaultRecord({ ...record, autoLockMinutes: minutes });
+            setAutoLock(minutes);
+        },
+    }), [status, key, autoLockMinutes, lock]);
+    return <VaultContext.Provider value={value}>{children}</VaultContext.Provider>;
+}
+
+export const useVault = () => React.useContext(VaultContext);
+
+// Like useLocalStorage, for health data: encrypted while the vault is on, and empty while it is locked.
+// `isReady` is false until the stored value has been read, so nothing written before then is lost.
+export function useSecureStorage<T>(storageKey: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>, boolean] {
+    const { status, key } = useVault();
+    const [value, setValue] = React.useState<T>(initialValue);
+    const [isReady, setIsReady] = React.useState(false);
+    const initialValueRef = React.useRef(initialValue);
+    const writeCountRef = React.useRef(0);
+
+    React.useEffect(() => {
+        writeCountRef.current++; // Drops writes still being encrypted for the previous state
+        setIsReady(false);
+        setValue(initialValueRef.current);
+        if (status !== "off" && status !== "unlocked") return;
+        let isCurrent = true;
+        readStoredValue<T>(storageKey, key).then(stored => {
+            if (!isCurrent) return;
+            setValue(stored === undefined ? initialValueRef.current : stored);
+            setIsReady(true);
+        });
+        return () => { isCurrent = false; };
+    }, [storageKey, status, key]);
+
+    React.useEffect(() => {
+        if (!isReady) return;
+        // Encryption is async: only the most recent value may reach storage
+        const write = ++writeCountRef.current;
+        (key ? encryptValue(key, value) : Promise.resolve(value))
+            .then(stored => { if (write === writeCountRef.current) localStorage.setItem(storageKey, JSON.stringify(stored)); })
+            .catch(error => console.error(`Could not save ${storageKey} on this device:`, error));
+    }, [storageKey, value, key, isReady]);
+
+    return [value, setValue, isReady];
+}
@@ -0,0 +1,25 @@
+// src/lib/attachments/client.ts
+// Browser-side helpers for /api/attachments. Only imports types and shared media rules.
+import { checkMediaSize, checkMediaType, MediaKind } from './media';
+import type { AttachmentMeta } from './types';
+
+export const attachmentUrl = (id: string): string => `/api/attachments/${id}`;
+
+// Uploads a file as multipart form data; the same checks run again on the server
+export async function uploadAttachment(file: Blob, kind: MediaKind, sessionId?: string | null): Promise<AttachmentMeta> {
+    const validationError = checkMediaType(file.type, kind) ?? checkMediaSize(file.size, kind);
+    if (validationError) throw new Error(validationError);
+
+    const formData = new FormData();
+    formData.append('file', file, file instanceof File ? file.name : `${kind}-recording`);
+    formData.append('kind', kind);
+    if (sessionId) formData.append('sessionId', sessionId);
+
+    const response = await fetch('/api/attachments', { method: 'POST', body: formData });
+    if (!response.ok) {
+        let errorMsg = `Upload failed: ${response.statusText} (${response.status})`;
+        try { errorMsg = (await response.json()).error || errorMsg; } catch { /* non-JSON body */ }
+        throw new Error(errorMsg);
+    }
+    return (await response.json()).attachment as AttachmentMeta;
+}
@@ -0,0 +1,19 @@
+// src/lib/attachments/index.ts
+// Server-side attachment store; files live in DATA_DIR/attachments (see src/lib/sessions for DATA_DIR).
+import path from 'path';
+import { dataDirectory } from '@/lib/sessions';
+import { getDataCipher } from '@/lib/encryption';
+import { createFileAttachmentStore } from './store';
+import { AttachmentStore } from './types';
+
+export * from './types';
+export * from './media';
+
+const globalForAttachments = globalThis as unknown as { attachmentStore?: AttachmentStore };
+
+export function getAttachmentStore(): AttachmentStore {
+    if (!globalForAttachments.attachmentStore) {
+        globalForAttachments.attachmentStore = createFileAttachmentStore(path.join(dataDirectory(), 'attachments'), getDataCipher());
+    }
+    return globalForAttachments.attachmentStore;
+}
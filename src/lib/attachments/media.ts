@@ -0,0 +1,72 @@
+// src/lib/attachments/media.ts
+// MIME type and size rules for images, audio and documents, shared by the upload route, /api/chat and the browser.
+
+export type MediaKind = 'image' | 'audio' | 'document';
+
+export const MEDIA_KINDS: MediaKind[] = ['image', 'audio', 'document'];
+
+// Raster photo formats only: an SVG is a document that can run script, so it is never accepted as an image
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic'];
+
+// Documents (lab results, prescriptions) are PDFs, which the model reads directly
+export const DOCUMENT_TYPES = ['application/pdf'];
+
+// Common types produced by browser recording; others are let through for the model to accept or reject
+export const COMMON_AUDIO_TYPES = ['audio/webm', 'audio/ogg', 'audio/wav', 'audio/mp4', 'audio/aac', 'audio/mpeg', 'audio/mp3'];
+
+// Inline requests to Gemini are capped at ~20MB in total, so keep single files well below that
+export const MAX_ATTACHMENT_BYTES: Record<MediaKind, number> = {
+    image: 8 * 1024 * 1024,
+    audio: 12 * 1024 * 1024,
+    document: 8 * 1024 * 1024,
+};
+
+// Photos and documents attached to one message, by count and by raw size together
+export const MAX_MESSAGE_ATTACHMENTS = 6;
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 16 * 1024 * 1024;
+
+// How much earlier media is re-sent with each turn. Newest first; anything over budget is replaced by a
+// short note. Bytes are raw file sizes (base64 adds a third on the wire), counted after the current turn's media.
+export const HISTORY_MEDIA_BUDGET = {
+    bytes: 10 * 1024 * 1024,
+    items: 6,
+};
+
+export const isMediaKind = (value: unknown): value is MediaKind => MEDIA_KINDS.includes(value as MediaKind);
+
+// The kind a file picked in the browser is uploaded as; null for anything that can't be attached to a message
+export const attachmentKindOf = (mimeType: string): 'image' | 'document' | null =>
+    IMAGE_TYPES.includes(mimeType) ? 'image' : DOCUMENT_TYPES.includes(mimeType) ? 'document' : null;
+
+export const formatBytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Returns an error message when the MIME type is not acceptable for the expected kind
+export function checkMediaType(mimeType: string, expectedType: MediaKind): string | null {
+    if (expectedType === 'image' && !IMAGE_TYPES.includes(mimeType)) {
+        console.error("Invalid image MIME type:", mimeType);
+        return "Invalid image format. Only JPEG, PNG, WebP, GIF and HEIC photos are supported.";
+    }
+    if (expectedType === 'audio') {
+        if (!mimeType.startsWith('audio/')) {
+            console.error("Invalid audio MIME type:", mimeType);
+            return "Invalid or unsupported audio data format.";
+        }
+        if (!COMMON_AUDIO_TYPES.some(type => mimeType.startsWith(type))) {
+            // Allowed anyway and left for the model to handle/reject
+            console.warn(`Unusual audio MIME type: ${mimeType}. Check Gemini documentation for supported audio formats.`);
+        }
+    }
+    if (expectedType === 'document' && !DOCUMENT_TYPES.includes(mimeType)) {
+        console.error("Invalid document MIME type:", mimeType);
+        return "Invalid document format. Only PDF files are supported.";
+    }
+    return null;
+}
+
+export function checkMediaSize(size: number, expectedType: MediaKind): string | null {
+    if (size <= 0) return `The ${expectedType} file is empty.`;
+    if (size > MAX_ATTACHMENT_BYTES[expectedType]) {
+        return `The ${expectedType} is too large (${formatBytes(size)}). The limit is ${formatBytes(MAX_ATTACHMENT_BYTES[expectedType])}.`;
+    }
+    return null;
+}
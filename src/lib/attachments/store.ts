@@ -0,0 +1,72 @@
+// src/lib/attachments/store.ts
+// Local disk storage: DIR/<id>.bin holds the bytes, DIR/<id>.json the metadata. Both are sealed with `cipher`.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isUuid } from '@/lib/utils';
+import { DataCipher, openJson, sealJson } from '@/lib/encryption';
+import { AttachmentMeta, AttachmentStore } from './types';
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+export function createFileAttachmentStore(directory: string, cipher: DataCipher): AttachmentStore {
+    const dataPath = (id: string) => path.join(directory, `${id}.bin`);
+    const metaPath = (id: string) => path.join(directory, `${id}.json`);
+
+    const readMeta = async (id: string): Promise<AttachmentMeta | null> => {
+        if (!isUuid(id)) return null;
+        try {
+            return openJson<AttachmentMeta>(cipher, await fs.readFile(metaPath(id)));
+        } catch (error) {
+            if (isMissing(error)) return null;
+            throw error;
+        }
+    };
+
+    const remove = async (id: string): Promise<boolean> => {
+        if (!isUuid(id)) return false;
+        const results = await Promise.allSettled([fs.unlink(dataPath(id)), fs.unlink(metaPath(id))]);
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected' && !isMissing(result.reason));
+        if (failure) throw failure.reason;
+        return results.some(result => result.status === 'fulfilled');
+    };
+
+    const removeMatching = async (matches: (meta: AttachmentMeta) => boolean): Promise<number> => {
+        let files: string[];
+        try { files = await fs.readdir(directory); }
+        catch (error) { if (isMissing(error)) return 0; throw error; }
+        let removed = 0;
+        for (const file of files.filter(name => name.endsWith('.json'))) {
+            const meta = await readMeta(file.replace(/\.json$/, ''));
+            if (meta && matches(meta) && await remove(meta.id)) removed++;
+        }
+        return removed;
+    };
+
+    return {
+        async save(data, fields) {
+            await fs.mkdir(directory, { recursive: true });
+            const meta: AttachmentMeta = { ...fields, id: crypto.randomUUID(), size: data.length, createdAt: new Date().toISOString() };
+            // Bytes first: metadata only exists once the attachment is complete
+            await fs.writeFile(dataPath(meta.id), cipher.seal(data));
+            await fs.writeFile(metaPath(meta.id), sealJson(cipher, meta));
+            return meta;
+        },
+
+        async read(id) {
+            const meta = await readMeta(id);
+            if (!meta) return null;
+            try {
+                return { meta, data: cipher.open(await fs.readFile(dataPath(id))) };
+            } catch (error) {
+                if (isMissing(error)) return null;
+                throw error;
+            }
+        },
+
+        readMeta,
+        remove,
+
+        removeBySession: (sessionId) => removeMatching(meta => meta.sessionId === sessionId),
+        removeByOwner: (ownerId) => removeMatching(meta => meta.ownerId === ownerId),
+    };
+}
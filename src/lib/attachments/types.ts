@@ -0,0 +1,37 @@
+// src/lib/attachments/types.ts
+import type { MediaKind } from './media';
+
+export interface AttachmentMeta {
+    id: string;
+    kind: MediaKind;
+    mimeType: string;
+    size: number;
+    fileName: string | null;
+    sessionId: string | null; // Lets attachments be removed together with their consultation
+    ownerId: string | null; // Account that uploaded it; null for uploads from before accounts existed
+    createdAt: string;
+}
+
+// A photo or document sent with a chat message. Stored with the message, and sent to /api/chat by id.
+export interface MessageAttachment {
+    kind: 'image' | 'document';
+    mimeType: string;
+    fileName?: string;
+    size?: number;
+    attachmentId?: string; // Set once uploaded through /api/attachments
+    previewUrl?: string; // Local blob: URL while it uploads or waits in the outbox
+}
+
+export interface StoredAttachment {
+    meta: AttachmentMeta;
+    data: Buffer;
+}
+
+export interface AttachmentStore {
+    save(data: Buffer, meta: Omit<AttachmentMeta, 'id' | 'size' | 'createdAt'>): Promise<AttachmentMeta>;
+    read(id: string): Promise<StoredAttachment | null>;
+    readMeta(id: string): Promise<AttachmentMeta | null>;
+    remove(id: string): Promise<boolean>;
+    removeBySession(sessionId: string): Promise<number>;
+    removeByOwner(ownerId: string): Promise<number>;
+}
@@ -0,0 +1,56 @@
+// src/lib/auth/client.ts
+// Browser-side helpers for /api/auth. Only imports types and shared field rules.
+import type { PublicUser } from './types';
+
+export { checkEmail, checkPassword, MIN_PASSWORD_LENGTH } from './validation';
+
+async function readError(response: Response): Promise<string> {
+    let errorMsg = `Request failed: ${response.statusText} (${response.status})`;
+    try { errorMsg = (await response.json()).error || errorMsg; } catch { /* empty or non-JSON body */ }
+    return errorMsg;
+}
+
+const postJson = (url: string, body: unknown) => fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+// The signed-in user, or null when signed out
+export async function fetchCurrentUser(): Promise<PublicUser | null> {
+    const response = await fetch('/api/auth/me');
+    if (response.status === 401) return null;
+    if (!response.ok) throw new Error(await readError(response));
+    return (await response.json()).user as PublicUser;
+}
+
+export async function signUp(fields: { email: string; password: string; name?: string }): Promise<PublicUser> {
+    const response = await postJson('/api/auth/sign-up', fields);
+    if (!response.ok) throw new Error(await readError(response));
+    return (await response.json()).user as PublicUser;
+}
+
+export async function signIn(fields: { email: string; password: string }): Promise<PublicUser> {
+    const response = await postJson('/api/auth/sign-in', fields);
+    if (!response.ok) throw new Error(await readError(response));
+    return (await response.json()).user as PublicUser;
+}
+
+export async function requestMagicLink(email: string): Promise<void> {
+    const response = await postJson('/api/auth/magic-link', { email });
+    if (!response.ok) throw new Error(await readError(response));
+}
+
+export async function signOut(): Promise<void> {
+    const response = await fetch('/api/auth/sign-out', { method: 'POST' });
+    if (!response.ok) throw new Error(await readError(response));
+}
+
+// Deletes the account with its consultations, attachments and patient profile
+export async function deleteAccount(): Promise<void> {
+    const response = await fetch('/api/auth/me', { method: 'DELETE' });
+    if (!response.ok) throw new Error(await readError(response));
+}
+
+// One or two letters for the avatar: initials of the name, else the start of the email
+export function userInitials(user: Pick<PublicUser, 'name' | 'email'>): string {
+    const words = user.name?.trim().split(/\s+/).filter(Boolean) ?? [];
+    if (words.length > 0) return (words[0][0] + (words.length > 1 ? words[words.length - 1][0] : '')).toUpperCase();
+    return user.email.substring(0, 1).toUpperCase();
+}
@@ -0,0 +1,97 @@
+// src/lib/auth/index.ts
+// Server-side accounts and sign-in, configured by env:
+//   SESSION_STORE  'file' (default) or 'memory', shared with consultations; accounts live in DATA_DIR/auth.json
+//   APP_URL        public address used in emailed sign-in links; required in production (default: http://localhost:PORT)
+//   CLINICIAN_EMAILS  comma-separated emails of accounts with the clinician role, once signed in by email link
+// Sign-in lasts SESSION_TTL_MS and is kept in an HTTP-only cookie holding a random token.
+import path from 'path';
+import { NextResponse } from 'next/server';
+import { dataDirectory } from '@/lib/sessions';
+import { getDataCipher } from '@/lib/encryption';
+import { createOutboxMailer } from './mail';
+import { createAuthRepository, SESSION_TTL_MS } from './repository';
+import { createFileAuthStorage, createMemoryAuthStorage } from './storage';
+import { AuthRepository, Mailer, PublicUser, User, UserRole } from './types';
+
+export * from './types';
+export * from './validation';
+export { hashPassword, verifyPassword, dummyPasswordHash } from './password';
+export { MAGIC_LINK_TTL_MS } from './repository';
+
+export const SESSION_COOKIE = 'mydocta_session';
+
+const globalForAuth = globalThis as unknown as { authRepository?: AuthRepository; mailer?: Mailer };
+
+export function getAuthRepository(): AuthRepository {
+    if (!globalForAuth.authRepository) {
+        const store = (process.env.SESSION_STORE || 'file').toLowerCase();
+        const storage = store === 'memory' ? createMemoryAuthStorage() : createFileAuthStorage(path.join(dataDirectory(), 'auth.json'), getDataCipher());
+        globalForAuth.authRepository = createAuthRepository(storage);
+    }
+    return globalForAuth.authRepository;
+}
+
+export function getMailer(): Mailer {
+    if (!globalForAuth.mailer) {
+        globalForAuth.mailer = createOutboxMailer(path.join(dataDirectory(), 'outbox'));
+    }
+    return globalForAuth.mailer;
+}
+
+// Read on every request, so changing CLINICIAN_EMAILS takes effect without touching stored accounts
+export function isClinicianEmail(email: string): boolean {
+    const clinicians = (process.env.CLINICIAN_EMAILS || '').split(',').map(address => address.trim().toLowerCase()).filter(Boolean);
+    return clinicians.includes(email);
+}
+
+// Anyone can sign up with any address, so the role also needs proof the account's owner reads that email
+export const userRole = (user: User): UserRole => (isClinicianEmail(user.email) && !!user.emailVerifiedAt ? 'clinician' : 'patient');
+
+export const isClinician = (user: User): boolean => userRole(user) === 'clinician';
+
+export const forbidden = () => NextResponse.json({ error: 'Only clinicians can do this.' }, { status: 403 });
+
+export const toPublicUser = (user: User): PublicUser => ({
+    id: user.id, email: user.email, name: user.name, hasPassword: !!user.passwordHash, role: userRole(user), createdAt: user.createdAt,
+});
+
+// Never taken from the request: its Host header is chosen by the sender, who could point a victim's link at their own server.
+// Null in production without APP_URL, and sign-in links are then refused.
+export function appUrl(): string | null {
+    const configured = process.env.APP_URL || (process.env.NODE_ENV === 'production' ? '' : `http://localhost:${process.env.PORT || 3000}`);
+    return configured ? configured.replace(/\/+$/, '') : null;
+}
+
+const sessionToken = (request: Request): string | null => {
+    const cookies = request.headers.get('cookie')?.split(';') ?? [];
+    const cookie = cookies.map(part => part.trim()).find(part => part.startsWith(`${SESSION_COOKIE}=`));
+    return cookie ? decodeURIComponent(cookie.substring(SESSION_COOKIE.length + 1)) || null : null;
+};
+
+// The signed-in user, or null without a valid session cookie
+export async function getRequestUser(request: Request): Promise<User | null> {
+    const token = sessionToken(request);
+    return token ? getAuthRepository().getSessionUser(token) : null;
+}
+
+export const unauthorized = () => NextResponse.json({ error: 'Please sign in to continue.' }, { status: 401 });
+
+// Signs the browser in by setting the session cookie on `response`
+export async function startSession(response: NextResponse, user: User): Promise<NextResponse> {
+    const { token } = await getAuthRepository().createSession(user.id);
+    response.cookies.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: Math.floor(SESSION_TTL_MS / 1000),
+    });
+    return response;
+}
+
+export async function endSession(request: Request, response: NextResponse): Promise<NextResponse> {
+    const token = sessionToken(request);
+    if (token) { await getAuthRepository().deleteSession(token); }
+    response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+    return response;
+}
@@ -0,0 +1,20 @@
+// src/lib/auth/mail.ts
+// Local mail stub: messages are written to DATA_DIR/outbox instead of being sent. Outside production their text
+// (which holds sign-in links) is logged too, for development; production logs only say where the mail went.
+// A real mail service can implement the same Mailer interface.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Mailer } from './types';
+
+export function createOutboxMailer(directory: string): Mailer {
+    return {
+        name: 'Outbox',
+        async send(mail) {
+            await fs.mkdir(directory, { recursive: true });
+            const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}.txt`);
+            await fs.writeFile(file, `To: ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}\n`, { encoding: 'utf8', mode: 0o600 });
+            if (process.env.NODE_ENV === 'production') { console.log(`Mail to ${mail.to} written to ${file}.`); }
+            else { console.log(`Mail to ${mail.to} written to ${file}:\n${mail.text}`); }
+        },
+    };
+}
@@ -0,0 +1,28 @@
+// src/lib/auth/password.ts
+// scrypt password hashes, stored as `scrypt$<N>$<salt>$<hash>` so the cost can be raised later.
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const COST = 16384;
+const KEY_LENGTH = 64;
+
+const derive = (password: string, salt: Buffer, cost: number): Promise<Buffer> => new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, { N: cost }, (error, key) => (error ? reject(error) : resolve(key)));
+});
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await derive(password, salt, COST);
+    return `scrypt$${COST}$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, cost, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !cost || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    const key = await derive(password, Buffer.from(salt, 'base64'), Number(cost));
+    return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// Checked against when the email is unknown, so a wrong address takes as long as a wrong password
+let dummyHash: Promise<string> | null = null;
+export const dummyPasswordHash = (): Promise<string> => (dummyHash ??= hashPassword(randomBytes(16).toString('hex')));
@@ -0,0 +1,96 @@
+// src/lib/auth/repository.ts
+import { createHash, randomBytes } from 'crypto';
+import { AuthStorage } from './storage';
+import { AuthData, AuthRepository } from './types';
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+const newToken = (): string => randomBytes(32).toString('base64url');
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('base64url');
+
+export function createAuthRepository(storage: AuthStorage): AuthRepository {
+    // All changes go through one queue: the document is read, changed and written as a whole
+    let queue: Promise<unknown> = Promise.resolve();
+    const modify = <T>(change: (data: AuthData) => T): Promise<T> => {
+        const next = queue.catch(() => undefined).then(async () => {
+            const data = await storage.read();
+            const result = change(data);
+            // Expired sign-ins and links are dropped whenever something is written anyway
+            const now = new Date().toISOString();
+            data.sessions = data.sessions.filter(session => session.expiresAt > now);
+            data.magicLinks = data.magicLinks.filter(link => link.expiresAt > now);
+            await storage.write(data);
+            return result;
+        });
+        queue = next;
+        return next;
+    };
+
+    return {
+        async findUserByEmail(email) {
+            return (await storage.read()).users.find(user => user.email === email) ?? null;
+        },
+
+        async getUser(id) {
+            return (await storage.read()).users.find(user => user.id === id) ?? null;
+        },
+
+        createUser: (fields) => modify((data) => {
+            if (data.users.some(user => user.email === fields.email)) return null;
+            const user = { id: crypto.randomUUID(), ...fields, createdAt: new Date().toISOString() };
+            data.users.push(user);
+            return user;
+        }),
+
+        deleteUser: (id) => modify((data) => {
+            const before = data.users.length;
+            data.users = data.users.filter(user => user.id !== id);
+            data.sessions = data.sessions.filter(session => session.userId !== id);
+            return data.users.length !== before;
+        }),
+
+        markEmailVerified: (id) => modify((data) => {
+            const user = data.users.find(candidate => candidate.id === id);
+            if (!user || user.emailVerifiedAt) return user ?? null;
+            user.emailVerifiedAt = new Date().toISOString();
+            user.passwordHash = null;
+            data.sessions = data.sessions.filter(session => session.userId !== id);
+            return user;
+        }),
+
+        createSession: (userId) => modify((data) => {
+            const token = newToken();
+            const createdAt = new Date();
+            const expiresAt = new Date(createdAt.getTime() + SESSION_TTL_MS).toISOString();
+            data.sessions.push({ tokenHash: hashToken(token), userId, createdAt: createdAt.toISOString(), expiresAt });
+            return { token, expiresAt };
+        }),
+
+        async getSessionUser(token) {
+            const data = await storage.read();
+            const tokenHash = hashToken(token);
+            const session = data.sessions.find(candidate => candidate.tokenHash === tokenHash);
+            if (!session || session.expiresAt <= new Date().toISOString()) return null;
+            return data.users.find(user => user.id === session.userId) ?? null;
+        },
+
+        deleteSession: (token) => modify((data) => {
+            const tokenHash = hashToken(token);
+            data.sessions = data.sessions.filter(session => session.tokenHash !== tokenHash);
+        }),
+
+        createMagicLink: (email) => modify((data) => {
+            const token = newToken();
+            data.magicLinks.push({ tokenHash: hashToken(token), email, expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS).toISOString() });
+            return token;
+        }),
+
+        consumeMagicLink: (token) => modify((data) => {
+            const tokenHash = hashToken(token);
+            const link = data.magicLinks.find(candidate => candidate.tokenHash === tokenHash);
+            data.magicLinks = data.magicLinks.filter(candidate => candidate.tokenHash !== tokenHash);
+            return link && link.expiresAt > new Date().toISOString() ? link.email : null;
+        }),
+    };
+}
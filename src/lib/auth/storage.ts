@@ -0,0 +1,42 @@
+// src/lib/auth/storage.ts
+// Storage backends for the auth repository: the whole AuthData document in, the whole document out.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DataCipher, openJson, sealJson } from '@/lib/encryption';
+import { AuthData } from './types';
+
+export interface AuthStorage {
+    read(): Promise<AuthData>;
+    write(data: AuthData): Promise<void>;
+}
+
+const emptyAuthData = (): AuthData => ({ users: [], sessions: [], magicLinks: [] });
+
+export function createMemoryAuthStorage(): AuthStorage {
+    let stored = emptyAuthData();
+    // structuredClone keeps callers from mutating stored state
+    return {
+        async read() { return structuredClone(stored); },
+        async write(data) { stored = structuredClone(data); },
+    };
+}
+
+export function createFileAuthStorage(filePath: string, cipher: DataCipher): AuthStorage {
+    return {
+        async read() {
+            try {
+                return { ...emptyAuthData(), ...openJson<AuthData>(cipher, await fs.readFile(filePath)) };
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyAuthData();
+                throw error;
+            }
+        },
+        async write(data) {
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            // Write then rename so a crash never leaves a half-written file behind
+            const temp = `${filePath}.${process.pid}.tmp`;
+            await fs.writeFile(temp, sealJson(cipher, data), { mode: 0o600 });
+            await fs.rename(temp, filePath);
+        },
+    };
+}
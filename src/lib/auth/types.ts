@@ -0,0 +1,74 @@
+// src/lib/auth/types.ts
+// Accounts and sign-in sessions. Only PublicUser ever leaves the server.
+
+// Clinicians review consultation reports; everyone else is a patient
+export type UserRole = 'patient' | 'clinician';
+
+export interface User {
+    id: string;
+    email: string; // Lower-cased
+    name: string | null;
+    passwordHash: string | null; // null for accounts that only sign in by email link
+    emailVerifiedAt?: string | null; // First time a sign-in link sent to the email was followed; unset until then
+    createdAt: string;
+}
+
+export interface PublicUser {
+    id: string;
+    email: string;
+    name: string | null;
+    hasPassword: boolean;
+    role: UserRole;
+    createdAt: string;
+}
+
+// A signed-in browser. The cookie holds the token; only its hash is stored.
+export interface AuthSession {
+    tokenHash: string;
+    userId: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+export interface MagicLink {
+    tokenHash: string;
+    email: string;
+    expiresAt: string;
+}
+
+// Everything the auth store keeps, saved as one document
+export interface AuthData {
+    users: User[];
+    sessions: AuthSession[];
+    magicLinks: MagicLink[];
+}
+
+export interface AuthRepository {
+    findUserByEmail(email: string): Promise<User | null>;
+    getUser(id: string): Promise<User | null>;
+    // Resolves to null when the email is already taken
+    createUser(fields: { email: string; name: string | null; passwordHash: string | null }): Promise<User | null>;
+    deleteUser(id: string): Promise<boolean>;
+    // Records that the account's owner proved they read its email. The first time, a password set before that
+    // (by whoever signed up, who may not own the address) is dropped and every existing sign-in ended.
+    markEmailVerified(id: string): Promise<User | null>;
+    // Returns the token to put in the cookie
+    createSession(userId: string): Promise<{ token: string; expiresAt: string }>;
+    getSessionUser(token: string): Promise<User | null>;
+    deleteSession(token: string): Promise<void>;
+    // Returns the token to put in the emailed link
+    createMagicLink(email: string): Promise<string>;
+    // Single use: resolves to the email the link was sent to, or null when unknown or expired
+    consumeMagicLink(token: string): Promise<string | null>;
+}
+
+export interface OutgoingMail {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface Mailer {
+    name: string;
+    send(mail: OutgoingMail): Promise<void>;
+}
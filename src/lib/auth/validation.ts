@@ -0,0 +1,29 @@
+// src/lib/auth/validation.ts
+// Sign-up and sign-in field rules, shared by the auth routes and the sign-in form.
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 200;
+export const MAX_NAME_LENGTH = 80;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export function checkEmail(email: unknown): string | null {
+    if (typeof email !== 'string' || !email.trim()) return 'Enter your email address.';
+    if (email.length > 254 || !EMAIL_PATTERN.test(email.trim())) return 'Enter a valid email address.';
+    return null;
+}
+
+export function checkPassword(password: unknown): string | null {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) return `Use a password of at least ${MIN_PASSWORD_LENGTH} characters.`;
+    if (password.length > MAX_PASSWORD_LENGTH) return `Use a password of at most ${MAX_PASSWORD_LENGTH} characters.`;
+    return null;
+}
+
+export function checkName(name: unknown): string | null {
+    if (name === undefined || name === null) return null;
+    if (typeof name !== 'string') return 'Name must be text.';
+    if (name.trim().length > MAX_NAME_LENGTH) return `Use a name of at most ${MAX_NAME_LENGTH} characters.`;
+    return null;
+}
@@ -0,0 +1,72 @@
+// src/lib/chat-limits.ts
+// Size limits for /api/chat requests, shared by the route and the browser, plus the error the browser
+// raises when the server turns a request away for being too large (413) or too frequent (429).
+import { checkMediaSize, MAX_ATTACHMENT_BYTES, MAX_MESSAGE_ATTACHMENTS, MediaKind } from '@/lib/attachments/media';
+import type { EmergencySignal } from '@/lib/triage';
+
+export const MAX_PROMPT_CHARS = 4000;
+export const MAX_TRANSCRIPT_CHARS = 4000;
+export const MAX_HISTORY_MESSAGES = 200;
+export const MAX_HISTORY_TEXT_CHARS = 200_000; // All history texts and transcripts together
+
+// Legacy inline data URLs are base64 (a third larger than the file); everything else fits easily in the rest
+export const MAX_CHAT_BODY_BYTES = Math.ceil((MAX_ATTACHMENT_BYTES.image + MAX_ATTACHMENT_BYTES.audio) * 4 / 3) + 1024 * 1024;
+
+// Decoded size of a base64 data URL
+const dataUrlBytes = (dataUrl: string): number => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+// Returns an error message when the prompt, transcript, history, attachments or inline media is over its limit
+export function checkChatPayload(body: { prompt?: unknown; transcript?: unknown; history?: unknown; attachments?: unknown; imageDataUrl?: unknown; audioDataUrl?: unknown }): string | null {
+    if (typeof body.prompt === 'string' && body.prompt.length > MAX_PROMPT_CHARS) {
+        return `The message is too long. The limit is ${MAX_PROMPT_CHARS} characters.`;
+    }
+    if (typeof body.transcript === 'string' && body.transcript.length > MAX_TRANSCRIPT_CHARS) {
+        return `The transcript is too long. The limit is ${MAX_TRANSCRIPT_CHARS} characters.`;
+    }
+    if (Array.isArray(body.history)) {
+        if (body.history.length > MAX_HISTORY_MESSAGES) {
+            return `The consultation is too long (${body.history.length} messages). Please start a new consultation.`;
+        }
+        const historyChars = body.history.reduce((total: number, msg) => total
+            + (typeof msg?.text === 'string' ? msg.text.length : 0)
+            + (typeof msg?.transcript === 'string' ? msg.transcript.length : 0), 0);
+        if (historyChars > MAX_HISTORY_TEXT_CHARS) {
+            return 'The consultation is too long. Please start a new consultation.';
+        }
+    }
+    if (Array.isArray(body.attachments) && body.attachments.length > MAX_MESSAGE_ATTACHMENTS) {
+        return `Too many attachments. The limit is ${MAX_MESSAGE_ATTACHMENTS} per message.`;
+    }
+    const inlineMedia: [unknown, MediaKind][] = [[body.imageDataUrl, 'image'], [body.audioDataUrl, 'audio']];
+    for (const [dataUrl, kind] of inlineMedia) {
+        if (typeof dataUrl !== 'string') continue;
+        const bytes = dataUrlBytes(dataUrl);
+        if (bytes > MAX_ATTACHMENT_BYTES[kind]) return checkMediaSize(bytes, kind);
+    }
+    return null;
+}
+
+export class ChatLimitError extends Error {
+    readonly kind: 'rateLimited' | 'tooLarge';
+    readonly retryAfterSeconds: number | null; // From the Retry-After header, when the server sent one
+    readonly emergency: EmergencySignal | null; // Red flags the server still found in the message it turned away
+
+    constructor(message: string, kind: 'rateLimited' | 'tooLarge', retryAfterSeconds: number | null = null, emergency: EmergencySignal | null = null) {
+        super(message);
+        this.name = 'ChatLimitError';
+        this.kind = kind;
+        this.retryAfterSeconds = retryAfterSeconds;
+        this.emergency = emergency;
+    }
+}
+
+// Turns a 413/429 response into a ChatLimitError; null for any other status
+export async function toChatLimitError(response: Response): Promise<ChatLimitError | null> {
+    if (response.status !== 413 && response.status !== 429) return null;
+    let message = response.statusText;
+    let emergency: EmergencySignal | null = null;
+    try { const body = await response.json(); message = body.error || message; emergency = body.emergency ?? null; } catch { /* non-JSON body */ }
+    if (response.status === 413) return new ChatLimitError(message, 'tooLarge', null, emergency);
+    const retryAfter = Number(response.headers.get('retry-after'));
+    return new ChatLimitError(message, 'rateLimited', Number.isFinite(retryAfter) && retryAfter > 0 ? Math.ceil(retryAfter) : null, emergency);
+}
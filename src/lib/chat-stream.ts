@@ -0,0 +1,98 @@
+// src/lib/chat-stream.ts
+// Shared by /api/chat and the chat page: NDJSON stream events and report marker splitting.
+import type { ParsedReport } from './report';
+import type { EmergencySignal } from './triage';
+import type { DrugWarning } from './drugs/types';
+
+export const REPORT_START_MARKER = "--- REPORT START ---";
+export const REPORT_END_MARKER = "--- REPORT END ---";
+
+// One JSON object per line on the streaming response
+export type ChatStreamEvent =
+    | { type: 'delta'; text: string }
+    | { type: 'report'; report: ParsedReport; postReportText: string }
+    | { type: 'emergency'; emergency: EmergencySignal }
+    | { type: 'drugWarnings'; warnings: DrugWarning[] } // Suggested medicines that clash with the patient's medicines, allergies or conditions
+    | { type: 'error'; error: string }
+    | { type: 'done' };
+
+export const encodeStreamEvent = (event: ChatStreamEvent): string => `${JSON.stringify(event)}\n`;
+
+// Length of the longest suffix of `text` that is also a prefix of `marker`
+const partialMarkerLength = (text: string, marker: string): number => {
+    for (let length = Math.min(text.length, marker.length - 1); length > 0; length--) {
+        if (marker.startsWith(text.slice(-length))) return length;
+    }
+    return 0;
+};
+
+// Splits streamed model text into the visible reply and the report between the markers.
+// Text that could be the beginning of the start marker is held back until it can be decided.
+export class ReportStreamSplitter {
+    private pending = "";
+    private reportText = "";
+    private inReport = false;
+
+    // Returns the text that can be shown to the user right away (may be empty)
+    push(delta: string): string {
+        if (this.inReport) { this.reportText += delta; return ""; }
+        this.pending += delta;
+        const startIndex = this.pending.indexOf(REPORT_START_MARKER);
+        if (startIndex !== -1) {
+            const visible = this.pending.substring(0, startIndex);
+            this.reportText = this.pending.substring(startIndex + REPORT_START_MARKER.length);
+            this.pending = "";
+            this.inReport = true;
+            return visible;
+        }
+        const heldBack = partialMarkerLength(this.pending, REPORT_START_MARKER);
+        const visible = this.pending.substring(0, this.pending.length - heldBack);
+        this.pending = this.pending.substring(this.pending.length - heldBack);
+        return visible;
+    }
+
+    // Flushes what is left once the model is done. A report without an end marker is returned
+    // with `reportTerminated: false` so the caller can still show what arrived.
+    finish(): { trailingText: string; report: string | null; reportTerminated: boolean; postReportText: string } {
+        if (!this.inReport) { return { trailingText: this.pending, report: null, reportTerminated: false, postReportText: "" }; }
+        const endIndex = this.reportText.indexOf(REPORT_END_MARKER);
+        if (endIndex === -1) {
+            console.warn("Report start marker found without an end marker.");
+            return { trailingText: "", report: this.reportText.trim(), reportTerminated: false, postReportText: "" };
+        }
+        return {
+            trailingText: "",
+            report: this.reportText.substring(0, endIndex).trim(),
+            reportTerminated: true,
+            postReportText: this.reportText.substring(endIndex + REPORT_END_MARKER.length).trim(),
+        };
+    }
+}
+
+// Reads an NDJSON chat stream, calling onEvent for every event in order
+export async function readChatStream(body: ReadableStream<Uint8Array>, onEvent: (event: ChatStreamEvent) => void): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffered += decoder.decode(value, { stream: true });
+            let newlineIndex = buffered.indexOf("\n");
+            while (newlineIndex !== -1) {
+                const line = buffered.substring(0, newlineIndex).trim();
+                buffered = buffered.substring(newlineIndex + 1);
+                if (line) onEvent(JSON.parse(line) as ChatStreamEvent);
+                newlineIndex = buffered.indexOf("\n");
+            }
+        }
+        const rest = (buffered + decoder.decode()).trim();
+        if (rest) onEvent(JSON.parse(rest) as ChatStreamEvent);
+    } catch (error) {
+        await reader.cancel().catch(() => undefined);
+        throw error;
+    } finally {
+        reader.releaseLock();
+    }
+}
@@ -0,0 +1,233 @@
+// src/lib/drugs/dataset.ts
+// Bundled drug knowledge: common over-the-counter medicines the assistant may suggest, the prescription
+// medicines they clash with, and the conditions that rule them out. Adult doses; not a substitute for a pharmacist.
+import type { ConditionInfo, DrugInfo, InteractionRule } from './types';
+
+// Conditions recognised in what the patient wrote or in their profile
+export const CONDITIONS: ConditionInfo[] = [
+    { id: 'pregnancy', label: 'pregnancy', patterns: [/\bpregnan(t|cy)\b/, /\bexpecting a baby\b/] },
+    { id: 'breastfeeding', label: 'breastfeeding', patterns: [/\bbreast ?feeding\b/, /\bnursing (my|a) baby\b/] },
+    { id: 'asthma', label: 'asthma', patterns: [/\basthma(tic)?\b/] },
+    { id: 'stomach-ulcer', label: 'a stomach ulcer or stomach bleeding', patterns: [/\b(stomach|peptic|gastric|duodenal) ulcers?\b/, /\b(stomach|gastrointestinal|gi) bleed(ing)?\b/] },
+    { id: 'kidney-disease', label: 'kidney disease', patterns: [/\b(kidney|renal) (disease|failure|problems?|impairment)\b/, /\bckd\b/, /\bon dialysis\b/] },
+    { id: 'liver-disease', label: 'liver disease', patterns: [/\b(liver|hepatic) (disease|failure|problems?|damage)\b/, /\bcirrhosis\b/, /\bhepatitis\b/] },
+    { id: 'high-blood-pressure', label: 'high blood pressure', patterns: [/\bhigh blood pressure\b/, /\bhypertensi(on|ve)\b/, /\b(hbp|bp is high)\b/] },
+    { id: 'heart-disease', label: 'heart disease', patterns: [/\bheart (disease|failure|problems?|condition)\b/, /\b(angina|arrhythmia|atrial fibrillation)\b/, /\b(had|have had) a heart attack\b/] },
+    { id: 'bleeding-disorder', label: 'a bleeding disorder', patterns: [/\b(haemophilia|hemophilia|von willebrand)\b/, /\bbleeding disorder\b/, /\bbleed easily\b/] },
+    { id: 'glaucoma', label: 'glaucoma', patterns: [/\bglaucoma\b/] },
+    { id: 'enlarged-prostate', label: 'an enlarged prostate', patterns: [/\b(enlarged|big) prostate\b/, /\bbph\b/, /\bprostate (problems?|enlargement)\b/] },
+    { id: 'heavy-alcohol', label: 'regular heavy drinking', patterns: [/\b(drink|drinking) (alcohol )?(heavily|a lot|every day|daily)\b/, /\bheavy drink(er|ing)\b/, /\balcoholi(c|sm)\b/] },
+    { id: 'bloody-diarrhoea', label: 'bloody diarrhoea or high fever with diarrhoea', patterns: [/\bblood(y)? (in (my|the) )?(stool|poo|diarrh(o)?ea)\b/, /\bdysentery\b/] },
+];
+
+export const DRUGS: DrugInfo[] = [
+    // --- Pain and fever ---
+    {
+        id: 'paracetamol', name: 'Paracetamol', otc: true, classes: ['analgesic'],
+        names: ['paracetamol', 'acetaminophen', 'panadol', 'emzor paracetamol', 'tylenol', 'calpol', 'panadol extra'],
+        maxDailyDose: '4 g a day (8 × 500 mg tablets), at least 4 hours apart; 2 g a day with liver disease or heavy drinking',
+        contraindications: [
+            { condition: 'liver-disease', severity: 'avoid', advice: 'Paracetamol is processed by the liver. Ask a doctor before taking it and never exceed the lower dose they give you.' },
+            { condition: 'heavy-alcohol', severity: 'caution', advice: 'Regular heavy drinking raises the risk of liver damage from paracetamol. Keep to the lower maximum dose.' },
+        ],
+    },
+    {
+        id: 'ibuprofen', name: 'Ibuprofen', otc: true, classes: ['nsaid'],
+        names: ['ibuprofen', 'advil', 'nurofen', 'brufen', 'motrin'],
+        maxDailyDose: '1,200 mg a day (3 × 400 mg) without a prescription, taken with food',
+        contraindications: [
+            { condition: 'stomach-ulcer', severity: 'avoid', advice: 'NSAIDs such as ibuprofen can cause stomach bleeding in people with ulcers.' },
+            { condition: 'kidney-disease', severity: 'avoid', advice: 'NSAIDs such as ibuprofen can make kidney disease worse.' },
+            { condition: 'pregnancy', severity: 'avoid', advice: 'Ibuprofen is not recommended in pregnancy, especially after 20 weeks. Paracetamol is usually preferred.' },
+            { condition: 'asthma', severity: 'caution', advice: 'Some people with asthma get wheezy after NSAIDs such as ibuprofen. Avoid it if this has happened before.' },
+            { condition: 'heart-disease', severity: 'caution', advice: 'NSAIDs such as ibuprofen can strain the heart. Ask a pharmacist or doctor first.' },
+            { condition: 'high-blood-pressure', severity: 'caution', advice: 'NSAIDs such as ibuprofen can raise blood pressure.' },
+            { condition: 'bleeding-disorder', severity: 'avoid', advice: 'NSAIDs such as ibuprofen make bleeding more likely.' },
+        ],
+    },
+    {
+        id: 'aspirin', name: 'Aspirin', otc: true, classes: ['nsaid', 'antiplatelet'],
+        names: ['aspirin', 'acetylsalicylic acid', 'disprin', 'aspro'],
+        maxDailyDose: '4 g a day (12 × 300 mg tablets) for pain; not for under-16s',
+        minAge: { years: 16, advice: "Aspirin must not be given to children under 16 because of the risk of Reye's syndrome." },
+        contraindications: [
+            { condition: 'stomach-ulcer', severity: 'avoid', advice: 'Aspirin can cause stomach bleeding in people with ulcers.' },
+            { condition: 'bleeding-disorder', severity: 'avoid', advice: 'Aspirin thins the blood and makes bleeding more likely.' },
+            { condition: 'pregnancy', severity: 'avoid', advice: 'Aspirin for pain is not recommended in pregnancy unless a doctor prescribed it.' },
+            { condition: 'breastfeeding', severity: 'avoid', advice: 'Aspirin passes into breast milk. Paracetamol or ibuprofen are usually preferred.' },
+            { condition: 'asthma', severity: 'caution', advice: 'Aspirin can trigger asthma attacks in some people.' },
+            { condition: 'kidney-disease', severity: 'avoid', advice: 'Aspirin at pain-relief doses can make kidney disease worse.' },
+        ],
+    },
+    {
+        id: 'naproxen', name: 'Naproxen', otc: true, classes: ['nsaid'],
+        names: ['naproxen', 'aleve', 'naprosyn'],
+        maxDailyDose: '660 mg a day (3 × 220 mg) without a prescription',
+        contraindications: [
+            { condition: 'stomach-ulcer', severity: 'avoid', advice: 'NSAIDs such as naproxen can cause stomach bleeding in people with ulcers.' },
+            { condition: 'kidney-disease', severity: 'avoid', advice: 'NSAIDs such as naproxen can make kidney disease worse.' },
+            { condition: 'pregnancy', severity: 'avoid', advice: 'Naproxen is not recommended in pregnancy.' },
+            { condition: 'asthma', severity: 'caution', advice: 'Some people with asthma get wheezy after NSAIDs such as naproxen.' },
+            { condition: 'heart-disease', severity: 'caution', advice: 'NSAIDs such as naproxen can strain the heart.' },
+            { condition: 'high-blood-pressure', severity: 'caution', advice: 'NSAIDs such as naproxen can raise blood pressure.' },
+        ],
+    },
+    {
+        id: 'diclofenac', name: 'Diclofenac', otc: true, classes: ['nsaid'],
+        names: ['diclofenac', 'voltaren', 'cataflam', 'voltarol'],
+        maxDailyDose: '150 mg a day as tablets; gels are applied up to 4 times a day',
+        contraindications: [
+            { condition: 'stomach-ulcer', severity: 'avoid', advice: 'Diclofenac tablets can cause stomach bleeding in people with ulcers.' },
+            { condition: 'heart-disease', severity: 'avoid', advice: 'Diclofenac tablets raise the risk of heart attack and stroke in people with heart disease.' },
+            { condition: 'kidney-disease', severity: 'avoid', advice: 'NSAIDs such as diclofenac can make kidney disease worse.' },
+            { condition: 'pregnancy', severity: 'avoid', advice: 'Diclofenac is not recommended in pregnancy.' },
+            { condition: 'asthma', severity: 'caution', advice: 'Some people with asthma get wheezy after NSAIDs such as diclofenac.' },
+        ],
+    },
+
+    // --- Allergy, cough and cold ---
+    {
+        id: 'cetirizine', name: 'Cetirizine', otc: true, classes: ['antihistamine'],
+        names: ['cetirizine', 'zyrtec', 'piriteze'],
+        maxDailyDose: '10 mg a day',
+        contraindications: [
+            { condition: 'kidney-disease', severity: 'caution', advice: 'Cetirizine builds up with kidney disease; a lower dose is usually needed.' },
+        ],
+    },
+    {
+        id: 'loratadine', name: 'Loratadine', otc: true, classes: ['antihistamine'],
+        names: ['loratadine', 'claritin', 'clarityn'],
+        maxDailyDose: '10 mg a day',
+    },
+    {
+        id: 'chlorphenamine', name: 'Chlorphenamine', otc: true, classes: ['antihistamine', 'sedating-antihistamine'],
+        names: ['chlorphenamine', 'chlorpheniramine', 'piriton'],
+        maxDailyDose: '24 mg a day (6 × 4 mg tablets); causes drowsiness',
+        contraindications: [
+            { condition: 'glaucoma', severity: 'caution', advice: 'Sedating antihistamines can raise eye pressure in glaucoma.' },
+            { condition: 'enlarged-prostate', severity: 'caution', advice: 'Sedating antihistamines can make it harder to pass urine.' },
+        ],
+    },
+    {
+        id: 'diphenhydramine', name: 'Diphenhydramine', otc: true, classes: ['antihistamine', 'sedating-antihistamine'],
+        names: ['diphenhydramine', 'benadryl', 'nytol'],
+        maxDailyDose: '300 mg a day for allergy; 50 mg at night as a sleep aid; causes drowsiness',
+        contraindications: [
+            { condition: 'glaucoma', severity: 'caution', advice: 'Sedating antihistamines can raise eye pressure in glaucoma.' },
+            { condition: 'enlarged-prostate', severity: 'caution', advice: 'Sedating antihistamines can make it harder to pass urine.' },
+        ],
+    },
+    {
+        id: 'pseudoephedrine', name: 'Pseudoephedrine', otc: true, classes: ['decongestant'],
+        names: ['pseudoephedrine', 'sudafed'],
+        maxDailyDose: '240 mg a day (4 × 60 mg)',
+        contraindications: [
+            { condition: 'high-blood-pressure', severity: 'avoid', advice: 'Decongestants such as pseudoephedrine raise blood pressure.' },
+            { condition: 'heart-disease', severity: 'avoid', advice: 'Decongestants such as pseudoephedrine speed up the heart.' },
+            { condition: 'glaucoma', severity: 'caution', advice: 'Decongestants can raise eye pressure in glaucoma.' },
+            { condition: 'pregnancy', severity: 'caution', advice: 'Decongestants are best avoided in the first trimester of pregnancy.' },
+        ],
+    },
+    {
+        id: 'dextromethorphan', name: 'Dextromethorphan', otc: true, classes: ['cough-suppressant', 'serotonergic'],
+        names: ['dextromethorphan', 'robitussin dry cough', 'benylin dry cough'],
+        maxDailyDose: '120 mg a day',
+    },
+    {
+        id: 'guaifenesin', name: 'Guaifenesin', otc: true, classes: ['expectorant'],
+        names: ['guaifenesin', 'guaiphenesin', 'mucinex'],
+        maxDailyDose: '2.4 g a day',
+    },
+
+    // --- Stomach and bowel ---
+    {
+        id: 'antacid', name: 'Antacid (aluminium/magnesium hydroxide)', otc: true, classes: ['antacid'],
+        names: ['antacid', 'antacids', 'gestid', 'gaviscon', 'maalox', 'magnesium hydroxide', 'aluminium hydroxide', 'milk of magnesia'],
+        maxDailyDose: 'as directed on the pack, usually up to 4 times a day',
+        contraindications: [
+            { condition: 'kidney-disease', severity: 'caution', advice: 'Magnesium and aluminium from antacids can build up with kidney disease.' },
+        ],
+    },
+    {
+        id: 'omeprazole', name: 'Omeprazole', otc: true, classes: ['ppi'],
+        names: ['omeprazole', 'prilosec', 'losec'],
+        maxDailyDose: '20 mg a day for up to 14 days without a prescription',
+    },
+    {
+        id: 'loperamide', name: 'Loperamide', otc: true, classes: ['antidiarrhoeal'],
+        names: ['loperamide', 'imodium'],
+        maxDailyDose: '8 mg a day (4 × 2 mg) without a prescription',
+        minAge: { years: 12, advice: 'Loperamide is not for children under 12 without a doctor.' },
+        contraindications: [
+            { condition: 'bloody-diarrhoea', severity: 'avoid', advice: 'Loperamide can make infections that cause bloody diarrhoea or fever worse. See a doctor instead.' },
+        ],
+    },
+    {
+        id: 'hyoscine-butylbromide', name: 'Hyoscine butylbromide', otc: true, classes: ['antispasmodic'],
+        names: ['hyoscine butylbromide', 'buscopan'],
+        maxDailyDose: '80 mg a day (8 × 10 mg) without a prescription',
+        contraindications: [
+            { condition: 'glaucoma', severity: 'avoid', advice: 'Hyoscine can trigger a glaucoma attack.' },
+            { condition: 'enlarged-prostate', severity: 'caution', advice: 'Hyoscine can make it harder to pass urine.' },
+        ],
+    },
+    {
+        id: 'bisacodyl', name: 'Bisacodyl', otc: true, classes: ['laxative'],
+        names: ['bisacodyl', 'dulcolax'],
+        maxDailyDose: '10 mg a day, for no more than 5 days without advice',
+    },
+
+    // --- Prescription medicines the suggestions are checked against ---
+    { id: 'warfarin', name: 'Warfarin', otc: false, classes: ['anticoagulant'], names: ['warfarin', 'coumadin'] },
+    { id: 'doac', name: 'Blood thinner (rivaroxaban/apixaban/dabigatran)', otc: false, classes: ['anticoagulant'], names: ['rivaroxaban', 'xarelto', 'apixaban', 'eliquis', 'dabigatran', 'pradaxa', 'blood thinner', 'blood thinners'] },
+    { id: 'clopidogrel', name: 'Clopidogrel', otc: false, classes: ['antiplatelet'], names: ['clopidogrel', 'plavix'] },
+    { id: 'ace-inhibitor', name: 'ACE inhibitor', otc: false, classes: ['ace-inhibitor', 'antihypertensive'], names: ['lisinopril', 'enalapril', 'ramipril', 'perindopril', 'captopril'] },
+    { id: 'arb', name: 'Angiotensin receptor blocker', otc: false, classes: ['arb', 'antihypertensive'], names: ['losartan', 'valsartan', 'telmisartan', 'candesartan'] },
+    { id: 'amlodipine', name: 'Amlodipine', otc: false, classes: ['antihypertensive'], names: ['amlodipine', 'nifedipine'] },
+    { id: 'diuretic', name: 'Diuretic', otc: false, classes: ['diuretic', 'antihypertensive'], names: ['hydrochlorothiazide', 'bendroflumethiazide', 'furosemide', 'frusemide', 'lasix', 'water tablets?'] },
+    { id: 'lithium', name: 'Lithium', otc: false, classes: ['lithium'], names: ['lithium', 'priadel'] },
+    { id: 'methotrexate', name: 'Methotrexate', otc: false, classes: ['methotrexate'], names: ['methotrexate'] },
+    { id: 'ssri', name: 'SSRI antidepressant', otc: false, classes: ['ssri', 'serotonergic'], names: ['sertraline', 'fluoxetine', 'prozac', 'citalopram', 'escitalopram', 'paroxetine', 'zoloft', 'lexapro'] },
+    { id: 'maoi', name: 'MAOI antidepressant', otc: false, classes: ['maoi'], names: ['phenelzine', 'tranylcypromine', 'isocarboxazid', 'selegiline', 'moclobemide'] },
+    { id: 'tramadol', name: 'Tramadol', otc: false, classes: ['opioid', 'serotonergic', 'sedative'], names: ['tramadol', 'tramal'] },
+    { id: 'codeine', name: 'Codeine', otc: false, classes: ['opioid', 'sedative'], names: ['codeine', 'co-codamol'] },
+    { id: 'benzodiazepine', name: 'Benzodiazepine', otc: false, classes: ['benzodiazepine', 'sedative'], names: ['diazepam', 'valium', 'lorazepam', 'alprazolam', 'xanax', 'bromazepam', 'lexotan'] },
+    { id: 'quinolone', name: 'Quinolone antibiotic', otc: false, classes: ['quinolone'], names: ['ciprofloxacin', 'cipro', 'levofloxacin', 'ofloxacin'] },
+    { id: 'tetracycline', name: 'Tetracycline antibiotic', otc: false, classes: ['tetracycline'], names: ['doxycycline', 'tetracycline', 'minocycline'] },
+    { id: 'levothyroxine', name: 'Levothyroxine', otc: false, classes: ['levothyroxine'], names: ['levothyroxine', 'thyroxine', 'eltroxin'] },
+    { id: 'iron', name: 'Iron supplement', otc: false, classes: ['iron'], names: ['ferrous sulphate', 'ferrous sulfate', 'ferrous fumarate', 'iron tablets?', 'iron supplements?'] },
+    { id: 'corticosteroid', name: 'Steroid tablets', otc: false, classes: ['corticosteroid'], names: ['prednisolone', 'prednisone', 'dexamethasone', 'steroid tablets'] },
+    { id: 'antipsychotic', name: 'Sedating antipsychotic', otc: false, classes: ['sedative'], names: ['olanzapine', 'quetiapine', 'chlorpromazine'] },
+];
+
+// `a` is always something that may be suggested; `b` is what the patient already takes. Either may be a drug id or a class.
+export const INTERACTIONS: InteractionRule[] = [
+    { a: 'nsaid', b: 'anticoagulant', severity: 'avoid', advice: 'Taking an NSAID with a blood thinner greatly raises the risk of serious bleeding. Paracetamol is usually safer; check with your doctor.' },
+    { a: 'nsaid', b: 'antiplatelet', severity: 'caution', advice: 'NSAIDs with antiplatelet medicines raise the risk of stomach bleeding and can weaken their protective effect.' },
+    { a: 'nsaid', b: 'ssri', severity: 'caution', advice: 'NSAIDs with SSRI antidepressants raise the risk of stomach bleeding.' },
+    { a: 'nsaid', b: 'corticosteroid', severity: 'caution', advice: 'NSAIDs with steroid tablets raise the risk of stomach ulcers and bleeding.' },
+    { a: 'nsaid', b: 'ace-inhibitor', severity: 'caution', advice: 'NSAIDs can weaken blood pressure medicines and, together with them, harm the kidneys.' },
+    { a: 'nsaid', b: 'arb', severity: 'caution', advice: 'NSAIDs can weaken blood pressure medicines and, together with them, harm the kidneys.' },
+    { a: 'nsaid', b: 'diuretic', severity: 'caution', advice: 'NSAIDs can weaken water tablets and, together with them, harm the kidneys.' },
+    { a: 'nsaid', b: 'lithium', severity: 'avoid', advice: 'NSAIDs can raise lithium to toxic levels.' },
+    { a: 'nsaid', b: 'methotrexate', severity: 'avoid', advice: 'NSAIDs can raise methotrexate to toxic levels.' },
+    { a: 'nsaid', b: 'nsaid', severity: 'avoid', advice: 'Do not take two NSAIDs together; it raises the risk of stomach bleeding without better pain relief.' },
+    { a: 'paracetamol', b: 'warfarin', severity: 'caution', advice: 'Regular paracetamol can increase the effect of warfarin. Occasional doses are fine; tell your doctor if you take it for more than a few days.' },
+    { a: 'sedating-antihistamine', b: 'sedative', severity: 'caution', advice: 'Sedating antihistamines add to the drowsiness of sedatives and strong painkillers. Do not drive.' },
+    { a: 'pseudoephedrine', b: 'maoi', severity: 'avoid', advice: 'Decongestants with MAOI antidepressants can cause a dangerous rise in blood pressure.' },
+    { a: 'pseudoephedrine', b: 'antihypertensive', severity: 'caution', advice: 'Decongestants raise blood pressure and work against blood pressure medicines.' },
+    { a: 'dextromethorphan', b: 'maoi', severity: 'avoid', advice: 'Dextromethorphan with MAOI antidepressants can cause serotonin syndrome.' },
+    { a: 'dextromethorphan', b: 'ssri', severity: 'caution', advice: 'Dextromethorphan with SSRI antidepressants can cause serotonin syndrome.' },
+    { a: 'dextromethorphan', b: 'tramadol', severity: 'caution', advice: 'Dextromethorphan with tramadol can cause serotonin syndrome.' },
+    { a: 'antacid', b: 'quinolone', severity: 'caution', advice: 'Antacids stop quinolone antibiotics from being absorbed. Take the antibiotic 2 hours before or 6 hours after.' },
+    { a: 'antacid', b: 'tetracycline', severity: 'caution', advice: 'Antacids stop tetracycline antibiotics from being absorbed. Leave 2 to 3 hours between them.' },
+    { a: 'antacid', b: 'levothyroxine', severity: 'caution', advice: 'Antacids reduce the absorption of levothyroxine. Leave at least 4 hours between them.' },
+    { a: 'antacid', b: 'iron', severity: 'caution', advice: 'Antacids reduce the absorption of iron. Leave 2 hours between them.' },
+    { a: 'omeprazole', b: 'clopidogrel', severity: 'caution', advice: 'Omeprazole can make clopidogrel less effective. Ask a pharmacist about an alternative.' },
+];
+
+// Words patients use for a whole group of medicines they are allergic to
+export const ALLERGY_GROUP_NAMES: { group: string; label: string; names: string[] }[] = [
+    { group: 'nsaid', label: 'NSAIDs', names: ['nsaids?', 'anti-?inflammator(y|ies)', 'non-?steroidal'] },
+    { group: 'antihistamine', label: 'antihistamines', names: ['antihistamines?'] },
+];
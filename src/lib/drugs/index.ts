@@ -0,0 +1,162 @@
+// src/lib/drugs/index.ts
+// Checks the medicines the assistant suggests against what the patient said they take, are allergic to
+// or live with. Rule-based and bundled, so it runs the same on the server and in the browser.
+import { isNegatedAt, matchesOf } from '@/lib/triage';
+import { ALLERGY_GROUP_NAMES, CONDITIONS, DRUGS, INTERACTIONS } from './dataset';
+import type { DrugInfo, DrugWarning, PatientDrugContext } from './types';
+
+export * from './types';
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[’‘]/g, "'");
+
+const DRUG_PATTERNS = DRUGS.map(drug => ({ drug, pattern: new RegExp(`\\b(${drug.names.join('|')})\\b`, 'g') }));
+const ALLERGY_GROUP_PATTERNS = ALLERGY_GROUP_NAMES.map(({ group, label, names }) => ({ group, label, pattern: new RegExp(`\\b(${names.join('|')})\\b`) }));
+
+// "allergic to aspirin and penicillin", "reaction to ibuprofen", "NSAID allergy"
+const ALLERGY_PHRASES = [
+    /\b(?:allergic|allergy|allergies|sensitive|intolerant|reacts?|reaction)\s+(?:to|with)\s+([^.?!;\n]+)/g,
+    /\b([a-z-]+(?: [a-z-]+)?)\s+allerg(?:y|ies)\b/g,
+];
+
+// "not allergic to anything except ibuprofen", "no allergies apart from penicillin": the exception is an allergy
+// even when the sentence around it is negated, so it is collected without the negation check
+const ALLERGY_EXCEPTION_PHRASE = /\ballerg(?:ic|y|ies)\b[^.?!;\n]*?\b(?:except|apart from|other than|besides)\s+(?:(?:for|to)\s+)?([^.?!;\n]+)/g;
+
+// "not allergic to", "no penicillin allergy", "don't have any allergy to": the negation comes right before the
+// phrase or the allergen, so "I'm not sure but I'm allergic to ibuprofen" still counts
+const ALLERGY_NEGATION_PATTERN = /\b(?:no|not|never|without|denies|deny|don'?t|do not|didn'?t|haven'?t|isn'?t|wasn'?t|aren'?t)\s+(?:(?:have|has|had|any|an?|really)\s+){0,2}$/;
+
+const isAllergyNegatedAt = (text: string, index: number): boolean => ALLERGY_NEGATION_PATTERN.test(text.substring(0, index));
+
+// In the assistant's reply, "avoid ibuprofen" or "instead of aspirin" is not a suggestion
+const NOT_SUGGESTED_PATTERN = /\b(avoid|instead of|rather than|stop taking|not|no|don'?t|do not|never|without|unless)\b[^.?!,;]{0,30}$/;
+
+// "Can I take ibuprofen?" asks about a medicine rather than saying it is being taken
+const isInQuestion = (text: string, index: number): boolean => /^[^.!?\n]*\?/.test(text.substring(index));
+
+const matchesRule = (drug: DrugInfo, idOrClass: string): boolean => drug.id === idOrClass || drug.classes.includes(idOrClass);
+
+function findDrugMentions(text: string): { drug: DrugInfo; index: number }[] {
+    const mentions: { drug: DrugInfo; index: number }[] = [];
+    for (const { drug, pattern } of DRUG_PATTERNS) {
+        for (const match of text.matchAll(pattern)) { mentions.push({ drug, index: match.index }); }
+    }
+    return mentions;
+}
+
+// Allergy keys: `drug:<id>` for a named medicine, `class:<group>` for a group it cross-reacts with
+function collectAllergies(segment: string, allergies: Map<string, string>) {
+    for (const { drug, index } of findDrugMentions(segment)) {
+        if (isAllergyNegatedAt(segment, index)) continue; // "allergic to aspirin but not ibuprofen"
+        allergies.set(`drug:${drug.id}`, drug.name);
+        for (const { group } of ALLERGY_GROUP_NAMES) {
+            if (drug.classes.includes(group) && !allergies.has(`class:${group}`)) allergies.set(`class:${group}`, drug.name);
+        }
+    }
+    for (const { group, label, pattern } of ALLERGY_GROUP_PATTERNS) {
+        if (matchesOf(pattern, segment).some(match => !isAllergyNegatedAt(segment, match.index))) allergies.set(`class:${group}`, label);
+    }
+}
+
+// Reads medicines, allergies and conditions out of the patient's messages and profile
+function readPatient(patient: PatientDrugContext) {
+    const medications = new Map<string, DrugInfo>();
+    const allergies = new Map<string, string>();
+    const conditions = new Set<string>();
+
+    const texts = patient.texts.filter((text): text is string => !!text?.trim()).map(normalize);
+    for (const text of texts) {
+        let withoutAllergies = text;
+        // Before the other phrases, which can take part of the sentence out of `withoutAllergies`
+        for (const match of text.matchAll(ALLERGY_EXCEPTION_PHRASE)) {
+            withoutAllergies = withoutAllergies.replace(match[0], ' ');
+            collectAllergies(match[1], allergies);
+        }
+        for (const phrase of ALLERGY_PHRASES) {
+            for (const match of text.matchAll(phrase)) {
+                withoutAllergies = withoutAllergies.replace(match[0], ' ');
+                if (!isAllergyNegatedAt(text, match.index)) collectAllergies(match[1], allergies);
+            }
+        }
+        for (const { drug, index } of findDrugMentions(withoutAllergies)) {
+            if (!isNegatedAt(withoutAllergies, index) && !isInQuestion(withoutAllergies, index)) medications.set(drug.id, drug);
+        }
+        for (const condition of CONDITIONS) {
+            const mentioned = condition.patterns.some(pattern => matchesOf(pattern, text).some(match => !isNegatedAt(text, match.index)));
+            if (mentioned) conditions.add(condition.id);
+        }
+    }
+
+    // Profile entries are already known to be medicines/allergies/conditions
+    for (const medication of patient.medications ?? []) {
+        for (const { drug } of findDrugMentions(normalize(medication))) medications.set(drug.id, drug);
+    }
+    for (const allergy of patient.allergies ?? []) collectAllergies(normalize(allergy), allergies);
+    for (const condition of patient.conditions ?? []) {
+        const text = normalize(condition);
+        for (const info of CONDITIONS) { if (info.patterns.some(pattern => pattern.test(text))) conditions.add(info.id); }
+    }
+    if (patient.pregnant) conditions.add('pregnancy');
+    return { medications, allergies, conditions };
+}
+
+// Over-the-counter medicines the assistant actually recommends in `text`
+function findSuggestions(text: string): DrugInfo[] {
+    const suggested = new Map<string, DrugInfo>();
+    for (const { drug, index } of findDrugMentions(text)) {
+        if (drug.otc && !NOT_SUGGESTED_PATTERN.test(text.substring(0, index))) suggested.set(drug.id, drug);
+    }
+    return [...suggested.values()];
+}
+
+// Returns one warning per problem found, most serious first. Empty when nothing conflicts.
+export function checkDrugSafety(suggestionTexts: (string | undefined | null)[], patient: PatientDrugContext): DrugWarning[] {
+    const suggestions = findSuggestions(suggestionTexts.filter(Boolean).map(text => normalize(text!)).join('\n'));
+    if (suggestions.length === 0) return [];
+    const { medications, allergies, conditions } = readPatient(patient);
+
+    const warnings = new Map<string, DrugWarning>();
+    const add = (drug: DrugInfo, warning: Omit<DrugWarning, 'drugId' | 'drug' | 'maxDailyDose'>) => {
+        const key = `${drug.id}:${warning.kind}:${warning.conflictsWith}`;
+        // Several rules can match the same pair (aspirin is an NSAID and an antiplatelet); keep the most serious
+        if (warnings.get(key)?.severity !== 'avoid') warnings.set(key, { drugId: drug.id, drug: drug.name, ...warning, ...(drug.maxDailyDose && { maxDailyDose: drug.maxDailyDose }) });
+    };
+
+    for (const drug of suggestions) {
+        const allergen = allergies.get(`drug:${drug.id}`);
+        if (allergen) {
+            add(drug, { kind: 'allergy', severity: 'avoid', conflictsWith: allergen, advice: `You mentioned an allergy to ${allergen}. Do not take ${drug.name} or any product that contains it.` });
+        }
+        for (const group of drug.classes) {
+            const groupAllergen = allergies.get(`class:${group}`);
+            if (groupAllergen && !allergen) {
+                add(drug, { kind: 'allergy', severity: 'avoid', conflictsWith: groupAllergen, advice: `${drug.name} belongs to the same group of medicines as ${groupAllergen}, which you mentioned an allergy to, and may cause the same reaction.` });
+            }
+        }
+
+        for (const medication of medications.values()) {
+            if (medication.id === drug.id) {
+                add(drug, { kind: 'duplicate', severity: 'caution', conflictsWith: medication.name, advice: `You already take ${drug.name}. Count every product that contains it, including cold and flu remedies, towards the maximum daily dose.` });
+                continue;
+            }
+            for (const rule of INTERACTIONS) {
+                if (matchesRule(drug, rule.a) && matchesRule(medication, rule.b)) {
+                    add(drug, { kind: 'interaction', severity: rule.severity, conflictsWith: medication.name, advice: rule.advice });
+                }
+            }
+        }
+
+        for (const contraindication of drug.contraindications ?? []) {
+            if (!conditions.has(contraindication.condition)) continue;
+            const label = CONDITIONS.find(condition => condition.id === contraindication.condition)?.label ?? contraindication.condition;
+            add(drug, { kind: 'contraindication', severity: contraindication.severity, conflictsWith: label, advice: contraindication.advice });
+        }
+        if (drug.minAge && patient.age != null && patient.age < drug.minAge.years) {
+            add(drug, { kind: 'contraindication', severity: 'avoid', conflictsWith: `age ${patient.age}`, advice: drug.minAge.advice });
+        }
+    }
+
+    const result = [...warnings.values()].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'avoid' ? -1 : 1));
+    if (result.length > 0) { console.warn(`Drug safety warnings: ${result.map(warning => `${warning.drugId}/${warning.kind}`).join(', ')}`); }
+    return result;
+}
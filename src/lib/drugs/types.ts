@@ -0,0 +1,49 @@
+// src/lib/drugs/types.ts
+
+export type DrugWarningSeverity = 'avoid' | 'caution';
+export type DrugWarningKind = 'allergy' | 'interaction' | 'duplicate' | 'contraindication';
+
+export interface DrugInfo {
+    id: string;
+    name: string; // Display name
+    otc: boolean; // Can be bought without a prescription, so the assistant may suggest it
+    classes: string[]; // Groups used by interaction rules and allergy cross-reactions, e.g. 'nsaid'
+    names: string[]; // Lowercase regex fragments: generic name, brand names, plain-language names
+    maxDailyDose?: string; // Adult maximum, shown with every warning about the drug
+    minAge?: { years: number; advice: string };
+    contraindications?: { condition: string; severity: DrugWarningSeverity; advice: string }[];
+}
+
+export interface ConditionInfo {
+    id: string;
+    label: string; // Reads after "because of", e.g. "a stomach ulcer"
+    patterns: RegExp[];
+}
+
+export interface InteractionRule {
+    a: string; // Drug id or class of the suggested medicine
+    b: string; // Drug id or class of the medicine the patient already takes
+    severity: DrugWarningSeverity;
+    advice: string;
+}
+
+// One problem with a medicine the assistant suggested
+export interface DrugWarning {
+    drugId: string;
+    drug: string;
+    kind: DrugWarningKind;
+    severity: DrugWarningSeverity;
+    conflictsWith: string; // The medicine, allergy or condition it clashes with
+    advice: string;
+    maxDailyDose?: string;
+}
+
+// What is known about the patient: their own messages plus the saved profile, when there is one
+export interface PatientDrugContext {
+    texts: (string | undefined | null)[];
+    medications?: string[];
+    allergies?: string[];
+    conditions?: string[];
+    pregnant?: boolean;
+    age?: number | null;
+}
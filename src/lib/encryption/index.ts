@@ -0,0 +1,72 @@
+// src/lib/encryption/index.ts
+// Encryption at rest for the file stores (consultations, attachments, profiles, accounts), chosen by env config:
+//   DATA_ENCRYPTION_KEY            32-byte key, base64 or hex. Unset: files are written in plaintext
+//   DATA_ENCRYPTION_PREVIOUS_KEYS  comma-separated older keys, only used to read files written before a key change
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+export interface DataCipher {
+    enabled: boolean;
+    seal(plain: Buffer): Buffer; // Returns `plain` unchanged when no key is configured
+    open(stored: Buffer): Buffer; // Plaintext written before encryption was turned on is returned as it is
+}
+
+// Sealed layout: MAGIC | key id | IV | GCM auth tag | ciphertext. The key id says which key to open it with.
+const MAGIC = Buffer.from('MDENC1', 'ascii');
+const KEY_ID_LENGTH = 4;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + KEY_ID_LENGTH + IV_LENGTH + TAG_LENGTH;
+
+const keyId = (key: Buffer): string => createHash('sha256').update(key).digest().subarray(0, KEY_ID_LENGTH).toString('hex');
+
+export const isSealed = (stored: Buffer): boolean => stored.length >= HEADER_LENGTH && stored.subarray(0, MAGIC.length).equals(MAGIC);
+
+export function parseEncryptionKey(value: string, name = 'DATA_ENCRYPTION_KEY'): Buffer {
+    const trimmed = value.trim();
+    const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+    if (key.length !== 32) { throw new Error(`${name} must be a 32-byte key, base64 or hex encoded (e.g. the output of \`openssl rand -base64 32\`).`); }
+    return key;
+}
+
+// AES-256-GCM with a random IV per write; `previousKeys` can only open, never seal
+export function createDataCipher(key: Buffer | null, previousKeys: Buffer[] = []): DataCipher {
+    const keys = new Map([...previousKeys, ...(key ? [key] : [])].map(candidate => [keyId(candidate), candidate]));
+    return {
+        enabled: !!key,
+        seal(plain) {
+            if (!key) return plain;
+            const iv = randomBytes(IV_LENGTH);
+            const cipher = createCipheriv('aes-256-gcm', key, iv);
+            const data = Buffer.concat([cipher.update(plain), cipher.final()]);
+            return Buffer.concat([MAGIC, Buffer.from(keyId(key), 'hex'), iv, cipher.getAuthTag(), data]);
+        },
+        open(stored) {
+            if (!isSealed(stored)) return stored;
+            let offset = MAGIC.length;
+            const id = stored.subarray(offset, offset += KEY_ID_LENGTH).toString('hex');
+            const iv = stored.subarray(offset, offset += IV_LENGTH);
+            const tag = stored.subarray(offset, offset += TAG_LENGTH);
+            const openKey = keys.get(id);
+            if (!openKey) { throw new Error(`Stored data is encrypted with a key that is not configured (key id ${id}). Set DATA_ENCRYPTION_KEY or DATA_ENCRYPTION_PREVIOUS_KEYS to the key it was written with.`); }
+            const decipher = createDecipheriv('aes-256-gcm', openKey, iv);
+            decipher.setAuthTag(tag);
+            return Buffer.concat([decipher.update(stored.subarray(offset)), decipher.final()]);
+        },
+    };
+}
+
+export const sealJson = (cipher: DataCipher, value: unknown): Buffer => cipher.seal(Buffer.from(JSON.stringify(value), 'utf8'));
+export const openJson = <T>(cipher: DataCipher, stored: Buffer): T => JSON.parse(cipher.open(stored).toString('utf8')) as T;
+
+const globalForEncryption = globalThis as unknown as { dataCipher?: DataCipher };
+
+export function getDataCipher(): DataCipher {
+    if (!globalForEncryption.dataCipher) {
+        const key = process.env.DATA_ENCRYPTION_KEY ? parseEncryptionKey(process.env.DATA_ENCRYPTION_KEY) : null;
+        const previousKeys = (process.env.DATA_ENCRYPTION_PREVIOUS_KEYS || '').split(',').filter(value => value.trim())
+            .map(value => parseEncryptionKey(value, 'DATA_ENCRYPTION_PREVIOUS_KEYS'));
+        console.log(`Data encryption at rest: ${key ? `on (key id ${keyId(key)})` : 'off'}`);
+        globalForEncryption.dataCipher = createDataCipher(key, previousKeys);
+    }
+    return globalForEncryption.dataCipher;
+}
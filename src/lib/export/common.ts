@@ -0,0 +1,68 @@
+// src/lib/export/common.ts
+// Shared input shape and helpers for the report exporters (Markdown, PDF, FHIR).
+import { ParsedReport } from '@/lib/report';
+import { consultationText, ConsultationText } from '@/lib/i18n';
+import type { MessageAttachment } from '@/lib/attachments/types';
+
+// Structurally compatible with the chat page's Message, so messages can be passed straight in
+export interface TranscriptEntry {
+    text?: string;
+    imageUrl?: string;
+    audioDataUrl?: string;
+    imageAttachmentId?: string;
+    audioAttachmentId?: string;
+    attachments?: MessageAttachment[];
+    transcript?: string;
+    sender: 'user' | 'ai';
+    timestamp?: Date | string; // Dates come back from localStorage as ISO strings
+    status?: string;
+}
+
+export interface ConsultationExportInput {
+    parsedReport: ParsedReport;
+    messages: TranscriptEntry[];
+    generatedAt?: Date;
+}
+
+// Title, headings and disclaimer in the language the consultation was held in
+export const exportTextFor = (parsedReport: ParsedReport): ConsultationText => consultationText(parsedReport.locale);
+
+// Only messages that were actually part of the conversation (no placeholders or error bubbles)
+export const transcriptOf = (messages: TranscriptEntry[]): TranscriptEntry[] => {
+    return messages.filter(msg => msg.status === undefined || ['sent', 'received'].includes(msg.status));
+};
+
+export const senderLabel = (sender: TranscriptEntry['sender'], text: ConsultationText): string => (sender === 'user' ? text.patientLabel : 'MyDocta');
+
+export const formatTimestamp = (timestamp?: Date | string): string => {
+    if (!timestamp) return '';
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? '' : date.toLocaleString();
+};
+
+// Text for one transcript entry, with media noted since it cannot be embedded in every format
+export const entryText = (entry: TranscriptEntry): string => {
+    const hasImage = entry.imageUrl || entry.imageAttachmentId;
+    const hasAudio = entry.audioDataUrl || entry.audioAttachmentId;
+    const attached = (entry.attachments ?? []).map(attachment => (attachment.kind === 'document' ? `[Document attached${attachment.fileName ? `: ${attachment.fileName}` : ''}]` : '[Image attached]'));
+    const media = [hasImage && '[Image attached]', ...attached, hasAudio && '[Voice message]'].filter(Boolean).join(' ');
+    const transcript = entry.transcript?.trim() && `"${entry.transcript.trim()}"`;
+    return [media, transcript, entry.text?.trim()].filter(Boolean).join(' ');
+};
+
+export const exportFileName = (extension: string, generatedAt: Date = new Date()): string => {
+    return `mydocta-consultation-${generatedAt.toISOString().slice(0, 10)}.${extension}`;
+};
+
+// Triggers a browser download for generated content
+export function downloadFile(content: Blob | string, fileName: string, mimeType: string): void {
+    const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
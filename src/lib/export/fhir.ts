@@ -0,0 +1,142 @@
+// src/lib/export/fhir.ts
+// FHIR R4 document Bundle: Composition first, then the Patient, Conditions and Observations it references.
+import { REPORT_SECTIONS } from '@/lib/report';
+import { ConsultationExportInput, entryText, exportTextFor, formatTimestamp, senderLabel, transcriptOf } from './common';
+import { toLocale } from '@/lib/i18n';
+
+export interface FhirResource {
+    resourceType: string;
+    id: string;
+    [key: string]: unknown;
+}
+
+export interface FhirBundle {
+    resourceType: 'Bundle';
+    id: string;
+    type: 'document';
+    timestamp: string;
+    identifier: { system: string; value: string };
+    entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const LOINC = 'http://loinc.org';
+const CONDITION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/condition-category';
+const CONDITION_CLINICAL = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const CONDITION_VERIFICATION = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// LOINC codes for the Composition sections and narrative Observations
+const SECTION_CODES: Record<string, { code: string; display: string }> = {
+    chiefComplaint: { code: '10154-3', display: 'Chief complaint Narrative - Reported' },
+    historyOfPresentIllness: { code: '10164-2', display: 'History of Present illness Narrative' },
+    medicalHistory: { code: '11348-0', display: 'History of Past illness Narrative' },
+    mostLikelyDiagnosis: { code: '29548-5', display: 'Diagnosis Narrative' },
+    differentialDiagnoses: { code: '29548-5', display: 'Diagnosis Narrative' },
+    treatmentPlan: { code: '18776-5', display: 'Plan of care note' },
+    redFlags: { code: '69730-0', display: 'Instructions' },
+    transcript: { code: '34109-9', display: 'Note' },
+};
+
+const escapeXhtml = (text: string): string => text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// FHIR narrative must be a single XHTML div
+const narrative = (paragraphs: string[]) => ({
+    status: 'generated',
+    div: `<div xmlns="http://www.w3.org/1999/xhtml">${paragraphs.map(text => `<p>${escapeXhtml(text)}</p>`).join('')}</div>`,
+});
+
+const loincConcept = (key: string) => ({
+    coding: [{ system: LOINC, ...SECTION_CODES[key] }],
+    text: SECTION_CODES[key].display,
+});
+
+export function reportToFhirBundle({ parsedReport, messages, generatedAt = new Date() }: ConsultationExportInput): FhirBundle {
+    const { report } = parsedReport;
+    const text = exportTextFor(parsedReport);
+    const timestamp = generatedAt.toISOString();
+    const urlOf = (resource: FhirResource) => `urn:uuid:${resource.id}`;
+
+    const patient: FhirResource = {
+        resourceType: 'Patient',
+        id: crypto.randomUUID(),
+        text: narrative(['Patient of a MyDocta AI consultation (no identifying details recorded).']),
+    };
+    const subject = { reference: urlOf(patient) };
+
+    const condition = (diagnosis: string, verification: 'provisional' | 'differential'): FhirResource => ({
+        resourceType: 'Condition',
+        id: crypto.randomUUID(),
+        clinicalStatus: { coding: [{ system: CONDITION_CLINICAL, code: 'active' }] },
+        verificationStatus: { coding: [{ system: CONDITION_VERIFICATION, code: verification }] },
+        category: [{ coding: [{ system: CONDITION_CATEGORY, code: 'encounter-diagnosis', display: 'Encounter Diagnosis' }] }],
+        code: { text: diagnosis },
+        subject,
+        recordedDate: timestamp,
+    });
+    const likelyConditions = report.mostLikelyDiagnosis ? [condition(report.mostLikelyDiagnosis, 'provisional')] : [];
+    const differentialConditions = (report.differentialDiagnoses ?? []).map(diagnosis => condition(diagnosis, 'differential'));
+
+    const observation = (key: 'chiefComplaint' | 'historyOfPresentIllness', value: string): FhirResource => ({
+        resourceType: 'Observation',
+        id: crypto.randomUUID(),
+        status: 'preliminary',
+        category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'survey', display: 'Survey' }] }],
+        code: loincConcept(key),
+        subject,
+        effectiveDateTime: timestamp,
+        valueString: value,
+    });
+    const complaintObservations = report.chiefComplaint ? [observation('chiefComplaint', report.chiefComplaint)] : [];
+    const historyObservations = report.historyOfPresentIllness ? [observation('historyOfPresentIllness', report.historyOfPresentIllness)] : [];
+
+    // Structured resources each Composition section links to
+    const sectionEntries: Partial<Record<string, FhirResource[]>> = {
+        chiefComplaint: complaintObservations,
+        historyOfPresentIllness: historyObservations,
+        mostLikelyDiagnosis: likelyConditions,
+        differentialDiagnoses: differentialConditions,
+    };
+    const sections = REPORT_SECTIONS.flatMap(({ key }) => {
+        const value = report[key];
+        if (!value || (Array.isArray(value) && value.length === 0)) return [];
+        const entries = sectionEntries[key] ?? [];
+        return [{
+            title: text.reportSections[key],
+            code: loincConcept(key),
+            text: narrative(Array.isArray(value) ? value : [value]),
+            ...(entries.length > 0 && { entry: entries.map(resource => ({ reference: urlOf(resource) })) }),
+        }];
+    });
+    const transcript = transcriptOf(messages).map(entry => {
+        const time = formatTimestamp(entry.timestamp);
+        return `${senderLabel(entry.sender, text)}${time ? ` (${time})` : ''}: ${entryText(entry)}`;
+    });
+    if (transcript.length > 0) {
+        sections.push({ title: text.transcriptHeading, code: loincConcept('transcript'), text: narrative(transcript) });
+    }
+
+    const composition: FhirResource = {
+        resourceType: 'Composition',
+        id: crypto.randomUUID(),
+        language: toLocale(parsedReport.locale),
+        status: 'preliminary',
+        type: { coding: [{ system: LOINC, code: '11488-4', display: 'Consult note' }], text: 'Consult note' },
+        subject,
+        date: timestamp,
+        author: [{ display: 'MyDocta AI assistant' }],
+        title: text.reportTitle,
+        text: narrative([text.reportDisclaimer]),
+        section: sections,
+    };
+
+    const resources = [composition, patient, ...likelyConditions, ...differentialConditions, ...complaintObservations, ...historyObservations];
+    return {
+        resourceType: 'Bundle',
+        id: crypto.randomUUID(),
+        type: 'document',
+        timestamp,
+        identifier: { system: 'urn:ietf:rfc:3986', value: `urn:uuid:${crypto.randomUUID()}` },
+        entry: resources.map(resource => ({ fullUrl: urlOf(resource), resource })),
+    };
+}
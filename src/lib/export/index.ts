@@ -0,0 +1,6 @@
+// src/lib/export/index.ts
+export * from './common';
+export { reportToMarkdown } from './markdown';
+export { reportToFhirBundle } from './fhir';
+export type { FhirBundle, FhirResource } from './fhir';
+// reportToPdf is imported from './pdf' directly (and lazily) so jsPDF stays out of the main bundle
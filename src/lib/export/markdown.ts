@@ -0,0 +1,32 @@
+// src/lib/export/markdown.ts
+import { REPORT_SECTIONS } from '@/lib/report';
+import { ConsultationExportInput, entryText, exportTextFor, formatTimestamp, senderLabel, transcriptOf } from './common';
+
+export function reportToMarkdown({ parsedReport, messages, generatedAt = new Date() }: ConsultationExportInput): string {
+    const text = exportTextFor(parsedReport);
+    const lines: string[] = [`# ${text.reportTitle}`, '', `_Generated ${generatedAt.toLocaleString()}_`, ''];
+
+    if (!parsedReport.complete) {
+        lines.push('> **Note:** parts of this report could not be read automatically.', '');
+    }
+    for (const { key } of REPORT_SECTIONS) {
+        const value = parsedReport.report[key];
+        if (!value || (Array.isArray(value) && value.length === 0)) continue;
+        lines.push(`## ${text.reportSections[key]}`, '');
+        if (Array.isArray(value)) { value.forEach(item => lines.push(`- ${item}`)); }
+        else { lines.push(value); }
+        lines.push('');
+    }
+    if (!parsedReport.complete && parsedReport.raw) {
+        lines.push('## Original Report Text', '', '```', parsedReport.raw, '```', '');
+    }
+
+    lines.push(`## ${text.transcriptHeading}`, '');
+    for (const entry of transcriptOf(messages)) {
+        const time = formatTimestamp(entry.timestamp);
+        lines.push(`**${senderLabel(entry.sender, text)}**${time ? ` (${time})` : ''}: ${entryText(entry)}`, '');
+    }
+
+    lines.push('---', '', `_${text.reportDisclaimer}_`, '');
+    return lines.join('\n');
+}
@@ -0,0 +1,69 @@
+// src/lib/export/pdf.ts
+// Printable A4 PDF, generated in the browser with jsPDF (nothing leaves the device).
+import { jsPDF } from 'jspdf';
+import { REPORT_SECTIONS } from '@/lib/report';
+import { ConsultationExportInput, entryText, exportTextFor, formatTimestamp, senderLabel, transcriptOf } from './common';
+
+const MARGIN = 15; // mm
+const LINE_HEIGHT = 5.5; // mm for 11pt text
+
+// jsPDF's built-in fonts only cover Latin-1: Yoruba dot/tone marks outside it are dropped and
+// Hausa hooked letters mapped to their plain forms, so the text stays readable instead of garbled
+const HOOKED_LETTERS: Record<string, string> = { 'ɓ': 'b', 'Ɓ': 'B', 'ɗ': 'd', 'Ɗ': 'D', 'ƙ': 'k', 'Ƙ': 'K', 'ƴ': 'y', 'Ƴ': 'Y' };
+const toPdfText = (text: string): string => Array.from(text.normalize('NFC'), char => {
+    if (char.charCodeAt(0) <= 0xff) return char;
+    return HOOKED_LETTERS[char] ?? char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}).join('');
+
+export function reportToPdf({ parsedReport, messages, generatedAt = new Date() }: ConsultationExportInput): Blob {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const textWidth = pageWidth - MARGIN * 2;
+    let y = MARGIN;
+
+    // Writes wrapped text, starting a new page whenever the next line would not fit
+    const write = (text: string, options: { size?: number; bold?: boolean; indent?: number; gapAfter?: number } = {}) => {
+        const { size = 11, bold = false, indent = 0, gapAfter = 0 } = options;
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        doc.setFontSize(size);
+        const lineHeight = LINE_HEIGHT * (size / 11);
+        for (const line of doc.splitTextToSize(toPdfText(text), textWidth - indent) as string[]) {
+            if (y + lineHeight > pageHeight - MARGIN) { doc.addPage(); y = MARGIN; }
+            doc.text(line, MARGIN + indent, y);
+            y += lineHeight;
+        }
+        y += gapAfter;
+    };
+
+    const text = exportTextFor(parsedReport);
+    write(text.reportTitle, { size: 18, bold: true, gapAfter: 1 });
+    write(`Generated ${generatedAt.toLocaleString()}`, { size: 9, gapAfter: 4 });
+    if (!parsedReport.complete) {
+        write('Note: parts of this report could not be read automatically.', { size: 9, bold: true, gapAfter: 3 });
+    }
+
+    for (const { key } of REPORT_SECTIONS) {
+        const value = parsedReport.report[key];
+        if (!value || (Array.isArray(value) && value.length === 0)) continue;
+        write(text.reportSections[key], { size: 13, bold: true, gapAfter: 1 });
+        if (Array.isArray(value)) { value.forEach(item => write(`•  ${item}`, { indent: 2 })); }
+        else { write(value); }
+        y += 3;
+    }
+    if (!parsedReport.complete && parsedReport.raw) {
+        write('Original Report Text', { size: 13, bold: true, gapAfter: 1 });
+        write(parsedReport.raw, { size: 9, gapAfter: 3 });
+    }
+
+    write(text.transcriptHeading, { size: 13, bold: true, gapAfter: 1 });
+    for (const entry of transcriptOf(messages)) {
+        const time = formatTimestamp(entry.timestamp);
+        write(`${senderLabel(entry.sender, text)}${time ? ` (${time})` : ''}`, { size: 9, bold: true });
+        write(entryText(entry), { gapAfter: 2 });
+    }
+
+    y += 3;
+    write(text.reportDisclaimer, { size: 9 });
+    return doc.output('blob');
+}
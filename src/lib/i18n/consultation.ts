@@ -0,0 +1,109 @@
+// src/lib/i18n/consultation.ts
+// Language-specific parts of the consultation itself: how the model is told which language to use,
+// the closing disclaimer, and the report/export headings.
+import type { ConsultationReport } from '@/lib/report';
+import type { Locale } from './locales';
+
+export interface ConsultationText {
+    languageName: string; // English name of the language, used in the system prompt
+    disclaimer: string; // Said by the model after the report
+    reportTitle: string;
+    reportDisclaimer: string; // Printed on exports
+    reportSections: Record<keyof ConsultationReport, string>;
+    transcriptHeading: string;
+    patientLabel: string;
+    profileHistory: { conditions: string; medications: string; allergies: string; pregnant: string }; // Medical History pre-fill
+}
+
+export const CONSULTATION_TEXT: Record<Locale, ConsultationText> = {
+    en: {
+        languageName: 'English',
+        disclaimer: "Here is a summary of our consultation. Please remember, while I provide medically informed advice, I am still an AI. Always confirm diagnoses and treatment plans with a licensed healthcare provider.",
+        reportTitle: "MyDocta Consultation Summary",
+        reportDisclaimer: "This summary was generated by an AI assistant and is not a medical diagnosis. Always confirm diagnoses and treatment plans with a licensed healthcare provider.",
+        reportSections: {
+            chiefComplaint: 'Chief Complaint',
+            historyOfPresentIllness: 'History of Present Illness',
+            medicalHistory: 'Medical History',
+            mostLikelyDiagnosis: 'Most Likely Diagnosis',
+            differentialDiagnoses: 'Possible Other Diagnoses',
+            treatmentPlan: 'Treatment Plan & Next Steps',
+            redFlags: 'Red Flags',
+        },
+        transcriptHeading: 'Transcript',
+        patientLabel: 'Patient',
+        profileHistory: { conditions: 'Chronic conditions', medications: 'Current medications', allergies: 'Allergies', pregnant: 'Pregnant' },
+    },
+    yo: {
+        languageName: 'Yoruba',
+        disclaimer: "Àkópọ̀ ìjíròrò wa nìyí. Ẹ rántí pé, bí mo tilẹ̀ ń fúnni ní ìmọ̀ràn tó dá lórí ìmọ̀ ìṣègùn, AI ni mí. Ẹ máa jẹ́ kí dókítà tó ní ìwé-àṣẹ fìdí àyẹ̀wò àti ètò ìtọ́jú múlẹ̀ nígbà gbogbo.",
+        reportTitle: "Àkópọ̀ Ìjíròrò MyDocta",
+        reportDisclaimer: "Olùrànlọ́wọ́ AI ló ṣe àkópọ̀ yìí, kì í ṣe àyẹ̀wò àìsàn láti ọ̀dọ̀ dókítà. Ẹ máa jẹ́ kí dókítà tó ní ìwé-àṣẹ fìdí àyẹ̀wò àti ètò ìtọ́jú múlẹ̀ nígbà gbogbo.",
+        reportSections: {
+            chiefComplaint: 'Ẹ̀dùn Pàtàkì',
+            historyOfPresentIllness: 'Ìtàn Àìsàn Lọ́wọ́lọ́wọ́',
+            medicalHistory: 'Ìtàn Ìlera Àtẹ̀yìnwá',
+            mostLikelyDiagnosis: 'Àyẹ̀wò Tó Ṣeé Ṣe Jù',
+            differentialDiagnoses: 'Àwọn Àyẹ̀wò Míràn Tó Ṣeé Ṣe',
+            treatmentPlan: 'Ètò Ìtọ́jú àti Ìgbésẹ̀ Tó Kàn',
+            redFlags: 'Àwọn Àmì Ewu',
+        },
+        transcriptHeading: 'Àkọsílẹ̀ Ìjíròrò',
+        patientLabel: 'Aláìsàn',
+        profileHistory: { conditions: 'Àìsàn tí kò lọ', medications: 'Àwọn oògùn tí ó ń lò', allergies: 'Ohun tí ara kò gbà', pregnant: 'Ó lóyún' },
+    },
+    ha: {
+        languageName: 'Hausa',
+        disclaimer: "Ga taƙaitaccen bayanin ganawarmu. Don Allah ka tuna, ko da yake ina ba da shawara bisa ilimin likitanci, ni AI ne. Koyaushe ka tabbatar da ganewar cuta da tsarin magani tare da ƙwararren likita mai lasisi.",
+        reportTitle: "Taƙaitaccen Bayanin Ganawa na MyDocta",
+        reportDisclaimer: "Mataimakin AI ne ya samar da wannan taƙaitawa, ba ganewar cuta daga likita ba ce. Koyaushe ka tabbatar da ganewar cuta da tsarin magani tare da ƙwararren likita mai lasisi.",
+        reportSections: {
+            chiefComplaint: 'Babban Ƙorafi',
+            historyOfPresentIllness: 'Tarihin Rashin Lafiya na Yanzu',
+            medicalHistory: 'Tarihin Lafiya na Baya',
+            mostLikelyDiagnosis: 'Mafi Yiwuwar Ganewar Cuta',
+            differentialDiagnoses: 'Sauran Cututtukan da Za Su Iya Kasancewa',
+            treatmentPlan: 'Tsarin Magani da Matakai na Gaba',
+            redFlags: 'Alamomin Haɗari',
+        },
+        transcriptHeading: 'Rubutaccen Tattaunawa',
+        patientLabel: 'Mara lafiya',
+        profileHistory: { conditions: 'Cututtuka masu dadewa', medications: 'Magungunan da ake sha yanzu', allergies: 'Abubuwan da ke tayar da alerji', pregnant: 'Tana da ciki' },
+    },
+    fr: {
+        languageName: 'French',
+        disclaimer: "Voici un résumé de notre consultation. N'oubliez pas que, même si je fournis des conseils médicalement fondés, je reste une IA. Faites toujours confirmer les diagnostics et les traitements par un professionnel de santé agréé.",
+        reportTitle: "Résumé de consultation MyDocta",
+        reportDisclaimer: "Ce résumé a été généré par un assistant IA et ne constitue pas un diagnostic médical. Faites toujours confirmer les diagnostics et les traitements par un professionnel de santé agréé.",
+        reportSections: {
+            chiefComplaint: 'Motif de consultation',
+            historyOfPresentIllness: 'Histoire de la maladie actuelle',
+            medicalHistory: 'Antécédents médicaux',
+            mostLikelyDiagnosis: 'Diagnostic le plus probable',
+            differentialDiagnoses: 'Autres diagnostics possibles',
+            treatmentPlan: 'Traitement et prochaines étapes',
+            redFlags: "Signes d'alerte",
+        },
+        transcriptHeading: 'Transcription',
+        patientLabel: 'Patient',
+        profileHistory: { conditions: 'Maladies chroniques', medications: 'Traitements en cours', allergies: 'Allergies', pregnant: 'Enceinte' },
+    },
+    pcm: {
+        languageName: 'Nigerian Pidgin',
+        disclaimer: "See summary of wetin we talk. Abeg remember say, even though I dey give you advice wey get medical sense, na AI I be. Make you always confirm di diagnosis and treatment plan with correct doctor wey get license.",
+        reportTitle: "MyDocta Consultation Summary",
+        reportDisclaimer: "Na AI assistant write dis summary, e no be doctor diagnosis. Make you always confirm di diagnosis and treatment plan with correct doctor wey get license.",
+        reportSections: {
+            chiefComplaint: 'Main Complain',
+            historyOfPresentIllness: 'How di Sickness Take Start',
+            medicalHistory: 'Sickness Wey You Don Get Before',
+            mostLikelyDiagnosis: 'Wetin E Fit Be Pass',
+            differentialDiagnoses: 'Oda Tins Wey E Fit Be',
+            treatmentPlan: 'Treatment Plan & Wetin To Do Next',
+            redFlags: 'Danger Signs',
+        },
+        transcriptHeading: 'Wetin We Talk',
+        patientLabel: 'Patient',
+        profileHistory: { conditions: 'Sickness wey no dey go', medications: 'Medicine wey dem dey take now', allergies: 'Tins wey dem body no gree', pregnant: 'She get belle' },
+    },
+};
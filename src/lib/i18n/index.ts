@@ -0,0 +1,28 @@
+// src/lib/i18n/index.ts
+// Translation lookup shared by the client (UI strings) and /api/chat (consultation text).
+// The Yoruba, Hausa and Pidgin strings should be checked by native speakers before each release.
+import { CONSULTATION_TEXT, ConsultationText } from './consultation';
+import { DEFAULT_LOCALE, isLocale, Locale } from './locales';
+import { en, UiMessageKey, UiMessages } from './messages/en';
+import { fr } from './messages/fr';
+import { ha } from './messages/ha';
+import { pcm } from './messages/pcm';
+import { yo } from './messages/yo';
+
+export * from './locales';
+export type { ConsultationText } from './consultation';
+export type { UiMessageKey } from './messages/en';
+
+const UI_MESSAGES: Record<Locale, UiMessages> = { en, yo, ha, fr, pcm };
+
+export type TranslationVars = Record<string, string | number>;
+
+export function translate(locale: Locale, key: UiMessageKey, vars?: TranslationVars): string {
+    const template = UI_MESSAGES[locale]?.[key] ?? en[key];
+    return vars ? template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in vars ? String(vars[name]) : placeholder)) : template;
+}
+
+// Unknown or missing locales (e.g. reports saved before i18n) fall back to English
+export const toLocale = (value: unknown): Locale => (isLocale(value) ? value : DEFAULT_LOCALE);
+
+export const consultationText = (locale: unknown): ConsultationText => CONSULTATION_TEXT[toLocale(locale)];
@@ -0,0 +1,19 @@
+// src/lib/i18n/locales.ts
+// Supported consultation languages. Codes are BCP 47, so they can go straight into <html lang> and FHIR.
+
+export type Locale = 'en' | 'yo' | 'ha' | 'fr' | 'pcm';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_STORAGE_KEY = "my-docta-locale";
+
+// Labels are in the language itself, so people can find theirs
+export const LOCALES: { code: Locale; label: string }[] = [
+    { code: 'en', label: 'English' },
+    { code: 'yo', label: 'Yorùbá' },
+    { code: 'ha', label: 'Hausa' },
+    { code: 'fr', label: 'Français' },
+    { code: 'pcm', label: 'Naijá (Pidgin)' },
+];
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(({ code }) => code === value);
@@ -0,0 +1,261 @@
+// src/lib/i18n/messages/en.ts
+// UI strings. English is the reference: every other locale must provide the same keys.
+// Placeholders in {braces} are filled in by translate().
+
+export const en = {
+    'header.history': "Consultation History",
+    'header.newSession': "New Chat Session",
+    'header.profile': "Patient profile",
+    'header.mode': "Consultation mode",
+    'header.language': "Language",
+    'header.toggleTheme': "Toggle theme",
+    'theme.light': "Light",
+    'theme.dark': "Dark",
+    'theme.system': "System",
+
+    'messages.empty': "How are you feeling today?",
+    'messages.uploading': "Uploading...",
+    'messages.uploadFailed': "Upload failed",
+    'messages.queued': "Queued, sends when you're back online",
+    'messages.userUpload': "User upload",
+    'messages.document': "Document",
+    'messages.copy': "Copy message",
+    'messages.copied': "Copied",
+    'messages.expandAll': "Expand all",
+    'messages.collapseAll': "Collapse all",
+    'messages.retry': "Retry",
+    'messages.regenerate': "Regenerate answer",
+    'messages.edit': "Edit message",
+    'messages.delete': "Delete message",
+    'messages.saveAndResend': "Save and resend",
+    'messages.cancelEdit': "Cancel",
+    'messages.confirmEdit': "Resend this message? The replies after it will be replaced.",
+    'messages.confirmDelete': "Delete this message?",
+    'messages.confirmDeleteTurn': "Delete this message and the replies to it?",
+
+    'input.placeholder': "Type your message...",
+    'input.processing': "Processing...",
+    'input.attach': "Attach",
+    'input.uploadImage': "Upload Image",
+    'input.send': "Send",
+    'input.recordAudio': "Record audio",
+    'input.stopRecording': "Stop Recording",
+    'input.selectImage': "Please select an image file.",
+    'input.captionPlaceholder': "Add a caption (optional)...",
+    'input.removeAttachment': "Remove {name}",
+    'input.editImage': "Crop or rotate {name}",
+    'input.unsupportedFile': "{name} can't be attached. Choose a photo or a PDF.",
+    'input.photoUnreadable': "{name} can't be read in this browser. Choose a JPEG or PNG photo instead.",
+    'input.fileTooLarge': "{name} is too large ({size}). The limit is {limit}.",
+    'input.tooManyFiles': "You can attach up to {count} files to one message.",
+    'input.filesTooLarge': "These files are too large together. The limit is {limit} per message.",
+    'input.micDenied': "Microphone permission denied...",
+    'input.micError': "Could not start recording...",
+    'input.transcribing': "Transcribing...",
+    'input.transcriptLabel': "Voice message transcript",
+    'input.transcriptPlaceholder': "Transcript (optional) - check or correct it before sending",
+    'input.discard': "Discard",
+    'input.sendVoice': "Send voice message",
+    'imageEditor.title': "Edit photo",
+    'imageEditor.hint': "Drag over the photo to crop it to the affected area. Location and camera details are removed before sending.",
+    'imageEditor.rotateLeft': "Rotate left",
+    'imageEditor.rotateRight': "Rotate right",
+    'imageEditor.reset': "Reset",
+    'imageEditor.cancel': "Cancel",
+    'imageEditor.apply': "Apply",
+    'imageEditor.failed': "This photo can't be edited in this browser.",
+
+    'chat.thinking': "Thinking...",
+    'chat.processingImage': "Processing image...",
+    'chat.processingAudio': "Processing audio...",
+    'chat.processingAttachments': "Reading your attachments...",
+    'chat.error': "Sorry, error: {message}",
+    'chat.noTranscript': "No transcript available ({reason}). You can type one or send the recording as is.",
+    'chat.offline': "You're offline. Messages you send now will go out when the connection is back.",
+    'chat.offlineTranscript': "You're offline, so the recording can't be transcribed now. You can type a transcript or send the recording as is; it will go out when you're back online.",
+    'chat.mediaUnavailable': "the photo or recording is no longer available on this device",
+    'chat.confirmNewSession': "Are you sure? This clears chat and report.",
+    'chat.openFailed': "Could not open this consultation.",
+    'chat.rateLimited': "You're sending messages too quickly. Please wait a moment and try again.",
+    'chat.rateLimitedSeconds': "You're sending messages too quickly. Please wait {seconds} seconds and try again.",
+    'chat.rateLimitedMinutes': "You've reached the message limit. Please wait about {minutes} minutes and try again.",
+    'chat.tooLarge': "This message is too large to send. Shorten it, use a smaller file or start a new consultation.",
+
+    'report.heading': "Consultation Summary",
+    'report.show': "Show Report",
+    'report.hide': "Hide Report",
+    'report.partial': "Parts of this report could not be read.",
+    'report.original': "Original report text",
+    'report.export': "Export",
+    'report.exportPdf': "PDF (printable)",
+    'report.exportMarkdown': "Markdown",
+    'report.exportFhir': "FHIR R4 Bundle (JSON)",
+    'report.pdfFailed': "Could not create the PDF.",
+    'report.mode': "Mode: {mode}",
+
+    'history.title': "Past consultations",
+    'history.empty': "No saved consultations yet.",
+    'history.loadFailed': "Could not load history.",
+    'history.untitled': "New consultation",
+    'history.emergency': "Emergency flagged",
+    'history.rename': "Rename",
+    'history.delete': "Delete",
+    'history.nameLabel': "Consultation name",
+    'history.saveName': "Save name",
+    'history.cancel': "Cancel",
+    'history.confirmDelete': "Delete \"{title}\"? This cannot be undone.",
+    'history.thisConsultation': "this consultation",
+    'history.renameFailed': "Could not rename this consultation.",
+    'history.deleteFailed': "Could not delete this consultation.",
+
+    'emergency.title': "Your symptoms may need emergency care. Please seek help now.",
+
+    'profile.title': "Patient profile",
+    'profile.description': "Shared with the assistant in every consultation so it does not have to ask again. Leave anything you prefer not to share empty.",
+    'profile.close': "Close profile",
+    'profile.dateOfBirth': "Date of birth",
+    'profile.sex': "Sex",
+    'profile.notSpecified': "Not specified",
+    'profile.female': "Female",
+    'profile.male': "Male",
+    'profile.other': "Other",
+    'profile.pregnancy': "Pregnancy",
+    'profile.pregnant': "Pregnant",
+    'profile.notPregnant': "Not pregnant",
+    'profile.pregnancyUnknown': "Not sure",
+    'profile.conditions': "Chronic conditions",
+    'profile.medications': "Current medications",
+    'profile.allergies': "Allergies",
+    'profile.onePerLine': "One per line",
+    'profile.save': "Save profile",
+    'profile.saved': "Profile saved. It will be used from your next message.",
+    'profile.saveFailed': "Could not save your profile.",
+    'profile.loadFailed': "Could not load your profile.",
+    'profile.delete': "Delete",
+    'profile.confirmDelete': "Delete your saved profile? This cannot be undone.",
+    'profile.deleteFailed': "Could not delete your profile.",
+
+    'drugs.title': "Check before taking these medicines",
+    'drugs.avoid': "avoid",
+    'drugs.caution': "use with care",
+    'drugs.allergy': "allergy: {name}",
+    'drugs.interaction': "interacts with {name}",
+    'drugs.duplicate': "already taking {name}",
+    'drugs.contraindication': "because of {name}",
+    'drugs.maxDose': "Maximum: {dose}",
+    'drugs.footer': "Ask a pharmacist or doctor before taking any of these.",
+
+    'mode.general': "General (adults)",
+    'mode.pediatric': "Child health",
+    'mode.mentalHealth': "Mental health check-in",
+    'mode.dermatology': "Skin & photo check",
+    'mode.generalHint': "Describe your symptoms to start a consultation.",
+    'mode.pediatricHint': "Tell us the child's age and what is worrying you. Have their weight ready if you can.",
+    'mode.mentalHealthHint': "Take your time and share how you have been feeling lately.",
+    'mode.dermatologyHint': "Describe the problem and attach a clear, well-lit photo of the affected skin.",
+
+    'auth.title': "Welcome to MyDocta",
+    'auth.subtitle': "Sign in to keep your consultations with you on every device.",
+    'auth.signIn': "Sign in",
+    'auth.signUp': "Create account",
+    'auth.magicLink': "Email link",
+    'auth.name': "Name (optional)",
+    'auth.email': "Email",
+    'auth.password': "Password",
+    'auth.passwordHint': "At least {count} characters.",
+    'auth.submitSignIn': "Sign in",
+    'auth.submitSignUp': "Create account",
+    'auth.submitMagicLink': "Email me a sign-in link",
+    'auth.linkSent': "We sent a sign-in link to {email}. It works once and expires in 15 minutes.",
+    'auth.invalidLink': "That sign-in link is invalid, already used or expired. Request a new one.",
+    'auth.failed': "Could not sign you in. Please try again.",
+    'account.menu': "Account",
+    'account.signOut': "Sign out",
+    'account.signOutFailed': "Could not sign out.",
+    'account.delete': "Delete account",
+    'account.confirmDelete': "Delete your account? Your consultations, photos, recordings and patient profile will be permanently removed.",
+    'account.deleteFailed': "Could not delete your account.",
+    'review.requestHint': "A clinician can check this report and add notes or corrections.",
+    'review.request': "Ask a clinician to review",
+    'review.resubmit': "Send the new report for review",
+    'review.requestFailed': "Could not send the report for review: {message}",
+    'review.pending': "Waiting for a clinician to review this report.",
+    'review.approved': "Approved by {name}",
+    'review.amended': "Amended by {name}",
+    'review.rejected': "Not confirmed by {name}",
+    'review.reviewedAt': "Reviewed {date}",
+    'review.notes': "Clinician's notes",
+    'review.amendedDiagnosis': "Corrected most likely diagnosis",
+    'review.amendedDifferentials': "Corrected differential diagnoses",
+    'review.amendedPlan': "Corrected treatment plan",
+    'review.outdated': "The report has changed since it was sent for review.",
+    'queue.title': "Review queue",
+    'queue.pending': "Waiting",
+    'queue.reviewed': "Reviewed",
+    'queue.empty': "Nothing here.",
+    'queue.loadFailed': "Could not load the review queue: {message}",
+    'queue.forbidden': "Only clinicians can open the review queue.",
+    'queue.openChat': "Back to consultations",
+    'queue.submitted': "Sent {date}",
+    'queue.emergency': "Emergency",
+    'queue.noComplaint': "No main complaint recorded",
+    'queue.select': "Choose a report from the queue.",
+    'queue.back': "Back to the queue",
+    'queue.profile': "Patient profile",
+    'queue.noProfile': "The patient has not filled in a profile.",
+    'queue.age': "{date} ({years} years)",
+    'queue.decision': "Your review",
+    'queue.lastReviewed': "Last reviewed by {name} on {date}",
+    'queue.approve': "Approve",
+    'queue.amend': "Amend",
+    'queue.reject': "Reject",
+    'queue.notes': "Notes for the patient",
+    'queue.notesRequired': "(required when rejecting)",
+    'queue.save': "Save review",
+    'queue.saved': "Review saved.",
+    'queue.saveFailed': "Could not save the review: {message}",
+    'queue.transcript': "Consultation ({count} messages)",
+    'queue.patientInitials': "P",
+    'vault.menu': "Device encryption",
+    'vault.lockNow': "Lock now",
+    'vault.title': "Device encryption",
+    'vault.close': "Close device encryption",
+    'vault.description': "Encrypts the consultation kept in this browser with a passphrase, and locks it when you are away. The passphrase never leaves this device and cannot be recovered: if you forget it, the copy on this device has to be erased.",
+    'vault.on': "Encryption is on for this device.",
+    'vault.passphrase': "Passphrase",
+    'vault.confirmPassphrase': "Repeat passphrase",
+    'vault.passphraseHint': "At least {count} characters.",
+    'vault.tooShort': "Use at least {count} characters.",
+    'vault.mismatch': "The passphrases do not match.",
+    'vault.autoLock': "Lock after inactivity",
+    'vault.minutes': "{count} minutes",
+    'vault.enable': "Turn on encryption",
+    'vault.disable': "Turn off encryption",
+    'vault.confirmDisable': "Turn off encryption? The consultation on this device will be stored unencrypted.",
+    'vault.failed': "Could not change device encryption: {message}",
+    'vault.lockedTitle': "Locked",
+    'vault.lockedSubtitle': "Enter your passphrase to open the consultation kept on this device.",
+    'vault.wrongPassphrase': "Wrong passphrase.",
+    'vault.unlock': "Unlock",
+    'vault.forgot': "Forgot the passphrase? Erase this device's copy",
+    'vault.confirmErase': "Erase the encrypted consultation on this device? Consultations saved to your account are not affected.",
+    'vault.unsupported': "This browser cannot encrypt data. Open the app over a secure (https) connection.",
+    'speech.settings': "Read-aloud settings",
+    'speech.voiceMode': "Voice mode",
+    'speech.readAloud': "Read replies aloud",
+    'speech.autoPlay': "Auto-play after voice messages",
+    'speech.engine': "Engine",
+    'speech.device': "This device",
+    'speech.server': "Server",
+    'speech.voice': "Voice",
+    'speech.defaultVoice': "Default",
+    'speech.speed': "Speed ({rate}x)",
+    'speech.play': "Read aloud",
+    'speech.pause': "Pause reading",
+    'speech.listen': "Listen",
+    'speech.unsupported': "Read aloud is not supported in this browser.",
+    'speech.failed': "Could not read this reply aloud.",
+};
+
+export type UiMessageKey = keyof typeof en;
+export type UiMessages = Record<UiMessageKey, string>;
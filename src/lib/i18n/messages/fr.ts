@@ -0,0 +1,257 @@
+// src/lib/i18n/messages/fr.ts
+import type { UiMessages } from './en';
+
+export const fr: UiMessages = {
+    'header.history': "Historique des consultations",
+    'header.newSession': "Nouvelle consultation",
+    'header.profile': "Profil du patient",
+    'header.mode': "Type de consultation",
+    'header.language': "Langue",
+    'header.toggleTheme': "Changer de thème",
+    'theme.light': "Clair",
+    'theme.dark': "Sombre",
+    'theme.system': "Système",
+
+    'messages.empty': "Comment vous sentez-vous aujourd'hui ?",
+    'messages.uploading': "Envoi en cours...",
+    'messages.uploadFailed': "Échec de l'envoi",
+    'messages.queued': "En attente, sera envoyé une fois la connexion rétablie",
+    'messages.userUpload': "Image envoyée",
+    'messages.document': "Document",
+    'messages.copy': "Copier le message",
+    'messages.copied': "Copié",
+    'messages.expandAll': "Tout développer",
+    'messages.collapseAll': "Tout réduire",
+    'messages.retry': "Réessayer",
+    'messages.regenerate': "Régénérer la réponse",
+    'messages.edit': "Modifier le message",
+    'messages.delete': "Supprimer le message",
+    'messages.saveAndResend': "Enregistrer et renvoyer",
+    'messages.cancelEdit': "Annuler",
+    'messages.confirmEdit': "Renvoyer ce message ? Les réponses qui suivent seront remplacées.",
+    'messages.confirmDelete': "Supprimer ce message ?",
+    'messages.confirmDeleteTurn': "Supprimer ce message et les réponses qui y ont été données ?",
+
+    'input.placeholder': "Écrivez votre message...",
+    'input.processing': "Traitement...",
+    'input.attach': "Joindre",
+    'input.uploadImage': "Envoyer une image",
+    'input.send': "Envoyer",
+    'input.recordAudio': "Enregistrer un message vocal",
+    'input.stopRecording': "Arrêter l'enregistrement",
+    'input.selectImage': "Veuillez choisir un fichier image.",
+    'input.captionPlaceholder': "Ajouter une légende (facultatif)...",
+    'input.removeAttachment': "Retirer {name}",
+    'input.editImage': "Recadrer ou pivoter {name}",
+    'input.unsupportedFile': "{name} ne peut pas être joint. Choisissez une photo ou un PDF.",
+    'input.photoUnreadable': "{name} ne peut pas être lu dans ce navigateur. Choisissez plutôt une photo JPEG ou PNG.",
+    'input.fileTooLarge': "{name} est trop volumineux ({size}). La limite est de {limit}.",
+    'input.tooManyFiles': "Vous pouvez joindre jusqu'à {count} fichiers à un message.",
+    'input.filesTooLarge': "Ces fichiers sont trop volumineux ensemble. La limite est de {limit} par message.",
+    'input.micDenied': "Accès au micro refusé...",
+    'input.micError': "Impossible de démarrer l'enregistrement...",
+    'input.transcribing': "Transcription...",
+    'input.transcriptLabel': "Transcription du message vocal",
+    'input.transcriptPlaceholder': "Transcription (facultative) - vérifiez-la ou corrigez-la avant l'envoi",
+    'input.discard': "Supprimer",
+    'input.sendVoice': "Envoyer le message vocal",
+    'imageEditor.title': "Modifier la photo",
+    'imageEditor.hint': "Faites glisser sur la photo pour la recadrer sur la zone concernée. La position et les détails de l'appareil sont retirés avant l'envoi.",
+    'imageEditor.rotateLeft': "Pivoter à gauche",
+    'imageEditor.rotateRight': "Pivoter à droite",
+    'imageEditor.reset': "Réinitialiser",
+    'imageEditor.cancel': "Annuler",
+    'imageEditor.apply': "Appliquer",
+    'imageEditor.failed': "Cette photo ne peut pas être modifiée dans ce navigateur.",
+
+    'chat.thinking': "Réflexion...",
+    'chat.processingImage': "Analyse de l'image...",
+    'chat.processingAudio': "Analyse de l'audio...",
+    'chat.processingAttachments': "Lecture de vos pièces jointes...",
+    'chat.error': "Désolé, erreur : {message}",
+    'chat.noTranscript': "Aucune transcription disponible ({reason}). Vous pouvez l'écrire ou envoyer l'enregistrement tel quel.",
+    'chat.offline': "Vous êtes hors ligne. Les messages envoyés maintenant partiront dès le retour de la connexion.",
+    'chat.offlineTranscript': "Vous êtes hors ligne, l'enregistrement ne peut pas être transcrit pour l'instant. Vous pouvez écrire la transcription ou envoyer l'enregistrement tel quel ; il partira au retour de la connexion.",
+    'chat.mediaUnavailable': "la photo ou l'enregistrement n'est plus disponible sur cet appareil",
+    'chat.confirmNewSession': "Êtes-vous sûr ? La discussion et le rapport seront effacés.",
+    'chat.openFailed': "Impossible d'ouvrir cette consultation.",
+    'chat.rateLimited': "Vous envoyez des messages trop rapidement. Veuillez patienter un instant et réessayer.",
+    'chat.rateLimitedSeconds': "Vous envoyez des messages trop rapidement. Veuillez patienter {seconds} secondes et réessayer.",
+    'chat.rateLimitedMinutes': "Vous avez atteint la limite de messages. Veuillez patienter environ {minutes} minutes et réessayer.",
+    'chat.tooLarge': "Ce message est trop volumineux. Raccourcissez-le, utilisez un fichier plus petit ou commencez une nouvelle consultation.",
+
+    'report.heading': "Résumé de la consultation",
+    'report.show': "Afficher le rapport",
+    'report.hide': "Masquer le rapport",
+    'report.partial': "Certaines parties de ce rapport n'ont pas pu être lues.",
+    'report.original': "Texte original du rapport",
+    'report.export': "Exporter",
+    'report.exportPdf': "PDF (imprimable)",
+    'report.exportMarkdown': "Markdown",
+    'report.exportFhir': "Bundle FHIR R4 (JSON)",
+    'report.pdfFailed': "Impossible de créer le PDF.",
+    'report.mode': "Type : {mode}",
+
+    'history.title': "Consultations précédentes",
+    'history.empty': "Aucune consultation enregistrée.",
+    'history.loadFailed': "Impossible de charger l'historique.",
+    'history.untitled': "Nouvelle consultation",
+    'history.emergency': "Urgence signalée",
+    'history.rename': "Renommer",
+    'history.delete': "Supprimer",
+    'history.nameLabel': "Nom de la consultation",
+    'history.saveName': "Enregistrer le nom",
+    'history.cancel': "Annuler",
+    'history.confirmDelete': "Supprimer « {title} » ? Cette action est irréversible.",
+    'history.thisConsultation': "cette consultation",
+    'history.renameFailed': "Impossible de renommer cette consultation.",
+    'history.deleteFailed': "Impossible de supprimer cette consultation.",
+
+    'emergency.title': "Vos symptômes peuvent nécessiter des soins d'urgence. Demandez de l'aide maintenant.",
+
+    'profile.title': "Profil du patient",
+    'profile.description': "Partagé avec l'assistant à chaque consultation pour qu'il n'ait pas à redemander. Laissez vide ce que vous préférez ne pas partager.",
+    'profile.close': "Fermer le profil",
+    'profile.dateOfBirth': "Date de naissance",
+    'profile.sex': "Sexe",
+    'profile.notSpecified': "Non précisé",
+    'profile.female': "Féminin",
+    'profile.male': "Masculin",
+    'profile.other': "Autre",
+    'profile.pregnancy': "Grossesse",
+    'profile.pregnant': "Enceinte",
+    'profile.notPregnant': "Pas enceinte",
+    'profile.pregnancyUnknown': "Je ne sais pas",
+    'profile.conditions': "Maladies chroniques",
+    'profile.medications': "Médicaments actuels",
+    'profile.allergies': "Allergies",
+    'profile.onePerLine': "Un par ligne",
+    'profile.save': "Enregistrer le profil",
+    'profile.saved': "Profil enregistré. Il sera utilisé dès votre prochain message.",
+    'profile.saveFailed': "Impossible d'enregistrer votre profil.",
+    'profile.loadFailed': "Impossible de charger votre profil.",
+    'profile.delete': "Supprimer",
+    'profile.confirmDelete': "Supprimer votre profil enregistré ? Cette action est irréversible.",
+    'profile.deleteFailed': "Impossible de supprimer votre profil.",
+
+    'drugs.title': "À vérifier avant de prendre ces médicaments",
+    'drugs.avoid': "à éviter",
+    'drugs.caution': "avec prudence",
+    'drugs.allergy': "allergie : {name}",
+    'drugs.interaction': "interagit avec {name}",
+    'drugs.duplicate': "déjà pris : {name}",
+    'drugs.contraindication': "en raison de : {name}",
+    'drugs.maxDose': "Maximum : {dose}",
+    'drugs.footer': "Demandez l'avis d'un pharmacien ou d'un médecin avant de prendre l'un de ces médicaments.",
+
+    'mode.general': "Générale (adultes)",
+    'mode.pediatric': "Santé de l'enfant",
+    'mode.mentalHealth': "Point sur la santé mentale",
+    'mode.dermatology': "Peau et photo",
+    'mode.generalHint': "Décrivez vos symptômes pour commencer une consultation.",
+    'mode.pediatricHint': "Indiquez l'âge de l'enfant et ce qui vous inquiète. Ayez son poids sous la main si possible.",
+    'mode.mentalHealthHint': "Prenez votre temps et racontez comment vous vous sentez ces derniers temps.",
+    'mode.dermatologyHint': "Décrivez le problème et joignez une photo nette et bien éclairée de la peau concernée.",
+
+    'auth.title': "Bienvenue sur MyDocta",
+    'auth.subtitle': "Connectez-vous pour retrouver vos consultations sur tous vos appareils.",
+    'auth.signIn': "Connexion",
+    'auth.signUp': "Créer un compte",
+    'auth.magicLink': "Lien par e-mail",
+    'auth.name': "Nom (facultatif)",
+    'auth.email': "E-mail",
+    'auth.password': "Mot de passe",
+    'auth.passwordHint': "Au moins {count} caractères.",
+    'auth.submitSignIn': "Se connecter",
+    'auth.submitSignUp': "Créer un compte",
+    'auth.submitMagicLink': "M'envoyer un lien de connexion",
+    'auth.linkSent': "Nous avons envoyé un lien de connexion à {email}. Il ne fonctionne qu'une fois et expire dans 15 minutes.",
+    'auth.invalidLink': "Ce lien de connexion est invalide, déjà utilisé ou expiré. Demandez-en un nouveau.",
+    'auth.failed': "Connexion impossible. Veuillez réessayer.",
+    'account.menu': "Compte",
+    'account.signOut': "Se déconnecter",
+    'account.signOutFailed': "Impossible de se déconnecter.",
+    'account.delete': "Supprimer le compte",
+    'account.confirmDelete': "Supprimer votre compte ? Vos consultations, photos, enregistrements et votre profil patient seront définitivement supprimés.",
+    'account.deleteFailed': "Impossible de supprimer votre compte.",
+    'review.requestHint': "Un clinicien peut vérifier ce rapport et ajouter des remarques ou des corrections.",
+    'review.request': "Demander l'avis d'un clinicien",
+    'review.resubmit': "Envoyer le nouveau rapport pour vérification",
+    'review.requestFailed': "Impossible d'envoyer le rapport pour vérification : {message}",
+    'review.pending': "En attente de la vérification d'un clinicien.",
+    'review.approved': "Approuvé par {name}",
+    'review.amended': "Corrigé par {name}",
+    'review.rejected': "Non confirmé par {name}",
+    'review.reviewedAt': "Vérifié le {date}",
+    'review.notes': "Remarques du clinicien",
+    'review.amendedDiagnosis': "Diagnostic le plus probable corrigé",
+    'review.amendedDifferentials': "Diagnostics différentiels corrigés",
+    'review.amendedPlan': "Plan de traitement corrigé",
+    'review.outdated': "Le rapport a changé depuis son envoi pour vérification.",
+    'queue.title': "File de vérification",
+    'queue.pending': "En attente",
+    'queue.reviewed': "Vérifiés",
+    'queue.empty': "Rien ici.",
+    'queue.loadFailed': "Impossible de charger la file de vérification : {message}",
+    'queue.forbidden': "Seuls les cliniciens peuvent ouvrir la file de vérification.",
+    'queue.openChat': "Retour aux consultations",
+    'queue.submitted': "Envoyé le {date}",
+    'queue.emergency': "Urgence",
+    'queue.noComplaint': "Aucun motif principal indiqué",
+    'queue.select': "Choisissez un rapport dans la file.",
+    'queue.back': "Retour à la file",
+    'queue.profile': "Profil du patient",
+    'queue.noProfile': "Le patient n'a pas rempli de profil.",
+    'queue.age': "{date} ({years} ans)",
+    'queue.decision': "Votre avis",
+    'queue.lastReviewed': "Dernière vérification par {name} le {date}",
+    'queue.approve': "Approuver",
+    'queue.amend': "Corriger",
+    'queue.reject': "Rejeter",
+    'queue.notes': "Remarques pour le patient",
+    'queue.notesRequired': "(obligatoire en cas de rejet)",
+    'queue.save': "Enregistrer l'avis",
+    'queue.saved': "Avis enregistré.",
+    'queue.saveFailed': "Impossible d'enregistrer l'avis : {message}",
+    'queue.transcript': "Consultation ({count} messages)",
+    'queue.patientInitials': "P",
+    'vault.menu': "Chiffrement de l'appareil",
+    'vault.lockNow': "Verrouiller",
+    'vault.title': "Chiffrement de l'appareil",
+    'vault.close': "Fermer le chiffrement de l'appareil",
+    'vault.description': "Chiffre la consultation conservée dans ce navigateur avec une phrase secrète et la verrouille en votre absence. La phrase secrète ne quitte jamais cet appareil et ne peut pas être récupérée : si vous l'oubliez, la copie de cet appareil devra être effacée.",
+    'vault.on': "Le chiffrement est activé sur cet appareil.",
+    'vault.passphrase': "Phrase secrète",
+    'vault.confirmPassphrase': "Répéter la phrase secrète",
+    'vault.passphraseHint': "Au moins {count} caractères.",
+    'vault.tooShort': "Utilisez au moins {count} caractères.",
+    'vault.mismatch': "Les phrases secrètes ne correspondent pas.",
+    'vault.autoLock': "Verrouiller après inactivité",
+    'vault.minutes': "{count} minutes",
+    'vault.enable': "Activer le chiffrement",
+    'vault.disable': "Désactiver le chiffrement",
+    'vault.confirmDisable': "Désactiver le chiffrement ? La consultation sur cet appareil sera stockée sans chiffrement.",
+    'vault.failed': "Impossible de modifier le chiffrement de l'appareil : {message}",
+    'vault.lockedTitle': "Verrouillé",
+    'vault.lockedSubtitle': "Saisissez votre phrase secrète pour ouvrir la consultation conservée sur cet appareil.",
+    'vault.wrongPassphrase': "Phrase secrète incorrecte.",
+    'vault.unlock': "Déverrouiller",
+    'vault.forgot': "Phrase secrète oubliée ? Effacer la copie de cet appareil",
+    'vault.confirmErase': "Effacer la consultation chiffrée de cet appareil ? Les consultations enregistrées sur votre compte ne sont pas concernées.",
+    'vault.unsupported': "Ce navigateur ne peut pas chiffrer les données. Ouvrez l'application via une connexion sécurisée (https).",
+    'speech.settings': "Paramètres de lecture à voix haute",
+    'speech.voiceMode': "Mode vocal",
+    'speech.readAloud': "Lire les réponses à voix haute",
+    'speech.autoPlay': "Lecture automatique après un message vocal",
+    'speech.engine': "Moteur",
+    'speech.device': "Cet appareil",
+    'speech.server': "Serveur",
+    'speech.voice': "Voix",
+    'speech.defaultVoice': "Par défaut",
+    'speech.speed': "Vitesse ({rate}x)",
+    'speech.play': "Lire à voix haute",
+    'speech.pause': "Mettre en pause",
+    'speech.listen': "Écouter",
+    'speech.unsupported': "La lecture à voix haute n'est pas prise en charge par ce navigateur.",
+    'speech.failed': "Impossible de lire cette réponse à voix haute.",
+};
@@ -0,0 +1,257 @@
+// src/lib/i18n/messages/ha.ts
+import type { UiMessages } from './en';
+
+export const ha: UiMessages = {
+    'header.history': "Tarihin Ganawa",
+    'header.newSession': "Sabuwar Ganawa",
+    'header.profile': "Bayanan majiyyaci",
+    'header.mode': "Nau'in tattaunawa",
+    'header.language': "Harshe",
+    'header.toggleTheme': "Canza jigo",
+    'theme.light': "Haske",
+    'theme.dark': "Duhu",
+    'theme.system': "Na na'ura",
+
+    'messages.empty': "Yaya jikinka yau?",
+    'messages.uploading': "Ana lodawa...",
+    'messages.uploadFailed': "Lodawa ta kasa",
+    'messages.queued': "Yana jira, za a aika idan ka dawo kan intanet",
+    'messages.userUpload': "Hoton da ka aiko",
+    'messages.document': "Takarda",
+    'messages.copy': "Kwafi saƙo",
+    'messages.copied': "An kwafa",
+    'messages.expandAll': "Buɗe duka",
+    'messages.collapseAll': "Rufe duka",
+    'messages.retry': "Sake gwadawa",
+    'messages.regenerate': "Sake samar da amsa",
+    'messages.edit': "Gyara saƙo",
+    'messages.delete': "Goge saƙo",
+    'messages.saveAndResend': "Ajiye kuma sake aikawa",
+    'messages.cancelEdit': "Soke",
+    'messages.confirmEdit': "A sake aika wannan saƙon? Za a maye gurbin amsoshin da suka biyo baya.",
+    'messages.confirmDelete': "A goge wannan saƙon?",
+    'messages.confirmDeleteTurn': "A goge wannan saƙon da amsoshinsa?",
+
+    'input.placeholder': "Rubuta saƙonka...",
+    'input.processing': "Ana aiki...",
+    'input.attach': "Haɗa fayil",
+    'input.uploadImage': "Aika hoto",
+    'input.send': "Aika",
+    'input.recordAudio': "Naɗi murya",
+    'input.stopRecording': "Dakatar da naɗi",
+    'input.selectImage': "Don Allah zaɓi fayil ɗin hoto.",
+    'input.captionPlaceholder': "Ƙara bayani (ba dole ba)...",
+    'input.removeAttachment': "Cire {name}",
+    'input.editImage': "Yanke ko juya {name}",
+    'input.unsupportedFile': "Ba za a iya haɗa {name} ba. Zaɓi hoto ko PDF.",
+    'input.photoUnreadable': "Ba za a iya karanta {name} a wannan burauzar ba. Zaɓi hoton JPEG ko PNG maimakon haka.",
+    'input.fileTooLarge': "{name} ya yi girma da yawa ({size}). Iyakar ita ce {limit}.",
+    'input.tooManyFiles': "Za ka iya haɗa fayiloli har {count} a saƙo ɗaya.",
+    'input.filesTooLarge': "Waɗannan fayilolin sun yi girma da yawa tare. Iyakar ita ce {limit} a kowane saƙo.",
+    'input.micDenied': "An hana izinin amfani da makirufo...",
+    'input.micError': "Ba a iya fara naɗi ba...",
+    'input.transcribing': "Ana rubuta muryar...",
+    'input.transcriptLabel': "Rubutun saƙon murya",
+    'input.transcriptPlaceholder': "Rubutu (ba dole ba) - duba ko gyara shi kafin aikawa",
+    'input.discard': "Jefar",
+    'input.sendVoice': "Aika saƙon murya",
+    'imageEditor.title': "Gyara hoto",
+    'imageEditor.hint': "Ja yatsa a kan hoton don yanke shi zuwa wurin da abin ya shafa. Ana cire wuri da bayanan kyamara kafin aikawa.",
+    'imageEditor.rotateLeft': "Juya hagu",
+    'imageEditor.rotateRight': "Juya dama",
+    'imageEditor.reset': "Mayar da shi",
+    'imageEditor.cancel': "Soke",
+    'imageEditor.apply': "Yi amfani",
+    'imageEditor.failed': "Ba za a iya gyara wannan hoton a wannan burauzar ba.",
+
+    'chat.thinking': "Ana tunani...",
+    'chat.processingImage': "Ana duba hoton...",
+    'chat.processingAudio': "Ana sauraron muryar...",
+    'chat.processingAttachments': "Ana karanta fayilolinka...",
+    'chat.error': "Yi haƙuri, kuskure: {message}",
+    'chat.noTranscript': "Babu rubutu ({reason}). Za ka iya rubuta shi ko ka aika muryar yadda take.",
+    'chat.offline': "Ba ka kan intanet. Saƙonnin da ka aika yanzu za su tafi idan haɗin ya dawo.",
+    'chat.offlineTranscript': "Ba ka kan intanet, don haka ba za a iya rubuta muryar yanzu ba. Za ka iya rubuta shi ko ka aika muryar yadda take; za ta tafi idan ka dawo kan intanet.",
+    'chat.mediaUnavailable': "hoton ko muryar ba ya kan wannan na'urar kuma",
+    'chat.confirmNewSession': "Ka tabbata? Wannan zai share hira da rahoto.",
+    'chat.openFailed': "Ba a iya buɗe wannan ganawa ba.",
+    'chat.rateLimited': "Kuna aika saƙonni da sauri sosai. Da fatan za a jira kaɗan sannan a sake gwadawa.",
+    'chat.rateLimitedSeconds': "Kuna aika saƙonni da sauri sosai. Da fatan za a jira daƙiƙa {seconds} sannan a sake gwadawa.",
+    'chat.rateLimitedMinutes': "Kun kai iyakar saƙonni. Da fatan za a jira kusan mintuna {minutes} sannan a sake gwadawa.",
+    'chat.tooLarge': "Wannan saƙo ya yi girma da yawa. Ku rage shi, ku yi amfani da ƙaramin fayil ko ku fara sabuwar ganawa.",
+
+    'report.heading': "Taƙaitaccen Bayanin Ganawa",
+    'report.show': "Nuna Rahoto",
+    'report.hide': "Ɓoye Rahoto",
+    'report.partial': "Ba a iya karanta wasu sassan wannan rahoto ba.",
+    'report.original': "Ainihin rubutun rahoto",
+    'report.export': "Fitar",
+    'report.exportPdf': "PDF (don bugawa)",
+    'report.exportMarkdown': "Markdown",
+    'report.exportFhir': "FHIR R4 Bundle (JSON)",
+    'report.pdfFailed': "Ba a iya ƙirƙirar PDF ɗin ba.",
+    'report.mode': "Nau'i: {mode}",
+
+    'history.title': "Ganawoyin baya",
+    'history.empty': "Babu ganawar da aka ajiye tukuna.",
+    'history.loadFailed': "Ba a iya loda tarihi ba.",
+    'history.untitled': "Sabuwar ganawa",
+    'history.emergency': "An gano alamar gaggawa",
+    'history.rename': "Sake suna",
+    'history.delete': "Share",
+    'history.nameLabel': "Sunan ganawa",
+    'history.saveName': "Ajiye suna",
+    'history.cancel': "Soke",
+    'history.confirmDelete': "Share \"{title}\"? Ba za a iya dawo da shi ba.",
+    'history.thisConsultation': "wannan ganawa",
+    'history.renameFailed': "Ba a iya sake sunan wannan ganawa ba.",
+    'history.deleteFailed': "Ba a iya share wannan ganawa ba.",
+
+    'emergency.title': "Alamominka na iya buƙatar kulawar gaggawa. Don Allah nemi taimako yanzu.",
+
+    'profile.title': "Bayanan majiyyaci",
+    'profile.description': "Ana raba su da mataimaki a kowace tattaunawa don kada ya sake tambaya. Bar duk abin da ba ka so ka raba ba a fanko.",
+    'profile.close': "Rufe bayanai",
+    'profile.dateOfBirth': "Ranar haihuwa",
+    'profile.sex': "Jinsi",
+    'profile.notSpecified': "Ba a bayyana ba",
+    'profile.female': "Mace",
+    'profile.male': "Namiji",
+    'profile.other': "Wani",
+    'profile.pregnancy': "Ciki",
+    'profile.pregnant': "Ina da ciki",
+    'profile.notPregnant': "Ba ni da ciki",
+    'profile.pregnancyUnknown': "Ban tabbata ba",
+    'profile.conditions': "Cututtuka masu daɗewa",
+    'profile.medications': "Magungunan da nake sha yanzu",
+    'profile.allergies': "Abubuwan da ba sa jituwa da ni",
+    'profile.onePerLine': "Ɗaya a kowane layi",
+    'profile.save': "Ajiye bayanai",
+    'profile.saved': "An ajiye bayanai. Za a yi amfani da su daga saƙonka na gaba.",
+    'profile.saveFailed': "Ba a iya ajiye bayananka ba.",
+    'profile.loadFailed': "Ba a iya loda bayananka ba.",
+    'profile.delete': "Goge",
+    'profile.confirmDelete': "A goge bayananka da aka ajiye? Ba za a iya dawo da su ba.",
+    'profile.deleteFailed': "Ba a iya goge bayananka ba.",
+
+    'drugs.title': "Duba kafin shan waɗannan magunguna",
+    'drugs.avoid': "ka guje shi",
+    'drugs.caution': "yi amfani da hankali",
+    'drugs.allergy': "rashin jituwa: {name}",
+    'drugs.interaction': "yana cin karo da {name}",
+    'drugs.duplicate': "kana shan {name} tuni",
+    'drugs.contraindication': "saboda {name}",
+    'drugs.maxDose': "Iyaka: {dose}",
+    'drugs.footer': "Tambayi mai sayar da magani ko likita kafin shan ko ɗaya daga cikinsu.",
+
+    'mode.general': "Na gaba ɗaya (manya)",
+    'mode.pediatric': "Lafiyar yara",
+    'mode.mentalHealth': "Duba lafiyar ƙwaƙwalwa",
+    'mode.dermatology': "Fata da hoto",
+    'mode.generalHint': "Bayyana alamominka don fara tattaunawa.",
+    'mode.pediatricHint': "Faɗa mana shekarun yaron da abin da ke damun ka. Ka shirya nauyinsa idan za ka iya.",
+    'mode.mentalHealthHint': "Kada ka yi sauri, faɗa mana yadda kake ji kwanan nan.",
+    'mode.dermatologyHint': "Bayyana matsalar kuma haɗa hoto mai haske na fatar da abin ya shafa.",
+
+    'auth.title': "Barka da zuwa MyDocta",
+    'auth.subtitle': "Shiga domin ganawarku su kasance tare da ku a kowace na'ura.",
+    'auth.signIn': "Shiga",
+    'auth.signUp': "Buɗe asusu",
+    'auth.magicLink': "Hanyar imel",
+    'auth.name': "Suna (ba dole ba)",
+    'auth.email': "Imel",
+    'auth.password': "Kalmar sirri",
+    'auth.passwordHint': "Aƙalla haruffa {count}.",
+    'auth.submitSignIn': "Shiga",
+    'auth.submitSignUp': "Buɗe asusu",
+    'auth.submitMagicLink': "Aiko mini hanyar shiga ta imel",
+    'auth.linkSent': "Mun aika hanyar shiga zuwa {email}. Tana aiki sau ɗaya kuma za ta ƙare cikin mintuna 15.",
+    'auth.invalidLink': "Wannan hanyar shiga ba ta aiki, an riga an yi amfani da ita ko ta ƙare. Nemi sabuwa.",
+    'auth.failed': "Ba a iya shigar da ku ba. Da fatan za a sake gwadawa.",
+    'account.menu': "Asusu",
+    'account.signOut': "Fita",
+    'account.signOutFailed': "Ba a iya fita ba.",
+    'account.delete': "Goge asusu",
+    'account.confirmDelete': "A goge asusunku? Za a cire ganawarku, hotuna, rikodi da bayanan lafiyarku gaba ɗaya.",
+    'account.deleteFailed': "Ba a iya goge asusunku ba.",
+    'review.requestHint': "Likita zai iya duba wannan rahoto ya ƙara bayani ko gyara.",
+    'review.request': "Nemi likita ya duba",
+    'review.resubmit': "Aika sabon rahoton don a duba",
+    'review.requestFailed': "Ba a iya aika rahoton don a duba ba: {message}",
+    'review.pending': "Ana jiran likita ya duba wannan rahoto.",
+    'review.approved': "{name} ya amince",
+    'review.amended': "{name} ya gyara",
+    'review.rejected': "{name} bai tabbatar ba",
+    'review.reviewedAt': "An duba a {date}",
+    'review.notes': "Bayanin likita",
+    'review.amendedDiagnosis': "Gyararren cutar da ta fi yiwuwa",
+    'review.amendedDifferentials': "Gyararrun sauran cututtukan da ka iya zama",
+    'review.amendedPlan': "Gyararren tsarin magani",
+    'review.outdated': "Rahoton ya canza tun da aka aika shi don a duba.",
+    'queue.title': "Jerin dubawa",
+    'queue.pending': "Ana jira",
+    'queue.reviewed': "An duba",
+    'queue.empty': "Babu komai a nan.",
+    'queue.loadFailed': "Ba a iya loda jerin dubawa ba: {message}",
+    'queue.forbidden': "Likitoci ne kawai za su iya buɗe jerin dubawa.",
+    'queue.openChat': "Koma zuwa ganawa",
+    'queue.submitted': "An aika a {date}",
+    'queue.emergency': "Gaggawa",
+    'queue.noComplaint': "Ba a rubuta babban korafi ba",
+    'queue.select': "Zaɓi rahoto daga jerin.",
+    'queue.back': "Koma zuwa jerin",
+    'queue.profile': "Bayanan lafiyar majiyyaci",
+    'queue.noProfile': "Majiyyacin bai cike bayanansa ba.",
+    'queue.age': "{date} (shekara {years})",
+    'queue.decision': "Dubawarku",
+    'queue.lastReviewed': "{name} ne ya duba na ƙarshe a {date}",
+    'queue.approve': "Amince",
+    'queue.amend': "Gyara",
+    'queue.reject': "Ƙi",
+    'queue.notes': "Bayani ga majiyyaci",
+    'queue.notesRequired': "(dole idan an ƙi)",
+    'queue.save': "Ajiye dubawa",
+    'queue.saved': "An ajiye dubawa.",
+    'queue.saveFailed': "Ba a iya ajiye dubawa ba: {message}",
+    'queue.transcript': "Ganawa (saƙonni {count})",
+    'queue.patientInitials': "M",
+    'vault.menu': "Ɓoye bayanai a na'ura",
+    'vault.lockNow': "Kulle yanzu",
+    'vault.title': "Ɓoye bayanai a na'ura",
+    'vault.close': "Rufe ɓoye bayanai a na'ura",
+    'vault.description': "Yana ɓoye ganawar da ke cikin wannan burauza da kalmar sirri, kuma yana kulle ta idan ba ku nan. Kalmar sirrin ba ta barin wannan na'ura kuma ba za a iya dawo da ita ba: idan kun manta ta, dole a goge kwafin da ke wannan na'ura.",
+    'vault.on': "An kunna ɓoye bayanai a wannan na'ura.",
+    'vault.passphrase': "Kalmar sirri",
+    'vault.confirmPassphrase': "Maimaita kalmar sirri",
+    'vault.passphraseHint': "Aƙalla haruffa {count}.",
+    'vault.tooShort': "Yi amfani da aƙalla haruffa {count}.",
+    'vault.mismatch': "Kalmomin sirrin ba su dace ba.",
+    'vault.autoLock': "Kulle bayan rashin aiki",
+    'vault.minutes': "Minti {count}",
+    'vault.enable': "Kunna ɓoye bayanai",
+    'vault.disable': "Kashe ɓoye bayanai",
+    'vault.confirmDisable': "A kashe ɓoye bayanai? Za a ajiye ganawar da ke wannan na'ura ba tare da ɓoyewa ba.",
+    'vault.failed': "Ba a iya canza ɓoye bayanai a na'ura ba: {message}",
+    'vault.lockedTitle': "An kulle",
+    'vault.lockedSubtitle': "Shigar da kalmar sirrinku don buɗe ganawar da ke wannan na'ura.",
+    'vault.wrongPassphrase': "Kalmar sirri ba daidai ba ce.",
+    'vault.unlock': "Buɗe",
+    'vault.forgot': "Kun manta kalmar sirri? Goge kwafin wannan na'ura",
+    'vault.confirmErase': "A goge ganawar da aka ɓoye a wannan na'ura? Ganawar da aka ajiye a asusunku ba za ta shafu ba.",
+    'vault.unsupported': "Wannan burauza ba ta iya ɓoye bayanai ba. Buɗe manhajar ta hanyar haɗi mai tsaro (https).",
+    'speech.settings': "Saitunan karantawa da murya",
+    'speech.voiceMode': "Yanayin murya",
+    'speech.readAloud': "Karanta amsoshi da murya",
+    'speech.autoPlay': "Kunna kai tsaye bayan saƙon murya",
+    'speech.engine': "Injin",
+    'speech.device': "Wannan na'ura",
+    'speech.server': "Sabar",
+    'speech.voice': "Murya",
+    'speech.defaultVoice': "Na asali",
+    'speech.speed': "Gudu ({rate}x)",
+    'speech.play': "Karanta da murya",
+    'speech.pause': "Dakatar da karantawa",
+    'speech.listen': "Saurara",
+    'speech.unsupported': "Wannan burauza ba ta goyon bayan karantawa da murya.",
+    'speech.failed': "Ba a iya karanta wannan amsa da murya ba.",
+};
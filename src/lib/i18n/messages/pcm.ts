@@ -0,0 +1,257 @@
+// src/lib/i18n/messages/pcm.ts
+import type { UiMessages } from './en';
+
+export const pcm: UiMessages = {
+    'header.history': "Old Consultations",
+    'header.newSession': "New Consultation",
+    'header.profile': "Your health profile",
+    'header.mode': "Kind of consultation",
+    'header.language': "Language",
+    'header.toggleTheme': "Change theme",
+    'theme.light': "Light",
+    'theme.dark': "Dark",
+    'theme.system': "Follow phone",
+
+    'messages.empty': "How your body dey today?",
+    'messages.uploading': "E dey upload...",
+    'messages.uploadFailed': "Upload no work",
+    'messages.queued': "E dey wait, e go send when network come back",
+    'messages.userUpload': "Picture wey you send",
+    'messages.document': "Document",
+    'messages.copy': "Copy the message",
+    'messages.copied': "E don copy",
+    'messages.expandAll': "Open all",
+    'messages.collapseAll': "Close all",
+    'messages.retry': "Try again",
+    'messages.regenerate': "Make new answer",
+    'messages.edit': "Edit message",
+    'messages.delete': "Delete message",
+    'messages.saveAndResend': "Save and send again",
+    'messages.cancelEdit': "Cancel",
+    'messages.confirmEdit': "Send this message again? The answers wey follow am go change.",
+    'messages.confirmDelete': "Delete this message?",
+    'messages.confirmDeleteTurn': "Delete this message and the answers wey follow am?",
+
+    'input.placeholder': "Type your message...",
+    'input.processing': "E dey work...",
+    'input.attach': "Attach",
+    'input.uploadImage': "Send picture",
+    'input.send': "Send",
+    'input.recordAudio': "Record voice",
+    'input.stopRecording': "Stop recording",
+    'input.selectImage': "Abeg choose picture file.",
+    'input.captionPlaceholder': "Add small talk for am (if you like)...",
+    'input.removeAttachment': "Comot {name}",
+    'input.editImage': "Cut or turn {name}",
+    'input.unsupportedFile': "We no fit attach {name}. Choose picture or PDF.",
+    'input.photoUnreadable': "Dis browser no fit read {name}. Choose JPEG or PNG picture instead.",
+    'input.fileTooLarge': "{name} too big ({size}). Di limit na {limit}.",
+    'input.tooManyFiles': "You fit attach only {count} files for one message.",
+    'input.filesTooLarge': "Dis files too big together. Di limit na {limit} for one message.",
+    'input.micDenied': "You no allow mic...",
+    'input.micError': "Recording no fit start...",
+    'input.transcribing': "E dey write wetin you talk...",
+    'input.transcriptLabel': "Wetin you talk for voice message",
+    'input.transcriptPlaceholder': "Wetin you talk (no be by force) - check am or correct am before you send",
+    'input.discard': "Comot am",
+    'input.sendVoice': "Send voice message",
+    'imageEditor.title': "Edit picture",
+    'imageEditor.hint': "Drag for di picture to cut am reach di place wey dey do you. We go remove location and camera info before we send am.",
+    'imageEditor.rotateLeft': "Turn am left",
+    'imageEditor.rotateRight': "Turn am right",
+    'imageEditor.reset': "Start again",
+    'imageEditor.cancel': "Cancel",
+    'imageEditor.apply': "Use am",
+    'imageEditor.failed': "We no fit edit dis picture for dis browser.",
+
+    'chat.thinking': "E dey think...",
+    'chat.processingImage': "E dey look di picture...",
+    'chat.processingAudio': "E dey hear di voice...",
+    'chat.processingAttachments': "We dey read wetin you attach...",
+    'chat.error': "Sorry, wahala: {message}",
+    'chat.noTranscript': "We no fit write am down ({reason}). You fit type am yourself or send di voice like dat.",
+    'chat.offline': "You no get network. Any message wey you send now go comot when network come back.",
+    'chat.offlineTranscript': "You no get network, so we no fit write di voice down now. You fit type am yourself or send di voice like dat; e go comot when network come back.",
+    'chat.mediaUnavailable': "di picture or voice no dey dis phone again",
+    'chat.confirmNewSession': "You sure? Dis one go clear di chat and di report.",
+    'chat.openFailed': "We no fit open dis consultation.",
+    'chat.rateLimited': "You dey send message too fast. Abeg wait small, then try again.",
+    'chat.rateLimitedSeconds': "You dey send message too fast. Abeg wait {seconds} seconds, then try again.",
+    'chat.rateLimitedMinutes': "You don reach the message limit. Abeg wait like {minutes} minutes, then try again.",
+    'chat.tooLarge': "Dis message too big to send. Make am short, use smaller file or start new consultation.",
+
+    'report.heading': "Consultation Summary",
+    'report.show': "Show Report",
+    'report.hide': "Hide Report",
+    'report.partial': "Some part of dis report no read well.",
+    'report.original': "Di report as e come",
+    'report.export': "Export",
+    'report.exportPdf': "PDF (for print)",
+    'report.exportMarkdown': "Markdown",
+    'report.exportFhir': "FHIR R4 Bundle (JSON)",
+    'report.pdfFailed': "We no fit make di PDF.",
+    'report.mode': "Kind: {mode}",
+
+    'history.title': "Old consultations",
+    'history.empty': "No consultation dey saved yet.",
+    'history.loadFailed': "We no fit load di history.",
+    'history.untitled': "New consultation",
+    'history.emergency': "Emergency dey",
+    'history.rename': "Change name",
+    'history.delete': "Delete",
+    'history.nameLabel': "Consultation name",
+    'history.saveName': "Save name",
+    'history.cancel': "Cancel",
+    'history.confirmDelete': "Delete \"{title}\"? You no go fit bring am back.",
+    'history.thisConsultation': "dis consultation",
+    'history.renameFailed': "We no fit change di name.",
+    'history.deleteFailed': "We no fit delete dis consultation.",
+
+    'emergency.title': "Wetin you dey feel fit need emergency care. Abeg find help now now.",
+
+    'profile.title': "Your health profile",
+    'profile.description': "We go share am with the assistant for every consultation so e no go ask you again. Leave anything wey you no wan share empty.",
+    'profile.close': "Close profile",
+    'profile.dateOfBirth': "Date wey dem born you",
+    'profile.sex': "Man or woman",
+    'profile.notSpecified': "I no talk",
+    'profile.female': "Woman",
+    'profile.male': "Man",
+    'profile.other': "Other",
+    'profile.pregnancy': "Belle",
+    'profile.pregnant': "I get belle",
+    'profile.notPregnant': "I no get belle",
+    'profile.pregnancyUnknown': "I no sure",
+    'profile.conditions': "Sickness wey don tey",
+    'profile.medications': "Medicine wey you dey take now",
+    'profile.allergies': "Things wey no dey agree with your body",
+    'profile.onePerLine': "One for each line",
+    'profile.save': "Save profile",
+    'profile.saved': "Profile don save. We go use am from your next message.",
+    'profile.saveFailed': "We no fit save your profile.",
+    'profile.loadFailed': "We no fit load your profile.",
+    'profile.delete': "Delete",
+    'profile.confirmDelete': "Delete your profile? You no go fit bring am back.",
+    'profile.deleteFailed': "We no fit delete your profile.",
+
+    'drugs.title': "Check am well before you take dis medicine",
+    'drugs.avoid': "no take am",
+    'drugs.caution': "take am with care",
+    'drugs.allergy': "your body no dey agree with {name}",
+    'drugs.interaction': "e no dey go well with {name}",
+    'drugs.duplicate': "you don already dey take {name}",
+    'drugs.contraindication': "because of {name}",
+    'drugs.maxDose': "Maximum: {dose}",
+    'drugs.footer': "Ask pharmacist or doctor before you take any of dem.",
+
+    'mode.general': "General (big people)",
+    'mode.pediatric': "Pikin health",
+    'mode.mentalHealth': "Mind health check",
+    'mode.dermatology': "Skin and photo check",
+    'mode.generalHint': "Tell us wetin dey do you to start consultation.",
+    'mode.pediatricHint': "Tell us how old di pikin be and wetin dey worry you. Get im weight ready if you fit.",
+    'mode.mentalHealthHint': "No rush, tell us how you don dey feel these days.",
+    'mode.dermatologyHint': "Talk wetin happen and add clear photo of di skin wey e affect.",
+
+    'auth.title': "Welcome to MyDocta",
+    'auth.subtitle': "Sign in make your consultations follow you for every device.",
+    'auth.signIn': "Sign in",
+    'auth.signUp': "Open account",
+    'auth.magicLink': "Email link",
+    'auth.name': "Name (if you like)",
+    'auth.email': "Email",
+    'auth.password': "Password",
+    'auth.passwordHint': "At least {count} letters.",
+    'auth.submitSignIn': "Sign in",
+    'auth.submitSignUp': "Open account",
+    'auth.submitMagicLink': "Send me sign-in link for email",
+    'auth.linkSent': "We don send sign-in link to {email}. E go work only once and e go expire for 15 minutes.",
+    'auth.invalidLink': "Dat sign-in link no good, dem don use am or e don expire. Ask for new one.",
+    'auth.failed': "We no fit sign you in. Abeg try again.",
+    'account.menu': "Account",
+    'account.signOut': "Sign out",
+    'account.signOutFailed': "We no fit sign you out.",
+    'account.delete': "Delete account",
+    'account.confirmDelete': "You wan delete your account? All your consultations, photos, recordings and patient profile go comot finish.",
+    'account.deleteFailed': "We no fit delete your account.",
+    'review.requestHint': "Clinician fit check this report and add note or correction.",
+    'review.request': "Ask clinician make e check am",
+    'review.resubmit': "Send the new report make dem check am",
+    'review.requestFailed': "We no fit send the report for check: {message}",
+    'review.pending': "E dey wait for clinician to check this report.",
+    'review.approved': "{name} don approve am",
+    'review.amended': "{name} don correct am",
+    'review.rejected': "{name} no confirm am",
+    'review.reviewedAt': "Dem check am {date}",
+    'review.notes': "Clinician note",
+    'review.amendedDiagnosis': "Correct main sickness wey e fit be",
+    'review.amendedDifferentials': "Correct other sickness wey e fit be",
+    'review.amendedPlan': "Correct treatment plan",
+    'review.outdated': "The report don change since you send am for check.",
+    'queue.title': "Review queue",
+    'queue.pending': "Dey wait",
+    'queue.reviewed': "Dem don check",
+    'queue.empty': "Nothing dey here.",
+    'queue.loadFailed': "We no fit load the review queue: {message}",
+    'queue.forbidden': "Na only clinician fit open the review queue.",
+    'queue.openChat': "Go back to consultations",
+    'queue.submitted': "Dem send am {date}",
+    'queue.emergency': "Emergency",
+    'queue.noComplaint': "Main complaint no dey",
+    'queue.select': "Choose one report from the queue.",
+    'queue.back': "Go back to the queue",
+    'queue.profile': "Patient profile",
+    'queue.noProfile': "The patient never fill profile.",
+    'queue.age': "{date} ({years} years)",
+    'queue.decision': "Your review",
+    'queue.lastReviewed': "{name} check am last on {date}",
+    'queue.approve': "Approve",
+    'queue.amend': "Correct am",
+    'queue.reject': "Reject",
+    'queue.notes': "Note for the patient",
+    'queue.notesRequired': "(you must write am if you reject)",
+    'queue.save': "Save review",
+    'queue.saved': "Review don save.",
+    'queue.saveFailed': "We no fit save the review: {message}",
+    'queue.transcript': "Consultation ({count} messages)",
+    'queue.patientInitials': "P",
+    'vault.menu': "Lock data for this device",
+    'vault.lockNow': "Lock am now",
+    'vault.title': "Lock data for this device",
+    'vault.close': "Close device lock settings",
+    'vault.description': "E go use passphrase lock the consultation wey dey this browser, and e go lock am when you no dey. The passphrase no dey comot this device and nobody fit recover am: if you forget am, you go need delete the copy wey dey this device.",
+    'vault.on': "Encryption don on for this device.",
+    'vault.passphrase': "Passphrase",
+    'vault.confirmPassphrase': "Type the passphrase again",
+    'vault.passphraseHint': "At least {count} letters.",
+    'vault.tooShort': "Use at least {count} letters.",
+    'vault.mismatch': "The two passphrase no be the same.",
+    'vault.autoLock': "Lock am after you no touch am for",
+    'vault.minutes': "{count} minutes",
+    'vault.enable': "On encryption",
+    'vault.disable': "Off encryption",
+    'vault.confirmDisable': "You wan off encryption? The consultation for this device go dey stored without lock.",
+    'vault.failed': "We no fit change device encryption: {message}",
+    'vault.lockedTitle': "E don lock",
+    'vault.lockedSubtitle': "Put your passphrase to open the consultation wey dey this device.",
+    'vault.wrongPassphrase': "Passphrase no correct.",
+    'vault.unlock': "Open am",
+    'vault.forgot': "You forget the passphrase? Delete this device copy",
+    'vault.confirmErase': "You wan delete the locked consultation for this device? The consultations wey dey your account no go change.",
+    'vault.unsupported': "This browser no fit lock data. Open the app with secure (https) connection.",
+    'speech.settings': "Read-aloud settings",
+    'speech.voiceMode': "Voice mode",
+    'speech.readAloud': "Read di answers loud",
+    'speech.autoPlay': "Play am by imself after voice message",
+    'speech.engine': "Engine",
+    'speech.device': "Dis phone/computer",
+    'speech.server': "Server",
+    'speech.voice': "Voice",
+    'speech.defaultVoice': "Normal one",
+    'speech.speed': "Speed ({rate}x)",
+    'speech.play': "Read am loud",
+    'speech.pause': "Pause",
+    'speech.listen': "Listen",
+    'speech.unsupported': "Dis browser no fit read am loud.",
+    'speech.failed': "We no fit read dis answer loud.",
+};
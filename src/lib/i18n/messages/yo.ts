@@ -0,0 +1,257 @@
+// src/lib/i18n/messages/yo.ts
+import type { UiMessages } from './en';
+
+export const yo: UiMessages = {
+    'header.history': "Ìtàn Ìjíròrò",
+    'header.newSession': "Ìjíròrò Tuntun",
+    'header.profile': "Àkọsílẹ̀ aláìsàn",
+    'header.mode': "Irú ìbánisọ̀rọ̀",
+    'header.language': "Èdè",
+    'header.toggleTheme': "Yí àwọ̀ ojú-ìwé padà",
+    'theme.light': "Ìmọ́lẹ̀",
+    'theme.dark': "Òkùnkùn",
+    'theme.system': "Ti ẹ̀rọ",
+
+    'messages.empty': "Báwo lára yín ṣe rí lónìí?",
+    'messages.uploading': "Ó ń gbé e sókè...",
+    'messages.uploadFailed': "Gbígbé sókè kùnà",
+    'messages.queued': "Ó ń dúró, yóò lọ nígbà tí ẹ bá padà sórí ayélujára",
+    'messages.userUpload': "Àwòrán tí ẹ fi ránṣẹ́",
+    'messages.document': "Ìwé",
+    'messages.copy': "Da ọ̀rọ̀ kọ",
+    'messages.copied': "A ti dà á kọ",
+    'messages.expandAll': "Ṣí gbogbo rẹ̀",
+    'messages.collapseAll': "Pa gbogbo rẹ̀ dé",
+    'messages.retry': "Tún gbìyànjú",
+    'messages.regenerate': "Tún ìdáhùn ṣe",
+    'messages.edit': "Ṣàtúnṣe ọ̀rọ̀",
+    'messages.delete': "Pa ọ̀rọ̀ rẹ́",
+    'messages.saveAndResend': "Fi pamọ́ kí o tún fi ránṣẹ́",
+    'messages.cancelEdit': "Fagilé",
+    'messages.confirmEdit': "Ṣé kí a tún fi ọ̀rọ̀ yìí ránṣẹ́? A ó rọ́pò àwọn ìdáhùn tí ó tẹ̀lé e.",
+    'messages.confirmDelete': "Ṣé kí a pa ọ̀rọ̀ yìí rẹ́?",
+    'messages.confirmDeleteTurn': "Ṣé kí a pa ọ̀rọ̀ yìí àti àwọn ìdáhùn rẹ̀ rẹ́?",
+
+    'input.placeholder': "Ẹ kọ ọ̀rọ̀ yín síbí...",
+    'input.processing': "Ó ń ṣiṣẹ́ lórí rẹ̀...",
+    'input.attach': "So mọ́ ọn",
+    'input.uploadImage': "Fi àwòrán ránṣẹ́",
+    'input.send': "Fi ránṣẹ́",
+    'input.recordAudio': "Ṣe àkọsílẹ̀ ohùn",
+    'input.stopRecording': "Dá àkọsílẹ̀ dúró",
+    'input.selectImage': "Ẹ jọ̀wọ́, ẹ yan fáìlì àwòrán.",
+    'input.captionPlaceholder': "Ẹ fi àkọlé kún un (kò pọn dandan)...",
+    'input.removeAttachment': "Yọ {name} kúrò",
+    'input.editImage': "Gé tàbí yí {name} padà",
+    'input.unsupportedFile': "A kò lè so {name} mọ́ ọn. Ẹ yan àwòrán tàbí PDF.",
+    'input.photoUnreadable': "Ẹ̀rọ aṣàwákiri yìí kò lè ka {name}. Ẹ yan àwòrán JPEG tàbí PNG dípò rẹ̀.",
+    'input.fileTooLarge': "{name} ti tóbi jù ({size}). Òpin rẹ̀ jẹ́ {limit}.",
+    'input.tooManyFiles': "Ẹ lè so fáìlì tó tó {count} mọ́ ìfiránṣẹ́ kan.",
+    'input.filesTooLarge': "Àwọn fáìlì wọ̀nyí ti tóbi jù papọ̀. Òpin rẹ̀ jẹ́ {limit} fún ìfiránṣẹ́ kan.",
+    'input.micDenied': "Ẹ kò fún wa ní àṣẹ láti lo máíkì...",
+    'input.micError': "A kò lè bẹ̀rẹ̀ àkọsílẹ̀...",
+    'input.transcribing': "Ó ń kọ ohùn sílẹ̀...",
+    'input.transcriptLabel': "Àkọsílẹ̀ ọ̀rọ̀ ohùn",
+    'input.transcriptPlaceholder': "Àkọsílẹ̀ (kò pọn dandan) - ẹ yẹ̀ ẹ́ wò tàbí ṣàtúnṣe kí ẹ tó fi ránṣẹ́",
+    'input.discard': "Pa á rẹ́",
+    'input.sendVoice': "Fi ọ̀rọ̀ ohùn ránṣẹ́",
+    'imageEditor.title': "Ṣàtúnṣe àwòrán",
+    'imageEditor.hint': "Ẹ fa ìka lórí àwòrán náà láti gé e sí ibi tí ó ní ìṣòro. A máa yọ ibi tí ẹ wà àti àlàyé kámẹ́rà kúrò kí a tó fi ránṣẹ́.",
+    'imageEditor.rotateLeft': "Yí sí òsì",
+    'imageEditor.rotateRight': "Yí sí ọ̀tún",
+    'imageEditor.reset': "Dá padà",
+    'imageEditor.cancel': "Fagilé",
+    'imageEditor.apply': "Lò ó",
+    'imageEditor.failed': "A kò lè ṣàtúnṣe àwòrán yìí nínú ẹ̀rọ aṣàwákiri yìí.",
+
+    'chat.thinking': "Ó ń ronú...",
+    'chat.processingImage': "Ó ń wo àwòrán náà...",
+    'chat.processingAudio': "Ó ń gbọ́ ohùn náà...",
+    'chat.processingAttachments': "A ń ka àwọn fáìlì yín...",
+    'chat.error': "Ẹ má bínú, àṣìṣe: {message}",
+    'chat.noTranscript': "Kò sí àkọsílẹ̀ ({reason}). Ẹ lè kọ ọ́ fúnra yín tàbí fi ohùn náà ránṣẹ́ bí ó ti rí.",
+    'chat.offline': "Ẹ kò sí lórí ayélujára. Àwọn ìfiránṣẹ́ tí ẹ bá fi ránṣẹ́ báyìí yóò lọ nígbà tí ìsopọ̀ bá padà.",
+    'chat.offlineTranscript': "Ẹ kò sí lórí ayélujára, nítorí náà a kò lè kọ ohùn náà sílẹ̀ báyìí. Ẹ lè kọ ọ́ fúnra yín tàbí fi ohùn náà ránṣẹ́ bí ó ti rí; yóò lọ nígbà tí ẹ bá padà sórí ayélujára.",
+    'chat.mediaUnavailable': "àwòrán tàbí ohùn náà kò sí lórí ẹ̀rọ yìí mọ́",
+    'chat.confirmNewSession': "Ṣé ẹ dá yín lójú? Èyí yóò pa ìjíròrò àti ìròyìn rẹ́.",
+    'chat.openFailed': "A kò lè ṣí ìjíròrò yìí.",
+    'chat.rateLimited': "Ẹ ń fi ọ̀rọ̀ ránṣẹ́ ní kíákíá jù. Ẹ dúró díẹ̀ kí ẹ tún gbìyànjú.",
+    'chat.rateLimitedSeconds': "Ẹ ń fi ọ̀rọ̀ ránṣẹ́ ní kíákíá jù. Ẹ dúró fún ìṣẹ́jú-àáyá {seconds} kí ẹ tún gbìyànjú.",
+    'chat.rateLimitedMinutes': "Ẹ ti dé òpin iye ọ̀rọ̀ tí ẹ lè fi ránṣẹ́. Ẹ dúró fún bí ìṣẹ́jú {minutes} kí ẹ tún gbìyànjú.",
+    'chat.tooLarge': "Ọ̀rọ̀ yìí ti tóbi jù láti fi ránṣẹ́. Ẹ kékúrú rẹ̀, ẹ lo fáìlì kékeré, tàbí ẹ bẹ̀rẹ̀ ìjíròrò tuntun.",
+
+    'report.heading': "Àkópọ̀ Ìjíròrò",
+    'report.show': "Fi Ìròyìn Hàn",
+    'report.hide': "Fi Ìròyìn Pamọ́",
+    'report.partial': "A kò lè ka àwọn apá kan nínú ìròyìn yìí.",
+    'report.original': "Ọ̀rọ̀ ìròyìn àkọ́kọ́",
+    'report.export': "Gbé jáde",
+    'report.exportPdf': "PDF (fún títẹ̀)",
+    'report.exportMarkdown': "Markdown",
+    'report.exportFhir': "FHIR R4 Bundle (JSON)",
+    'report.pdfFailed': "A kò lè ṣe PDF náà.",
+    'report.mode': "Irú: {mode}",
+
+    'history.title': "Àwọn ìjíròrò àtẹ̀yìnwá",
+    'history.empty': "Kò sí ìjíròrò tí a fi pamọ́ síbẹ̀.",
+    'history.loadFailed': "A kò lè gbé ìtàn wá.",
+    'history.untitled': "Ìjíròrò tuntun",
+    'history.emergency': "A rí àmì pàjáwìrì",
+    'history.rename': "Yí orúkọ padà",
+    'history.delete': "Pa á rẹ́",
+    'history.nameLabel': "Orúkọ ìjíròrò",
+    'history.saveName': "Fi orúkọ pamọ́",
+    'history.cancel': "Fagilé",
+    'history.confirmDelete': "Pa \"{title}\" rẹ́? A kò ní lè dá a padà.",
+    'history.thisConsultation': "ìjíròrò yìí",
+    'history.renameFailed': "A kò lè yí orúkọ ìjíròrò yìí padà.",
+    'history.deleteFailed': "A kò lè pa ìjíròrò yìí rẹ́.",
+
+    'emergency.title': "Àwọn àmì àìsàn yín lè nílò ìtọ́jú pàjáwìrì. Ẹ wá ìrànlọ́wọ́ nísinsìnyí.",
+
+    'profile.title': "Àkọsílẹ̀ aláìsàn",
+    'profile.description': "A máa pín in pẹ̀lú olùrànlọ́wọ́ ní gbogbo ìbánisọ̀rọ̀ kí ó má baà tún béèrè. Fi ohunkóhun tí o kò fẹ́ pín sílẹ̀ ní òfo.",
+    'profile.close': "Pa àkọsílẹ̀ dé",
+    'profile.dateOfBirth': "Ọjọ́ ìbí",
+    'profile.sex': "Akọ tàbí abo",
+    'profile.notSpecified': "Kò sọ",
+    'profile.female': "Obìnrin",
+    'profile.male': "Ọkùnrin",
+    'profile.other': "Òmíràn",
+    'profile.pregnancy': "Oyún",
+    'profile.pregnant': "Mo lóyún",
+    'profile.notPregnant': "Mi ò lóyún",
+    'profile.pregnancyUnknown': "Kò dá mi lójú",
+    'profile.conditions': "Àìsàn tí ó ti pẹ́",
+    'profile.medications': "Oògùn tí mò ń lò",
+    'profile.allergies': "Ohun tí ara mi kò gbà",
+    'profile.onePerLine': "Ọ̀kan ní ìlà kọ̀ọ̀kan",
+    'profile.save': "Fi àkọsílẹ̀ pamọ́",
+    'profile.saved': "A ti fi àkọsílẹ̀ pamọ́. A ó lò ó láti ọ̀rọ̀ rẹ tó kàn.",
+    'profile.saveFailed': "A kò lè fi àkọsílẹ̀ rẹ pamọ́.",
+    'profile.loadFailed': "A kò lè ṣí àkọsílẹ̀ rẹ.",
+    'profile.delete': "Paárẹ́",
+    'profile.confirmDelete': "Ṣé kí a pa àkọsílẹ̀ rẹ rẹ́? A kò ní lè dá a padà.",
+    'profile.deleteFailed': "A kò lè pa àkọsílẹ̀ rẹ rẹ́.",
+
+    'drugs.title': "Ṣàyẹ̀wò kí o tó lo àwọn oògùn wọ̀nyí",
+    'drugs.avoid': "yàgò fún un",
+    'drugs.caution': "lò ó pẹ̀lú ìṣọ́ra",
+    'drugs.allergy': "ara kò gbà á: {name}",
+    'drugs.interaction': "kò bá {name} rẹ́",
+    'drugs.duplicate': "o ti ń lo {name}",
+    'drugs.contraindication': "nítorí {name}",
+    'drugs.maxDose': "Òpin: {dose}",
+    'drugs.footer': "Béèrè lọ́wọ́ onímọ̀ oògùn tàbí dókítà kí o tó lo èyíkéyìí nínú wọn.",
+
+    'mode.general': "Gbogbogbòò (àgbàlagbà)",
+    'mode.pediatric': "Ìlera ọmọdé",
+    'mode.mentalHealth': "Àyẹ̀wò ìlera ọpọlọ",
+    'mode.dermatology': "Awọ ara àti fọ́tò",
+    'mode.generalHint': "Ṣàpèjúwe àmì àìsàn rẹ láti bẹ̀rẹ̀ ìbánisọ̀rọ̀.",
+    'mode.pediatricHint': "Sọ ọjọ́ orí ọmọ náà àti ohun tó ń dà ọ́ láàmú. Mọ ìwọ̀n rẹ̀ tí o bá lè ṣe é.",
+    'mode.mentalHealthHint': "Má ṣe kánjú, sọ bí ara rẹ ṣe rí láìpẹ́ yìí.",
+    'mode.dermatologyHint': "Ṣàpèjúwe ìṣòro náà kí o sì so fọ́tò tó mọ́ kedere ti awọ ara náà mọ́ ọn.",
+
+    'auth.title': "Ẹ káàbọ̀ sí MyDocta",
+    'auth.subtitle': "Ẹ wọlé kí ìjíròrò yín lè wà pẹ̀lú yín lórí gbogbo ẹ̀rọ.",
+    'auth.signIn': "Wọlé",
+    'auth.signUp': "Ṣẹ̀dá àkántì",
+    'auth.magicLink': "Ìjápọ̀ ímeèlì",
+    'auth.name': "Orúkọ (kò pọn dandan)",
+    'auth.email': "Ímeèlì",
+    'auth.password': "Ọ̀rọ̀ aṣínà",
+    'auth.passwordHint': "Ó kéré tán, lẹ́tà {count}.",
+    'auth.submitSignIn': "Wọlé",
+    'auth.submitSignUp': "Ṣẹ̀dá àkántì",
+    'auth.submitMagicLink': "Fi ìjápọ̀ ìwọlé ránṣẹ́ sí ímeèlì mi",
+    'auth.linkSent': "A ti fi ìjápọ̀ ìwọlé ránṣẹ́ sí {email}. Ẹ̀ẹ̀kan ṣoṣo ló ń ṣiṣẹ́, ó sì máa parí ní ìṣẹ́jú 15.",
+    'auth.invalidLink': "Ìjápọ̀ ìwọlé yìí kò wúlò, wọ́n ti lò ó tàbí ó ti parí. Ẹ béèrè fún òmíràn.",
+    'auth.failed': "A kò lè mú yín wọlé. Ẹ jọ̀wọ́ ẹ tún gbìyànjú.",
+    'account.menu': "Àkántì",
+    'account.signOut': "Jáde",
+    'account.signOutFailed': "A kò lè mú yín jáde.",
+    'account.delete': "Pa àkántì rẹ́",
+    'account.confirmDelete': "Ṣé kí a pa àkántì yín rẹ́? Gbogbo ìjíròrò, àwòrán, ohùn tí ẹ gbà sílẹ̀ àti àkọsílẹ̀ aláìsàn yín ni a ó pa rẹ́ pátápátá.",
+    'account.deleteFailed': "A kò lè pa àkántì yín rẹ́.",
+    'review.requestHint': "Oníṣègùn lè ṣàyẹ̀wò ìròyìn yìí kí ó sì fi àkíyèsí tàbí àtúnṣe kún un.",
+    'review.request': "Ní kí oníṣègùn ṣàyẹ̀wò rẹ̀",
+    'review.resubmit': "Fi ìròyìn tuntun ránṣẹ́ fún àyẹ̀wò",
+    'review.requestFailed': "A kò lè fi ìròyìn náà ránṣẹ́ fún àyẹ̀wò: {message}",
+    'review.pending': "À ń dúró de oníṣègùn láti ṣàyẹ̀wò ìròyìn yìí.",
+    'review.approved': "{name} ti fọwọ́ sí i",
+    'review.amended': "{name} ti ṣe àtúnṣe sí i",
+    'review.rejected': "{name} kò fọwọ́ sí i",
+    'review.reviewedAt': "A ṣàyẹ̀wò rẹ̀ ní {date}",
+    'review.notes': "Àkíyèsí oníṣègùn",
+    'review.amendedDiagnosis': "Àtúnṣe sí àìsàn tó ṣeé ṣe jù",
+    'review.amendedDifferentials': "Àtúnṣe sí àwọn àìsàn mìíràn tó ṣeé ṣe",
+    'review.amendedPlan': "Àtúnṣe sí ètò ìtọ́jú",
+    'review.outdated': "Ìròyìn náà ti yí padà láti ìgbà tí a ti fi ránṣẹ́ fún àyẹ̀wò.",
+    'queue.title': "Ìlà àyẹ̀wò",
+    'queue.pending': "Ń dúró",
+    'queue.reviewed': "Tí a ti ṣàyẹ̀wò",
+    'queue.empty': "Kò sí nǹkan níbí.",
+    'queue.loadFailed': "A kò lè gbé ìlà àyẹ̀wò wá: {message}",
+    'queue.forbidden': "Oníṣègùn nìkan ló lè ṣí ìlà àyẹ̀wò.",
+    'queue.openChat': "Padà sí àwọn ìjíròrò",
+    'queue.submitted': "A fi ránṣẹ́ ní {date}",
+    'queue.emergency': "Pàjáwìrì",
+    'queue.noComplaint': "A kò kọ ẹ̀dùn pàtàkì sílẹ̀",
+    'queue.select': "Yan ìròyìn kan nínú ìlà.",
+    'queue.back': "Padà sí ìlà",
+    'queue.profile': "Àkọsílẹ̀ aláìsàn",
+    'queue.noProfile': "Aláìsàn kò tíì kọ àkọsílẹ̀ rẹ̀.",
+    'queue.age': "{date} (ọdún {years})",
+    'queue.decision': "Àyẹ̀wò yín",
+    'queue.lastReviewed': "{name} ló ṣàyẹ̀wò rẹ̀ kẹ́yìn ní {date}",
+    'queue.approve': "Fọwọ́ sí i",
+    'queue.amend': "Ṣe àtúnṣe",
+    'queue.reject': "Kọ̀ ọ́",
+    'queue.notes': "Àkíyèsí fún aláìsàn",
+    'queue.notesRequired': "(dandan tí ẹ bá kọ̀ ọ́)",
+    'queue.save': "Fi àyẹ̀wò pamọ́",
+    'queue.saved': "A ti fi àyẹ̀wò pamọ́.",
+    'queue.saveFailed': "A kò lè fi àyẹ̀wò pamọ́: {message}",
+    'queue.transcript': "Ìjíròrò (ọ̀rọ̀ {count})",
+    'queue.patientInitials': "A",
+    'vault.menu': "Ìfipamọ́ aṣírí ẹ̀rọ",
+    'vault.lockNow': "Tì í báyìí",
+    'vault.title': "Ìfipamọ́ aṣírí ẹ̀rọ",
+    'vault.close': "Pa ìfipamọ́ aṣírí ẹ̀rọ dé",
+    'vault.description': "Ó ń fi ọ̀rọ̀ aṣínà pa ìjíròrò tí ó wà nínú ẹ̀rọ yìí mọ́ ní àṣírí, ó sì ń tì í nígbà tí ẹ kò bá sí níbẹ̀. Ọ̀rọ̀ aṣínà kò ní kúrò lórí ẹ̀rọ yìí, a kò sì lè rí i padà: tí ẹ bá gbàgbé rẹ̀, a gbọdọ̀ pa ẹ̀dà tí ó wà lórí ẹ̀rọ yìí rẹ́.",
+    'vault.on': "Ìfipamọ́ aṣírí ti wà lórí ẹ̀rọ yìí.",
+    'vault.passphrase': "Ọ̀rọ̀ aṣínà",
+    'vault.confirmPassphrase': "Tún ọ̀rọ̀ aṣínà kọ",
+    'vault.passphraseHint': "Ó kéré tán lẹ́tà {count}.",
+    'vault.tooShort': "Lo ó kéré tán lẹ́tà {count}.",
+    'vault.mismatch': "Àwọn ọ̀rọ̀ aṣínà kò bára mu.",
+    'vault.autoLock': "Tì í lẹ́yìn àìlò",
+    'vault.minutes': "Ìṣẹ́jú {count}",
+    'vault.enable': "Tan ìfipamọ́ aṣírí",
+    'vault.disable': "Pa ìfipamọ́ aṣírí",
+    'vault.confirmDisable': "Ṣé kí a pa ìfipamọ́ aṣírí? Ìjíròrò tí ó wà lórí ẹ̀rọ yìí yóò wà láìsí àṣírí.",
+    'vault.failed': "A kò lè yí ìfipamọ́ aṣírí ẹ̀rọ padà: {message}",
+    'vault.lockedTitle': "A ti tì í",
+    'vault.lockedSubtitle': "Tẹ ọ̀rọ̀ aṣínà yín láti ṣí ìjíròrò tí ó wà lórí ẹ̀rọ yìí.",
+    'vault.wrongPassphrase': "Ọ̀rọ̀ aṣínà kò tọ́.",
+    'vault.unlock': "Ṣí i",
+    'vault.forgot': "Ṣé ẹ gbàgbé ọ̀rọ̀ aṣínà? Pa ẹ̀dà ẹ̀rọ yìí rẹ́",
+    'vault.confirmErase': "Ṣé kí a pa ìjíròrò àṣírí tí ó wà lórí ẹ̀rọ yìí rẹ́? Àwọn ìjíròrò tí a fi pamọ́ sí àkántì yín kò ní yí padà.",
+    'vault.unsupported': "Ẹ̀rọ aṣàwákiri yìí kò lè fi dátà pamọ́ ní àṣírí. Ẹ ṣí ohun èlò náà pẹ̀lú ìsopọ̀ tó ní ààbò (https).",
+    'speech.settings': "Ètò kíkà sókè",
+    'speech.voiceMode': "Ipò ohùn",
+    'speech.readAloud': "Ka àwọn ìdáhùn sókè",
+    'speech.autoPlay': "Kà á fúnra rẹ̀ lẹ́yìn ọ̀rọ̀ ohùn",
+    'speech.engine': "Ẹ̀rọ",
+    'speech.device': "Ẹ̀rọ yìí",
+    'speech.server': "Sáfà",
+    'speech.voice': "Ohùn",
+    'speech.defaultVoice': "Àtìbẹ̀rẹ̀",
+    'speech.speed': "Ìyára ({rate}x)",
+    'speech.play': "Ka á sókè",
+    'speech.pause': "Dá kíkà dúró",
+    'speech.listen': "Gbọ́ ọ",
+    'speech.unsupported': "Aṣàwákiri yìí kò ṣe àtìlẹ́yìn fún kíkà sókè.",
+    'speech.failed': "A kò lè ka ìdáhùn yìí sókè.",
+};
@@ -0,0 +1,78 @@
+// src/lib/images/index.ts
+// Prepares photos in the browser before they are uploaded: applies the camera's orientation, rotates and
+// crops, scales down and re-encodes. Only the pixels are drawn to a canvas, so EXIF metadata such as the
+// GPS position is never carried over into the file that is sent.
+
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+// Fractions of the rotated image, so a crop does not depend on the size it was drawn at
+export interface ImageCrop {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ImageEdits {
+    rotation: ImageRotation; // Clockwise, applied before the crop
+    crop: ImageCrop | null;
+}
+
+export const NO_EDITS: ImageEdits = { rotation: 0, crop: null };
+
+const DEFAULT_MAX_DIMENSION = 1600;
+const MIN_MAX_DIMENSION = 256;
+const QUALITY = 0.85;
+// Tried in order: browsers that cannot encode WebP (Safari) hand back a PNG instead, so JPEG is next
+const OUTPUT_TYPES = ['image/webp', 'image/jpeg'];
+const EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg' };
+
+// Longest side of a prepared photo in pixels, from NEXT_PUBLIC_IMAGE_MAX_DIMENSION
+export function imageMaxDimension(configured: string | undefined = process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION): number {
+    const value = Number(configured);
+    return configured && Number.isFinite(value) && value >= MIN_MAX_DIMENSION ? Math.round(value) : DEFAULT_MAX_DIMENSION;
+}
+
+export const rotateBy = (rotation: ImageRotation, degrees: 90 | -90): ImageRotation => ((rotation + degrees + 360) % 360) as ImageRotation;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, type, QUALITY));
+
+const renamed = (fileName: string, type: string): string => `${fileName.replace(/\.[^./]*$/, '') || 'photo'}.${EXTENSIONS[type]}`;
+
+// The photo as the patient sees it (upright), rotated and cropped, no larger than `maxDimension` on either side.
+// Throws when the browser cannot decode the file, e.g. HEIC outside Safari.
+export async function prepareImage(file: File, edits: ImageEdits = NO_EDITS, maxDimension: number = imageMaxDimension()): Promise<File> {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+        const sideways = edits.rotation === 90 || edits.rotation === 270;
+        const rotatedWidth = sideways ? bitmap.height : bitmap.width;
+        const rotatedHeight = sideways ? bitmap.width : bitmap.height;
+        const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+        const cropWidth = Math.max(1, crop.width * rotatedWidth);
+        const cropHeight = Math.max(1, crop.height * rotatedHeight);
+        const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight)); // Never scaled up
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(cropWidth * scale));
+        canvas.height = Math.max(1, Math.round(cropHeight * scale));
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not available.');
+        context.fillStyle = '#ffffff'; // JPEG has no transparency
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.imageSmoothingQuality = 'high';
+        context.scale(scale, scale);
+        context.translate(-crop.x * rotatedWidth, -crop.y * rotatedHeight);
+        context.translate(rotatedWidth / 2, rotatedHeight / 2);
+        context.rotate((edits.rotation * Math.PI) / 180);
+        context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+
+        for (const type of OUTPUT_TYPES) {
+            const blob = await canvasToBlob(canvas, type);
+            if (blob?.type === type) return new File([blob], renamed(file.name, type), { type, lastModified: Date.now() });
+        }
+        throw new Error('This browser cannot encode photos.');
+    } finally {
+        bitmap.close();
+    }
+}
@@ -0,0 +1,90 @@
+// src/lib/llm/gemini-provider.ts
+import {
+    GoogleGenerativeAI,
+    HarmCategory,
+    HarmBlockThreshold,
+    SafetySetting,
+    GenerateContentResponse
+} from '@google/generative-ai';
+import { logger } from '@/lib/logger';
+import { ChatChunk, ChatProvider, ProviderError } from './types';
+
+// Ensure this model name supports vision and audio (like 1.5 Flash/Pro)
+export const DEFAULT_GEMINI_MODEL = "gemini-1.5-flash-latest";
+
+const generationConfig = { temperature: 0.7, maxOutputTokens: 2048 };
+const safetySettings: SafetySetting[] = [
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+];
+
+// Map SDK errors onto the statuses the chat route has always returned
+function toProviderError(error: unknown, modelName: string): ProviderError {
+    const errorMessage = (error instanceof Error && error.message) ? error.message : 'An unknown error occurred.';
+    if (errorMessage.includes('404 Not Found') || errorMessage.includes('models/')) {
+        return new ProviderError(`Model '${modelName}' not found/inaccessible... (${errorMessage})`, 404);
+    }
+    if (errorMessage.includes('API Key not valid') || errorMessage.includes('permission')) {
+        return new ProviderError(`API Key invalid/lacks permission... (${errorMessage})`, 403);
+    }
+    return new ProviderError('An error occurred while processing your request.', 500);
+}
+
+// Reads text and finish/block reasons without calling response.text(), which throws on blocked replies
+function toChatChunk(response: GenerateContentResponse): ChatChunk {
+    const candidate = response.candidates?.[0];
+    const text = candidate?.content?.parts?.map(part => part.text ?? '').join('');
+    return {
+        text: text || undefined,
+        finishReason: candidate?.finishReason,
+        blockReason: response.promptFeedback?.blockReason,
+    };
+}
+
+export function createGeminiProvider(apiKey: string, modelName: string = DEFAULT_GEMINI_MODEL): ChatProvider {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({ model: modelName });
+
+    return {
+        name: 'Gemini',
+        modelName,
+
+        async generate({ systemInstruction, contents }) {
+            let result;
+            try {
+                result = await model.generateContent({ systemInstruction, contents, generationConfig, safetySettings });
+            } catch (error) {
+                logger.error('llm.failed', { provider: 'Gemini', model: modelName, error });
+                throw toProviderError(error, modelName);
+            }
+            if (!result.response) {
+                logger.error('llm.invalidResponse', { provider: 'Gemini', model: modelName });
+                throw new ProviderError('Failed to get valid response structure from AI.', 500);
+            }
+            // Only the outcome is logged; the reply text itself is logged by the chat route, redacted
+            const chunk = toChatChunk(result.response);
+            logger.debug('llm.result', {
+                provider: 'Gemini', model: modelName, finishReason: chunk.finishReason, blockReason: chunk.blockReason,
+                usage: result.response.usageMetadata,
+            });
+            return chunk;
+        },
+
+        async generateStream({ systemInstruction, contents }) {
+            let streamResult;
+            try {
+                streamResult = await model.generateContentStream({ systemInstruction, contents, generationConfig, safetySettings });
+            } catch (error) {
+                logger.error('llm.failed', { provider: 'Gemini', model: modelName, stream: true, error });
+                throw toProviderError(error, modelName);
+            }
+            return (async function* () {
+                for await (const response of streamResult.stream) {
+                    yield toChatChunk(response);
+                }
+            })();
+        },
+    };
+}
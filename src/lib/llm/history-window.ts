@@ -0,0 +1,82 @@
+// src/lib/llm/history-window.ts
+// Keeps long consultations inside the model's token budget: the newest turns are sent as they are,
+// older ones are condensed into a short summary that goes into the system instruction.
+import { logger } from '@/lib/logger';
+import { ChatContent, ChatPart } from './types';
+
+// Defaults used when HISTORY_TOKEN_BUDGET is not set; tokens are estimated, not counted by the provider
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 30000;
+const MIN_RECENT_TURNS = 4; // Always sent verbatim, even when they alone exceed the budget
+const SUMMARY_SHARE = 0.25; // Part of the budget the summary of older turns may use
+const SUMMARY_LINE_CHARS = { user: 400, model: 200 }; // What the patient said matters more than our questions
+
+export interface HistoryWindow {
+    contents: ChatContent[]; // Turns to send, starting with a user turn
+    summary: string | null; // Condensed older turns, null when nothing was left out
+    condensedTurns: number;
+}
+
+// Roughly 4 characters per token for text; images cost a fixed amount, PDFs the same per page (guessed from
+// the size, ~50KB a page) and audio about 32 tokens per second
+export function estimatePartTokens(part: ChatPart): number {
+    if ('text' in part) return Math.ceil(part.text.length / 4);
+    const bytes = part.inlineData.data.length * 3 / 4;
+    if (part.inlineData.mimeType.startsWith('image/')) return 258;
+    if (part.inlineData.mimeType === 'application/pdf') return 258 * Math.max(1, Math.ceil(bytes / 50_000));
+    return Math.ceil(bytes / 500);
+}
+
+const mediaLabel = (mimeType: string): string =>
+    mimeType.startsWith('image/') ? '[photo]' : mimeType === 'application/pdf' ? '[document]' : '[voice message]';
+
+export const estimateTokens = (contents: ChatContent[]): number =>
+    contents.reduce((total, content) => total + content.parts.reduce((sum, part) => sum + estimatePartTokens(part), 0), 0);
+
+export function historyTokenBudget(): number {
+    const configured = Number(process.env.HISTORY_TOKEN_BUDGET);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+const clip = (text: string, maxChars: number): string => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxChars ? `${singleLine.substring(0, maxChars - 1)}…` : singleLine;
+};
+
+function summaryLine(content: ChatContent): string | null {
+    const text = content.parts.map(part => ('text' in part ? part.text : mediaLabel(part.inlineData.mimeType))).join(' ');
+    if (!text.trim()) return null;
+    return content.role === 'user' ? `- Patient: ${clip(text, SUMMARY_LINE_CHARS.user)}` : `- You: ${clip(text, SUMMARY_LINE_CHARS.model)}`;
+}
+
+// Extractive summary, oldest first. Over its budget it drops our own lines first, then the oldest ones.
+function summarizeTurns(turns: ChatContent[], maxTokens: number): string {
+    let lines = turns.map(summaryLine).filter((line): line is string => line !== null);
+    const fits = () => Math.ceil(lines.join('\n').length / 4) <= maxTokens;
+    if (!fits()) lines = lines.filter(line => line.startsWith('- Patient:'));
+    while (lines.length > 1 && !fits()) lines = lines.slice(1);
+    return `**🗂️ EARLIER IN THIS CONSULTATION (condensed):**
+The first ${turns.length} messages are not repeated below. What was said, oldest first:
+${lines.join('\n')}`;
+}
+
+// `budget` is what is left for the history after the system prompt and the current turn
+export function windowHistory(history: ChatContent[], budget: number): HistoryWindow {
+    if (estimateTokens(history) <= budget) return { contents: history, summary: null, condensedTurns: 0 };
+
+    const recentBudget = budget * (1 - SUMMARY_SHARE);
+    let start = history.length;
+    let used = 0;
+    while (start > 0) {
+        const cost = estimateTokens([history[start - 1]]);
+        if (history.length - start >= MIN_RECENT_TURNS && used + cost > recentBudget) break;
+        used += cost;
+        start--;
+    }
+    // The kept turns must open with the patient, so a leading reply goes into the summary too
+    while (start < history.length && history[start].role !== 'user') start++;
+    if (start === 0) return { contents: history, summary: null, condensedTurns: 0 };
+
+    const older = history.slice(0, start);
+    logger.debug('llm.historyCondensed', { condensed: older.length, verbatim: history.length - start });
+    return { contents: history.slice(start), summary: summarizeTurns(older, budget * SUMMARY_SHARE), condensedTurns: older.length };
+}
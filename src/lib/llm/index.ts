@@ -0,0 +1,36 @@
+// src/lib/llm/index.ts
+// Chooses the chat provider from env config:
+//   LLM_PROVIDER     'gemini' (default) or 'mock'
+//   LLM_MODEL        model name override for the chosen provider
+//   GEMINI_API_KEY   required for 'gemini'
+//   LLM_MOCK_SCRIPT  optional path to a JSON array of MockStep for 'mock'
+import { createGeminiProvider } from './gemini-provider';
+import { createMockProvider, loadMockScript } from './mock-provider';
+import { ChatProvider, ProviderError } from './types';
+
+export * from './types';
+export * from './history-window';
+export type { MockStep } from './mock-provider';
+
+export function getChatProvider(): ChatProvider {
+    const providerName = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+    const modelName = process.env.LLM_MODEL || undefined;
+
+    switch (providerName) {
+        case 'gemini': {
+            const apiKey = process.env.GEMINI_API_KEY;
+            if (!apiKey) {
+                console.error("Gemini API Key not found.");
+                throw new ProviderError('API Key not configured.', 500);
+            }
+            return createGeminiProvider(apiKey, modelName);
+        }
+        case 'mock': {
+            const scriptPath = process.env.LLM_MOCK_SCRIPT;
+            return createMockProvider(scriptPath ? loadMockScript(scriptPath) : []);
+        }
+        default:
+            console.error(`Unknown LLM_PROVIDER '${providerName}'.`);
+            throw new ProviderError(`Unknown LLM provider '${providerName}'.`, 500);
+    }
+}
@@ -0,0 +1,110 @@
+// src/lib/llm/mock-provider.ts
+// Offline provider for tests and demos. Replies are a pure function of the latest user message.
+import { readFileSync } from 'fs';
+import { REPORT_START_MARKER, REPORT_END_MARKER } from '@/lib/chat-stream';
+import { ChatChunk, ChatContent, ChatProvider, ProviderError } from './types';
+
+// A scripted reply. The first step whose `match` regex matches the latest user text is used.
+export interface MockStep {
+    match?: string; // Case-insensitive regex, omit to match anything
+    text?: string;
+    finishReason?: string; // Defaults to 'STOP'
+    errorStatus?: number; // Throw a ProviderError instead of replying
+    errorMessage?: string;
+}
+
+const FOLLOW_UP_QUESTIONS = [
+    "Thank you for sharing that. When did these symptoms first start?",
+    "I understand. How severe would you say it is: mild, moderate or severe?",
+    "Have you noticed anything that makes it better or worse?",
+    "Are you experiencing any other symptoms, such as fever, nausea or pain elsewhere?",
+    "Do you have any existing medical conditions, or are you taking any medications?",
+];
+
+const MOCK_REPORT = `Thank you, I have enough information to summarise our consultation.
+
+${REPORT_START_MARKER}
+${JSON.stringify({
+    chiefComplaint: "Headache",
+    historyOfPresentIllness: "Mild frontal headache for two days, worse in the evening, no fever.",
+    medicalHistory: "None reported.",
+    mostLikelyDiagnosis: "Tension-type headache",
+    differentialDiagnoses: ["Migraine", "Dehydration"],
+    treatmentPlan: ["Rest and regular fluids", "Paracetamol as directed on the pack", "See a doctor if it lasts more than a week"],
+    redFlags: ["Sudden severe headache", "Stiff neck with fever", "Weakness, confusion or vision loss"],
+}, null, 2)}
+${REPORT_END_MARKER}
+
+Here is a summary of our consultation. Please remember, while I provide medically informed advice, I am still an AI. Always confirm diagnoses and treatment plans with a licensed healthcare provider.`;
+
+// Directives let tests and demos hit every error path of the chat route without a network
+const DEFAULT_SCRIPT: MockStep[] = [
+    { match: '\\[mock:404\\]', errorStatus: 404, errorMessage: "Model 'mock' not found/inaccessible... (mock)" },
+    { match: '\\[mock:403\\]', errorStatus: 403, errorMessage: 'API Key invalid/lacks permission... (mock)' },
+    { match: '\\[mock:500\\]', errorStatus: 500, errorMessage: 'An error occurred while processing your request.' },
+    { match: '\\[mock:safety\\]', text: "I'm sorry, I can't continue with", finishReason: 'SAFETY' },
+    { match: '\\[mock:empty\\]', text: '' },
+    { match: '\\[mock:partial-report\\]', text: MOCK_REPORT.substring(0, MOCK_REPORT.indexOf('"treatmentPlan"')) },
+    { match: '\\[mock:report\\]|\\b(report|summary|that\'?s all|nothing else)\\b', text: MOCK_REPORT },
+];
+
+// Simple stable hash so the follow-up question only depends on the message text
+const hashText = (text: string): number => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) { hash = (hash * 31 + text.charCodeAt(i)) >>> 0; }
+    return hash;
+};
+
+const latestUserText = (contents: ChatContent[]): string => {
+    const lastUser = [...contents].reverse().find(content => content.role === 'user');
+    return lastUser?.parts.map(part => ('text' in part ? part.text : '')).join(' ').trim() ?? '';
+};
+
+function resolveStep(script: MockStep[], contents: ChatContent[]): MockStep {
+    const userText = latestUserText(contents);
+    const step = script.find(candidate => !candidate.match || new RegExp(candidate.match, 'i').test(userText));
+    if (step) return step;
+    return { text: FOLLOW_UP_QUESTIONS[hashText(userText) % FOLLOW_UP_QUESTIONS.length] };
+}
+
+function assertNoError(step: MockStep): void {
+    if (step.errorStatus) {
+        throw new ProviderError(step.errorMessage || 'Mock provider error.', step.errorStatus);
+    }
+}
+
+// Loads a JSON array of MockStep from disk; tried before the built-in script
+export function loadMockScript(scriptPath: string): MockStep[] {
+    const parsed: unknown = JSON.parse(readFileSync(scriptPath, 'utf8'));
+    if (!Array.isArray(parsed)) { throw new ProviderError(`Mock script '${scriptPath}' must be a JSON array.`, 500); }
+    return parsed as MockStep[];
+}
+
+export function createMockProvider(customScript: MockStep[] = []): ChatProvider {
+    const script = [...customScript, ...DEFAULT_SCRIPT];
+
+    return {
+        name: 'Mock',
+        modelName: 'mock-doctor',
+
+        async generate({ contents }) {
+            const step = resolveStep(script, contents);
+            assertNoError(step);
+            return { text: step.text || undefined, finishReason: step.finishReason ?? 'STOP' };
+        },
+
+        async generateStream({ contents }) {
+            const step = resolveStep(script, contents);
+            assertNoError(step);
+            // Word-sized chunks; a non-STOP finish arrives with the last chunk, i.e. partway through the reply
+            const words = (step.text ?? '').split(/(?<=\s)/).filter(Boolean);
+            return (async function* (): AsyncGenerator<ChatChunk> {
+                for (let i = 0; i < words.length; i++) {
+                    const isLast = i === words.length - 1;
+                    yield { text: words[i], finishReason: isLast ? (step.finishReason ?? 'STOP') : undefined };
+                }
+                if (words.length === 0) { yield { finishReason: step.finishReason ?? 'STOP' }; }
+            })();
+        },
+    };
+}
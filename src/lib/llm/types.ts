@@ -0,0 +1,42 @@
+// src/lib/llm/types.ts
+// Provider-neutral shapes used by /api/chat. They mirror Gemini's Content/Part so the adapter stays thin.
+
+export type ChatPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export interface ChatContent {
+    role: 'user' | 'model';
+    parts: ChatPart[];
+}
+
+export interface ChatGenerationRequest {
+    systemInstruction?: string; // Persona, rules and context; applied on every request, never part of the turns
+    contents: ChatContent[];
+}
+
+// One complete reply, or one piece of a streamed reply
+export interface ChatChunk {
+    text?: string;
+    finishReason?: string; // 'STOP' on normal completion, e.g. 'SAFETY' or 'MAX_TOKENS' otherwise
+    blockReason?: string; // Set when the prompt itself was blocked
+}
+
+export interface ChatProvider {
+    name: string;
+    modelName: string;
+    generate(request: ChatGenerationRequest): Promise<ChatChunk>;
+    // Resolves once the provider accepted the request, so setup errors surface before streaming starts
+    generateStream(request: ChatGenerationRequest): Promise<AsyncIterable<ChatChunk>>;
+}
+
+// Errors with a message that is safe to return to the client, plus the HTTP status to use
+export class ProviderError extends Error {
+    readonly status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.status = status;
+    }
+}
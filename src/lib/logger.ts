@@ -0,0 +1,47 @@
+// src/lib/logger.ts
+// Structured server logs: one JSON object per line, e.g. {"level":"info","event":"chat.request",...}.
+// String fields are redacted (names, phone numbers, emails, addresses, ID numbers) before they are written.
+//   LOG_LEVEL  'debug', 'info' (default), 'warn' or 'error'
+import { redactText } from '@/lib/redaction';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(event: string, fields?: LogFields): void;
+    info(event: string, fields?: LogFields): void;
+    warn(event: string, fields?: LogFields): void;
+    error(event: string, fields?: LogFields): void;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const minimumLevel = (): number => Math.max(0, LEVELS.indexOf((process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel));
+
+// Errors keep their name and message; stack traces only carry code locations
+function toLogValue(value: unknown, redact: (text: string) => string): unknown {
+    if (typeof value === 'string') return redact(value);
+    if (value instanceof Error) return { name: value.name, message: redact(value.message), stack: value.stack?.split('\n').slice(1, 4).map(line => line.trim()) };
+    if (Array.isArray(value)) return value.map(item => toLogValue(item, redact));
+    if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toLogValue(item, redact)]));
+    return value;
+}
+
+// `redact` defaults to one-off redaction; pass a conversation's redactor so logs use the same placeholders as the model saw
+export function createLogger(base: LogFields = {}, redact: (text: string) => string = redactText): Logger {
+    const write = (level: LogLevel, event: string, fields: LogFields = {}) => {
+        if (LEVELS.indexOf(level) < minimumLevel()) return;
+        const entry = JSON.stringify({ level, time: new Date().toISOString(), event, ...(toLogValue({ ...base, ...fields }, redact) as LogFields) });
+        if (level === 'error') console.error(entry);
+        else if (level === 'warn') console.warn(entry);
+        else console.log(entry);
+    };
+    return {
+        debug: (event, fields) => write('debug', event, fields),
+        info: (event, fields) => write('info', event, fields),
+        warn: (event, fields) => write('warn', event, fields),
+        error: (event, fields) => write('error', event, fields),
+    };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,236 @@
+// src/lib/markdown/index.ts
+// Small Markdown parser for the assistant's replies: headings, bold and italic, lists, tables, quotes,
+// code and links. It builds a tree instead of HTML, so a reply cannot inject markup, and links are
+// only kept for http(s), mailto and tel addresses.
+import type { MarkdownBlock, MarkdownInline, MarkdownListItem, MarkdownSection, TableAlign } from './types';
+
+export * from './types';
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+•]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const BOLD_LINE = /^\s*\*\*[^*]+\*\*\s*:?\s*$/; // "**🩺 Diagnosis:**", used by the prompts as a section heading
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Code, **strong**, __strong__, *emphasis*, _emphasis_, [text](url), bare URLs and backslash escapes.
+// Underscores only count at word boundaries, so snake_case and file_names stay as they are.
+const INLINE = /`([^`\n]+)`|\*\*(?=\S)(.*?\S)\*\*|(?<![\p{L}\p{N}_])__(?=\S)(.*?\S)__(?![\p{L}\p{N}_])|\*(?=[^\s*])([^*]*?[^\s*])\*|(?<![\p{L}\p{N}_])_(?=[^\s_])([^_]*?[^\s_])_(?![\p{L}\p{N}_])|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)|(https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]])|\\([\\`*_[\]()#>|~-])/gu;
+
+// Absolute http(s), mailto and tel URLs only; anything else (javascript:, data:, relative paths) is dropped
+export function safeHref(url: string): string | null {
+    try {
+        const parsed = new URL(url);
+        return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+    } catch {
+        return null;
+    }
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+    const nodes: MarkdownInline[] = [];
+    const pushText = (value: string) => {
+        if (!value) return;
+        const last = nodes[nodes.length - 1];
+        if (last?.type === 'text') last.text += value;
+        else nodes.push({ type: 'text', text: value });
+    };
+
+    let position = 0;
+    for (const match of text.matchAll(INLINE)) {
+        pushText(text.substring(position, match.index));
+        position = match.index + match[0].length;
+        const [, code, strong, strongAlt, emphasis, emphasisAlt, linkText, linkUrl, url, escaped] = match;
+        if (code !== undefined) nodes.push({ type: 'code', text: code });
+        else if (strong !== undefined || strongAlt !== undefined) nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+        else if (emphasis !== undefined || emphasisAlt !== undefined) nodes.push({ type: 'emphasis', children: parseInline(emphasis ?? emphasisAlt) });
+        else if (linkText !== undefined) {
+            const href = safeHref(linkUrl);
+            if (href) nodes.push({ type: 'link', href, children: parseInline(linkText) });
+            else parseInline(linkText).forEach(node => (node.type === 'text' ? pushText(node.text) : nodes.push(node)));
+        } else if (url !== undefined) {
+            const href = safeHref(url);
+            if (href) nodes.push({ type: 'link', href, children: [{ type: 'text', text: url }] });
+            else pushText(url);
+        } else pushText(escaped);
+    }
+    pushText(text.substring(position));
+    return nodes;
+}
+
+// Single newlines are kept as line breaks, the way chat replies are written
+const parseLines = (lines: string[]): MarkdownInline[] =>
+    lines.flatMap((line, index): MarkdownInline[] => (index > 0 ? [{ type: 'break' }, ...parseInline(line)] : parseInline(line)));
+
+const indentOf = (line: string): number => /^\s*/.exec(line)![0].replace(/\t/g, '    ').length;
+
+const splitRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+function toAlign(cell: string): TableAlign {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+}
+
+// A list and the lists nested under its items; returns the index of the first line after it
+function parseList(lines: string[], start: number): { list: MarkdownBlock; next: number } {
+    const first = LIST_ITEM.exec(lines[start])!;
+    const indent = indentOf(lines[start]);
+    const ordered = /\d/.test(first[2]);
+    const items: { lines: string[]; children: MarkdownBlock[] }[] = [];
+
+    let index = start;
+    while (index < lines.length) {
+        const line = lines[index];
+        if (!line.trim()) {
+            // A blank line only ends the list when what follows is not part of it
+            const next = lines[index + 1];
+            if (next !== undefined && next.trim() && (indentOf(next) > indent || (LIST_ITEM.test(next) && indentOf(next) === indent))) { index++; continue; }
+            break;
+        }
+        const item = LIST_ITEM.exec(line);
+        const lineIndent = indentOf(line);
+        if (lineIndent > indent && items.length > 0) {
+            if (item) {
+                const nested = parseList(lines, index);
+                items[items.length - 1].children.push(nested.list);
+                index = nested.next;
+            } else {
+                items[items.length - 1].lines.push(line.trim());
+                index++;
+            }
+            continue;
+        }
+        // Less indented items belong to an outer list; a different marker type starts a new list
+        if (!item || lineIndent < indent || /\d/.test(item[2]) !== ordered) break;
+        items.push({ lines: [item[3]], children: [] });
+        index++;
+    }
+
+    const listItems: MarkdownListItem[] = items.map(item => ({ content: parseLines(item.lines), children: item.children }));
+    return { list: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items: listItems }, next: index };
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let paragraph: string[] = [];
+    const endParagraph = () => {
+        if (paragraph.length > 0) blocks.push({ type: 'paragraph', content: parseLines(paragraph) });
+        paragraph = [];
+    };
+
+    let index = 0;
+    while (index < lines.length) {
+        const line = lines[index];
+        if (!line.trim()) { endParagraph(); index++; continue; }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            endParagraph();
+            const end = lines.findIndex((next, nextIndex) => nextIndex > index && next.trim().startsWith(fence[1]));
+            const close = end === -1 ? lines.length : end; // An unclosed fence runs to the end, as it does while streaming
+            blocks.push({ type: 'code', text: lines.slice(index + 1, close).join('\n') });
+            index = close + 1;
+            continue;
+        }
+        const heading = HEADING.exec(line);
+        if (heading) {
+            endParagraph();
+            blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+            index++;
+            continue;
+        }
+        if (RULE.test(line)) { endParagraph(); blocks.push({ type: 'rule' }); index++; continue; }
+
+        const divider = lines[index + 1];
+        if (line.includes('|') && divider?.includes('|') && TABLE_DIVIDER.test(divider)) {
+            endParagraph();
+            const header = splitRow(line);
+            const align = splitRow(divider).map(toAlign);
+            const rows: string[][] = [];
+            for (index += 2; index < lines.length && lines[index].includes('|'); index++) rows.push(splitRow(lines[index]));
+            blocks.push({
+                type: 'table',
+                align: header.map((_, column) => align[column] ?? null),
+                header: header.map(parseInline),
+                rows: rows.map(row => header.map((_, column) => parseInline(row[column] ?? ''))),
+            });
+            continue;
+        }
+        if (QUOTE.test(line)) {
+            endParagraph();
+            const quoted: string[] = [];
+            for (; index < lines.length && QUOTE.test(lines[index]); index++) quoted.push(QUOTE.exec(lines[index])![1]);
+            blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+            continue;
+        }
+        if (LIST_ITEM.test(line)) {
+            endParagraph();
+            const { list, next } = parseList(lines, index);
+            blocks.push(list);
+            index = next;
+            continue;
+        }
+        if (BOLD_LINE.test(line)) endParagraph(); // Starts its own paragraph so splitSections() sees it as a title
+        paragraph.push(line.trim());
+        index++;
+    }
+    endParagraph();
+    return blocks;
+}
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+
+// A heading, or a paragraph that opens with a line of only bold text ("**🩺 Diagnosis:**")
+function sectionTitle(block: MarkdownBlock): { title: MarkdownInline[]; rest: MarkdownBlock | null } | null {
+    if (block.type === 'heading') return { title: block.content, rest: null };
+    if (block.type !== 'paragraph' || block.content[0]?.type !== 'strong') return null;
+    let end = 1;
+    const after = block.content[end];
+    if (after?.type === 'text' && /^\s*:?\s*$/.test(after.text)) end++;
+    if (block.content[end] && block.content[end].type !== 'break') return null;
+    const rest = block.content.slice(end + 1);
+    return { title: block.content[0].children, rest: rest.length > 0 ? { type: 'paragraph', content: rest } : null };
+}
+
+// Splits a reply into titled sections, for showing long answers as collapsible parts
+export function splitSections(blocks: MarkdownBlock[]): MarkdownSection[] {
+    const sections: MarkdownSection[] = [{ title: null, blocks: [] }];
+    for (const block of blocks) {
+        const titled = sectionTitle(block);
+        if (titled) sections.push({ title: titled.title, blocks: titled.rest ? [titled.rest] : [] });
+        else sections[sections.length - 1].blocks.push(block);
+    }
+    return sections[0].blocks.length > 0 ? sections : sections.slice(1);
+}
+
+export const inlineToPlainText = (nodes: MarkdownInline[]): string => nodes.map(node => {
+    if (node.type === 'text' || node.type === 'code') return node.text;
+    if (node.type === 'break') return '\n';
+    return inlineToPlainText(node.children);
+}).join('');
+
+function blockToPlainText(block: MarkdownBlock): string {
+    switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+            return inlineToPlainText(block.content);
+        case 'list':
+            return block.items.map(item => [inlineToPlainText(item.content), ...item.children.map(blockToPlainText)].join('\n')).join('\n');
+        case 'blockquote':
+            return block.children.map(blockToPlainText).join('\n\n');
+        case 'table':
+            return [block.header, ...block.rows].map(row => row.map(inlineToPlainText).join(', ')).join('\n');
+        case 'code':
+            return block.text;
+        case 'rule':
+            return '';
+    }
+}
+
+// The reply without Markdown syntax, e.g. for reading it aloud
+export const markdownToPlainText = (text: string): string => parseMarkdown(text).map(blockToPlainText).filter(Boolean).join('\n\n');
@@ -0,0 +1,32 @@
+// src/lib/markdown/types.ts
+
+// Inline content. There is no raw HTML node: anything that is not Markdown stays text.
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'strong'; children: MarkdownInline[] }
+    | { type: 'emphasis'; children: MarkdownInline[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] } // `href` has passed safeHref()
+    | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+    content: MarkdownInline[];
+    children: MarkdownBlock[]; // Nested lists
+}
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; content: MarkdownInline[] }
+    | { type: 'paragraph'; content: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+    | { type: 'blockquote'; children: MarkdownBlock[] }
+    | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | { type: 'code'; text: string }
+    | { type: 'rule' };
+
+// A heading (or a line that is only bold text, such as "**🩺 Diagnosis:**") and the blocks under it
+export interface MarkdownSection {
+    title: MarkdownInline[] | null; // null for the text before the first heading
+    blocks: MarkdownBlock[];
+}
@@ -0,0 +1,90 @@
+// src/lib/outbox/index.ts
+// Messages written while offline wait in the chat with status 'queued' and are sent in order once the
+// device is back online. The queue itself is part of the stored chat; this module keeps their photos and
+// recordings in IndexedDB until they are uploaded, encrypted with the vault key when device encryption is on.
+const DB_NAME = 'my-docta-outbox';
+const STORE_NAME = 'media';
+
+export interface QueuedMedia {
+    attachments?: Blob[]; // Photos and documents, in the order of the message's attachments
+    audio?: Blob;
+}
+
+// A blob encrypted with AES-GCM under the vault key
+interface SealedBlob {
+    iv: Uint8Array<ArrayBuffer>;
+    data: ArrayBuffer;
+    type: string;
+}
+interface StoredMedia {
+    attachments?: (Blob | SealedBlob)[];
+    audio?: Blob | SealedBlob;
+}
+
+// fetch() rejects with a TypeError when the request never reached the server
+export const isNetworkError = (error: unknown): boolean => error instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        database.close();
+    }
+}
+
+async function sealBlob(blob: Blob, key: CryptoKey | null): Promise<Blob | SealedBlob> {
+    if (!key) return blob;
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await blob.arrayBuffer()), type: blob.type };
+}
+
+async function openBlob(stored: Blob | SealedBlob, key: CryptoKey | null): Promise<Blob | undefined> {
+    if (stored instanceof Blob) return stored;
+    if (!key) return undefined;
+    return new Blob([await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, key, stored.data)], { type: stored.type });
+}
+
+export async function saveQueuedMedia(messageId: string, media: QueuedMedia, key: CryptoKey | null): Promise<void> {
+    const stored: StoredMedia = {};
+    if (media.attachments?.length) stored.attachments = await Promise.all(media.attachments.map(blob => sealBlob(blob, key)));
+    if (media.audio) stored.audio = await sealBlob(media.audio, key);
+    if (stored.attachments || stored.audio) await withStore('readwrite', store => store.put(stored, messageId));
+}
+
+// Empty when nothing was stored or it cannot be read (e.g. sealed under a passphrase that was changed)
+export async function readQueuedMedia(messageId: string, key: CryptoKey | null): Promise<QueuedMedia> {
+    try {
+        const stored = await withStore<StoredMedia | undefined>('readonly', store => store.get(messageId));
+        if (!stored) return {};
+        const attachments = stored.attachments && await Promise.all(stored.attachments.map(blob => openBlob(blob, key)));
+        return {
+            attachments: attachments?.every(Boolean) ? attachments as Blob[] : undefined,
+            audio: stored.audio && await openBlob(stored.audio, key),
+        };
+    } catch (error) {
+        console.error(`Could not read queued media for ${messageId}:`, error);
+        return {};
+    }
+}
+
+// Removes the media of every message that is no longer queued (sent, deleted, or the chat was cleared)
+export async function pruneQueuedMedia(queuedIds: string[]): Promise<void> {
+    const keys = await withStore('readonly', store => store.getAllKeys());
+    for (const key of keys) {
+        if (!queuedIds.includes(String(key))) await withStore('readwrite', store => store.delete(key));
+    }
+}
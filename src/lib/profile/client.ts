@@ -0,0 +1,28 @@
+// src/lib/profile/client.ts
+// Browser-side helpers for /api/profile. Only imports types, never the file store.
+import type { PatientProfile } from './types';
+
+export type ProfileInput = Omit<PatientProfile, 'updatedAt'>;
+
+async function readError(response: Response): Promise<string> {
+    let errorMsg = `Request failed: ${response.statusText} (${response.status})`;
+    try { errorMsg = (await response.json()).error || errorMsg; } catch { /* empty or non-JSON body */ }
+    return errorMsg;
+}
+
+export async function fetchProfile(): Promise<PatientProfile | null> {
+    const response = await fetch('/api/profile');
+    if (!response.ok) throw new Error(await readError(response));
+    return (await response.json()).profile as PatientProfile | null;
+}
+
+export async function saveProfile(profile: ProfileInput): Promise<PatientProfile> {
+    const response = await fetch('/api/profile', { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(profile) });
+    if (!response.ok) throw new Error(await readError(response));
+    return (await response.json()).profile as PatientProfile;
+}
+
+export async function deleteProfile(): Promise<void> {
+    const response = await fetch('/api/profile', { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) throw new Error(await readError(response));
+}
@@ -0,0 +1,58 @@
+// src/lib/profile/context.ts
+// How the profile reaches the model (a structured block ahead of the history) and the report.
+import type { ParsedReport } from '@/lib/report';
+import type { ConsultationText } from '@/lib/i18n';
+import { PatientProfile } from './types';
+
+export function ageInYears(dateOfBirth: string, now: Date = new Date()): number {
+    const born = new Date(`${dateOfBirth}T00:00:00Z`);
+    let age = now.getUTCFullYear() - born.getUTCFullYear();
+    const hadBirthday = now.getUTCMonth() > born.getUTCMonth() || (now.getUTCMonth() === born.getUTCMonth() && now.getUTCDate() >= born.getUTCDate());
+    if (!hadBirthday) age--;
+    return age;
+}
+
+export const isProfileEmpty = (profile: PatientProfile): boolean => !profile.dateOfBirth && !profile.sex && !profile.pregnancy
+    && profile.conditions.length === 0 && profile.medications.length === 0 && profile.allergies.length === 0;
+
+const PREGNANCY_TEXT = { 'pregnant': 'Pregnant', 'not-pregnant': 'Not pregnant', 'unknown': 'Unknown' };
+const listOrNone = (items: string[]): string => (items.length > 0 ? items.join('; ') : 'None reported');
+
+// Model-facing, so always English regardless of the consultation language
+export function profileToPromptContext(profile: PatientProfile, now: Date = new Date()): string {
+    const lines = [
+        'PATIENT PROFILE (entered by the patient before this consultation):',
+        `- Age: ${profile.dateOfBirth ? `${ageInYears(profile.dateOfBirth, now)} years (born ${profile.dateOfBirth})` : 'Not provided'}`,
+        `- Sex: ${profile.sex ?? 'Not provided'}`,
+    ];
+    if (profile.sex !== 'male') { lines.push(`- Pregnancy: ${profile.pregnancy ? PREGNANCY_TEXT[profile.pregnancy] : 'Not provided'}`); }
+    lines.push(
+        `- Chronic conditions: ${listOrNone(profile.conditions)}`,
+        `- Current medications: ${listOrNone(profile.medications)}`,
+        `- Allergies: ${listOrNone(profile.allergies)}`,
+        '',
+        'Use this when choosing questions, diagnoses and treatments (check medications against allergies, conditions and pregnancy).',
+        'Do not ask again for anything listed here; only ask to confirm it if it matters for the diagnosis.',
+        'The report\'s "medicalHistory" is pre-filled from this profile, so only put history learned during the conversation there.',
+    );
+    return lines.join('\n');
+}
+
+// Profile part of the report's Medical History, in the consultation language; null when there is nothing to add
+export function profileMedicalHistory(profile: PatientProfile, text: ConsultationText): string | null {
+    const labels = text.profileHistory;
+    const parts = [
+        profile.conditions.length > 0 && `${labels.conditions}: ${profile.conditions.join(', ')}.`,
+        profile.medications.length > 0 && `${labels.medications}: ${profile.medications.join(', ')}.`,
+        profile.allergies.length > 0 && `${labels.allergies}: ${profile.allergies.join(', ')}.`,
+        profile.pregnancy === 'pregnant' && `${labels.pregnant}.`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' ') : null;
+}
+
+export function prefillMedicalHistory(parsed: ParsedReport, profile: PatientProfile, text: ConsultationText): ParsedReport {
+    const fromProfile = profileMedicalHistory(profile, text);
+    if (!fromProfile) return parsed;
+    const medicalHistory = [fromProfile, parsed.report.medicalHistory].filter(Boolean).join('\n');
+    return { ...parsed, report: { ...parsed.report, medicalHistory } };
+}
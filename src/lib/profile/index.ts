@@ -0,0 +1,23 @@
+// src/lib/profile/index.ts
+// Server-side patient profile store, one profile per account. Follows SESSION_STORE: files in DATA_DIR/profiles, or memory.
+import path from 'path';
+import { dataDirectory } from '@/lib/sessions';
+import { getDataCipher } from '@/lib/encryption';
+import { createFileProfileStore, createMemoryProfileStore } from './store';
+import { ProfileStore } from './types';
+
+export * from './types';
+export * from './context';
+export { toPatientProfile } from './validation';
+
+const globalForProfile = globalThis as unknown as { profileStore?: ProfileStore };
+
+export function getProfileStore(): ProfileStore {
+    if (!globalForProfile.profileStore) {
+        const store = (process.env.SESSION_STORE || 'file').toLowerCase();
+        globalForProfile.profileStore = store === 'memory'
+            ? createMemoryProfileStore()
+            : createFileProfileStore(path.join(dataDirectory(), 'profiles'), getDataCipher());
+    }
+    return globalForProfile.profileStore;
+}
@@ -0,0 +1,52 @@
+// src/lib/profile/store.ts
+// One profile per account, in memory or as DIR/<userId>.json.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isUuid } from '@/lib/utils';
+import { DataCipher, openJson, sealJson } from '@/lib/encryption';
+import { PatientProfile, ProfileStore } from './types';
+
+export function createMemoryProfileStore(): ProfileStore {
+    const profiles = new Map<string, PatientProfile>();
+    return {
+        async read(userId) { const stored = profiles.get(userId); return stored ? structuredClone(stored) : null; },
+        async write(userId, profile) { profiles.set(userId, structuredClone(profile)); },
+        async remove(userId) { return profiles.delete(userId); },
+    };
+}
+
+export function createFileProfileStore(directory: string, cipher: DataCipher): ProfileStore {
+    const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+    // User ids become file names, so only accept UUIDs
+    const filePath = (userId: string) => {
+        if (!isUuid(userId)) { throw new Error(`Invalid user id: ${userId}`); }
+        return path.join(directory, `${userId}.json`);
+    };
+    return {
+        async read(userId) {
+            try {
+                return openJson<PatientProfile>(cipher, await fs.readFile(filePath(userId)));
+            } catch (error) {
+                if (isMissing(error)) return null;
+                throw error;
+            }
+        },
+        async write(userId, profile) {
+            await fs.mkdir(directory, { recursive: true });
+            // Write then rename so a crash never leaves a half-written profile behind
+            const target = filePath(userId);
+            const temp = `${target}.${process.pid}.tmp`;
+            await fs.writeFile(temp, sealJson(cipher, profile));
+            await fs.rename(temp, target);
+        },
+        async remove(userId) {
+            try {
+                await fs.unlink(filePath(userId));
+                return true;
+            } catch (error) {
+                if (isMissing(error)) return false;
+                throw error;
+            }
+        },
+    };
+}
@@ -0,0 +1,21 @@
+// src/lib/profile/types.ts
+
+export type Sex = 'female' | 'male' | 'other';
+export type PregnancyStatus = 'pregnant' | 'not-pregnant' | 'unknown';
+
+export interface PatientProfile {
+    dateOfBirth: string | null; // YYYY-MM-DD
+    sex: Sex | null;
+    pregnancy: PregnancyStatus | null; // Only asked when sex is not 'male'
+    conditions: string[]; // Chronic conditions, e.g. "Asthma"
+    medications: string[]; // Current medications, including over-the-counter ones
+    allergies: string[];
+    updatedAt: string;
+}
+
+// One profile per account
+export interface ProfileStore {
+    read(userId: string): Promise<PatientProfile | null>;
+    write(userId: string, profile: PatientProfile): Promise<void>;
+    remove(userId: string): Promise<boolean>;
+}
@@ -0,0 +1,66 @@
+// src/lib/profile/validation.ts
+// Turns an untrusted request body into a PatientProfile, or explains what is wrong with it.
+import { PatientProfile, PregnancyStatus, Sex } from './types';
+
+const SEXES: Sex[] = ['female', 'male', 'other'];
+const PREGNANCY_STATUSES: PregnancyStatus[] = ['pregnant', 'not-pregnant', 'unknown'];
+const MAX_LIST_ITEMS = 30;
+const MAX_ITEM_LENGTH = 200;
+const OLDEST_AGE_YEARS = 130;
+
+// Accepts an array of strings or one newline/comma separated string; trims and de-duplicates
+function toList(value: unknown, field: string, errors: string[]): string[] {
+    if (value === undefined || value === null) return [];
+    const items = typeof value === 'string' ? value.split(/[\n,]/) : value;
+    if (!Array.isArray(items) || !items.every(item => typeof item === 'string')) {
+        errors.push(`"${field}" should be a list of text items.`);
+        return [];
+    }
+    const seen = new Set<string>();
+    const list = items.map(item => item.trim()).filter(item => {
+        const key = item.toLowerCase();
+        if (!item || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    if (list.length > MAX_LIST_ITEMS) errors.push(`"${field}" can have at most ${MAX_LIST_ITEMS} items.`);
+    if (list.some(item => item.length > MAX_ITEM_LENGTH)) errors.push(`Items in "${field}" can be at most ${MAX_ITEM_LENGTH} characters.`);
+    return list;
+}
+
+function toDateOfBirth(value: unknown, errors: string[], now: Date): string | null {
+    if (value === undefined || value === null || value === '') return null;
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(`${value}T00:00:00Z`))) {
+        errors.push('"dateOfBirth" should be a date in YYYY-MM-DD format.');
+        return null;
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    if (date > now) { errors.push('"dateOfBirth" cannot be in the future.'); return null; }
+    if (now.getUTCFullYear() - date.getUTCFullYear() > OLDEST_AGE_YEARS) { errors.push('"dateOfBirth" is too far in the past.'); return null; }
+    return value;
+}
+
+function toEnum<T extends string>(value: unknown, allowed: T[], field: string, errors: string[]): T | null {
+    if (value === undefined || value === null || value === '') return null;
+    if (typeof value === 'string' && (allowed as string[]).includes(value)) return value as T;
+    errors.push(`"${field}" should be one of: ${allowed.join(', ')}.`);
+    return null;
+}
+
+export function toPatientProfile(value: unknown, now: Date = new Date()): { profile: PatientProfile } | { errors: string[] } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { errors: ['Profile should be an object.'] };
+    const body = value as Record<string, unknown>;
+    const errors: string[] = [];
+    const sex = toEnum(body.sex, SEXES, 'sex', errors);
+    const profile: PatientProfile = {
+        dateOfBirth: toDateOfBirth(body.dateOfBirth, errors, now),
+        sex,
+        // Pregnancy is not recorded for male patients
+        pregnancy: sex === 'male' ? null : toEnum(body.pregnancy, PREGNANCY_STATUSES, 'pregnancy', errors),
+        conditions: toList(body.conditions, 'conditions', errors),
+        medications: toList(body.medications, 'medications', errors),
+        allergies: toList(body.allergies, 'allergies', errors),
+        updatedAt: now.toISOString(),
+    };
+    return errors.length > 0 ? { errors } : { profile };
+}
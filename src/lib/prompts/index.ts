@@ -0,0 +1,32 @@
+// src/lib/prompts/index.ts
+// Prompt registry: looks up versioned templates and fills in their variables. Server-side only;
+// the browser only needs ./modes.
+import { PROMPT_TEMPLATES } from './templates';
+import { ConsultationMode } from './modes';
+import type { ConsultationPromptVariables, PromptTemplate, RenderedPrompt } from './types';
+
+export * from './types';
+export * from './modes';
+
+export const promptRef = (template: PromptTemplate): string => `${template.id}@${template.version}`;
+
+// Latest version unless a specific one is asked for. Unknown ids/versions are programming errors.
+export function getPromptTemplate(id: string, version?: number): PromptTemplate {
+    const candidates = PROMPT_TEMPLATES.filter(template => template.id === id && (version === undefined || template.version === version));
+    if (candidates.length === 0) { throw new Error(`Unknown prompt template '${id}'${version === undefined ? '' : ` version ${version}`}.`); }
+    return candidates.reduce((latest, template) => (template.version > latest.version ? template : latest));
+}
+
+// Throws when the template uses a variable that was not provided, so a typo never reaches the model
+export function renderPromptTemplate(template: PromptTemplate, variables: object): string {
+    const values = variables as Record<string, unknown>;
+    return template.text.replace(/\{\{(\w+)\}\}/g, (_placeholder, name: string) => {
+        if (values[name] === undefined) { throw new Error(`Prompt template ${promptRef(template)} needs variable '${name}'.`); }
+        return String(values[name]);
+    });
+}
+
+export function consultationPromptFor(mode: ConsultationMode, variables: ConsultationPromptVariables): RenderedPrompt {
+    const template = getPromptTemplate(`consultation.${mode}`);
+    return { text: renderPromptTemplate(template, variables), ref: promptRef(template), imagePrompt: template.imagePrompt };
+}
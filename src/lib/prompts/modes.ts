@@ -0,0 +1,15 @@
+// src/lib/prompts/modes.ts
+// Consultation modes the patient can pick. Shared by the chat page (selector) and /api/chat (prompt choice).
+
+export type ConsultationMode = 'general' | 'pediatric' | 'mental-health' | 'dermatology';
+
+export const DEFAULT_MODE: ConsultationMode = 'general';
+
+export const MODE_STORAGE_KEY = "my-docta-consultation-mode";
+
+export const CONSULTATION_MODES: ConsultationMode[] = ['general', 'pediatric', 'mental-health', 'dermatology'];
+
+export const isConsultationMode = (value: unknown): value is ConsultationMode => CONSULTATION_MODES.includes(value as ConsultationMode);
+
+// Unknown or missing modes (older clients, reports saved before modes existed) are general consultations
+export const toConsultationMode = (value: unknown): ConsultationMode => (isConsultationMode(value) ? value : DEFAULT_MODE);
@@ -0,0 +1,24 @@
+// src/lib/prompts/types.ts
+
+export interface PromptTemplate {
+    id: string; // e.g. 'consultation.pediatric'
+    version: number; // Bumped for every wording change; published versions are never edited
+    description: string;
+    text: string; // With {{variable}} placeholders
+    imagePrompt?: string; // Stands in for the patient's words when they send a photo without text
+}
+
+// Values every consultation template can use
+export interface ConsultationPromptVariables {
+    languageName: string;
+    disclaimer: string;
+    reportStartMarker: string;
+    reportEndMarker: string;
+    reportJsonTemplate: string;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    ref: string; // "<id>@<version>", recorded with the report
+    imagePrompt?: string;
+}
@@ -0,0 +1,114 @@
+// src/lib/rate-limit/index.ts
+// Per-client request throttling, configured by env:
+//   RATE_LIMIT_STORE       'memory' (default) or 'none'
+//   RATE_LIMIT_PER_MINUTE  chat requests per client per minute (default 20)
+//   RATE_LIMIT_PER_DAY     chat requests per client per day (default 500)
+//   SIGN_UP_PER_HOUR       accounts created per hour across all clients (default 100)
+//   TRUSTED_PROXY_HOPS     proxies in front of the app that append to X-Forwarded-For (default 0)
+//   CLIENT_ADDRESS_HEADER  header the platform sets to the client address, e.g. cf-connecting-ip (used with 0 hops)
+// A client is its IP address, its account and, when given, its consultation session; each is limited separately.
+// Sign-in, sign-up and email links have their own, fixed limits per address and per email; sign-up also has an overall cap.
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { createMemoryRateLimitStore, createNoopRateLimitStore } from './store';
+import { RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+export * from './types';
+export { createMemoryRateLimitStore } from './store';
+
+const globalForRateLimit = globalThis as unknown as { rateLimitStore?: RateLimitStore };
+
+export function getRateLimitStore(): RateLimitStore {
+    if (!globalForRateLimit.rateLimitStore) {
+        const store = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+        logger.info('rateLimit.store', { store: store === 'none' ? 'none' : 'memory' });
+        globalForRateLimit.rateLimitStore = store === 'none' ? createNoopRateLimitStore() : createMemoryRateLimitStore();
+    }
+    return globalForRateLimit.rateLimitStore;
+}
+
+// Swaps in another store, e.g. a shared one when running several instances
+export function setRateLimitStore(store: RateLimitStore) {
+    globalForRateLimit.rateLimitStore = store;
+}
+
+const positiveNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+};
+
+export const chatRateLimitRules = (): RateLimitRule[] => [
+    { name: 'minute', limit: positiveNumber(process.env.RATE_LIMIT_PER_MINUTE, 20), windowMs: 60 * 1000 },
+    { name: 'day', limit: positiveNumber(process.env.RATE_LIMIT_PER_DAY, 500), windowMs: 24 * 60 * 60 * 1000 },
+];
+
+// Guards against password guessing and flooding someone's inbox with sign-in links
+export const authRateLimitRules = (): RateLimitRule[] => [
+    { name: 'auth-minute', limit: 10, windowMs: 60 * 1000 },
+    { name: 'auth-hour', limit: 50, windowMs: 60 * 60 * 1000 },
+];
+
+// Addresses are easy to rotate, so account creation is also capped for the whole instance (key 'sign-up:all')
+export const signUpRateLimitRules = (): RateLimitRule[] => [
+    { name: 'sign-up-hour', limit: positiveNumber(process.env.SIGN_UP_PER_HOUR, 100), windowMs: 60 * 60 * 1000 },
+];
+
+const trustedProxyHops = (): number => {
+    const parsed = Number(process.env.TRUSTED_PROXY_HOPS);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : 0;
+};
+
+// Each trusted proxy appends the address it saw, so the client is `hops` entries from the right; anything further
+// left was sent by the client and can be made up. With no proxy X-Forwarded-For is never read: Next.js only fills it
+// with the socket address when the client did not send one, and route handlers cannot see the socket. The address
+// then comes from CLIENT_ADDRESS_HEADER when the platform sets one, and is otherwise unknown (null).
+export function clientAddress(request: Request, hops: number = trustedProxyHops(), platformHeader: string | undefined = process.env.CLIENT_ADDRESS_HEADER): string | null {
+    if (hops === 0) return (platformHeader && request.headers.get(platformHeader)?.trim()) || null;
+    const addresses = (request.headers.get('x-forwarded-for') ?? '').split(',').map(address => address.trim()).filter(Boolean);
+    return addresses[Math.max(0, addresses.length - hops)] || null;
+}
+
+// The `ip:` key to limit the request by, or none when its address is unknown; the other keys (account, email,
+// the sign-up cap) still apply, and sharing one key between every unknown client would let one lock out all
+export const addressKeys = (request: Request): string[] => {
+    const address = clientAddress(request);
+    return address ? [`ip:${address}`] : [];
+};
+
+// Counts one request against every key and rule. Denied when any of them is over its limit;
+// the result then describes the one that frees up last.
+export async function checkRateLimit(keys: string[], rules: RateLimitRule[], store: RateLimitStore = getRateLimitStore()): Promise<RateLimitResult> {
+    const now = Date.now();
+    let result: RateLimitResult = { allowed: true, limit: Infinity, remaining: Infinity, retryAfterSeconds: 0 };
+    for (const key of keys) {
+        for (const rule of rules) {
+            const { count, resetAt } = await store.hit(`${key}:${rule.name}`, rule.windowMs);
+            const remaining = Math.max(0, rule.limit - count);
+            if (count > rule.limit) {
+                const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - now) / 1000));
+                if (result.allowed || retryAfterSeconds > result.retryAfterSeconds) {
+                    result = { allowed: false, limit: rule.limit, remaining: 0, retryAfterSeconds };
+                }
+                logger.warn('rateLimit.exceeded', { key, rule: rule.name, limit: rule.limit });
+            } else if (result.allowed && remaining < result.remaining) {
+                result = { allowed: true, limit: rule.limit, remaining, retryAfterSeconds: 0 };
+            }
+        }
+    }
+    return result;
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    if (!Number.isFinite(result.limit)) return {};
+    return {
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': String(result.remaining),
+        ...(!result.allowed && { 'Retry-After': String(result.retryAfterSeconds) }),
+    };
+}
+
+// `extra` goes into the body, e.g. the emergency signal /api/chat found in the message it turned away
+export const tooManyRequests = (result: RateLimitResult, extra: Record<string, unknown> = {}) => NextResponse.json(
+    { error: `Too many requests. Please wait ${result.retryAfterSeconds} seconds and try again.`, retryAfter: result.retryAfterSeconds, ...extra },
+    { status: 429, headers: rateLimitHeaders(result) },
+);
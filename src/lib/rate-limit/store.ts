@@ -0,0 +1,37 @@
+// src/lib/rate-limit/store.ts
+import { RateLimitStore } from './types';
+
+// How often expired windows are swept out of memory
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+    let nextPruneAt = Date.now() + PRUNE_INTERVAL_MS;
+
+    const prune = (now: number) => {
+        for (const [key, window] of windows) { if (window.resetAt <= now) windows.delete(key); }
+        nextPruneAt = now + PRUNE_INTERVAL_MS;
+    };
+
+    return {
+        async hit(key, windowMs) {
+            const now = Date.now();
+            if (now >= nextPruneAt) prune(now);
+            // Keys include the window length, so rules with different windows never share a counter
+            const windowKey = `${key}:${windowMs}`;
+            const current = windows.get(windowKey);
+            if (!current || current.resetAt <= now) {
+                const window = { count: 1, resetAt: now + windowMs };
+                windows.set(windowKey, window);
+                return { ...window };
+            }
+            current.count++;
+            return { ...current };
+        },
+    };
+}
+
+// Lets every request through; for RATE_LIMIT_STORE=none behind a proxy that already throttles
+export function createNoopRateLimitStore(): RateLimitStore {
+    return { async hit(_key, windowMs) { return { count: 0, resetAt: Date.now() + windowMs }; } };
+}
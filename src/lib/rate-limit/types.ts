@@ -0,0 +1,21 @@
+// src/lib/rate-limit/types.ts
+
+// Counts requests per key in fixed windows. In memory by default; a shared store (Redis, a database)
+// can implement the same interface when the app runs on more than one instance.
+export interface RateLimitStore {
+    // Records one request for `key` and returns the count in the current window and when that window ends
+    hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export interface RateLimitRule {
+    name: string; // Shown in logs, e.g. 'minute'
+    limit: number;
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number; // Of the most restrictive rule
+    remaining: number;
+    retryAfterSeconds: number; // 0 when allowed
+}
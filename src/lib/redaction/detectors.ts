@@ -0,0 +1,73 @@
+// src/lib/redaction/detectors.ts
+// Pattern-based detection of personal details in free text. Tuned to miss little in what patients
+// type (intros, phone numbers, ID numbers, street addresses) while leaving doses, dates, temperatures
+// and blood pressures alone, since the model needs those.
+import type { PiiKind, PiiMatch } from './types';
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// "NIN: 12345678901", "passport number A01234567", "hospital no. LUTH/2231/19"
+const LABELLED_ID = /\b(?:NIN|BVN|NHS|SSN|MRN|passport|national id|id card|hospital|patient|insurance|policy|licen[cs]e|ID)\s*(?:number|no\.?|num|#)?\s*(?:is|:|-)?\s*([A-Z0-9][A-Z0-9/-]{4,}[A-Z0-9])\b/gi;
+const SSN = /\b\d{3}-\d{2}-\d{4}\b/g;
+
+// Runs of 9-15 digits with phone separators. Not next to letters or hyphens, so ids like UUIDs are left alone.
+const DIGIT_RUN = /(?<![\w+-])\+?\(?\d[\d\s().-]{7,}\d(?![\w-])/g;
+
+const STREET_TYPES = 'Street|St|Road|Rd|Avenue|Ave|Close|Crescent|Cres|Way|Lane|Ln|Drive|Boulevard|Blvd|Estate|Layout|Highway|Expressway';
+const STREET = new RegExp(`\\b\\d{1,5}[A-Za-z]?,?\\s+(?:[A-Z][\\w'’-]*\\s+){1,4}(?:${STREET_TYPES})\\b\\.?`, 'g');
+const LABELLED_ADDRESS = /\b(?:I live at|I stay at|my address is|home address is|address:|j'habite au|j'habite à|mon adresse est|I dey stay for)\s+([^.;!?\n]+)/gi;
+const PO_BOX = /\bP\.?\s?O\.?\s+Box\s+\d+/gi;
+
+// What follows an introduction is a name even in lower case; elsewhere only capitalised words count
+const NAME_WORD = "[\\p{L}][\\p{L}'’-]*";
+const CAPITALISED_NAME = `\\p{Lu}[\\p{L}'’-]*(?:\\s+\\p{Lu}[\\p{L}'’-]*){0,2}`;
+const INTRODUCTION = new RegExp(`(?:\\b[Mm]y name is|\\b[Mm]y name's|\\b[Jj]e m'appelle|\\b[Mm]on nom est|\\b[Mm]y name na|[Oo]rúkọ mi ni|\\b[Ss]unana|\\b[Ss]unan)\\s+(${CAPITALISED_NAME}|${NAME_WORD})`, 'gu');
+const CALL_ME = new RegExp(`\\b[Cc]all me\\s+(${CAPITALISED_NAME})`, 'gu');
+const RELATIVE = new RegExp(`\\b[Mm]y (?:son|daughter|child|baby|boy|girl|wife|husband|partner|mother|mum|mom|father|dad|brother|sister|friend)(?:,?\\s+(?:is called|called|named|whose name is))?,?\\s+(${CAPITALISED_NAME})`, 'gu');
+const TITLED = new RegExp(`\\b(?:Dr|Doctor|Mr|Mrs|Ms|Miss|Nurse|Chief|Alhaji|Alhaja|Pastor|Mama|Baba)\\.?\\s+(${CAPITALISED_NAME})`, 'gu');
+
+// Capitalised words that follow "my son", "Dr" etc. without being names
+const NOT_NAMES = new Set(['I', 'He', 'She', 'It', 'They', 'We', 'You', 'Has', 'Had', 'Is', 'Was', 'And', 'But', 'The', 'This', 'That', 'Who', 'Also', 'Said', 'Says', 'Told', 'Gave', 'Keeps', 'Can', 'Cannot', 'Did', 'Does']);
+
+const digitCount = (text: string): number => text.replace(/\D/g, '').length;
+
+// Drops leading words that are not names: "my son Has a cough" is not about someone called Has
+function cleanName(value: string): string | null {
+    const words = value.trim().split(/\s+/);
+    const end = words.findIndex(word => NOT_NAMES.has(word));
+    const name = (end === -1 ? words : words.slice(0, end)).join(' ');
+    return name.length >= 2 ? name : null;
+}
+
+function collect(text: string, pattern: RegExp, kind: PiiKind, matches: PiiMatch[], group = 0, clean?: (value: string) => string | null) {
+    for (const match of text.matchAll(pattern)) {
+        const raw = match[group];
+        if (!raw) continue;
+        const value = clean ? clean(raw) : raw.trim();
+        if (value) matches.push({ kind, value, index: match.index + match[0].indexOf(raw) });
+    }
+}
+
+// Every personal detail found in `text`, in order of appearance
+export function findPii(text: string): PiiMatch[] {
+    const matches: PiiMatch[] = [];
+    collect(text, EMAIL, 'email', matches);
+    collect(text, LABELLED_ID, 'id', matches, 1, value => (digitCount(value) >= 3 ? value : null));
+    collect(text, SSN, 'id', matches);
+    for (const match of text.matchAll(DIGIT_RUN)) {
+        const value = match[0].replace(/[\s.(-]+$/, '');
+        const digits = digitCount(value);
+        if (digits < 9 || digits > 15) continue;
+        // A bare run of digits that does not start like a phone number is more likely an ID number
+        const looksLikePhone = /^[+(0]/.test(value) || /[\s().-]/.test(value);
+        matches.push({ kind: looksLikePhone ? 'phone' : 'id', value, index: match.index });
+    }
+    collect(text, STREET, 'address', matches);
+    collect(text, LABELLED_ADDRESS, 'address', matches, 1);
+    collect(text, PO_BOX, 'address', matches);
+    collect(text, INTRODUCTION, 'name', matches, 1, cleanName);
+    collect(text, CALL_ME, 'name', matches, 1, cleanName);
+    collect(text, RELATIVE, 'name', matches, 1, cleanName);
+    collect(text, TITLED, 'name', matches, 1, cleanName);
+    return matches.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,91 @@
+// src/lib/redaction/index.ts
+// Replaces names, phone numbers, emails, addresses and ID numbers with placeholders such as [NAME_1]
+// before text reaches the model provider, and puts the real values back into its reply.
+//   PII_REDACTION  'on' (default) or 'off'
+import { findPii } from './detectors';
+import type { PiiKind, Redactor, StreamRestorer } from './types';
+
+export * from './types';
+export { findPii } from './detectors';
+
+const PLACEHOLDER_PREFIX: Record<PiiKind, string> = { name: 'NAME', phone: 'PHONE', email: 'EMAIL', address: 'ADDRESS', id: 'ID' };
+const PLACEHOLDER = /\[(NAME|PHONE|EMAIL|ADDRESS|ID)_(\d+)\]/g;
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+// Added to the system instruction whenever something was replaced, so the model keeps the placeholders intact
+export const REDACTION_INSTRUCTION = `**🔒 PRIVACY:**
+Personal details in this conversation (names, phone numbers, emails, addresses, ID numbers) have been replaced by placeholders such as [NAME_1] or [PHONE_1]. When you refer to one of them, write the placeholder exactly as it appears; never guess or invent the real value.`;
+
+export const isRedactionEnabled = (): boolean => (process.env.PII_REDACTION || 'on').toLowerCase() !== 'off';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `knownNames`: names the app already knows, such as the account's, redacted wherever they appear
+export function createRedactor(knownNames: (string | null | undefined)[] = []): Redactor {
+    const placeholders = new Map<string, string>(); // value -> placeholder
+    const values = new Map<string, string>(); // placeholder -> value
+    const counters: Record<PiiKind, number> = { name: 0, phone: 0, email: 0, address: 0, id: 0 };
+    let patterns: { value: string; pattern: RegExp }[] = [];
+
+    const register = (kind: PiiKind, value: string) => {
+        if (placeholders.has(value)) return;
+        const placeholder = `[${PLACEHOLDER_PREFIX[kind]}_${++counters[kind]}]`;
+        placeholders.set(value, placeholder);
+        values.set(placeholder, value);
+        // Whole words only, so "Ada" does not match inside "Adamawa" nor an ID number inside a longer one
+        const source = `(?<![\\p{L}\\p{N}_])${escapeRegExp(value)}(?![\\p{L}\\p{N}_])`;
+        // Longest first, so "Ada Obi" becomes one placeholder rather than two
+        patterns = [...patterns, { value, pattern: new RegExp(source, 'gu') }].sort((a, b) => b.value.length - a.value.length);
+    };
+
+    const registerName = (name: string) => {
+        register('name', name);
+        // First names on their own are how people are usually referred to later
+        for (const part of name.split(/\s+/)) { if (part.length >= 2 && part !== name) register('name', part); }
+    };
+
+    const learn = (text: string) => {
+        for (const match of findPii(text)) {
+            if (match.kind === 'name') registerName(match.value);
+            else register(match.kind, match.value);
+        }
+    };
+
+    for (const name of knownNames) { if (name?.trim()) registerName(name.trim()); }
+
+    const restore = (text: string): string => text.replace(PLACEHOLDER, placeholder => values.get(placeholder) ?? placeholder);
+
+    return {
+        learn,
+        redact(text) {
+            learn(text);
+            return patterns.reduce((redacted, { value, pattern }) => redacted.replace(pattern, placeholders.get(value)!), text);
+        },
+        restore,
+        createStreamRestorer(): StreamRestorer {
+            let pending = '';
+            return {
+                push(text) {
+                    pending += text;
+                    // Hold back a trailing "[" that may still become a placeholder
+                    const open = pending.lastIndexOf('[');
+                    const hold = open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH ? open : pending.length;
+                    const ready = pending.substring(0, hold);
+                    pending = pending.substring(hold);
+                    return restore(ready);
+                },
+                flush() {
+                    const rest = restore(pending);
+                    pending = '';
+                    return rest;
+                },
+            };
+        },
+        summary() {
+            return Object.fromEntries(Object.entries(counters).filter(([, count]) => count > 0));
+        },
+    };
+}
+
+// One-off redaction, e.g. for logs: placeholders are numbered within `text` only
+export const redactText = (text: string): string => createRedactor().redact(text);
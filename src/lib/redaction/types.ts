@@ -0,0 +1,25 @@
+// src/lib/redaction/types.ts
+
+export type PiiKind = 'name' | 'phone' | 'email' | 'address' | 'id';
+
+export interface PiiMatch {
+    kind: PiiKind;
+    value: string;
+    index: number; // Position in the text it was found in
+}
+
+// One conversation's redactions: the same value always gets the same placeholder, so the model
+// can still tell people and numbers apart, and its reply can be mapped back.
+export interface Redactor {
+    learn(text: string): void; // Registers what `text` contains without changing it, e.g. names used before they are introduced
+    redact(text: string): string;
+    restore(text: string): string;
+    createStreamRestorer(): StreamRestorer;
+    summary(): Partial<Record<PiiKind, number>>; // How many distinct values of each kind were replaced, for logs
+}
+
+// Restores placeholders in streamed text, holding back a placeholder split across chunks
+export interface StreamRestorer {
+    push(text: string): string;
+    flush(): string;
+}
@@ -0,0 +1,173 @@
+// src/lib/report.ts
+// Consultation report schema, shared by /api/chat (validation) and the chat page (rendering).
+import type { Locale } from '@/lib/i18n/locales';
+import type { DrugWarning } from '@/lib/drugs/types';
+import type { ConsultationMode } from '@/lib/prompts/modes';
+
+export interface ConsultationReport {
+    chiefComplaint: string;
+    historyOfPresentIllness: string;
+    medicalHistory: string;
+    mostLikelyDiagnosis: string;
+    differentialDiagnoses: string[];
+    treatmentPlan: string[];
+    redFlags: string[];
+}
+
+// What the route returns: every field that validated, plus what went wrong with the rest
+export interface ParsedReport {
+    report: Partial<ConsultationReport>;
+    complete: boolean;
+    issues: string[];
+    raw: string; // Text between the markers, kept so nothing is lost when parsing fails
+    locale?: Locale; // Language the consultation was held in (set by /api/chat); English when missing
+    drugWarnings?: DrugWarning[]; // Problems with medicines in the treatment plan (set by /api/chat)
+    mode?: ConsultationMode; // Consultation mode the report was produced in; general when missing
+    prompt?: string; // System prompt template and version, e.g. "consultation.pediatric@1"
+}
+
+type TextField = 'chiefComplaint' | 'historyOfPresentIllness' | 'medicalHistory' | 'mostLikelyDiagnosis';
+type ListField = 'differentialDiagnoses' | 'treatmentPlan' | 'redFlags';
+
+const TEXT_FIELDS: TextField[] = ['chiefComplaint', 'historyOfPresentIllness', 'medicalHistory', 'mostLikelyDiagnosis'];
+const LIST_FIELDS: ListField[] = ['differentialDiagnoses', 'treatmentPlan', 'redFlags'];
+const REQUIRED_FIELDS: (keyof ConsultationReport)[] = ['chiefComplaint', 'historyOfPresentIllness', 'mostLikelyDiagnosis', 'treatmentPlan'];
+
+// Display order and English headings for the report sections (translations: ConsultationText.reportSections)
+export const REPORT_SECTIONS: { key: keyof ConsultationReport; title: string }[] = [
+    { key: 'chiefComplaint', title: 'Chief Complaint' },
+    { key: 'historyOfPresentIllness', title: 'History of Present Illness' },
+    { key: 'medicalHistory', title: 'Medical History' },
+    { key: 'mostLikelyDiagnosis', title: 'Most Likely Diagnosis' },
+    { key: 'differentialDiagnoses', title: 'Possible Other Diagnoses' },
+    { key: 'treatmentPlan', title: 'Treatment Plan & Next Steps' },
+    { key: 'redFlags', title: 'Red Flags' },
+];
+
+// Example object embedded in the system prompt so the model knows the exact keys
+export const REPORT_JSON_TEMPLATE = `{
+  "chiefComplaint": "string",
+  "historyOfPresentIllness": "string",
+  "medicalHistory": "string (empty if none reported)",
+  "mostLikelyDiagnosis": "string",
+  "differentialDiagnoses": ["string"],
+  "treatmentPlan": ["string"],
+  "redFlags": ["string: symptoms that mean the patient should seek urgent care"]
+}`;
+
+// Models sometimes wrap JSON in a markdown code fence
+const stripCodeFence = (text: string): string => {
+    const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+    return fenced ? fenced[1] : text;
+};
+
+const toList = (value: unknown): string[] | null => {
+    if (typeof value === 'string') { return value.trim() ? [value.trim()] : []; }
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+        return value.map(item => item.trim()).filter(Boolean);
+    }
+    return null;
+};
+
+function validateReportObject(value: Record<string, unknown>, issues: string[]): Partial<ConsultationReport> {
+    const report: Partial<ConsultationReport> = {};
+    for (const field of TEXT_FIELDS) {
+        const fieldValue = value[field];
+        if (fieldValue === undefined || fieldValue === null) continue;
+        if (typeof fieldValue === 'string') { if (fieldValue.trim()) report[field] = fieldValue.trim(); }
+        else { issues.push(`"${field}" should be text.`); }
+    }
+    for (const field of LIST_FIELDS) {
+        const fieldValue = value[field];
+        if (fieldValue === undefined || fieldValue === null) continue;
+        const list = toList(fieldValue);
+        if (list) { report[field] = list; }
+        else { issues.push(`"${field}" should be a list of text items.`); }
+    }
+    return report;
+}
+
+// Fallback for reports written as "**Chief Complaint:** ..." lines instead of JSON
+const LEGACY_HEADINGS: { pattern: RegExp; key: keyof ConsultationReport }[] = [
+    { pattern: /^chief complaint/i, key: 'chiefComplaint' },
+    { pattern: /^history of present illness|^hpi\b/i, key: 'historyOfPresentIllness' },
+    { pattern: /^(past )?medical history/i, key: 'medicalHistory' },
+    { pattern: /^most likely diagnosis/i, key: 'mostLikelyDiagnosis' },
+    { pattern: /^(possible other diagnoses|differential)/i, key: 'differentialDiagnoses' },
+    { pattern: /^treatment plan/i, key: 'treatmentPlan' },
+    { pattern: /^red flags/i, key: 'redFlags' },
+];
+
+function parseLegacyReport(text: string): Partial<ConsultationReport> {
+    const sections: Partial<Record<keyof ConsultationReport, string[]>> = {};
+    let currentKey: keyof ConsultationReport | null = null;
+    for (const line of text.split('\n')) {
+        const cleaned = line.replace(/^[\s•*-]+/, '').replace(/\*\*/g, '').trim();
+        if (!cleaned) continue;
+        const heading = LEGACY_HEADINGS.find(({ pattern }) => pattern.test(cleaned));
+        if (heading) {
+            currentKey = heading.key;
+            const colonIndex = cleaned.indexOf(':');
+            const rest = colonIndex === -1 ? '' : cleaned.substring(colonIndex + 1).trim();
+            sections[currentKey] = rest ? [rest] : [];
+        } else if (currentKey) {
+            sections[currentKey]!.push(cleaned);
+        }
+    }
+    const report: Partial<ConsultationReport> = {};
+    for (const field of TEXT_FIELDS) { if (sections[field]?.length) report[field] = sections[field]!.join(' '); }
+    for (const field of LIST_FIELDS) {
+        const lines = sections[field];
+        if (!lines?.length) continue;
+        report[field] = (lines.length === 1 ? lines[0].split(/[,;]\s*/) : lines).map(item => item.trim()).filter(Boolean);
+    }
+    return report;
+}
+
+// Pulls completed "key": value pairs out of JSON that was cut off or is otherwise invalid
+function salvageJsonFields(text: string): Partial<ConsultationReport> {
+    const salvaged: Record<string, unknown> = {};
+    for (const field of [...TEXT_FIELDS, ...LIST_FIELDS]) {
+        const match = text.match(new RegExp(`"${field}"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*"|\\[[^\\]]*\\])`));
+        if (!match) continue;
+        try { salvaged[field] = JSON.parse(match[1]); } catch { /* value itself is incomplete */ }
+    }
+    return validateReportObject(salvaged, []);
+}
+
+// Parses and validates the text the model put between the report markers.
+// Never throws: whatever can be recovered is returned with `complete: false` and a list of issues.
+export function parseConsultationReport(raw: string, terminated: boolean = true): ParsedReport {
+    const issues: string[] = [];
+    const text = stripCodeFence(raw.trim());
+    let report: Partial<ConsultationReport> = {};
+
+    const jsonStart = text.indexOf('{');
+    const jsonEnd = text.lastIndexOf('}');
+    let parsedJson: unknown = null;
+    if (jsonStart !== -1 && jsonEnd > jsonStart) {
+        try { parsedJson = JSON.parse(text.substring(jsonStart, jsonEnd + 1)); }
+        catch { issues.push('Report JSON could not be parsed.'); }
+    } else if (jsonStart !== -1) {
+        issues.push('Report JSON was incomplete.');
+    } else {
+        issues.push('Report was not in JSON format.');
+    }
+
+    if (parsedJson && typeof parsedJson === 'object' && !Array.isArray(parsedJson)) {
+        report = validateReportObject(parsedJson as Record<string, unknown>, issues);
+    } else if (parsedJson !== null) {
+        issues.push('Report JSON was not an object.');
+    } else if (jsonStart !== -1) {
+        report = salvageJsonFields(text);
+    } else {
+        report = parseLegacyReport(text);
+    }
+
+    if (!terminated) { issues.push('Report was cut off before it finished.'); }
+    const missing = REQUIRED_FIELDS.filter(field => !report[field] || (Array.isArray(report[field]) && !(report[field] as string[]).length));
+    if (missing.length > 0) { issues.push(`Missing sections: ${missing.join(', ')}.`); }
+
+    if (issues.length > 0) { console.warn("Consultation report failed validation:", issues); }
+    return { report, complete: issues.length === 0, issues, raw };
+}
@@ -0,0 +1,34 @@
+// src/lib/reviews/client.ts
+// Browser-side helpers for clinician review. Only imports types.
+import type { ReportReview, ReviewCase, ReviewDecision, ReviewSummary } from './types';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+        ...init,
+        headers: init?.body ? { 'Content-Type': 'application/json', ...init.headers } : init?.headers,
+    });
+    if (!response.ok) {
+        let errorMsg = `Request failed: ${response.statusText} (${response.status})`;
+        try { errorMsg = (await response.json()).error || errorMsg; } catch { /* empty or non-JSON body */ }
+        throw new Error(errorMsg);
+    }
+    return (await response.json()) as T;
+}
+
+// Patient: sends the consultation's saved report to the review queue
+export async function requestReview(sessionId: string): Promise<ReportReview> {
+    return (await request<{ review: ReportReview }>(`/api/sessions/${sessionId}/review`, { method: 'POST' })).review;
+}
+
+// Clinician: the queue, the full case and the decision
+export async function fetchReviewQueue(filter: 'pending' | 'reviewed'): Promise<ReviewSummary[]> {
+    return (await request<{ reviews: ReviewSummary[] }>(`/api/reviews?status=${filter}`)).reviews;
+}
+
+export async function fetchReviewCase(sessionId: string): Promise<ReviewCase> {
+    return await request<ReviewCase>(`/api/reviews/${sessionId}`);
+}
+
+export async function saveReviewDecision(sessionId: string, decision: ReviewDecision): Promise<ReportReview> {
+    return (await request<{ review: ReportReview }>(`/api/reviews/${sessionId}`, { method: 'PUT', body: JSON.stringify(decision) })).review;
+}
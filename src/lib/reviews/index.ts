@@ -0,0 +1,48 @@
+// src/lib/reviews/index.ts
+// Server side of clinician review. Reviews are stored on the consultation session they belong to.
+import { getSessionRepository } from '@/lib/sessions';
+import type { ConsultationSession } from '@/lib/sessions/types';
+import type { ReportReview, ReviewDecision, ReviewSummary } from './types';
+
+export * from './types';
+export { toReviewDecision, MAX_REVIEW_NOTES_LENGTH } from './validation';
+
+const toReviewSummary = (session: ConsultationSession, review: ReportReview): ReviewSummary => ({
+    sessionId: session.id,
+    status: review.status,
+    chiefComplaint: review.report.report.chiefComplaint ?? null,
+    mostLikelyDiagnosis: review.report.report.mostLikelyDiagnosis ?? null,
+    hasEmergency: !!session.emergency,
+    submittedAt: review.submittedAt,
+    reviewedAt: review.reviewedAt,
+});
+
+// Oldest waiting report first; reviewed ones most recent first
+export async function listReviews(filter: 'pending' | 'reviewed'): Promise<ReviewSummary[]> {
+    const sessions = await getSessionRepository().listSessionsForReview();
+    const summaries = sessions.map(session => toReviewSummary(session, session.review!));
+    return filter === 'pending'
+        ? summaries.filter(summary => summary.status === 'pending').sort((a, b) => a.submittedAt.localeCompare(b.submittedAt))
+        : summaries.filter(summary => summary.status !== 'pending').sort((a, b) => (b.reviewedAt ?? '').localeCompare(a.reviewedAt ?? ''));
+}
+
+// Sends the session's current report for review, replacing any earlier review. Null when there is no report.
+// Only reports /api/chat saved are sent (they carry `reportMessageId`, even when null); older ones came from the browser.
+export async function submitForReview(sessionId: string): Promise<ReportReview | null> {
+    const repository = getSessionRepository();
+    const session = await repository.getSession(sessionId);
+    if (!session?.report || session.reportMessageId === undefined) return null;
+    const review: ReportReview = {
+        status: 'pending', report: session.report, submittedAt: new Date().toISOString(),
+        reviewedAt: null, reviewerName: null, notes: null, amendments: null,
+    };
+    return (await repository.updateSession(sessionId, { review }))?.review ?? null;
+}
+
+export async function recordReviewDecision(sessionId: string, decision: ReviewDecision, reviewerName: string): Promise<ReportReview | null> {
+    const repository = getSessionRepository();
+    const review = (await repository.getSession(sessionId))?.review;
+    if (!review) return null;
+    const reviewed: ReportReview = { ...review, ...decision, reviewedAt: new Date().toISOString(), reviewerName };
+    return (await repository.updateSession(sessionId, { review: reviewed }))?.review ?? null;
+}
@@ -0,0 +1,44 @@
+// src/lib/reviews/types.ts
+// Clinician review of a consultation report, shared by the review routes, the queue page and the chat page.
+import type { ConsultationReport, ParsedReport } from '@/lib/report';
+import type { PatientProfile } from '@/lib/profile/types';
+import type { ConsultationSession } from '@/lib/sessions/types';
+
+export type ReviewStatus = 'pending' | 'approved' | 'amended' | 'rejected';
+export type ReviewDecisionStatus = Exclude<ReviewStatus, 'pending'>;
+
+// The parts of the report a clinician can correct
+export type ReportAmendments = Partial<Pick<ConsultationReport, 'mostLikelyDiagnosis' | 'differentialDiagnoses' | 'treatmentPlan'>>;
+
+export interface ReportReview {
+    status: ReviewStatus;
+    report: ParsedReport; // The report as it was when the patient sent it
+    submittedAt: string;
+    reviewedAt: string | null;
+    reviewerName: string | null; // Shown to the patient
+    notes: string | null; // Clinician's notes for the patient
+    amendments: ReportAmendments | null; // Only when amended
+}
+
+export interface ReviewDecision {
+    status: ReviewDecisionStatus;
+    notes: string | null;
+    amendments: ReportAmendments | null;
+}
+
+// What the review queue lists
+export interface ReviewSummary {
+    sessionId: string;
+    status: ReviewStatus;
+    chiefComplaint: string | null;
+    mostLikelyDiagnosis: string | null;
+    hasEmergency: boolean;
+    submittedAt: string;
+    reviewedAt: string | null;
+}
+
+// One queue entry opened by a clinician: the whole consultation and the patient's profile
+export interface ReviewCase {
+    session: ConsultationSession;
+    profile: PatientProfile | null;
+}
@@ -0,0 +1,31 @@
+// src/lib/reviews/validation.ts
+import { ReportAmendments, ReviewDecision, ReviewDecisionStatus } from './types';
+
+export const MAX_REVIEW_NOTES_LENGTH = 4000;
+const DECISIONS: ReviewDecisionStatus[] = ['approved', 'amended', 'rejected'];
+
+const toLines = (value: unknown): string[] | null =>
+    Array.isArray(value) && value.every(item => typeof item === 'string') ? value.map(item => item.trim()).filter(Boolean) : null;
+
+// Validates a clinician's decision: amending needs at least one correction, rejecting needs a note
+export function toReviewDecision(body: unknown): { decision: ReviewDecision } | { error: string } {
+    if (!body || typeof body !== 'object') return { error: 'Invalid request body.' };
+    const { status, notes, amendments } = body as Record<string, unknown>;
+    if (!DECISIONS.includes(status as ReviewDecisionStatus)) return { error: "Status must be 'approved', 'amended' or 'rejected'." };
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') return { error: 'Notes must be text.' };
+    const trimmedNotes = typeof notes === 'string' && notes.trim() ? notes.trim() : null;
+    if (trimmedNotes && trimmedNotes.length > MAX_REVIEW_NOTES_LENGTH) return { error: `Notes can be at most ${MAX_REVIEW_NOTES_LENGTH} characters.` };
+    if (status === 'rejected' && !trimmedNotes) return { error: 'Add a note explaining why the report was rejected.' };
+
+    if (status !== 'amended') return { decision: { status: status as ReviewDecisionStatus, notes: trimmedNotes, amendments: null } };
+
+    const fields = (amendments && typeof amendments === 'object' ? amendments : {}) as Record<string, unknown>;
+    const changes: ReportAmendments = {};
+    if (typeof fields.mostLikelyDiagnosis === 'string' && fields.mostLikelyDiagnosis.trim()) changes.mostLikelyDiagnosis = fields.mostLikelyDiagnosis.trim();
+    const differentialDiagnoses = toLines(fields.differentialDiagnoses);
+    if (differentialDiagnoses?.length) changes.differentialDiagnoses = differentialDiagnoses;
+    const treatmentPlan = toLines(fields.treatmentPlan);
+    if (treatmentPlan?.length) changes.treatmentPlan = treatmentPlan;
+    if (Object.keys(changes).length === 0) return { error: 'Amend the diagnosis or the treatment plan, or approve the report as it is.' };
+    return { decision: { status: 'amended', notes: trimmedNotes, amendments: changes } };
+}
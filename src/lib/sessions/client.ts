@@ -0,0 +1,48 @@
+// src/lib/sessions/client.ts
+// Browser-side helpers for the /api/sessions routes. Only imports types, never the file store.
+import type { EmergencySignal } from '@/lib/triage';
+import type { ConsultationSession, SessionSummary, StoredMessage } from './types';
+
+// Throws with the API's error message when the response is not ok
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+        ...init,
+        headers: init?.body ? { 'Content-Type': 'application/json', ...init.headers } : init?.headers,
+    });
+    if (!response.ok) {
+        let errorMsg = `Request failed: ${response.statusText} (${response.status})`;
+        try { errorMsg = (await response.json()).error || errorMsg; } catch { /* empty or non-JSON body */ }
+        throw new Error(errorMsg);
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+export async function fetchSessions(): Promise<SessionSummary[]> {
+    return (await request<{ sessions: SessionSummary[] }>('/api/sessions')).sessions;
+}
+
+export async function fetchSession(id: string): Promise<ConsultationSession> {
+    return (await request<{ session: ConsultationSession }>(`/api/sessions/${id}`)).session;
+}
+
+export async function createSession(): Promise<ConsultationSession> {
+    return (await request<{ session: ConsultationSession }>('/api/sessions', { method: 'POST', body: '{}' })).session;
+}
+
+export async function renameSession(id: string, title: string): Promise<ConsultationSession> {
+    return (await request<{ session: ConsultationSession }>(`/api/sessions/${id}`, { method: 'PATCH', body: JSON.stringify({ title }) })).session;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+    await request<void>(`/api/sessions/${id}`, { method: 'DELETE' });
+}
+
+// Client messages carry Date timestamps; JSON turns them into the stored ISO strings
+type OutgoingMessage = Omit<StoredMessage, 'timestamp'> & { timestamp?: Date | string };
+
+// Pushes the page's current transcript and emergency signal to the server copy of the session.
+// The report is saved by /api/chat when the model writes it.
+export async function saveSessionState(id: string, messages: OutgoingMessage[], emergency: EmergencySignal | null): Promise<void> {
+    await request(`/api/sessions/${id}/messages`, { method: 'PUT', body: JSON.stringify({ messages }) });
+    await request(`/api/sessions/${id}`, { method: 'PATCH', body: JSON.stringify({ emergency }) });
+}
@@ -0,0 +1,38 @@
+// src/lib/sessions/index.ts
+// Server-side session store, chosen by env config:
+//   SESSION_STORE  'file' (default) or 'memory'
+//   DATA_DIR       root directory for file storage (default '.data'), sessions live in DATA_DIR/sessions
+// Files are encrypted when DATA_ENCRYPTION_KEY is set (see src/lib/encryption).
+import path from 'path';
+import { getDataCipher } from '@/lib/encryption';
+import { createSessionRepository } from './repository';
+import { createFileStorage, createMemoryStorage } from './storage';
+import { ConsultationSession, SessionRepository } from './types';
+
+export * from './types';
+export { isValidSessionId } from './storage';
+export { toMessageChanges, toStoredMessage, toStoredMessages, isEmergencySignal } from './validation';
+export type { MessageChanges } from './validation';
+
+export const dataDirectory = (): string => path.resolve(process.env.DATA_DIR || '.data');
+
+// Kept on globalThis so dev-mode hot reloads don't lose in-memory sessions or locks
+const globalForSessions = globalThis as unknown as { sessionRepository?: SessionRepository };
+
+export function getSessionRepository(): SessionRepository {
+    if (!globalForSessions.sessionRepository) {
+        const store = (process.env.SESSION_STORE || 'file').toLowerCase();
+        const storage = store === 'memory'
+            ? createMemoryStorage()
+            : createFileStorage(path.join(dataDirectory(), 'sessions'), getDataCipher());
+        console.log(`Session store: ${store === 'memory' ? 'memory' : 'file'}`);
+        globalForSessions.sessionRepository = createSessionRepository(storage);
+    }
+    return globalForSessions.sessionRepository;
+}
+
+// Consultations of other accounts are treated as unknown
+export async function getOwnedSession(id: string, ownerId: string): Promise<ConsultationSession | null> {
+    const session = await getSessionRepository().getSession(id);
+    return session?.ownerId === ownerId ? session : null;
+}
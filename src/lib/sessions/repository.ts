@@ -0,0 +1,125 @@
+// src/lib/sessions/repository.ts
+import { SessionStorage } from './storage';
+import { ConsultationSession, SessionChanges, SessionRepository, SessionSummary, StoredMessage } from './types';
+
+const toSummary = (session: ConsultationSession): SessionSummary => {
+    const firstUserText = session.messages.find(msg => msg.sender === 'user' && msg.text?.trim())?.text?.trim();
+    return {
+        id: session.id,
+        title: session.title,
+        // Prefer the report's chief complaint, fall back to how the patient opened the consultation
+        chiefComplaint: session.report?.report.chiefComplaint ?? (firstUserText ? firstUserText.slice(0, 80) : null),
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length,
+        hasEmergency: !!session.emergency,
+    };
+};
+
+export function createSessionRepository(storage: SessionStorage): SessionRepository {
+    // Serialises read-modify-write cycles per session so concurrent requests don't drop updates
+    const locks = new Map<string, Promise<unknown>>();
+    const withLock = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+        const previous = locks.get(id) ?? Promise.resolve();
+        const next = previous.catch(() => undefined).then(task);
+        locks.set(id, next);
+        next.finally(() => { if (locks.get(id) === next) locks.delete(id); }).catch(() => undefined);
+        return next;
+    };
+
+    // Loads a session, lets `change` edit it and saves it. Returns null for unknown ids.
+    const modify = <T>(id: string, change: (session: ConsultationSession) => T): Promise<T | null> => withLock(id, async () => {
+        const session = await storage.read(id);
+        if (!session) return null;
+        const result = change(session);
+        session.updatedAt = new Date().toISOString();
+        await storage.write(session);
+        return result;
+    });
+
+    return {
+        async listSessions(ownerId) {
+            const sessions = (await storage.readAll()).filter(session => session.ownerId === ownerId);
+            return sessions.map(toSummary).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        },
+
+        getSession: (id) => storage.read(id),
+
+        async createSession(ownerId, changes: SessionChanges = {}) {
+            const now = new Date().toISOString();
+            const session: ConsultationSession = {
+                id: crypto.randomUUID(),
+                ownerId,
+                title: changes.title ?? null,
+                createdAt: now,
+                updatedAt: now,
+                report: changes.report ?? null,
+                emergency: changes.emergency ?? null,
+                messages: [],
+            };
+            await storage.write(session);
+            return session;
+        },
+
+        updateSession: (id, changes) => modify(id, (session) => {
+            if (changes.title !== undefined) session.title = changes.title?.trim() || null;
+            if (changes.report !== undefined) session.report = changes.report;
+            if (changes.reportMessageId !== undefined) session.reportMessageId = changes.reportMessageId;
+            if (changes.emergency !== undefined) session.emergency = changes.emergency;
+            if (changes.review !== undefined) session.review = changes.review;
+            return session;
+        }),
+
+        deleteSession: (id) => withLock(id, () => storage.remove(id)),
+
+        async listSessionsForReview() {
+            return (await storage.readAll()).filter(session => !!session.review);
+        },
+
+        async deleteSessionsOf(ownerId) {
+            const owned = (await storage.readAll()).filter(session => session.ownerId === ownerId);
+            for (const session of owned) { await withLock(session.id, () => storage.remove(session.id)); }
+            return owned.map(session => session.id);
+        },
+
+        async listMessages(sessionId) {
+            return (await storage.read(sessionId))?.messages ?? null;
+        },
+
+        appendMessages: (sessionId, messages) => modify(sessionId, (session) => {
+            const existingIds = new Set(session.messages.map(msg => msg.id));
+            session.messages.push(...messages.filter(msg => !existingIds.has(msg.id)));
+            return session.messages;
+        }),
+
+        replaceMessages: (sessionId, messages) => modify(sessionId, (session) => {
+            // The report goes with the turn that produced it, as it does on the page
+            if (session.reportMessageId && !messages.some(msg => msg.id === session.reportMessageId)) {
+                session.report = null;
+                session.reportMessageId = null;
+            }
+            session.messages = messages;
+            return session.messages;
+        }),
+
+        async updateMessage(sessionId, messageId, changes) {
+            const updated = await modify(sessionId, (session): StoredMessage | null => {
+                const message = session.messages.find(msg => msg.id === messageId);
+                if (!message) return null;
+                Object.assign(message, changes, { id: messageId });
+                return message;
+            });
+            return updated ?? null;
+        },
+
+        async deleteMessage(sessionId, messageId) {
+            const deleted = await modify(sessionId, (session) => {
+                const before = session.messages.length;
+                session.messages = session.messages.filter(msg => msg.id !== messageId);
+                if (session.reportMessageId === messageId) { session.report = null; session.reportMessageId = null; }
+                return session.messages.length !== before;
+            });
+            return deleted === true;
+        },
+    };
+}
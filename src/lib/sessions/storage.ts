@@ -0,0 +1,76 @@
+// src/lib/sessions/storage.ts
+// Storage backends for the session repository: whole sessions in, whole sessions out.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isUuid } from '@/lib/utils';
+import { DataCipher, openJson, sealJson } from '@/lib/encryption';
+import { ConsultationSession } from './types';
+
+export interface SessionStorage {
+    read(id: string): Promise<ConsultationSession | null>;
+    write(session: ConsultationSession): Promise<void>;
+    remove(id: string): Promise<boolean>;
+    readAll(): Promise<ConsultationSession[]>;
+}
+
+// Session ids become file names, so only accept UUIDs
+export const isValidSessionId = (id: string): boolean => isUuid(id);
+
+export function createMemoryStorage(): SessionStorage {
+    const sessions = new Map<string, ConsultationSession>();
+    // structuredClone keeps callers from mutating stored state
+    return {
+        async read(id) { const session = sessions.get(id); return session ? structuredClone(session) : null; },
+        async write(session) { sessions.set(session.id, structuredClone(session)); },
+        async remove(id) { return sessions.delete(id); },
+        async readAll() { return [...sessions.values()].map(session => structuredClone(session)); },
+    };
+}
+
+// One JSON file per session in `directory`, sealed with `cipher` when encryption at rest is on
+export function createFileStorage(directory: string, cipher: DataCipher): SessionStorage {
+    const filePath = (id: string) => {
+        if (!isValidSessionId(id)) { throw new Error(`Invalid session id: ${id}`); }
+        return path.join(directory, `${id}.json`);
+    };
+    const ensureDirectory = () => fs.mkdir(directory, { recursive: true });
+
+    const readFile = async (file: string): Promise<ConsultationSession | null> => {
+        try {
+            return openJson<ConsultationSession>(cipher, await fs.readFile(file));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    };
+
+    return {
+        async read(id) {
+            return isValidSessionId(id) ? readFile(filePath(id)) : null;
+        },
+        async write(session) {
+            await ensureDirectory();
+            // Write then rename so a crash never leaves a half-written session behind
+            const target = filePath(session.id);
+            const temp = `${target}.${process.pid}.tmp`;
+            await fs.writeFile(temp, sealJson(cipher, session));
+            await fs.rename(temp, target);
+        },
+        async remove(id) {
+            if (!isValidSessionId(id)) return false;
+            try {
+                await fs.unlink(filePath(id));
+                return true;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+                throw error;
+            }
+        },
+        async readAll() {
+            await ensureDirectory();
+            const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+            const sessions = await Promise.all(files.map(file => readFile(path.join(directory, file))));
+            return sessions.filter((session): session is ConsultationSession => session !== null);
+        },
+    };
+}
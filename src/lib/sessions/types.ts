@@ -0,0 +1,73 @@
+// src/lib/sessions/types.ts
+// Consultation session shapes shared by the session API routes and the browser.
+import type { ParsedReport } from '@/lib/report';
+import type { EmergencySignal } from '@/lib/triage';
+import type { DrugWarning } from '@/lib/drugs/types';
+import type { ReportReview } from '@/lib/reviews/types';
+import type { MessageAttachment } from '@/lib/attachments/types';
+
+// A chat message as persisted on the server (timestamps travel as ISO strings)
+export interface StoredMessage {
+    id: string;
+    text?: string;
+    imageUrl?: string;
+    audioDataUrl?: string;
+    imageAttachmentId?: string;
+    audioAttachmentId?: string;
+    attachments?: MessageAttachment[];
+    transcript?: string;
+    drugWarnings?: DrugWarning[];
+    sender: 'user' | 'ai';
+    timestamp?: string;
+    status?: string;
+}
+
+export interface ConsultationSession {
+    id: string;
+    ownerId: string; // Account the consultation belongs to
+    title: string | null; // User-chosen name, null until renamed
+    createdAt: string;
+    updatedAt: string;
+    report: ParsedReport | null; // Only written by /api/chat, from the model's reply
+    reportMessageId?: string | null; // Patient message whose turn produced the report; deleting it drops the report. Unset on reports from before /api/chat saved them
+    emergency: EmergencySignal | null; // Red flags raised during the consultation
+    review?: ReportReview | null; // Clinician review, once the patient has sent the report for one
+    messages: StoredMessage[];
+}
+
+// What the history sidebar lists
+export interface SessionSummary {
+    id: string;
+    title: string | null;
+    chiefComplaint: string | null;
+    createdAt: string;
+    updatedAt: string;
+    messageCount: number;
+    hasEmergency: boolean;
+}
+
+export interface SessionChanges {
+    title?: string | null;
+    report?: ParsedReport | null;
+    reportMessageId?: string | null;
+    emergency?: EmergencySignal | null;
+    review?: ReportReview | null;
+}
+
+// CRUD over sessions and their messages. Lookups of unknown ids resolve to null/false.
+export interface SessionRepository {
+    listSessions(ownerId: string): Promise<SessionSummary[]>;
+    getSession(id: string): Promise<ConsultationSession | null>;
+    createSession(ownerId: string, changes?: SessionChanges): Promise<ConsultationSession>;
+    updateSession(id: string, changes: SessionChanges): Promise<ConsultationSession | null>;
+    deleteSession(id: string): Promise<boolean>;
+    // Consultations of every account that have been sent for clinician review
+    listSessionsForReview(): Promise<ConsultationSession[]>;
+    // Removes every consultation of an account and returns their ids
+    deleteSessionsOf(ownerId: string): Promise<string[]>;
+    listMessages(sessionId: string): Promise<StoredMessage[] | null>;
+    appendMessages(sessionId: string, messages: StoredMessage[]): Promise<StoredMessage[] | null>;
+    replaceMessages(sessionId: string, messages: StoredMessage[]): Promise<StoredMessage[] | null>;
+    updateMessage(sessionId: string, messageId: string, changes: Partial<Omit<StoredMessage, 'id'>>): Promise<StoredMessage | null>;
+    deleteMessage(sessionId: string, messageId: string): Promise<boolean>;
+}
@@ -0,0 +1,71 @@
+// src/lib/sessions/validation.ts
+// Shape checks for request bodies of the session API routes.
+import type { EmergencySignal } from '@/lib/triage';
+import type { DrugWarning } from '@/lib/drugs/types';
+import type { MessageAttachment } from '@/lib/attachments/types';
+import { StoredMessage } from './types';
+
+export type MessageChanges = Partial<Omit<StoredMessage, 'id'>>;
+
+const MESSAGE_STRING_FIELDS = ['text', 'imageUrl', 'audioDataUrl', 'imageAttachmentId', 'audioAttachmentId', 'transcript', 'timestamp', 'status'] as const;
+
+// Validates the optional message fields; null if any present field has the wrong type
+export function toMessageChanges(value: unknown): MessageChanges | null {
+    if (!value || typeof value !== 'object') return null;
+    const candidate = value as Record<string, unknown>;
+    const changes: MessageChanges = {};
+    if (candidate.sender !== undefined) {
+        if (candidate.sender !== 'user' && candidate.sender !== 'ai') return null;
+        changes.sender = candidate.sender;
+    }
+    for (const field of MESSAGE_STRING_FIELDS) {
+        const fieldValue = candidate[field];
+        if (fieldValue === undefined || fieldValue === null) continue;
+        if (typeof fieldValue !== 'string') return null;
+        changes[field] = fieldValue;
+    }
+    if (candidate.drugWarnings !== undefined && candidate.drugWarnings !== null) {
+        if (!isDrugWarningList(candidate.drugWarnings)) return null;
+        changes.drugWarnings = candidate.drugWarnings;
+    }
+    if (candidate.attachments !== undefined && candidate.attachments !== null) {
+        if (!isMessageAttachmentList(candidate.attachments)) return null;
+        changes.attachments = candidate.attachments;
+    }
+    return changes;
+}
+
+export function toStoredMessage(value: unknown): StoredMessage | null {
+    const changes = toMessageChanges(value);
+    const id = (value as Record<string, unknown> | null)?.id;
+    if (!changes || typeof id !== 'string' || !id || !changes.sender) return null;
+    return { ...changes, id, sender: changes.sender };
+}
+
+// Null when any element is invalid, so a bad request never half-applies
+export function toStoredMessages(value: unknown): StoredMessage[] | null {
+    if (!Array.isArray(value)) return null;
+    const messages = value.map(toStoredMessage);
+    return messages.every((msg): msg is StoredMessage => msg !== null) ? messages : null;
+}
+
+// Warnings were produced by /api/chat; only their shape is checked here
+export function isDrugWarningList(value: unknown): value is DrugWarning[] {
+    return Array.isArray(value) && value.every(warning => !!warning && typeof warning === 'object'
+        && typeof warning.drug === 'string' && typeof warning.advice === 'string' && typeof warning.conflictsWith === 'string'
+        && (warning.severity === 'avoid' || warning.severity === 'caution'));
+}
+
+// Photos and documents of a message; the files themselves went through /api/attachments
+export function isMessageAttachmentList(value: unknown): value is MessageAttachment[] {
+    return Array.isArray(value) && value.every(attachment => !!attachment && typeof attachment === 'object'
+        && (attachment.kind === 'image' || attachment.kind === 'document') && typeof attachment.mimeType === 'string'
+        && (attachment.size === undefined || typeof attachment.size === 'number')
+        && ['fileName', 'attachmentId', 'previewUrl'].every(field => attachment[field] === undefined || typeof attachment[field] === 'string'));
+}
+
+export function isEmergencySignal(value: unknown): value is EmergencySignal {
+    if (!value || typeof value !== 'object') return false;
+    const candidate = value as Record<string, unknown>;
+    return candidate.level === 'emergency' && Array.isArray(candidate.matches) && Array.isArray(candidate.contacts);
+}
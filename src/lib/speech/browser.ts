@@ -0,0 +1,46 @@
+// src/lib/speech/browser.ts
+// Thin wrapper around window.speechSynthesis. Pausing is implemented as stop + restart from the last
+// word boundary, because pause()/resume() are unreliable across browsers.
+
+export interface BrowserSpeakOptions {
+    voice: string | null;
+    rate: number;
+    fromChar?: number; // Start part-way through the text (resume/seek)
+    onProgress?: (charIndex: number) => void;
+    // Not called when the handle's own stop() ended playback
+    onStop?: (reason: 'ended' | 'interrupted' | 'error', error?: string) => void;
+}
+
+export interface BrowserSpeechHandle {
+    stop(): void;
+}
+
+export const isBrowserSpeechSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const listBrowserVoices = (): SpeechSynthesisVoice[] => (isBrowserSpeechSupported() ? window.speechSynthesis.getVoices() : []);
+
+// Rough speaking speed used for the progress bar, since speechSynthesis does not report a duration
+const CHARACTERS_PER_SECOND = 14;
+export const estimateSpeechSeconds = (characters: number, rate: number): number => characters / (CHARACTERS_PER_SECOND * rate);
+
+export function speakInBrowser(text: string, options: BrowserSpeakOptions): BrowserSpeechHandle {
+    const synth = window.speechSynthesis;
+    synth.cancel(); // Only one reply is read at a time; this interrupts any other player
+    const fromChar = Math.max(0, Math.min(options.fromChar ?? 0, text.length));
+    const utterance = new SpeechSynthesisUtterance(text.slice(fromChar));
+    const voice = options.voice ? synth.getVoices().find(candidate => candidate.voiceURI === options.voice) : undefined;
+    if (voice) { utterance.voice = voice; utterance.lang = voice.lang; }
+    utterance.rate = options.rate;
+
+    let stopped = false;
+    utterance.onboundary = (event) => { if (!stopped) options.onProgress?.(fromChar + event.charIndex); };
+    utterance.onend = () => { if (!stopped) { stopped = true; options.onStop?.('ended'); } };
+    utterance.onerror = (event) => {
+        if (stopped) return;
+        stopped = true;
+        const interrupted = event.error === 'interrupted' || event.error === 'canceled';
+        options.onStop?.(interrupted ? 'interrupted' : 'error', interrupted ? undefined : event.error);
+    };
+    synth.speak(utterance);
+    return { stop: () => { if (!stopped) { stopped = true; synth.cancel(); } } };
+}
@@ -0,0 +1,29 @@
+// src/lib/speech/client.ts
+// Browser-side helpers for /api/speech.
+import type { SpeechSettings } from './settings';
+
+export interface ServerSpeechInfo {
+    available: boolean;
+    name: string | null;
+    voices: string[];
+}
+
+export async function fetchServerSpeechInfo(): Promise<ServerSpeechInfo> {
+    const response = await fetch('/api/speech');
+    if (!response.ok) { throw new Error(`Speech info request failed (${response.status})`); }
+    return (await response.json()) as ServerSpeechInfo;
+}
+
+// Synthesizes a reply on the server and returns the audio
+export async function synthesizeSpeech(text: string, settings: SpeechSettings): Promise<Blob> {
+    const response = await fetch('/api/speech', {
+        method: 'POST', headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, voice: settings.voice ?? undefined, rate: settings.rate }),
+    });
+    if (!response.ok) {
+        let errorMsg = `Speech request failed: ${response.statusText} (${response.status})`;
+        try { errorMsg = (await response.json()).error || errorMsg; } catch { /* non-JSON body */ }
+        throw new Error(errorMsg);
+    }
+    return response.blob();
+}
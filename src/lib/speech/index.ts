@@ -0,0 +1,25 @@
+// src/lib/speech/index.ts
+// Chooses the server text-to-speech backend from env config:
+//   TTS_PROVIDER   'none' (default; clients use the browser's speechSynthesis) or 'mock'
+// A hosted engine plugs in as another SpeechBackend here.
+import { ProviderError } from '@/lib/llm';
+import { createMockSpeechBackend } from './mock-backend';
+import { SpeechBackend } from './types';
+
+export * from './types';
+export * from './settings';
+
+// Returns null when no server engine is configured
+export function getSpeechBackend(): SpeechBackend | null {
+    const providerName = (process.env.TTS_PROVIDER || 'none').toLowerCase();
+
+    switch (providerName) {
+        case 'none':
+            return null;
+        case 'mock':
+            return createMockSpeechBackend();
+        default:
+            console.error(`Unknown TTS_PROVIDER '${providerName}'.`);
+            throw new ProviderError(`Unknown speech provider '${providerName}'.`, 500);
+    }
+}
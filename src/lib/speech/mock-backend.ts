@@ -0,0 +1,41 @@
+// src/lib/speech/mock-backend.ts
+// Offline stand-in for a real TTS engine: one beep per word, as an 8 kHz 8-bit mono WAV.
+// Long enough to exercise the player, auto-play and rate handling without any network access.
+import { SpeechBackend, SpeechRequest } from './types';
+
+const SAMPLE_RATE = 8000;
+const WORD_SECONDS = 0.25;
+const GAP_SECONDS = 0.1;
+const MAX_SECONDS = 120;
+
+// Each voice is just a different pitch
+const VOICE_FREQUENCIES: Record<string, number> = { Ada: 520, Tunde: 330 };
+
+function beepsToWav(words: number, rate: number, frequency: number): Buffer {
+    const wordSamples = Math.round(WORD_SECONDS / rate * SAMPLE_RATE);
+    const gapSamples = Math.round(GAP_SECONDS / rate * SAMPLE_RATE);
+    const sampleCount = Math.min(Math.max(words, 1) * (wordSamples + gapSamples), MAX_SECONDS * SAMPLE_RATE);
+
+    const wav = Buffer.alloc(44 + sampleCount);
+    wav.write('RIFF', 0); wav.writeUInt32LE(36 + sampleCount, 4); wav.write('WAVE', 8);
+    wav.write('fmt ', 12); wav.writeUInt32LE(16, 16); wav.writeUInt16LE(1, 20); wav.writeUInt16LE(1, 22);
+    wav.writeUInt32LE(SAMPLE_RATE, 24); wav.writeUInt32LE(SAMPLE_RATE, 28); wav.writeUInt16LE(1, 32); wav.writeUInt16LE(8, 34);
+    wav.write('data', 36); wav.writeUInt32LE(sampleCount, 40);
+    for (let i = 0; i < sampleCount; i++) {
+        const inWord = i % (wordSamples + gapSamples) < wordSamples;
+        wav[44 + i] = inWord ? 128 + Math.round(40 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE)) : 128;
+    }
+    return wav;
+}
+
+export function createMockSpeechBackend(): SpeechBackend {
+    return {
+        name: 'mock',
+        voices: Object.keys(VOICE_FREQUENCIES),
+        async synthesize({ text, voice, rate }: SpeechRequest) {
+            const words = text.split(/\s+/).filter(Boolean).length;
+            const frequency = VOICE_FREQUENCIES[voice ?? 'Ada'] ?? VOICE_FREQUENCIES.Ada;
+            return { audio: beepsToWav(words, rate, frequency), mimeType: 'audio/wav' };
+        },
+    };
+}
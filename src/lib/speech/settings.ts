@@ -0,0 +1,33 @@
+// src/lib/speech/settings.ts
+// Read-aloud settings, shared by the settings menu, the players and /api/speech.
+
+// 'browser' uses window.speechSynthesis; 'server' asks /api/speech for an audio file
+export type SpeechEngineId = 'browser' | 'server';
+
+export interface SpeechSettings {
+    enabled: boolean; // Show a player under every AI reply
+    autoPlay: boolean; // Read the reply straight away when the question was a voice message
+    engine: SpeechEngineId;
+    voice: string | null; // voiceURI for the browser engine, a backend voice name for the server engine; null = default
+    rate: number;
+}
+
+export const SPEECH_SETTINGS_KEY = "my-docta-speech-settings";
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+    enabled: false,
+    autoPlay: true,
+    engine: 'browser',
+    voice: null,
+    rate: 1,
+};
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5];
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+
+// Replies longer than this are not synthesized on the server
+export const MAX_SPEECH_TEXT_LENGTH = 5000;
+
+// Settings saved by an older version may miss fields
+export const withSpeechDefaults = (settings: Partial<SpeechSettings> | null | undefined): SpeechSettings => ({ ...DEFAULT_SPEECH_SETTINGS, ...settings });
@@ -0,0 +1,19 @@
+// src/lib/speech/types.ts
+// Server-side text-to-speech backends used by /api/speech.
+
+export interface SpeechRequest {
+    text: string;
+    voice?: string; // One of the backend's voices; its default when omitted
+    rate: number;
+}
+
+export interface SynthesizedAudio {
+    audio: Buffer;
+    mimeType: string;
+}
+
+export interface SpeechBackend {
+    name: string;
+    voices: string[];
+    synthesize(request: SpeechRequest): Promise<SynthesizedAudio>;
+}
@@ -0,0 +1,12 @@
+// src/lib/transcription/client.ts
+// Browser-side helper for the transcript endpoint of an uploaded voice message.
+
+export async function transcribeAttachment(attachmentId: string): Promise<string> {
+    const response = await fetch(`/api/attachments/${attachmentId}/transcript`, { method: 'POST' });
+    if (!response.ok) {
+        let errorMsg = `Transcription failed: ${response.statusText} (${response.status})`;
+        try { errorMsg = (await response.json()).error || errorMsg; } catch { /* non-JSON body */ }
+        throw new Error(errorMsg);
+    }
+    return (await response.json()).transcript as string;
+}
@@ -0,0 +1,26 @@
+// src/lib/transcription/index.ts
+// Chooses the speech-to-text backend from env config:
+//   TRANSCRIPTION_PROVIDER     'llm' (the chat model from LLM_PROVIDER) or 'mock';
+//                              defaults to 'mock' when LLM_PROVIDER=mock, otherwise 'llm'
+//   TRANSCRIPTION_MOCK_TEXT    fixed transcript returned by 'mock'
+import { getChatProvider, ProviderError } from '@/lib/llm';
+import { createLlmTranscriber } from './llm-transcriber';
+import { createMockTranscriber } from './mock-transcriber';
+import { Transcriber } from './types';
+
+export * from './types';
+
+export function getTranscriber(): Transcriber {
+    const llmProvider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+    const providerName = (process.env.TRANSCRIPTION_PROVIDER || (llmProvider === 'mock' ? 'mock' : 'llm')).toLowerCase();
+
+    switch (providerName) {
+        case 'llm':
+            return createLlmTranscriber(getChatProvider());
+        case 'mock':
+            return createMockTranscriber(process.env.TRANSCRIPTION_MOCK_TEXT || undefined);
+        default:
+            console.error(`Unknown TRANSCRIPTION_PROVIDER '${providerName}'.`);
+            throw new ProviderError(`Unknown transcription provider '${providerName}'.`, 500);
+    }
+}
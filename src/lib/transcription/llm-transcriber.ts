@@ -0,0 +1,27 @@
+// src/lib/transcription/llm-transcriber.ts
+// Transcribes with the configured chat model, which already accepts inline audio.
+import { ChatProvider, ProviderError } from '@/lib/llm';
+import { Transcriber, TranscriptionRequest } from './types';
+
+const TRANSCRIPTION_INSTRUCTION = `Transcribe this voice message from a patient word for word, in the language it was spoken.
+Reply with the transcript only: no quotes, labels, translation or commentary.
+If there is no intelligible speech, reply with exactly: [no speech]`;
+
+const NO_SPEECH = '[no speech]';
+
+export function createLlmTranscriber(provider: ChatProvider): Transcriber {
+    return {
+        name: `${provider.name}:${provider.modelName}`,
+        async transcribe({ data, mimeType }: TranscriptionRequest): Promise<string> {
+            const result = await provider.generate({
+                contents: [{ role: 'user', parts: [{ inlineData: { mimeType, data: data.toString('base64') } }, { text: TRANSCRIPTION_INSTRUCTION }] }],
+            });
+            if (result.blockReason || (result.finishReason && result.finishReason !== 'STOP')) {
+                console.warn(`Transcription stopped due to ${result.blockReason ?? result.finishReason}.`);
+                throw new ProviderError('The voice message could not be transcribed.', 422);
+            }
+            const transcript = result.text?.trim() ?? '';
+            return transcript === NO_SPEECH ? '' : transcript;
+        },
+    };
+}
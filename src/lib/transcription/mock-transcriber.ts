@@ -0,0 +1,15 @@
+// src/lib/transcription/mock-transcriber.ts
+// Offline stand-in for development and tests: returns a fixed transcript without looking at the audio.
+
+import { Transcriber } from './types';
+
+export const DEFAULT_MOCK_TRANSCRIPT = "I've had a headache and a mild fever since yesterday.";
+
+export function createMockTranscriber(transcript: string = DEFAULT_MOCK_TRANSCRIPT): Transcriber {
+    return {
+        name: 'mock',
+        async transcribe({ data }) {
+            return data.length > 0 ? transcript : '';
+        },
+    };
+}
@@ -0,0 +1,13 @@
+// src/lib/transcription/types.ts
+// Speech-to-text backends for voice messages. Errors use ProviderError from '@/lib/llm' so routes handle both alike.
+
+export interface TranscriptionRequest {
+    data: Buffer;
+    mimeType: string;
+}
+
+export interface Transcriber {
+    name: string;
+    // Resolves to the spoken text, or an empty string when no speech was recognised
+    transcribe(request: TranscriptionRequest): Promise<string>;
+}
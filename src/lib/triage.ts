@@ -0,0 +1,151 @@
+// src/lib/triage.ts
+// Rule-based red-flag triage. Runs before (and independently of) the LLM, on the server and as a
+// client-side fallback, so an emergency is flagged even when the model call fails or is blocked.
+
+export interface RedFlagMatch {
+    id: string;
+    label: string;
+    advice: string;
+    excerpt: string; // The words that triggered the rule
+}
+
+export interface EmergencyContact {
+    label: string;
+    number: string;
+}
+
+export interface EmergencySignal {
+    level: 'emergency';
+    matches: RedFlagMatch[];
+    contacts: EmergencyContact[];
+    detectedAt: string;
+}
+
+interface RedFlagRule {
+    id: string;
+    label: string;
+    advice: string;
+    patterns: RegExp[];
+}
+
+const RED_FLAG_RULES: RedFlagRule[] = [
+    {
+        id: 'chest-pain',
+        label: 'Chest pain or pressure',
+        advice: 'Chest pain can be a sign of a heart attack. Call emergency services now, do not drive yourself.',
+        patterns: [/\bchest (pain|tightness|pressure|hurts?|is (tight|heavy))\b/, /\bpain (in|across) (my|the) chest\b/, /\bcrushing (pain|chest)\b/, /\bheart attack\b/],
+    },
+    {
+        id: 'stroke',
+        label: 'Possible stroke',
+        advice: 'Face drooping, arm weakness or slurred speech can mean a stroke. Note the time symptoms started and call emergency services now.',
+        patterns: [/\b(face|mouth) (is )?(droop|drooping|dropped)\b/, /\bslurr(ed|ing) (speech|words)\b/, /\b(sudden )?(weakness|numbness) (on|in) (one|the (left|right)) side\b/, /\bcan'?t (move|lift) my (arm|leg)\b/, /\b(having|had) a stroke\b/],
+    },
+    {
+        id: 'breathing',
+        label: 'Severe difficulty breathing',
+        advice: 'Struggling to breathe is an emergency. Sit upright and call emergency services now.',
+        patterns: [/\b(can'?t|cannot|unable to) breathe?\b/, /\b(severe|serious) (shortness of breath|difficulty breathing)\b/, /\bgasping for (air|breath)\b/, /\b(lips|face) (are |is )?(turning )?blue\b/, /\bchoking\b/],
+    },
+    {
+        id: 'anaphylaxis',
+        label: 'Severe allergic reaction',
+        advice: 'Swelling of the throat, tongue or lips can block breathing. Use an adrenaline auto-injector if you have one and call emergency services.',
+        patterns: [/\banaphyla(xis|ctic)\b/, /\b(throat|tongue|lips?) (is |are )?(swelling|swollen|closing)\b/, /\bsevere allergic reaction\b/],
+    },
+    {
+        id: 'bleeding',
+        label: 'Heavy bleeding',
+        advice: 'Press firmly on any wound and call emergency services. Vomiting or coughing up blood needs urgent care.',
+        patterns: [/\b(heavy|severe|uncontroll?able|won'?t stop) bleeding\b/, /\bbleeding (heavily|won'?t stop|that won'?t stop)\b/, /\b(vomiting|throwing up|coughing up|coughed up|vomited) blood\b/],
+    },
+    {
+        id: 'unresponsive',
+        label: 'Loss of consciousness or seizure',
+        advice: 'Someone who has collapsed, is unresponsive or is having a seizure needs emergency help. Call now and keep them safe from injury.',
+        patterns: [/\b(unconscious|unresponsive|passed out|collapsed)\b/, /\b(having|had) a (seizure|fit|convulsion)\b/, /\b(seizures?|convulsions?|convulsing)\b/],
+    },
+    {
+        id: 'self-harm',
+        label: 'Thoughts of suicide or self-harm',
+        advice: 'You are not alone. Please call emergency services or a crisis line now, or ask someone nearby to stay with you.',
+        patterns: [/\b(suicid(e|al)|kill myself|end (my|it) (life|all)|want to die|self[- ]harm|hurt(ing)? myself)\b/],
+    },
+    {
+        id: 'thunderclap-headache',
+        label: 'Sudden, severe headache',
+        advice: 'A sudden, extremely severe headache can signal bleeding in the brain. Seek emergency care now.',
+        patterns: [/\bworst headache (of|in) my life\b/, /\bthunderclap headache\b/, /\bsudden (and )?(severe|excruciating) headache\b/],
+    },
+    {
+        id: 'poisoning',
+        label: 'Overdose or poisoning',
+        advice: 'Call emergency services now and keep the packaging of whatever was taken.',
+        patterns: [/\boverdos(e|ed)\b/, /\b(swallowed|drank|ingested) (poison|bleach|kerosene|insecticide)\b/, /\btook too many (pills|tablets)\b/],
+    },
+    {
+        id: 'meningitis',
+        label: 'Stiff neck with fever or non-fading rash',
+        advice: 'A stiff neck with fever, or a rash that does not fade under pressure, can be meningitis. Seek emergency care now.',
+        patterns: [/\bstiff neck\b.*\bfever\b|\bfever\b.*\bstiff neck\b/, /\brash (that )?(does ?n[o']t|won'?t) fade\b/],
+    },
+];
+
+// Emergency numbers by ISO country code; '*' is used for unknown countries
+const EMERGENCY_CONTACTS: Record<string, EmergencyContact[]> = {
+    NG: [{ label: 'National emergency', number: '112' }, { label: 'Lagos State emergency', number: '767' }],
+    GH: [{ label: 'National emergency', number: '112' }],
+    GB: [{ label: 'Emergency services', number: '999' }, { label: 'NHS non-emergency', number: '111' }],
+    US: [{ label: 'Emergency services', number: '911' }, { label: 'Suicide & Crisis Lifeline', number: '988' }],
+    '*': [{ label: 'Emergency services', number: '112' }],
+};
+
+// Shared by server and client, so it reads the public env var
+export const emergencyContactsFor = (country: string | undefined = process.env.NEXT_PUBLIC_EMERGENCY_COUNTRY): EmergencyContact[] => {
+    return EMERGENCY_CONTACTS[(country || 'NG').toUpperCase()] ?? EMERGENCY_CONTACTS['*'];
+};
+
+// "no chest pain", "I don't have a stiff neck", "not having any seizures": the negation sits right before the phrase,
+// with at most two filler words. Anything else ("I don't know why but I can't breathe", "without warning I passed
+// out") is not a negation: a missed emergency is worse than a needless warning.
+const NEGATION_PATTERN = /\b(?:no|not|never|without|denies|deny|don'?t|do not|doesn'?t|didn'?t|haven'?t|hasn'?t|isn'?t|wasn'?t|aren'?t)\s+(?:(?:have|has|had|having|feel|feeling|get|getting|take|taking|took|use|using|on|any|an?|really)\s+){0,2}$/;
+
+// Whether the words just before `index` negate what follows (also used by the drug checker)
+export const isNegatedAt = (text: string, index: number): boolean => NEGATION_PATTERN.test(text.substring(0, index));
+
+// Every match of `pattern`, not just the first, so a negated mention cannot hide a later real one (also used by the drug checker)
+export const matchesOf = (pattern: RegExp, text: string): RegExpExecArray[] =>
+    Array.from(text.matchAll(pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)));
+
+// "No chest pain yesterday. Today chest pain started" matches on the second mention
+function findRuleMatch(rule: RedFlagRule, text: string): string | null {
+    for (const pattern of rule.patterns) {
+        for (const match of matchesOf(pattern, text)) {
+            if (!isNegatedAt(text, match.index)) return match[0];
+        }
+    }
+    return null;
+}
+
+// Scans patient-authored text (typed messages, audio transcripts). Returns null when nothing matched.
+export function detectEmergency(texts: (string | undefined | null)[], country?: string): EmergencySignal | null {
+    const normalized = texts.filter((text): text is string => typeof text === 'string' && !!text.trim()).map(text => text.toLowerCase().replace(/[’‘]/g, "'"));
+    const matches: RedFlagMatch[] = [];
+    for (const rule of RED_FLAG_RULES) {
+        for (const text of normalized) {
+            const excerpt = findRuleMatch(rule, text);
+            if (excerpt) { matches.push({ id: rule.id, label: rule.label, advice: rule.advice, excerpt }); break; }
+        }
+    }
+    if (matches.length === 0) return null;
+    console.warn(`Red flags detected: ${matches.map(match => match.id).join(', ')}`);
+    return { level: 'emergency', matches, contacts: emergencyContactsFor(country), detectedAt: new Date().toISOString() };
+}
+
+// Once raised, an emergency stays raised for the consultation; later matches are added to it
+export function mergeEmergencySignals(current: EmergencySignal | null, incoming: EmergencySignal | null): EmergencySignal | null {
+    if (!current || !incoming) return current ?? incoming;
+    const knownIds = new Set(current.matches.map(match => match.id));
+    const newMatches = incoming.matches.filter(match => !knownIds.has(match.id));
+    return newMatches.length === 0 ? current : { ...current, matches: [...current.matches, ...newMatches] };
+}
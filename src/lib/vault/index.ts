@@ -0,0 +1,112 @@
+// src/lib/vault/index.ts
+// Passphrase encryption for health data kept in this browser's localStorage (WebCrypto, browser only).
+// The passphrase is stretched with PBKDF2 into a non-extractable AES-GCM key that only lives in memory
+// while the vault is unlocked. localStorage holds the salt, a check value and the encrypted items.
+
+export const VAULT_STORAGE_KEY = 'my-docta-vault';
+// localStorage entries holding health data; everything else (language, theme, voice) stays readable
+export const SECURE_STORAGE_KEYS = ['my-docta-chat-session', 'my-docta-emergency'];
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_MINUTES = [5, 15, 30, 60];
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const PBKDF2_ITERATIONS = 600000;
+const CHECK_TEXT = 'my-docta-vault';
+
+// What is stored under VAULT_STORAGE_KEY while encryption is on
+export interface VaultRecord {
+    version: 1;
+    salt: string; // base64
+    iterations: number;
+    check: EncryptedValue; // CHECK_TEXT, to tell a wrong passphrase from damaged data
+    autoLockMinutes: number;
+}
+
+// How an encrypted item is stored in place of its JSON
+export interface EncryptedValue {
+    vault: 1;
+    iv: string; // base64
+    data: string; // base64 AES-GCM ciphertext with its tag
+}
+
+export const isVaultSupported = (): boolean => typeof window !== 'undefined' && !!window.crypto?.subtle;
+
+// Chunked, since large items (photos kept as data: URLs) overflow String.fromCharCode's argument limit
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let offset = 0; offset < bytes.length; offset += 0x8000) binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+    return btoa(binary);
+};
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+    const candidate = value as EncryptedValue | null;
+    return !!candidate && typeof candidate === 'object' && candidate.vault === 1 && typeof candidate.iv === 'string' && typeof candidate.data === 'string';
+}
+
+export function readVaultRecord(): VaultRecord | null {
+    try {
+        const record = JSON.parse(localStorage.getItem(VAULT_STORAGE_KEY) ?? 'null') as VaultRecord | null;
+        return record?.version === 1 && isEncryptedValue(record.check) ? record : null;
+    } catch {
+        return null;
+    }
+}
+
+export const writeVaultRecord = (record: VaultRecord | null) => {
+    if (record) localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(record));
+    else localStorage.removeItem(VAULT_STORAGE_KEY);
+};
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+export async function encryptValue(key: CryptoKey, value: unknown): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+    return { vault: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+// Throws when the key is wrong or the data was changed
+export async function decryptValue<T>(key: CryptoKey, value: EncryptedValue): Promise<T> {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+    return JSON.parse(new TextDecoder().decode(data)) as T;
+}
+
+export async function createVault(passphrase: string, autoLockMinutes: number): Promise<{ record: VaultRecord; key: CryptoKey }> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const record: VaultRecord = { version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await encryptValue(key, CHECK_TEXT), autoLockMinutes };
+    return { record, key };
+}
+
+// Null when the passphrase is wrong
+export async function openVault(record: VaultRecord, passphrase: string): Promise<CryptoKey | null> {
+    const key = await deriveKey(passphrase, fromBase64(record.salt), record.iterations);
+    try {
+        return (await decryptValue<string>(key, record.check)) === CHECK_TEXT ? key : null;
+    } catch {
+        return null;
+    }
+}
+
+// Reads a localStorage item, decrypting it when it is encrypted. Undefined when missing or unreadable.
+export async function readStoredValue<T>(storageKey: string, key: CryptoKey | null): Promise<T | undefined> {
+    const raw = localStorage.getItem(storageKey);
+    if (raw === null) return undefined;
+    try {
+        const parsed: unknown = JSON.parse(raw);
+        if (!isEncryptedValue(parsed)) return parsed as T;
+        return key ? await decryptValue<T>(key, parsed) : undefined;
+    } catch (error) {
+        console.error(`Could not read ${storageKey} from this device:`, error);
+        return undefined;
+    }
+}
+
+// Writes a localStorage item, encrypted when a key is given
+export async function writeStoredValue(storageKey: string, value: unknown, key: CryptoKey | null): Promise<void> {
+    localStorage.setItem(storageKey, JSON.stringify(key ? await encryptValue(key, value) : value));
+}